@@ -0,0 +1,452 @@
+// Builds the GLB fixtures the offline mock 3D provider serves, so they can be
+// reviewed and rebuilt instead of trusted as opaque binaries:
+//
+//   public/models/mock-avatar.glb            box-figure mannequin, 1.75 m tall,
+//                                            feet on y=0, facing +z
+//   public/models/mock-avatar-animated.glb   the same skinned to a humanoid
+//                                            skeleton with Idle, Walk and Spin
+//                                            clips, what the mock rigging returns
+//   public/models/garments/<handle>.glb      a skinned garment per mock catalog
+//                                            product, coloured from its photo
+//
+//   node scripts/generate-mock-models.mjs
+//
+// Output is deterministic; rerunning it leaves the files unchanged.
+
+import { mkdirSync, writeFileSync } from "fs";
+import { dirname, join } from "path";
+import { fileURLToPath } from "url";
+import sharp from "sharp";
+
+const PUBLIC_DIR = join(dirname(fileURLToPath(import.meta.url)), "..", "public");
+const MODELS_DIR = join(PUBLIC_DIR, "models");
+
+const ARRAY_BUFFER = 34962;
+const ELEMENT_ARRAY_BUFFER = 34963;
+const FLOAT = 5126;
+const UNSIGNED_SHORT = 5123;
+const COMPONENTS = { SCALAR: 1, VEC3: 3, VEC4: 4, MAT4: 16 };
+
+// Collects binary data and the bufferViews/accessors that describe it
+function createBuffer() {
+  const chunks = [];
+  const bufferViews = [];
+  const accessors = [];
+  let byteLength = 0;
+
+  const view = (bytes, target) => {
+    bufferViews.push({ buffer: 0, byteOffset: byteLength, byteLength: bytes.length, ...(target ? { target } : {}) });
+    const padded = Buffer.concat([bytes, Buffer.alloc((4 - (bytes.length % 4)) % 4)]);
+    chunks.push(padded);
+    byteLength += padded.length;
+    return bufferViews.length - 1;
+  };
+  const floats = values => Buffer.from(new Float32Array(values).buffer);
+
+  return {
+    bufferViews,
+    accessors,
+    // Float accessor of `type` (SCALAR, VEC3, VEC4...). Positions and
+    // animation times record their bounds.
+    floats(values, type, { target, bounds = false } = {}) {
+      const size = COMPONENTS[type];
+      const count = values.length / size;
+      const accessor = { bufferView: view(floats(values), target), componentType: FLOAT, count, type };
+      if (bounds) {
+        const axes = [...Array(size).keys()];
+        accessor.min = axes.map(axis => Math.min(...values.filter((_, i) => i % size === axis)));
+        accessor.max = axes.map(axis => Math.max(...values.filter((_, i) => i % size === axis)));
+      }
+      accessors.push(accessor);
+      return accessors.length - 1;
+    },
+    indices(values) {
+      const bytes = Buffer.from(new Uint16Array(values).buffer);
+      accessors.push({ bufferView: view(bytes, ELEMENT_ARRAY_BUFFER), componentType: UNSIGNED_SHORT, count: values.length, type: "SCALAR" });
+      return accessors.length - 1;
+    },
+    // Skin joint indices, four per vertex
+    joints(values) {
+      const bytes = Buffer.from(new Uint16Array(values).buffer);
+      accessors.push({ bufferView: view(bytes, ARRAY_BUFFER), componentType: UNSIGNED_SHORT, count: values.length / 4, type: "VEC4" });
+      return accessors.length - 1;
+    },
+    bytes: () => Buffer.concat(chunks),
+  };
+}
+
+function writeGlb(file, json, bin) {
+  const pad = (bytes, fill) => Buffer.concat([bytes, Buffer.alloc((4 - (bytes.length % 4)) % 4, fill)]);
+  const jsonChunk = pad(Buffer.from(JSON.stringify({ ...json, buffers: [{ byteLength: bin.length }] })), 0x20);
+  const binChunk = pad(bin, 0);
+  const header = Buffer.alloc(12);
+  header.writeUInt32LE(0x46546c67, 0);
+  header.writeUInt32LE(2, 4);
+  header.writeUInt32LE(12 + 8 + jsonChunk.length + 8 + binChunk.length, 8);
+  const chunkHeader = (length, type) => {
+    const bytes = Buffer.alloc(8);
+    bytes.writeUInt32LE(length, 0);
+    bytes.writeUInt32LE(type, 4);
+    return bytes;
+  };
+  const glb = Buffer.concat([header, chunkHeader(jsonChunk.length, 0x4e4f534a), jsonChunk, chunkHeader(binChunk.length, 0x004e4942), binChunk]);
+  writeFileSync(join(MODELS_DIR, file), glb);
+  console.log(`${file}: ${glb.length} bytes`);
+}
+
+// Mannequin parts as [centre, size] boxes
+const MANNEQUIN = [
+  [[0, 1.18, 0], [0.38, 0.56, 0.22]], // torso
+  [[0, 0.86, 0], [0.34, 0.16, 0.2]], // hips
+  [[0, 1.52, 0], [0.09, 0.08, 0.09]], // neck
+  [[0, 1.65, 0], [0.18, 0.2, 0.2]], // head
+  [[-0.25, 1.16, 0], [0.1, 0.58, 0.1]], // right arm
+  [[0.25, 1.16, 0], [0.1, 0.58, 0.1]], // left arm
+  [[-0.1, 0.4, 0], [0.13, 0.78, 0.14]], // right leg
+  [[0.1, 0.4, 0], [0.13, 0.78, 0.14]], // left leg
+  [[-0.1, 0.03, 0.04], [0.12, 0.06, 0.24]], // right foot
+  [[0.1, 0.03, 0.04], [0.12, 0.06, 0.24]], // left foot
+];
+
+// Each face as its normal and four corners of the unit cube
+const BOX_FACES = [
+  [[1, 0, 0], [[1, -1, -1], [1, 1, -1], [1, 1, 1], [1, -1, 1]]],
+  [[-1, 0, 0], [[-1, -1, 1], [-1, 1, 1], [-1, 1, -1], [-1, -1, -1]]],
+  [[0, 1, 0], [[-1, 1, -1], [-1, 1, 1], [1, 1, 1], [1, 1, -1]]],
+  [[0, -1, 0], [[-1, -1, 1], [-1, -1, -1], [1, -1, -1], [1, -1, 1]]],
+  [[0, 0, 1], [[-1, -1, 1], [1, -1, 1], [1, 1, 1], [-1, 1, 1]]],
+  [[0, 0, -1], [[1, -1, -1], [-1, -1, -1], [-1, 1, -1], [1, 1, -1]]],
+];
+
+// Box geometry, with the part each vertex came from
+function boxes(parts) {
+  const positions = [];
+  const normals = [];
+  const indices = [];
+  const owners = [];
+  for (const [part, [centre, size]] of parts.entries()) {
+    for (const [normal, corners] of BOX_FACES) {
+      const base = positions.length;
+      for (const corner of corners) {
+        positions.push(corner.map((c, i) => centre[i] + (c * size[i]) / 2));
+        normals.push(normal);
+        owners.push(part);
+      }
+      indices.push(base, base + 1, base + 2, base, base + 2, base + 3);
+    }
+  }
+  // Wind every triangle counter-clockwise as seen from outside
+  for (let t = 0; t < indices.length; t += 3) {
+    const [a, b, c] = indices.slice(t, t + 3).map(i => positions[i]);
+    const u = b.map((v, i) => v - a[i]);
+    const v = c.map((w, i) => w - a[i]);
+    const cross = [u[1] * v[2] - u[2] * v[1], u[2] * v[0] - u[0] * v[2], u[0] * v[1] - u[1] * v[0]];
+    const normal = normals[indices[t]];
+    if (cross[0] * normal[0] + cross[1] * normal[1] + cross[2] * normal[2] < 0) {
+      [indices[t + 1], indices[t + 2]] = [indices[t + 2], indices[t + 1]];
+    }
+  }
+  return { positions: positions.flat(), normals: normals.flat(), indices, owners };
+}
+
+function mockAvatar() {
+  const buffer = createBuffer();
+  const { positions, normals, indices } = boxes(MANNEQUIN);
+  const attributes = {
+    POSITION: buffer.floats(positions, "VEC3", { target: ARRAY_BUFFER, bounds: true }),
+    NORMAL: buffer.floats(normals, "VEC3", { target: ARRAY_BUFFER }),
+  };
+  const json = {
+    asset: { version: "2.0", generator: "VirtuFit mock avatar" },
+    scene: 0,
+    scenes: [{ nodes: [0] }],
+    nodes: [{ name: "MockAvatar", mesh: 0 }],
+    meshes: [{ name: "MockAvatar", primitives: [{ attributes, indices: buffer.indices(indices), material: 0 }] }],
+    materials: [{ name: "Skin", pbrMetallicRoughness: { baseColorFactor: [0.82, 0.67, 0.56, 1], metallicFactor: 0, roughnessFactor: 0.8 } }],
+  };
+  return { json, buffer };
+}
+
+// Reference skeleton shared by the rigged mannequin and every garment:
+// [name, parent, rest position]. Bone names follow the common humanoid
+// convention (Mixamo without its prefix), so garments also bind by name to
+// avatars rigged elsewhere. REFERENCE_BODY in src/lib/garments.ts repeats the
+// arm and upper leg joints.
+const SKELETON = [
+  ["Hips", null, [0, 0.93, 0]],
+  ["Spine", "Hips", [0, 1.08, 0]],
+  ["Chest", "Spine", [0, 1.28, 0]],
+  ["Neck", "Chest", [0, 1.48, 0]],
+  ["Head", "Neck", [0, 1.56, 0]],
+  ["LeftArm", "Chest", [0.25, 1.42, 0]],
+  ["LeftForeArm", "LeftArm", [0.25, 1.15, 0]],
+  ["RightArm", "Chest", [-0.25, 1.42, 0]],
+  ["RightForeArm", "RightArm", [-0.25, 1.15, 0]],
+  ["LeftUpLeg", "Hips", [0.1, 0.86, 0]],
+  ["LeftLeg", "LeftUpLeg", [0.1, 0.47, 0]],
+  ["LeftFoot", "LeftLeg", [0.1, 0.07, 0]],
+  ["RightUpLeg", "Hips", [-0.1, 0.86, 0]],
+  ["RightLeg", "RightUpLeg", [-0.1, 0.47, 0]],
+  ["RightFoot", "RightLeg", [-0.1, 0.07, 0]],
+];
+
+// The named joints and their ancestors, parents first, as glTF nodes from
+// index `firstNode` on
+function rig(names, firstNode) {
+  const needed = new Set();
+  for (let name of names) {
+    while (name) {
+      needed.add(name);
+      name = SKELETON.find(([joint]) => joint === name)[1];
+    }
+  }
+  const joints = SKELETON.filter(([name]) => needed.has(name));
+  const node = name => firstNode + joints.findIndex(([joint]) => joint === name);
+  const nodes = joints.map(([name, parent, position]) => {
+    const origin = parent ? SKELETON.find(([joint]) => joint === parent)[2] : [0, 0, 0];
+    const children = joints.filter(([, p]) => p === name).map(([child]) => node(child));
+    return { name, translation: position.map((v, i) => v - origin[i]), ...(children.length ? { children } : {}) };
+  });
+  // Rest poses are pure translations, so each inverse bind matrix just moves
+  // the joint back to the origin (column-major)
+  const inverseBindMatrices = joints.flatMap(([, , [x, y, z]]) => [1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0, -x, -y, -z, 1]);
+  return { nodes, node, index: name => joints.findIndex(([joint]) => joint === name), inverseBindMatrices };
+}
+
+// A mesh skinned to the reference skeleton. `influences` holds up to two
+// [joint name, weight] pairs per vertex.
+function skinnedModel({ name, generator, positions, normals, indices, influences, material, animations }) {
+  const buffer = createBuffer();
+  const skeleton = rig(influences.flatMap(pairs => pairs.map(([joint]) => joint)), 1);
+  const joints = [];
+  const weights = [];
+  for (const pairs of influences) {
+    const padded = [...pairs, ["", 0], ["", 0], ["", 0]].slice(0, 4);
+    joints.push(...padded.map(([joint, weight]) => (weight ? skeleton.index(joint) : 0)));
+    weights.push(...padded.map(([, weight]) => weight));
+  }
+  const attributes = {
+    POSITION: buffer.floats(positions, "VEC3", { target: ARRAY_BUFFER, bounds: true }),
+    NORMAL: buffer.floats(normals, "VEC3", { target: ARRAY_BUFFER }),
+    JOINTS_0: buffer.joints(joints),
+    WEIGHTS_0: buffer.floats(weights, "VEC4", { target: ARRAY_BUFFER }),
+  };
+  const json = {
+    asset: { version: "2.0", generator },
+    scene: 0,
+    scenes: [{ nodes: [0, 1] }],
+    nodes: [{ name, mesh: 0, skin: 0 }, ...skeleton.nodes],
+    meshes: [{ name, primitives: [{ attributes, indices: buffer.indices(indices), material: 0 }] }],
+    materials: [material],
+    skins: [{
+      inverseBindMatrices: buffer.floats(skeleton.inverseBindMatrices, "MAT4"),
+      joints: skeleton.nodes.map((_, i) => i + 1),
+      skeleton: 1,
+    }],
+  };
+  if (animations) json.animations = animations(buffer, skeleton.node);
+  return { json, buffer };
+}
+
+// Rotations as quaternions, in degrees about +x (pitch), +y (yaw) and +z (roll)
+function rotation(axis, degrees) {
+  const half = (degrees * Math.PI) / 360;
+  const q = [0, 0, 0, Math.cos(half)];
+  q[axis] = Math.sin(half);
+  return q;
+}
+const pitch = degrees => rotation(0, degrees);
+const yaw = degrees => rotation(1, degrees);
+const roll = degrees => rotation(2, degrees);
+
+// Keyframed clips. Each channel is { node, path, type, times, values }, with
+// values one array per keyframe.
+function clip(buffer, name, channels) {
+  const samplers = channels.map(({ type, times, values }) => ({
+    input: buffer.floats(times, "SCALAR", { bounds: true }),
+    output: buffer.floats(values.flat(), type),
+    interpolation: "LINEAR",
+  }));
+  return { name, samplers, channels: channels.map(({ node, path }, sampler) => ({ sampler, target: { node, path } })) };
+}
+
+// The mannequin with its limbs split at the elbows and knees, each box moved
+// rigidly by one bone
+function splitAt(part, y) {
+  const [[x, cy, z], [w, h, d]] = part;
+  const top = cy + h / 2;
+  const bottom = cy - h / 2;
+  return [
+    [[x, (top + y) / 2, z], [w, top - y, d]],
+    [[x, (y + bottom) / 2, z], [w, y - bottom, d]],
+  ];
+}
+const [TORSO, HIPS, NECK, HEAD, RIGHT_ARM, LEFT_ARM, RIGHT_LEG, LEFT_LEG, RIGHT_FOOT, LEFT_FOOT] = MANNEQUIN;
+const RIGGED_MANNEQUIN = [
+  [splitAt(TORSO, 1.18), ["Chest", "Spine"]],
+  [[HIPS], ["Hips"]],
+  [[NECK], ["Neck"]],
+  [[HEAD], ["Head"]],
+  [splitAt(RIGHT_ARM, 1.15), ["RightArm", "RightForeArm"]],
+  [splitAt(LEFT_ARM, 1.15), ["LeftArm", "LeftForeArm"]],
+  [splitAt(RIGHT_LEG, 0.47), ["RightUpLeg", "RightLeg"]],
+  [splitAt(LEFT_LEG, 0.47), ["LeftUpLeg", "LeftLeg"]],
+  [[RIGHT_FOOT], ["RightFoot"]],
+  [[LEFT_FOOT], ["LeftFoot"]],
+].flatMap(([parts, joints]) => parts.map((part, i) => [part, joints[i]]));
+
+function mockAvatarAnimated() {
+  const { positions, normals, indices, owners } = boxes(RIGGED_MANNEQUIN.map(([part]) => part));
+  const hipsAt = SKELETON[0][2];
+  return skinnedModel({
+    name: "MockAvatar",
+    generator: "VirtuFit mock avatar",
+    positions,
+    normals,
+    indices,
+    influences: owners.map(part => [[RIGGED_MANNEQUIN[part][1], 1]]),
+    material: { name: "Skin", pbrMetallicRoughness: { baseColorFactor: [0.82, 0.67, 0.56, 1], metallicFactor: 0, roughnessFactor: 0.8 } },
+    animations: (buffer, node) => [
+      clip(buffer, "Idle", [
+        { node: node("Spine"), path: "rotation", type: "VEC4", times: [0, 1.5, 3], values: [pitch(0), pitch(-2), pitch(0)] },
+        { node: node("LeftArm"), path: "rotation", type: "VEC4", times: [0, 1.5, 3], values: [roll(0), roll(3), roll(0)] },
+        { node: node("RightArm"), path: "rotation", type: "VEC4", times: [0, 1.5, 3], values: [roll(0), roll(-3), roll(0)] },
+      ]),
+      // Legs swing ±25° with the knee bending on the back swing, arms
+      // swing against the legs and the hips bob twice a stride
+      clip(buffer, "Walk", [
+        { node: node("LeftUpLeg"), path: "rotation", type: "VEC4", times: [0, 0.5, 1], values: [pitch(-25), pitch(25), pitch(-25)] },
+        { node: node("RightUpLeg"), path: "rotation", type: "VEC4", times: [0, 0.5, 1], values: [pitch(25), pitch(-25), pitch(25)] },
+        { node: node("LeftLeg"), path: "rotation", type: "VEC4", times: [0, 0.5, 1], values: [pitch(5), pitch(30), pitch(5)] },
+        { node: node("RightLeg"), path: "rotation", type: "VEC4", times: [0, 0.5, 1], values: [pitch(30), pitch(5), pitch(30)] },
+        { node: node("LeftArm"), path: "rotation", type: "VEC4", times: [0, 0.5, 1], values: [pitch(20), pitch(-20), pitch(20)] },
+        { node: node("RightArm"), path: "rotation", type: "VEC4", times: [0, 0.5, 1], values: [pitch(-20), pitch(20), pitch(-20)] },
+        {
+          node: node("Hips"),
+          path: "translation",
+          type: "VEC3",
+          times: [0, 0.25, 0.5, 0.75, 1],
+          values: [0, 0.02, 0, 0.02, 0].map(bob => [hipsAt[0], hipsAt[1] + bob, hipsAt[2]]),
+        },
+      ]),
+      clip(buffer, "Spin", [
+        { node: node("Hips"), path: "rotation", type: "VEC4", times: [0, 1, 2, 3, 4], values: [0, 90, 180, 270, 360].map(yaw) },
+      ]),
+    ],
+  });
+}
+
+// Garments
+// ========
+
+const RING_SEGMENTS = 24;
+// Height over which weights blend from one bone to the next
+const BLEND_BAND = 0.04;
+
+// Up to two [joint, weight] pairs for a vertex at height y. `chain` lists
+// joints top to bottom, each with the height below which the next one takes over.
+function chainWeights(y, chain) {
+  for (let i = 0; i < chain.length - 1; i++) {
+    const [upper, boundary] = chain[i];
+    const [lower] = chain[i + 1];
+    if (y > boundary + BLEND_BAND) return [[upper, 1]];
+    if (y >= boundary - BLEND_BAND) {
+      const t = Math.round(((y - boundary + BLEND_BAND) / (2 * BLEND_BAND)) * 1000) / 1000;
+      return t === 1 ? [[upper, 1]] : t === 0 ? [[lower, 1]] : [[upper, t], [lower, 1 - t]];
+    }
+  }
+  return [[chain[chain.length - 1][0], 1]];
+}
+
+// Vertical tube of elliptical rings [y, rx, rz] around x, added to `mesh`
+function tube(mesh, x, rings, chain) {
+  const base = mesh.positions.length / 3;
+  for (const [y, rx, rz] of rings) {
+    for (let i = 0; i < RING_SEGMENTS; i++) {
+      const angle = (i / RING_SEGMENTS) * Math.PI * 2;
+      mesh.positions.push(x + Math.cos(angle) * rx, y, Math.sin(angle) * rz);
+      const nx = Math.cos(angle) / rx;
+      const nz = Math.sin(angle) / rz;
+      const length = Math.hypot(nx, nz);
+      mesh.normals.push(nx / length, 0, nz / length);
+      mesh.influences.push(chainWeights(y, chain));
+    }
+  }
+  for (let ring = 0; ring < rings.length - 1; ring++) {
+    for (let i = 0; i < RING_SEGMENTS; i++) {
+      const a = base + ring * RING_SEGMENTS + i;
+      const b = base + ring * RING_SEGMENTS + ((i + 1) % RING_SEGMENTS);
+      mesh.indices.push(a, a + RING_SEGMENTS, b, b, a + RING_SEGMENTS, b + RING_SEGMENTS);
+    }
+  }
+}
+
+const emptyMesh = () => ({ positions: [], normals: [], indices: [], influences: [] });
+
+// Torso from the hem to the collar, and sleeves hanging over the arms
+function top(sleeveLength) {
+  const mesh = emptyMesh();
+  tube(mesh, 0, [[0.86, 0.27, 0.165], [1.05, 0.27, 0.165], [1.25, 0.27, 0.165], [1.42, 0.25, 0.15], [1.47, 0.12, 0.08], [1.49, 0.075, 0.06]], [
+    ["Chest", 1.18],
+    ["Spine", 0.97],
+    ["Hips"],
+  ]);
+  for (const [side, x] of [["Left", 0.25], ["Right", -0.25]]) {
+    const rings = [0, 0.5, 1].map(t => [1.46 - sleeveLength * t, 0.08 - 0.005 * t, 0.08 - 0.005 * t]);
+    tube(mesh, x, rings, [[`${side}Arm`, 1.15], [`${side}ForeArm`]]);
+  }
+  return mesh;
+}
+
+// Waistband over the hips and two legs down to the ankles
+function bottom() {
+  const mesh = emptyMesh();
+  tube(mesh, 0, [[0.99, 0.25, 0.15], [0.9, 0.25, 0.15], [0.8, 0.25, 0.15]], [["Hips"]]);
+  for (const [side, x] of [["Left", 0.1], ["Right", -0.1]]) {
+    tube(mesh, x, [[0.82, 0.1, 0.1], [0.47, 0.095, 0.095], [0.06, 0.09, 0.09]], [["Hips", 0.8], [`${side}UpLeg`, 0.47], [`${side}Leg`]]);
+  }
+  return mesh;
+}
+
+// Linear colour of the middle of a product photo, where the garment is
+async function photoColor(file) {
+  const image = sharp(join(PUBLIC_DIR, "mock-clothes", file));
+  const { width, height } = await image.metadata();
+  const region = { left: Math.round(width * 0.4), top: Math.round(height * 0.35), width: Math.round(width * 0.2), height: Math.round(height * 0.2) };
+  const { channels } = await image.extract(region).stats();
+  return channels.slice(0, 3).map(({ mean }) => Math.round((mean / 255) ** 2.2 * 1000) / 1000);
+}
+
+// Mock catalog handle, shape, and a product photo or a linear colour
+const GARMENTS = [
+  ["casual-brown-chinos", bottom(), "pants2.jpg"],
+  ["classic-black-pants", bottom(), "pants1.jpg"],
+  ["blue-patterned-shirt", top(0.56), "shirt1.jpg"],
+  ["cartoon-graphic-t-shirt", top(0.22), "tshirt1.jpg"],
+  ["slim-navy-chinos", bottom(), [0.02, 0.035, 0.1]],
+  ["charcoal-wool-trousers", bottom(), [0.045, 0.045, 0.05]],
+  ["white-oxford-shirt", top(0.56), [0.85, 0.85, 0.83]],
+  ["black-logo-tee", top(0.22), [0.015, 0.015, 0.015]],
+  ["olive-camp-shirt", top(0.22), [0.12, 0.14, 0.04]],
+  ["grey-jogger-pants", bottom(), [0.22, 0.22, 0.22]],
+];
+
+const models = [
+  ["mock-avatar.glb", mockAvatar()],
+  ["mock-avatar-animated.glb", mockAvatarAnimated()],
+];
+for (const [handle, mesh, source] of GARMENTS) {
+  const color = typeof source === "string" ? await photoColor(source) : source;
+  const garment = skinnedModel({
+    name: handle,
+    generator: "VirtuFit garments",
+    ...mesh,
+    material: { name: "Fabric", doubleSided: true, pbrMetallicRoughness: { baseColorFactor: [...color, 1], metallicFactor: 0, roughnessFactor: 0.9 } },
+  });
+  models.push([`garments/${handle}.glb`, garment]);
+}
+
+mkdirSync(join(MODELS_DIR, "garments"), { recursive: true });
+for (const [file, { json, buffer }] of models) {
+  writeGlb(file, { ...json, bufferViews: buffer.bufferViews, accessors: buffer.accessors }, buffer.bytes());
+}
@@ -0,0 +1,201 @@
+// Local stand-in for the parts of the Stripe API the payment adapter uses,
+// so checkout and webhooks can be exercised without a Stripe account.
+//
+//   STRIPE_WEBHOOK_SECRET=whsec_test_secret node scripts/stripe-stub.mjs
+//
+// then run the app with
+//
+//   PAYMENT_PROVIDER=stripe STRIPE_API_BASE=http://localhost:12111 \
+//   STRIPE_SECRET_KEY=sk_test_stub STRIPE_WEBHOOK_SECRET=whsec_test_secret npm run dev
+//
+// Supported:
+//   POST /v1/payment_intents        pm_card_visa succeeds, pm_card_chargeDeclined is declined,
+//                                   pm_card_threeDSecure2Required redirects to a 3-D Secure page
+//   GET  /v1/payment_intents/:id
+//   POST /v1/refunds                payment_intent=pi_... refunds in full (charge.refunded)
+//   POST /_stub/events/:id/resend   delivers an event again, to test idempotency
+//
+// Every state change is sent to WEBHOOK_URL as a signed event.
+
+import { createHmac, randomBytes } from "crypto";
+import { createServer } from "http";
+
+const PORT = Number(process.env.PORT) || 12111;
+const WEBHOOK_URL = process.env.WEBHOOK_URL || "http://localhost:3000/api/webhooks/payments";
+const WEBHOOK_SECRET = process.env.STRIPE_WEBHOOK_SECRET || "whsec_test_secret";
+
+const intents = new Map();
+const events = new Map();
+const idempotent = new Map();
+
+const id = (prefix) => `${prefix}_${randomBytes(12).toString("hex")}`;
+
+function sign(payload) {
+  const timestamp = Math.floor(Date.now() / 1000);
+  const signature = createHmac("sha256", WEBHOOK_SECRET).update(`${timestamp}.${payload}`).digest("hex");
+  return `t=${timestamp},v1=${signature}`;
+}
+
+async function deliver(event) {
+  const payload = JSON.stringify(event);
+  try {
+    const res = await fetch(WEBHOOK_URL, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", "Stripe-Signature": sign(payload) },
+      body: payload,
+    });
+    console.log(`webhook ${event.type} ${event.id} -> ${res.status} ${await res.text()}`);
+  } catch (error) {
+    console.log(`webhook ${event.type} ${event.id} failed: ${error.message}`);
+  }
+}
+
+function emit(type, object) {
+  const event = { id: id("evt"), object: "event", type, created: Math.floor(Date.now() / 1000), data: { object } };
+  events.set(event.id, event);
+  // Real webhooks arrive after the API response
+  setTimeout(() => deliver(event), 200);
+}
+
+function chargeFor(intent) {
+  return {
+    id: `ch_${intent.id.slice(3)}`,
+    object: "charge",
+    amount: intent.amount,
+    amount_refunded: intent.refunded ? intent.amount : 0,
+    refunded: Boolean(intent.refunded),
+    payment_intent: intent.id,
+    metadata: intent.metadata,
+  };
+}
+
+function declined(intent, message) {
+  intent.status = "requires_payment_method";
+  intent.last_payment_error = { type: "card_error", code: "card_declined", message };
+  emit("payment_intent.payment_failed", intent);
+}
+
+function createIntent(params, origin) {
+  const metadata = {};
+  for (const [key, value] of params) {
+    const match = key.match(/^metadata\[(.+)\]$/);
+    if (match) metadata[match[1]] = value;
+  }
+  const intent = {
+    id: id("pi"),
+    object: "payment_intent",
+    amount: Number(params.get("amount")),
+    currency: params.get("currency"),
+    payment_method: params.get("payment_method"),
+    receipt_email: params.get("receipt_email"),
+    return_url: params.get("return_url"),
+    metadata,
+    status: "succeeded",
+    next_action: null,
+    last_payment_error: null,
+  };
+  if (!Number.isInteger(intent.amount) || intent.amount < 1 || !intent.currency) {
+    return [400, { error: { type: "invalid_request_error", message: "amount and currency are required" } }];
+  }
+  intents.set(intent.id, intent);
+  switch (intent.payment_method) {
+    case "pm_card_visa":
+      emit("payment_intent.succeeded", intent);
+      return [200, intent];
+    case "pm_card_chargeDeclined":
+      declined(intent, "Your card was declined.");
+      return [402, { error: { type: "card_error", code: "card_declined", message: "Your card was declined.", payment_intent: intent } }];
+    case "pm_card_threeDSecure2Required":
+      intent.status = "requires_action";
+      intent.next_action = { type: "redirect_to_url", redirect_to_url: { url: `${origin}/3ds/${intent.id}`, return_url: intent.return_url } };
+      return [200, intent];
+    default:
+      intents.delete(intent.id);
+      return [400, { error: { type: "invalid_request_error", message: `No such PaymentMethod: '${intent.payment_method}'` } }];
+  }
+}
+
+function challengePage(intent) {
+  return `<!doctype html><title>3-D Secure (stub)</title>
+<body style="font-family:sans-serif;max-width:24rem;margin:4rem auto;text-align:center">
+<h1>Stub 3-D Secure</h1><p>Authorize ${(intent.amount / 100).toFixed(2)} ${intent.currency.toUpperCase()}?</p>
+<form method="post"><button name="result" value="approve">Approve</button> <button name="result" value="fail">Fail</button></form>`;
+}
+
+async function readBody(req) {
+  let body = "";
+  for await (const chunk of req) body += chunk;
+  return body;
+}
+
+function send(res, status, body, headers = {}) {
+  const isJson = typeof body !== "string";
+  res.writeHead(status, { "Content-Type": isJson ? "application/json" : "text/html", ...headers });
+  res.end(isJson ? JSON.stringify(body) : body);
+}
+
+createServer(async (req, res) => {
+  const url = new URL(req.url, `http://${req.headers.host}`);
+  const body = await readBody(req);
+  const params = new URLSearchParams(body);
+  const path = url.pathname;
+
+  // The shopper-facing challenge page is the only route without an API key
+  const challenge = path.match(/^\/3ds\/(pi_\w+)$/);
+  if (challenge) {
+    const intent = intents.get(challenge[1]);
+    if (!intent) return send(res, 404, "Unknown payment");
+    if (req.method === "GET") return send(res, 200, challengePage(intent));
+    if (intent.status === "requires_action") {
+      intent.next_action = null;
+      if (params.get("result") === "approve") {
+        intent.status = "succeeded";
+        emit("payment_intent.succeeded", intent);
+      } else {
+        declined(intent, "We are unable to authenticate your payment method.");
+      }
+    }
+    const back = new URL(intent.return_url);
+    back.searchParams.set("payment_intent", intent.id);
+    return send(res, 303, "", { Location: back.toString() });
+  }
+
+  if (path.startsWith("/_stub/")) {
+    const resend = path.match(/^\/_stub\/events\/(evt_\w+)\/resend$/);
+    const event = resend && events.get(resend[1]);
+    if (!event) return send(res, 404, { error: { message: "Unknown event" } });
+    await deliver(event);
+    return send(res, 200, { resent: event.id });
+  }
+
+  if (!/^Bearer sk_test_/.test(req.headers.authorization || "")) {
+    return send(res, 401, { error: { type: "invalid_request_error", message: "Invalid API Key provided" } });
+  }
+
+  const key = req.method === "POST" && req.headers["idempotency-key"];
+  if (key && idempotent.has(key)) return send(res, ...idempotent.get(key));
+
+  let result;
+  const retrieve = path.match(/^\/v1\/payment_intents\/(pi_\w+)$/);
+  if (req.method === "POST" && path === "/v1/payment_intents") {
+    result = createIntent(params, url.origin);
+  } else if (req.method === "GET" && retrieve) {
+    const intent = intents.get(retrieve[1]);
+    result = intent ? [200, intent] : [404, { error: { type: "invalid_request_error", message: `No such payment_intent: '${retrieve[1]}'` } }];
+  } else if (req.method === "POST" && path === "/v1/refunds") {
+    const intent = intents.get(params.get("payment_intent"));
+    if (!intent || intent.status !== "succeeded" || intent.refunded) {
+      result = [400, { error: { type: "invalid_request_error", message: "This PaymentIntent cannot be refunded" } }];
+    } else {
+      intent.refunded = true;
+      emit("charge.refunded", chargeFor(intent));
+      result = [200, { id: id("re"), object: "refund", amount: intent.amount, payment_intent: intent.id, status: "succeeded" }];
+    }
+  } else {
+    result = [404, { error: { type: "invalid_request_error", message: `Unrecognized request URL (${req.method}: ${path})` } }];
+  }
+  if (key) idempotent.set(key, result);
+  send(res, ...result);
+}).listen(PORT, () => {
+  console.log(`Stripe stub on http://localhost:${PORT}, webhooks to ${WEBHOOK_URL}`);
+});
@@ -0,0 +1,5 @@
+import { Suspense } from "react";
+
+export default function AccountLayout({ children }: { children: React.ReactNode }) {
+  return <Suspense>{children}</Suspense>;
+}
@@ -0,0 +1,167 @@
+"use client";
+import { useState } from "react";
+import Link from "next/link";
+import { useSearchParams } from "next/navigation";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useAccount } from "@/hooks/use-account";
+import { useAvatars } from "@/hooks/use-avatars";
+
+type Mode = "sign-in" | "register" | "link";
+
+const MODE_LABELS: Record<Mode, string> = {
+  "sign-in": "Sign in",
+  register: "Create account",
+  link: "Email me a link",
+};
+
+export default function AccountPage() {
+  const params = useSearchParams();
+  const account = useAccount();
+  const avatars = useAvatars(account.user?.id);
+  const avatarCount = avatars.avatars?.length ?? 0;
+  const [mode, setMode] = useState<Mode>("sign-in");
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [linkSentTo, setLinkSentTo] = useState<string | null>(null);
+  const [newPassword, setNewPassword] = useState("");
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (mode === "link") {
+      if (await account.requestLoginLink(email)) setLinkSentTo(email);
+      return;
+    }
+    const ok = mode === "register" ? await account.register(email, password) : await account.signIn(email, password);
+    if (ok) setPassword("");
+  };
+
+  const handleAddPassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (await account.addPassword(newPassword)) setNewPassword("");
+  };
+
+  if (account.loading) {
+    return <div className="min-h-screen flex items-center justify-center">Loading your account...</div>;
+  }
+
+  return (
+    <div className="min-h-screen flex flex-col items-center bg-background text-foreground py-12 px-4">
+      <div className="w-full max-w-md flex flex-col gap-6">
+        <div className="flex items-center justify-between">
+          <h1 className="text-2xl font-bold">{account.user ? "Your account" : "Sign in"}</h1>
+          <Link href="/" className="underline underline-offset-4 text-sm">Continue shopping</Link>
+        </div>
+
+        {account.user ? (
+          <Card className="p-6 flex flex-col gap-4">
+            <div className="flex flex-col gap-1 text-sm">
+              <span className="font-semibold">{account.user.email}</span>
+              <span className="text-muted-foreground">Member since {new Date(account.user.createdAt).toLocaleDateString()}</span>
+            </div>
+            <ul className="text-sm flex flex-col gap-1">
+              <li>
+                {avatarCount ? (
+                  <Link href="/avatars" className="underline underline-offset-4">
+                    {avatarCount === 1 ? "1 saved avatar" : `${avatarCount} saved avatars`}
+                  </Link>
+                ) : "No 3D avatar yet"}
+              </li>
+              <li>
+                {account.profile?.measurements
+                  ? `Measurements saved ${new Date(account.profile.measurements.savedAt).toLocaleDateString()}`
+                  : "No measurements saved yet"}
+              </li>
+            </ul>
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={account.profile?.emailAlerts !== false}
+                onChange={e => account.updateProfile({ emailAlerts: e.target.checked })}
+              />
+              Email me when a favorite drops in price or a size is back in stock
+            </label>
+            {!account.user.hasPassword && (
+              <form className="flex gap-2" onSubmit={handleAddPassword}>
+                <Input
+                  type="password"
+                  autoComplete="new-password"
+                  placeholder="Add a password"
+                  value={newPassword}
+                  onChange={e => setNewPassword(e.target.value)}
+                  aria-label="New password"
+                />
+                <Button type="submit" variant="outline" disabled={!newPassword || account.pending}>Save</Button>
+              </form>
+            )}
+            <div className="flex gap-3">
+              <Button asChild variant="outline">
+                <Link href="/orders">Order history</Link>
+              </Button>
+              <Button asChild variant="outline">
+                <Link href="/wishlists">Wishlists</Link>
+              </Button>
+              <Button variant="destructive" onClick={() => account.signOut()} disabled={account.pending}>Sign out</Button>
+            </div>
+            {account.error && <span className="text-red-600 text-sm">{account.error}</span>}
+          </Card>
+        ) : (
+          <Card className="p-6 flex flex-col gap-4">
+            {params.get("error") === "link_expired" && (
+              <span className="text-red-600 text-sm">That sign-in link has expired or was already used. Request a new one below.</span>
+            )}
+            <div className="flex gap-2" role="tablist">
+              {(Object.keys(MODE_LABELS) as Mode[]).map(m => (
+                <Button
+                  key={m}
+                  type="button"
+                  size="sm"
+                  role="tab"
+                  aria-selected={mode === m}
+                  variant={mode === m ? "default" : "outline"}
+                  onClick={() => setMode(m)}
+                >
+                  {MODE_LABELS[m]}
+                </Button>
+              ))}
+            </div>
+            {mode === "link" && linkSentTo ? (
+              <p className="text-sm">
+                If <span className="font-semibold">{linkSentTo}</span> can receive email, a sign-in link is on its way.
+                It works once and expires in 15 minutes.
+              </p>
+            ) : (
+              <form className="flex flex-col gap-3" onSubmit={handleSubmit}>
+                <label className="flex flex-col gap-1 text-sm">
+                  Email
+                  <Input type="email" autoComplete="email" required value={email} onChange={e => setEmail(e.target.value)} />
+                </label>
+                {mode !== "link" && (
+                  <label className="flex flex-col gap-1 text-sm">
+                    Password
+                    <Input
+                      type="password"
+                      autoComplete={mode === "register" ? "new-password" : "current-password"}
+                      required
+                      minLength={mode === "register" ? 8 : undefined}
+                      value={password}
+                      onChange={e => setPassword(e.target.value)}
+                    />
+                  </label>
+                )}
+                <Button type="submit" disabled={account.pending}>
+                  {account.pending ? "Please wait..." : MODE_LABELS[mode]}
+                </Button>
+              </form>
+            )}
+            {account.error && <span className="text-red-600 text-sm">{account.error}</span>}
+            <p className="text-xs text-muted-foreground">
+              Your cart, wishlists, 3D avatar and measurements from this browser are added to your account when you sign in.
+            </p>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,17 @@
+import { NextResponse } from 'next/server';
+import { getCurrentUser, mergeLocalData, parseLocalData } from '@/lib/auth';
+
+// Carries the avatar and measurements a browser saved while signed out into
+// the account: { avatarModelUrl?, measurements? }
+export async function POST(req: Request) {
+  const user = await getCurrentUser();
+  if (!user) return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+  const profile = await mergeLocalData(user.id, parseLocalData(body));
+  return NextResponse.json({ profile }, { status: 200 });
+}
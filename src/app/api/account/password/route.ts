@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server';
+import { addPassword, AuthError, getCurrentUser, parseNewPassword, toPublicUser } from '@/lib/auth';
+
+// Adds a password to a signed-in account that only used email links: { password }
+export async function POST(req: Request) {
+  const user = await getCurrentUser();
+  if (!user) return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+  const password = parseNewPassword(body);
+  if (!password.ok) {
+    return NextResponse.json({ error: 'Invalid password', details: password.errors }, { status: 400 });
+  }
+  try {
+    return NextResponse.json({ user: toPublicUser(await addPassword(user, password.value)) }, { status: 200 });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server';
+import { getCurrentUser, getProfile, parseProfilePatch, toPublicUser, updateProfile } from '@/lib/auth';
+
+// GET   /api/account   { user, profile } for the signed-in user
+// PATCH /api/account   { avatarModelUrl?, measurements?, emailAlerts? }; null clears
+
+export async function GET() {
+  const user = await getCurrentUser();
+  if (!user) return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+  return NextResponse.json({ user: toPublicUser(user), profile: await getProfile(user.id) }, { status: 200 });
+}
+
+export async function PATCH(req: Request) {
+  const user = await getCurrentUser();
+  if (!user) return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+  const patch = parseProfilePatch(body);
+  if (!patch.ok) {
+    return NextResponse.json({ error: 'Invalid profile update', details: patch.errors }, { status: 400 });
+  }
+  return NextResponse.json({ user: toPublicUser(user), profile: await updateProfile(user.id, patch.value) }, { status: 200 });
+}
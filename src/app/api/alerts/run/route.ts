@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server';
+import { runFavoriteAlerts } from '@/lib/alerts';
+import { CatalogSourceError } from '@/lib/catalog';
+
+// Checks every favorite for price drops and restocks, e.g. from a cron job
+// or after a catalog sync. Requires `Authorization: Bearer $ALERTS_CRON_TOKEN`.
+export async function POST(req: Request) {
+  const token = process.env.ALERTS_CRON_TOKEN;
+  if (!token) {
+    return NextResponse.json({ error: 'Favorite alerts are not configured' }, { status: 404 });
+  }
+  if (req.headers.get('authorization') !== `Bearer ${token}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  try {
+    return NextResponse.json(await runFavoriteAlerts(new URL(req.url).origin), { status: 200 });
+  } catch (error) {
+    if (error instanceof CatalogSourceError) {
+      return NextResponse.json({ error: error.message }, { status: 502 });
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server';
+import { authenticate, AuthError, parseEmail, signIn, toPublicUser } from '@/lib/auth';
+
+// Signs in with email and password: { email, password }
+export async function POST(req: Request) {
+  let body: { email?: unknown; password?: unknown };
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+  const email = parseEmail(body.email);
+  if (!email || typeof body.password !== 'string' || !body.password) {
+    return NextResponse.json({ error: 'Email and password are required' }, { status: 400 });
+  }
+  try {
+    const user = await signIn(await authenticate(email, body.password));
+    return NextResponse.json({ user: toPublicUser(user) }, { status: 200 });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,7 @@
+import { NextResponse } from 'next/server';
+import { signOut } from '@/lib/auth';
+
+export async function POST() {
+  await signOut();
+  return NextResponse.json({ user: null }, { status: 200 });
+}
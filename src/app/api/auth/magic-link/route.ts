@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server';
+import { parseEmail, requestLoginLink } from '@/lib/auth';
+import { MailError } from '@/lib/mail';
+
+// Emails a sign-in link: { email }. Always 202 for a valid address, so the
+// response does not reveal whether an account exists.
+export async function POST(req: Request) {
+  let body: { email?: unknown };
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+  const email = parseEmail(body.email);
+  if (!email) return NextResponse.json({ error: 'Enter a valid email address' }, { status: 400 });
+  try {
+    await requestLoginLink(email, new URL(req.url).origin);
+  } catch (error) {
+    if (error instanceof MailError) {
+      console.error(`Auth: ${error.transport} mail error:`, error);
+      return NextResponse.json({ error: 'Could not send the sign-in email. Please try again.' }, { status: 502 });
+    }
+    throw error;
+  }
+  return NextResponse.json({ sent: true }, { status: 202 });
+}
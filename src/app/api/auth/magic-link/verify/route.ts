@@ -0,0 +1,18 @@
+import { NextResponse } from 'next/server';
+import { AuthError, signIn, verifyLoginLink } from '@/lib/auth';
+
+// Target of the emailed link: signs in and lands on the account page
+export async function GET(req: Request) {
+  const url = new URL(req.url);
+  const token = url.searchParams.get('token');
+  try {
+    if (!token) throw new AuthError('Missing token', 400);
+    await signIn(await verifyLoginLink(token));
+    return NextResponse.redirect(new URL('/account', url.origin), 303);
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.redirect(new URL('/account?error=link_expired', url.origin), 303);
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server';
+import { AuthError, parseCredentials, register, signIn, toPublicUser } from '@/lib/auth';
+
+// Creates a password account and signs it in: { email, password }
+export async function POST(req: Request) {
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+  const credentials = parseCredentials(body);
+  if (!credentials.ok) {
+    return NextResponse.json({ error: 'Invalid sign-up details', details: credentials.errors }, { status: 400 });
+  }
+  try {
+    const user = await signIn(await register(credentials.value.email, credentials.value.password));
+    return NextResponse.json({ user: toPublicUser(user) }, { status: 201 });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,8 @@
+import { NextResponse } from 'next/server';
+import { getCurrentUser, toPublicUser } from '@/lib/auth';
+
+// The signed-in user, or null
+export async function GET() {
+  const user = await getCurrentUser();
+  return NextResponse.json({ user: user ? toPublicUser(user) : null }, { status: 200 });
+}
@@ -0,0 +1,67 @@
+import { NextResponse } from 'next/server';
+import {
+  AvatarError,
+  deleteAvatar,
+  getAvatar,
+  parseAvatarName,
+  renameAvatar,
+  setActiveAvatar,
+  toPublicAvatar,
+} from '@/lib/avatars';
+import { getShopper, shopperKey } from '@/lib/session';
+
+type Params = { params: Promise<{ id: string }> };
+
+function errorResponse(error: unknown) {
+  if (error instanceof AvatarError) {
+    return NextResponse.json({ error: error.message }, { status: error.status });
+  }
+  throw error;
+}
+
+export async function GET(_req: Request, { params }: Params) {
+  const { id } = await params;
+  try {
+    const avatar = await getAvatar(shopperKey(await getShopper()), id);
+    return NextResponse.json({ avatar: toPublicAvatar(avatar) }, { status: 200 });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+export async function PATCH(req: Request, { params }: Params) {
+  const { id } = await params;
+  let body: { name?: unknown; active?: unknown };
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+  const name = body.name === undefined ? undefined : parseAvatarName(body.name);
+  if (name === null) return NextResponse.json({ error: 'name must be 1 to 60 characters' }, { status: 400 });
+  if (body.active !== undefined && body.active !== true) {
+    return NextResponse.json({ error: 'active can only be set to true' }, { status: 400 });
+  }
+  if (name === undefined && body.active === undefined) {
+    return NextResponse.json({ error: 'Nothing to update' }, { status: 400 });
+  }
+
+  try {
+    const ownerKey = shopperKey(await getShopper()) ?? '';
+    let avatar = name === undefined ? await getAvatar(ownerKey, id) : await renameAvatar(ownerKey, id, name);
+    if (body.active) avatar = await setActiveAvatar(ownerKey, id);
+    return NextResponse.json({ avatar: toPublicAvatar(avatar) }, { status: 200 });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+export async function DELETE(_req: Request, { params }: Params) {
+  const { id } = await params;
+  try {
+    await deleteAvatar(shopperKey(await getShopper()) ?? '', id);
+    return NextResponse.json({ deleted: true }, { status: 200 });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
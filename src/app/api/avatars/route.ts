@@ -0,0 +1,74 @@
+import { NextResponse } from 'next/server';
+import { AvatarError, createAvatar, importAvatar, listAvatars, parseAvatarName, parseModelUrl, toPublicAvatar } from '@/lib/avatars';
+import { JobError, parseViewKeys, toPublicJob } from '@/lib/jobs';
+import { PhotoError } from '@/lib/photos';
+import { ensureShopper, getShopper, shopperKey } from '@/lib/session';
+import { StorageError } from '@/lib/storage';
+import { ThreeDProviderError } from '@/lib/three-d';
+
+// GET    /api/avatars          the shopper's avatar library, newest first
+// POST   /api/avatars          { uploadKey, name?, views? } generates a new avatar from an /api/upload photo,
+//                             answering with the avatar and its job (see /api/jobs). views is
+//                             { side?, back? } of more upload keys for a multi-view avatar;
+//                             { modelUrl, name? } adds a finished model instead
+// GET    /api/avatars/:id
+// PATCH  /api/avatars/:id      { name?, active: true? } renames, or picks the avatar to dress
+// DELETE /api/avatars/:id      also stops generation that is still running
+
+function errorResponse(error: unknown) {
+  if (error instanceof AvatarError) {
+    return NextResponse.json({ error: error.message }, { status: error.status });
+  }
+  if (error instanceof JobError) {
+    return NextResponse.json(
+      { error: error.message, ...(error.job ? { job: toPublicJob(error.job) } : {}) },
+      { status: error.status },
+    );
+  }
+  if (error instanceof PhotoError) {
+    return NextResponse.json(
+      { error: error.message, suggestion: error.suggestion, code: error.code, ...(error.view ? { view: error.view } : {}) },
+      { status: error.status },
+    );
+  }
+  if (error instanceof StorageError || error instanceof ThreeDProviderError) {
+    console.error('Avatars: could not create avatar:', error);
+    return NextResponse.json({ error: error.message }, { status: error.status });
+  }
+  throw error;
+}
+
+export async function GET() {
+  const avatars = await listAvatars(shopperKey(await getShopper()));
+  return NextResponse.json({ avatars: avatars.map(toPublicAvatar) }, { status: 200 });
+}
+
+export async function POST(req: Request) {
+  let body: { uploadKey?: unknown; modelUrl?: unknown; name?: unknown; views?: unknown } | null;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    return NextResponse.json({ error: 'Expected a JSON object' }, { status: 400 });
+  }
+  const name = body.name === undefined ? undefined : parseAvatarName(body.name);
+  if (name === null) return NextResponse.json({ error: 'name must be 1 to 60 characters' }, { status: 400 });
+  const views = parseViewKeys(body.views);
+  if (!views) return NextResponse.json({ error: 'views must be { side?, back? } upload keys' }, { status: 400 });
+
+  try {
+    const ownerKey = shopperKey(await ensureShopper())!;
+    if (typeof body.uploadKey === 'string') {
+      const { avatar, job } = await createAvatar(ownerKey, body.uploadKey, name, views);
+      return NextResponse.json({ avatar: toPublicAvatar(avatar), job: toPublicJob(job) }, { status: 201 });
+    }
+    const modelUrl = parseModelUrl(body.modelUrl);
+    if (!modelUrl) return NextResponse.json({ error: 'uploadKey or modelUrl is required' }, { status: 400 });
+    const avatar = await importAvatar(ownerKey, modelUrl, name);
+    return NextResponse.json({ avatar: toPublicAvatar(avatar) }, { status: 201 });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,49 @@
+import { NextResponse } from 'next/server';
+import { CatalogSourceError } from '@/lib/catalog';
+import { CartError, parseQuantity, priceCart, removeFromCart, setLineQuantity } from '@/lib/cart';
+import { getShopper, shopperKey } from '@/lib/session';
+
+type Params = { params: Promise<{ sku: string }> };
+
+function errorResponse(error: unknown) {
+  if (error instanceof CartError) {
+    return NextResponse.json({ error: error.message }, { status: error.status });
+  }
+  if (error instanceof CatalogSourceError) {
+    console.error('Cart: failed to load catalog:', error);
+    return NextResponse.json({ error: 'Product catalog is temporarily unavailable' }, { status: 502 });
+  }
+  throw error;
+}
+
+export async function PATCH(req: Request, { params }: Params) {
+  const { sku } = await params;
+  let body: { quantity?: unknown };
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+  const quantity = parseQuantity(body.quantity, { allowZero: true });
+  if (quantity === null) {
+    return NextResponse.json({ error: 'quantity must be a whole number from 0 to 10' }, { status: 400 });
+  }
+  const cartId = shopperKey(await getShopper());
+  if (!cartId) return NextResponse.json({ error: `${sku} is not in the cart` }, { status: 404 });
+  try {
+    return NextResponse.json({ cart: await priceCart(await setLineQuantity(cartId, sku, quantity)) }, { status: 200 });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+export async function DELETE(_req: Request, { params }: Params) {
+  const { sku } = await params;
+  const cartId = shopperKey(await getShopper());
+  if (!cartId) return NextResponse.json({ error: `${sku} is not in the cart` }, { status: 404 });
+  try {
+    return NextResponse.json({ cart: await priceCart(await removeFromCart(cartId, sku)) }, { status: 200 });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,62 @@
+import { NextResponse } from 'next/server';
+import { CatalogSourceError } from '@/lib/catalog';
+import { addToCart, CartError, clearCart, getCart, parseQuantity, parseTryOnImage, priceCart } from '@/lib/cart';
+import { ensureShopper, getShopper, shopperKey } from '@/lib/session';
+
+// GET    /api/cart          current shopper's cart, priced from the catalog
+// POST   /api/cart          { sku, quantity?, tryOnImage? } adds to the line for that SKU
+// DELETE /api/cart          empties the cart
+// PATCH  /api/cart/:sku     { quantity } (0 removes)
+// DELETE /api/cart/:sku     removes a line
+
+function errorResponse(error: unknown) {
+  if (error instanceof CartError) {
+    return NextResponse.json({ error: error.message }, { status: error.status });
+  }
+  if (error instanceof CatalogSourceError) {
+    console.error('Cart: failed to load catalog:', error);
+    return NextResponse.json({ error: 'Product catalog is temporarily unavailable' }, { status: 502 });
+  }
+  throw error;
+}
+
+export async function GET() {
+  try {
+    const cart = await getCart(shopperKey(await getShopper()));
+    return NextResponse.json({ cart: await priceCart(cart) }, { status: 200 });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+export async function POST(req: Request) {
+  let body: { sku?: unknown; quantity?: unknown; tryOnImage?: unknown };
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+  if (typeof body.sku !== 'string' || !body.sku.trim()) {
+    return NextResponse.json({ error: 'Missing sku' }, { status: 400 });
+  }
+  const quantity = body.quantity === undefined ? 1 : parseQuantity(body.quantity);
+  if (quantity === null) {
+    return NextResponse.json({ error: 'quantity must be a whole number from 1 to 10' }, { status: 400 });
+  }
+  const tryOnImage = parseTryOnImage(body.tryOnImage);
+  if (tryOnImage === null) {
+    return NextResponse.json({ error: 'tryOnImage must be a site path or a small JPEG, PNG or WebP data URL' }, { status: 400 });
+  }
+  try {
+    const cart = await addToCart(shopperKey(await ensureShopper())!, body.sku.trim(), quantity, tryOnImage);
+    return NextResponse.json({ cart: await priceCart(cart) }, { status: 200 });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+export async function DELETE() {
+  const cartId = shopperKey(await getShopper());
+  if (cartId) await clearCart(cartId);
+  return NextResponse.json({ cart: await priceCart(await getCart(undefined)) }, { status: 200 });
+}
@@ -0,0 +1,80 @@
+import { NextResponse } from 'next/server';
+import { getLLMProvider, LLMError, type ChatMessage, type LLMProvider } from '@/lib/llm';
+import { sseResponse } from '@/lib/sse';
+import { runStylist, type StylistEvent } from '@/lib/stylist';
+
+const SYSTEM_PROMPT =
+  'You are VirtuFit\'s AI fashion stylist. Give concise, friendly advice about outfits, colors, fit and sizing. ' +
+  'Use the earlier conversation to keep your suggestions consistent with what the shopper already told you. ' +
+  'When you suggest garments, call search_catalog and only recommend products it returns; the shopper sees them as cards below your reply, ' +
+  'so refer to them by title instead of pasting links. Use get_size_recommendation when the shopper shares body measurements.';
+
+// Only the most recent turns are forwarded to keep prompts small
+const MAX_CONTEXT_MESSAGES = 10;
+const MAX_MESSAGE_LENGTH = 2000;
+
+// The page sends its own history shape ({ role: 'user' | 'bot', content }),
+// map it onto chat-completion roles and drop anything malformed.
+function normalizeContext(context: unknown): ChatMessage[] {
+  if (!Array.isArray(context)) return [];
+  const messages: ChatMessage[] = [];
+  for (const entry of context.slice(-MAX_CONTEXT_MESSAGES)) {
+    if (typeof entry !== 'object' || entry === null) continue;
+    const { role, content } = entry as { role?: unknown; content?: unknown };
+    if (typeof content !== 'string' || !content.trim()) continue;
+    if (role === 'user') messages.push({ role: 'user', content: content.slice(0, MAX_MESSAGE_LENGTH) });
+    else if (role === 'bot' || role === 'assistant') messages.push({ role: 'assistant', content: content.slice(0, MAX_MESSAGE_LENGTH) });
+  }
+  return messages;
+}
+
+function errorResponse(error: LLMError) {
+  return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+}
+
+export async function POST(req: Request) {
+  let provider: LLMProvider;
+  try {
+    provider = getLLMProvider();
+  } catch (error) {
+    if (error instanceof LLMError) return errorResponse(error);
+    throw error;
+  }
+
+  let body: { message?: unknown; context?: unknown };
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+  const { message, context } = body;
+  if (typeof message !== 'string' || !message.trim()) {
+    return NextResponse.json({ error: 'Missing message' }, { status: 400 });
+  }
+
+  const messages: ChatMessage[] = [
+    { role: 'system', content: SYSTEM_PROMPT },
+    ...normalizeContext(context),
+    { role: 'user', content: message.slice(0, MAX_MESSAGE_LENGTH) },
+  ];
+
+  // Pull the first chunk before committing to a stream so connection and
+  // auth failures still come back as a plain JSON error with a real status.
+  const events = runStylist(provider, messages, req.signal);
+  let first: IteratorResult<StylistEvent>;
+  try {
+    first = await events.next();
+  } catch (error) {
+    if (error instanceof LLMError) return errorResponse(error);
+    throw error;
+  }
+
+  return sseResponse(async (send) => {
+    for (let next = first; !next.done; next = await events.next()) {
+      const event = next.value;
+      if (event.type === 'token') send('token', { content: event.content });
+      else send('products', { products: event.products });
+    }
+    send('done', {});
+  });
+}
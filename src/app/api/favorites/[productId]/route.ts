@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server';
+import { CatalogSourceError } from '@/lib/catalog';
+import { getShopper, shopperKey } from '@/lib/session';
+import { getFavorites, removeFromWishlist, resolveWishlist } from '@/lib/wishlists';
+
+type Params = { params: Promise<{ productId: string }> };
+
+export async function DELETE(_req: Request, { params }: Params) {
+  const { productId } = await params;
+  const ownerKey = shopperKey(await getShopper());
+  const favorites = await getFavorites(ownerKey);
+  try {
+    const updated = ownerKey ? await removeFromWishlist(ownerKey, favorites.id, productId) : favorites;
+    return NextResponse.json({ wishlist: await resolveWishlist(updated) }, { status: 200 });
+  } catch (error) {
+    if (error instanceof CatalogSourceError) {
+      console.error('Favorites: failed to load catalog:', error);
+      return NextResponse.json({ error: 'Product catalog is temporarily unavailable' }, { status: 502 });
+    }
+    throw error;
+  }
+}
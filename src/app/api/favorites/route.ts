@@ -0,0 +1,55 @@
+import { NextResponse } from 'next/server';
+import { snapshotFavorites } from '@/lib/alerts';
+import { CatalogSourceError } from '@/lib/catalog';
+import { ensureShopper, getShopper, shopperKey } from '@/lib/session';
+import { addToWishlist, getFavorites, parseProductId, resolveWishlist, WishlistError } from '@/lib/wishlists';
+
+// GET    /api/favorites              the shopper's favorites, resolved against the live catalog
+// POST   /api/favorites              { productId } or { productIds: [...] }; already saved ids are ignored
+// DELETE /api/favorites/:productId
+//
+// Favorites are the shopper's default wishlist; see /api/wishlists for named lists.
+
+function errorResponse(error: unknown) {
+  if (error instanceof WishlistError) {
+    return NextResponse.json({ error: error.message }, { status: error.status });
+  }
+  if (error instanceof CatalogSourceError) {
+    console.error('Favorites: failed to load catalog:', error);
+    return NextResponse.json({ error: 'Product catalog is temporarily unavailable' }, { status: 502 });
+  }
+  throw error;
+}
+
+export async function GET() {
+  try {
+    const favorites = await getFavorites(shopperKey(await getShopper()));
+    return NextResponse.json({ wishlist: await resolveWishlist(favorites) }, { status: 200 });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+export async function POST(req: Request) {
+  let body: { productId?: unknown; productIds?: unknown };
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+  const raw = Array.isArray(body.productIds) ? body.productIds : [body.productId];
+  const productIds = raw.map(parseProductId);
+  if (!productIds.length || productIds.some(id => id === null)) {
+    return NextResponse.json({ error: 'productId must be a product id' }, { status: 400 });
+  }
+  try {
+    const ownerKey = shopperKey(await ensureShopper())!;
+    const favorites = await getFavorites(ownerKey);
+    const updated = await addToWishlist(ownerKey, favorites.id, productIds as string[]);
+    // Baseline for price-drop and back-in-stock alerts
+    await snapshotFavorites(updated.id, productIds as string[]);
+    return NextResponse.json({ wishlist: await resolveWishlist(updated) }, { status: 200 });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server';
+import { getStorage, isStorageKey, StorageError, verifyFileSignature } from '@/lib/storage';
+
+type Params = { params: Promise<{ key: string[] }> };
+
+// Serves stored uploads behind signed, expiring links from /api/upload
+export async function GET(req: Request, { params }: Params) {
+  const key = (await params).key.join('/');
+  const { searchParams } = new URL(req.url);
+  if (!isStorageKey(key) || !verifyFileSignature(key, searchParams.get('expires'), searchParams.get('signature'))) {
+    return NextResponse.json({ error: 'This link is invalid or has expired' }, { status: 403 });
+  }
+  try {
+    const file = await getStorage().get(key);
+    if (!file) return NextResponse.json({ error: 'File not found' }, { status: 404 });
+    return new Response(Buffer.from(file.body), {
+      status: 200,
+      headers: {
+        'Content-Type': file.contentType,
+        'Content-Length': String(file.size),
+        'Cache-Control': 'private, max-age=300',
+        'X-Content-Type-Options': 'nosniff',
+      },
+    });
+  } catch (error) {
+    if (error instanceof StorageError) {
+      console.error('Files: storage error:', error);
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    throw error;
+  }
+}
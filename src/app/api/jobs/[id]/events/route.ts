@@ -0,0 +1,42 @@
+import { NextResponse } from 'next/server';
+import { getJobForOwner, isFinished, subscribeToJob, toPublicJob, type Job } from '@/lib/jobs';
+import { getShopper, shopperKey } from '@/lib/session';
+import { sseResponse } from '@/lib/sse';
+
+type Params = { params: Promise<{ id: string }> };
+
+// Comment lines keep proxies from closing a quiet stream
+const HEARTBEAT_MS = 15_000;
+
+// Server-sent events: a "job" event with the current state straight away,
+// then one per change. The stream ends once the job has finished.
+export async function GET(_req: Request, { params }: Params) {
+  const { id } = await params;
+  const owner = shopperKey(await getShopper());
+  if (!(await getJobForOwner(id, owner))) return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+
+  return sseResponse((send, signal) => new Promise<void>((resolve, reject) => {
+    // States can arrive out of order around the initial read; never step back
+    let sentAt = '';
+    let done = false;
+    const onJob = (current: Job) => {
+      if (done || current.updatedAt < sentAt) return;
+      sentAt = current.updatedAt;
+      send('job', toPublicJob(current));
+      if (isFinished(current)) finish();
+    };
+    const finish = () => {
+      done = true;
+      unsubscribe();
+      signal.removeEventListener('abort', finish);
+      resolve();
+    };
+    // Subscribed before the state is read, so no change falls in between
+    const unsubscribe = subscribeToJob(id, onJob);
+    signal.addEventListener('abort', finish);
+    getJobForOwner(id, owner).then(job => (job ? onJob(job) : finish()), error => {
+      reject(error);
+      finish();
+    });
+  }), { heartbeatMs: HEARTBEAT_MS });
+}
@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server';
+import { cancelJob, getJobForOwner, JobError, toPublicJob } from '@/lib/jobs';
+import { getShopper, shopperKey } from '@/lib/session';
+
+type Params = { params: Promise<{ id: string }> };
+
+export async function GET(_req: Request, { params }: Params) {
+  const { id } = await params;
+  const job = await getJobForOwner(id, shopperKey(await getShopper()));
+  if (!job) return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+  return NextResponse.json({ job: toPublicJob(job) }, { status: 200 });
+}
+
+export async function DELETE(_req: Request, { params }: Params) {
+  const { id } = await params;
+  try {
+    const job = await cancelJob(id, shopperKey(await getShopper()));
+    return NextResponse.json({ job: toPublicJob(job) }, { status: 200 });
+  } catch (error) {
+    if (error instanceof JobError) {
+      return NextResponse.json(
+        { error: error.message, ...(error.job ? { job: toPublicJob(error.job) } : {}) },
+        { status: error.status },
+      );
+    }
+    throw error;
+  }
+}
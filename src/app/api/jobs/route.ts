@@ -0,0 +1,58 @@
+import { NextResponse } from 'next/server';
+import { createAvatarJob, JobError, listJobs, parseViewKeys, toPublicJob } from '@/lib/jobs';
+import { PhotoError } from '@/lib/photos';
+import { ensureShopper, getShopper, shopperKey } from '@/lib/session';
+import { StorageError } from '@/lib/storage';
+import { ThreeDProviderError } from '@/lib/three-d';
+
+// GET    /api/jobs               the shopper's recent jobs, newest first
+// POST   /api/jobs               { uploadKey, views? } queues avatar generation from an /api/upload photo;
+//                                views is { side?, back? } of more upload keys for a multi-view avatar
+// GET    /api/jobs/:id
+// DELETE /api/jobs/:id           cancels a queued or running job
+// GET    /api/jobs/:id/events    server-sent events with the job on every change
+
+function errorResponse(error: unknown) {
+  if (error instanceof JobError) {
+    return NextResponse.json(
+      { error: error.message, ...(error.job ? { job: toPublicJob(error.job) } : {}) },
+      { status: error.status },
+    );
+  }
+  if (error instanceof PhotoError) {
+    return NextResponse.json(
+      { error: error.message, suggestion: error.suggestion, code: error.code, ...(error.view ? { view: error.view } : {}) },
+      { status: error.status },
+    );
+  }
+  if (error instanceof StorageError || error instanceof ThreeDProviderError) {
+    console.error('Jobs: could not create job:', error);
+    return NextResponse.json({ error: error.message }, { status: error.status });
+  }
+  throw error;
+}
+
+export async function GET() {
+  const jobs = await listJobs(shopperKey(await getShopper()));
+  return NextResponse.json({ jobs: jobs.map(toPublicJob) }, { status: 200 });
+}
+
+export async function POST(req: Request) {
+  let body: { uploadKey?: unknown; views?: unknown };
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+  if (typeof body.uploadKey !== 'string') {
+    return NextResponse.json({ error: 'uploadKey is required' }, { status: 400 });
+  }
+  const views = parseViewKeys(body.views);
+  if (!views) return NextResponse.json({ error: 'views must be { side?, back? } upload keys' }, { status: 400 });
+  try {
+    const job = await createAvatarJob(shopperKey(await ensureShopper())!, body.uploadKey, views);
+    return NextResponse.json({ job: toPublicJob(job) }, { status: 201 });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -1,291 +1,149 @@
+import { createHash } from 'crypto';
 import { NextResponse } from 'next/server';
+import { cacheModel } from '@/lib/models';
+import { PhotoError, preprocessPhoto } from '@/lib/photos';
+import { StorageError } from '@/lib/storage';
+import {
+  getThreeDProvider,
+  ThreeDProviderError,
+  type ThreeDImageInput,
+  type ThreeDProvider,
+  type ThreeDView,
+  type ThreeDViews,
+} from '@/lib/three-d';
 
-// Tripo error code mapping for user-friendly messages
-const TRIPO_ERROR_MAP: Record<number, { message: string; suggestion: string }> = {
-  1002: {
-    message: 'Authentication failed. Your API key is missing, invalid, or you have no API credits.',
-    suggestion: 'Check your API key and ensure you have sufficient API credits (not web credits).',
-  },
-  2000: {
-    message: 'You have exceeded the generation rate limit.',
-    suggestion: 'Please retry later. Consider implementing exponential backoff.',
-  },
-  2001: {
-    message: 'Task not found.',
-    suggestion: 'Check if you passed the correct task id.',
-  },
-  2002: {
-    message: 'The task type is unsupported.',
-    suggestion: 'Check if you passed the correct task type.',
-  },
-  2003: {
-    message: 'The input file is empty.',
-    suggestion: 'Check if you passed file, or it may be rejected by the firewall.',
-  },
-  2004: {
-    message: 'The file type is unsupported.',
-    suggestion: 'Check if the file you input is supported.',
-  },
-  2008: {
-    message: 'Input violates content policy.',
-    suggestion: 'Modify your input and retry.',
-  },
-  2010: {
-    message: 'You need more credits to start a new task.',
-    suggestion: 'Review your usage at Billing and purchase more API credits.',
-  },
-  2015: {
-    message: 'The version has been deprecated.',
-    suggestion: 'Try a higher model version.',
-  },
-};
+const VIEWS: ThreeDView[] = ['front', 'side', 'back'];
 
-// Type for Tripo error responses
-type TripoError = { code: number; message?: string; suggestion?: string };
+// Map provider errors to user-friendly responses
+function providerErrorResponse(error: ThreeDProviderError) {
+  console.error(`Backend: ${error.provider} error:`, error.code, error.message);
+  return NextResponse.json({
+    error: error.message,
+    suggestion: error.suggestion,
+    code: error.providerCode ?? error.code,
+  }, { status: error.status });
+}
 
+// Same photo or URL, same task: a resubmitted request doesn't pay twice
+function idempotencyKey(kind: 'url' | 'photo' | 'views', value: string | Uint8Array) {
+  return `${kind}:${createHash('sha256').update(value).digest('hex')}`;
+}
+
+// Helper: Convert data URL to Buffer. The declared type is ignored;
+// preprocessing detects the real format.
+function dataURLtoBuffer(dataurl: string) {
+  const arr = dataurl.split(',');
+  if (!arr[0].startsWith('data:') || !arr[0].endsWith(';base64') || !arr[1]) throw new Error('Invalid data URL');
+  return Buffer.from(arr[1], 'base64');
+}
+
+// A direct URL goes to the provider as is; a data URL is normalized first.
+// Throws a PhotoError (labelled with `view` when given) for unusable photos.
+async function prepareImage(
+  imageUrl: string,
+  provider: ThreeDProvider,
+  view?: ThreeDView,
+): Promise<{ input: ThreeDImageInput; key: string }> {
+  if (imageUrl.startsWith('http://') || imageUrl.startsWith('https://')) {
+    return { input: { url: imageUrl }, key: idempotencyKey('url', imageUrl) };
+  }
+  try {
+    const photo = await preprocessPhoto(dataURLtoBuffer(imageUrl), provider.photoProfile);
+    console.log("Backend: Photo preprocessed:", view ?? 'single', photo.sourceType, `${photo.width}x${photo.height}`, "sharpness", Math.round(photo.sharpness));
+    return { input: { image: photo.body, contentType: photo.contentType }, key: idempotencyKey('photo', photo.body) };
+  } catch (error) {
+    if (!(error instanceof PhotoError)) throw error;
+    console.log("Backend: Photo rejected before generation:", view ?? 'single', error.code, error.message);
+    throw view ? error.forView(view) : error;
+  }
+}
+
+// { front, side?, back? } of image URLs, or null if malformed
+function parseViews(value: unknown): Partial<Record<ThreeDView, string>> | null {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return null;
+  const views: Partial<Record<ThreeDView, string>> = {};
+  for (const [view, url] of Object.entries(value)) {
+    if (!VIEWS.includes(view as ThreeDView) || (url !== undefined && typeof url !== 'string')) return null;
+    if (url) views[view as ThreeDView] = url;
+  }
+  return views.front ? views : null;
+}
+
+// Stateless image-to-3D on the configured provider (see src/lib/three-d):
+// start a task from image_url, or a multi-view one from views
+// ({ front, side?, back? } image URLs), or poll one by taskId. Avatar
+// generation from the page goes through /api/jobs instead.
 export async function POST(req: Request) {
-  const apiKey = process.env.TRIPO_API_KEY;
-  if (!apiKey || typeof apiKey !== 'string' || apiKey.trim() === '') {
-    return NextResponse.json({ error: 'Server configuration error: Missing Tripo API key' }, { status: 500 });
+  let provider: ThreeDProvider;
+  try {
+    provider = getThreeDProvider();
+  } catch (error) {
+    if (error instanceof ThreeDProviderError) return providerErrorResponse(error);
+    throw error;
   }
 
   try {
-    // Accept image_url (data URL or direct URL), taskId, model_version
+    // Accept image_url (data URL or direct URL), views or taskId
     const body = await req.json();
-    const { image_url, taskId, model_version } = body;
+    const { image_url, views, taskId } = body;
 
-    console.log("Backend: Received request - Task ID:", taskId, "Image URL present:", !!image_url);
-
-    // Helper: Map Tripo error codes to user-friendly messages
-    function tripoErrorResponse(tripoJson: unknown, traceId: string) {
-      console.error("Backend: Tripo API error response received:", JSON.stringify(tripoJson), "Trace ID:", traceId);
-      if (
-        typeof tripoJson !== 'object' ||
-        tripoJson === null ||
-        typeof (tripoJson as TripoError).code !== 'number'
-      ) {
-        return NextResponse.json({ error: 'Unknown Tripo API error', traceId }, { status: 500 });
-      }
-      const { code, message, suggestion } = tripoJson as TripoError;
-      const mapped = TRIPO_ERROR_MAP[code];
-      return NextResponse.json({
-        error: mapped?.message || message || 'Tripo API error',
-        suggestion: mapped?.suggestion || suggestion,
-        traceId,
-        code,
-      }, { status: 500 });
-    }
+    console.log("Backend: Received request - Task ID:", taskId, "Image URL present:", !!image_url, "Views:", views ? Object.keys(views) : 'none');
 
     // --- Polling for existing taskId ---
     if (taskId) {
-      const pollRes = await fetch(`https://api.tripo3d.ai/v2/openapi/task/${taskId}`, {
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${apiKey}`,
-        },
-      });
-      const pollTraceId = pollRes.headers.get('X-Tripo-Trace-ID');
-      const pollJson = await pollRes.json();
-      console.log("Backend: Polling Tripo API response:", JSON.stringify(pollJson), "Trace ID:", pollTraceId);
-      if (pollJson.code !== 0) {
-        return tripoErrorResponse(pollJson, pollTraceId || '');
+      const task = await provider.poll(taskId);
+      if (task.status === 'succeeded' && task.modelUrl) {
+        console.log("Backend: Model URL found:", task.modelUrl);
+        // Served from /api/models, since the provider's link expires
+        const modelUrl = await cacheModel(task.modelUrl, `${provider.name}:${taskId}`);
+        return NextResponse.json({ modelUrl }, { status: 200 });
+      }
+      if (task.status === 'failed' || task.status === 'cancelled') {
+        return NextResponse.json({ error: `${provider.name} task ${task.status}${task.error ? `: ${task.error}` : ''}` }, { status: 500 });
       }
-      if (pollJson.data.status === 'success') {
-        const modelUrl = pollJson.data.output?.pbr_model;
-        if (modelUrl) {
-          console.log("Backend: Model URL found:", modelUrl);
-          return NextResponse.json({ modelUrl, traceId: pollTraceId }, { status: 200 });
-        } else {
-          console.error("Backend: Tripo task succeeded but no model URL found. Tripo response data.output:", JSON.stringify(pollJson.data.output));
-          return NextResponse.json({ error: 'Tripo task succeeded but no model URL found', traceId: pollTraceId }, { status: 500 });
-        }
-      } else if ([
-        'failed', 'cancelled', 'unknown', 'banned', 'expired'
-      ].includes(pollJson.data.status)) {
-        return NextResponse.json({ error: `Tripo task failed: ${pollJson.data.status}`, traceId: pollTraceId }, { status: 500 });
-      } else {
-        // Still processing
-        return NextResponse.json({ status: 'processing', taskId, traceId: pollTraceId }, { status: 202 });
+      // Still processing
+      return NextResponse.json({ status: 'processing', taskId, progress: task.progress }, { status: 202 });
+    }
+
+    // --- Start new multi-view task: every photo is checked before any is sent ---
+    if (views !== undefined) {
+      const urls = parseViews(views);
+      if (!urls) return NextResponse.json({ error: 'views needs a front image URL, and optionally side and back.' }, { status: 400 });
+      const prepared: Partial<Record<ThreeDView, { input: ThreeDImageInput; key: string }>> = {};
+      for (const view of VIEWS) {
+        const url = urls[view];
+        if (url) prepared[view] = await prepareImage(url, provider, view);
       }
+      const { front, side, back } = prepared;
+      const inputs: ThreeDViews = { front: front!.input, ...(side ? { side: side.input } : {}), ...(back ? { back: back.input } : {}) };
+      const key = idempotencyKey('views', VIEWS.map(view => `${view}=${prepared[view]?.key ?? ''}`).join('&'));
+      // A front photo alone is an ordinary single-image task
+      const created = side || back
+        ? await provider.createMultiviewToModel(inputs, { idempotencyKey: key })
+        : await provider.createImageToModel(inputs.front, { idempotencyKey: front!.key });
+      return NextResponse.json({ status: 'processing', ...created }, { status: 202 });
     }
 
     // --- Start new task: image_url required ---
     if (!image_url || typeof image_url !== 'string') {
       return NextResponse.json({ error: 'Missing or invalid image_url.' }, { status: 400 });
     }
-
-    // --- Direct image URL support ---
-    const isDirectUrl = image_url.startsWith('http://') || image_url.startsWith('https://');
-    if (isDirectUrl) {
-      // Pass direct URL to Tripo (no upload needed)
-      const createTaskBody: Record<string, unknown> = {
-        type: 'image_to_model',
-        url: image_url,
-        ...(model_version ? { model_version } : {})
-      };
-      const createTaskRes = await fetch('https://api.tripo3d.ai/v2/openapi/task', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${apiKey}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(createTaskBody),
-      });
-      const createTaskTraceId = createTaskRes.headers.get('X-Tripo-Trace-ID');
-      const createTaskJson = await createTaskRes.json();
-      console.log("Backend: Tripo Create Task response:", JSON.stringify(createTaskJson), "Trace ID:", createTaskTraceId);
-      if (createTaskJson.code !== 0) {
-        return tripoErrorResponse(createTaskJson, createTaskTraceId || '');
-      }
-      const newTaskId = createTaskJson.data.task_id;
-      if (!newTaskId) {
-        return NextResponse.json({ error: 'No task_id returned from Tripo create task', traceId: createTaskTraceId }, { status: 500 });
-      }
-      return NextResponse.json({ status: 'processing', taskId: newTaskId, traceId: createTaskTraceId }, { status: 202 });
-    }
-
-    // --- Data URL: Use STS upload for large files, direct upload for small ---
-    // Helper: Convert data URL to Buffer
-    function dataURLtoBuffer(dataurl: string) {
-      const arr = dataurl.split(',');
-      const mimeMatch = arr[0].match(/:(.*?);/);
-      if (!mimeMatch) throw new Error('Invalid data URL');
-      const mime = mimeMatch[1];
-      const bstr = Buffer.from(arr[1], 'base64');
-      return { buffer: bstr, mime };
+    const { input, key } = await prepareImage(image_url, provider);
+    const created = await provider.createImageToModel(input, { idempotencyKey: key });
+    return NextResponse.json({ status: 'processing', ...created }, { status: 202 });
+  } catch (error) {
+    if (error instanceof PhotoError) {
+      return NextResponse.json(
+        { error: error.message, suggestion: error.suggestion, code: error.code, ...(error.view ? { view: error.view } : {}) },
+        { status: error.status },
+      );
     }
-
-    const { buffer, mime } = dataURLtoBuffer(image_url);
-    const ext = mime.split('/')[1];
-    // If >100KB, use STS upload
-    if (buffer.length > 100 * 1024) {
-      // 1. Get STS token
-      const stsRes = await fetch('https://api.tripo3d.ai/v2/openapi/upload/sts/token', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${apiKey}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ format: ext }),
-      });
-      const stsTraceId = stsRes.headers.get('X-Tripo-Trace-ID');
-      const stsJson = await stsRes.json();
-      if (stsJson.code !== 0) {
-        return tripoErrorResponse(stsJson, stsTraceId || '');
-      }
-      // 2. Upload to S3
-      const {
-        s3_host,
-        resource_bucket,
-        resource_uri,
-        session_token,
-        sts_ak,
-        sts_sk
-      } = stsJson.data;
-      let S3Client, PutObjectCommand;
-      try {
-        ({ S3Client, PutObjectCommand } = await import('@aws-sdk/client-s3'));
-      } catch {
-        return NextResponse.json({
-          error: 'The AWS SDK (@aws-sdk/client-s3) is required for STS uploads but is not installed.',
-          suggestion: 'Add @aws-sdk/client-s3 to your dependencies to enable large file uploads.',
-        }, { status: 500 });
-      }
-      const s3 = new S3Client({
-        region: 'us-west-2',
-        credentials: {
-          accessKeyId: sts_ak,
-          secretAccessKey: sts_sk,
-          sessionToken: session_token,
-        },
-        endpoint: `https://${s3_host}`,
-        forcePathStyle: true,
-      });
-      await s3.send(new PutObjectCommand({
-        Bucket: resource_bucket,
-        Key: resource_uri,
-        Body: buffer,
-        ContentType: mime,
-      }));
-      // 3. Use object for task creation
-      const createTaskBody: Record<string, unknown> = {
-        type: 'image_to_model',
-        object: {
-          bucket: resource_bucket,
-          key: resource_uri,
-        },
-        ...(model_version ? { model_version } : {})
-      };
-      const createTaskRes = await fetch('https://api.tripo3d.ai/v2/openapi/task', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${apiKey}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(createTaskBody),
-      });
-      const createTaskTraceId = createTaskRes.headers.get('X-Tripo-Trace-ID');
-      const createTaskJson = await createTaskRes.json();
-      console.log("Backend: Tripo Create Task response:", JSON.stringify(createTaskJson), "Trace ID:", createTaskTraceId);
-      if (createTaskJson.code !== 0) {
-        return tripoErrorResponse(createTaskJson, createTaskTraceId || '');
-      }
-      const newTaskId = createTaskJson.data.task_id;
-      if (!newTaskId) {
-        return NextResponse.json({ error: 'No task_id returned from Tripo create task', traceId: createTaskTraceId }, { status: 500 });
-      }
-      return NextResponse.json({ status: 'processing', taskId: newTaskId, traceId: createTaskTraceId }, { status: 202 });
-    } else {
-      // --- Small file: direct upload as before ---
-      const formData = new FormData();
-      formData.append('file', new Blob([buffer], { type: mime }), `upload.${ext}`);
-      const uploadRes = await fetch('https://api.tripo3d.ai/v2/openapi/upload', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${apiKey}`
-        },
-        body: formData,
-      });
-      const tripoTraceId = uploadRes.headers.get('X-Tripo-Trace-ID');
-      const uploadJson = await uploadRes.json();
-      console.log("Backend: Tripo Upload response:", JSON.stringify(uploadJson), "Trace ID:", tripoTraceId);
-      if (uploadJson.code !== 0) {
-        return tripoErrorResponse(uploadJson, tripoTraceId || '');
-      }
-      const image_token = uploadJson.data.image_token;
-      if (!image_token) {
-        return NextResponse.json({ error: 'No image_token returned from Tripo upload', traceId: tripoTraceId }, { status: 500 });
-      }
-      const createTaskBody: Record<string, unknown> = {
-        type: 'image_to_model',
-        file: {
-          type: ext,
-          file_token: image_token
-        },
-        ...(model_version ? { model_version } : {})
-      };
-      const createTaskRes = await fetch('https://api.tripo3d.ai/v2/openapi/task', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${apiKey}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(createTaskBody),
-      });
-      const createTaskTraceId = createTaskRes.headers.get('X-Tripo-Trace-ID');
-      const createTaskJson = await createTaskRes.json();
-      console.log("Backend: Tripo Create Task (small file) response:", JSON.stringify(createTaskJson), "Trace ID:", createTaskTraceId);
-      if (createTaskJson.code !== 0) {
-        return tripoErrorResponse(createTaskJson, createTaskTraceId || '');
-      }
-      const newTaskId = createTaskJson.data.task_id;
-      if (!newTaskId) {
-        return NextResponse.json({ error: 'No task_id returned from Tripo create task', traceId: createTaskTraceId }, { status: 500 });
-      }
-      return NextResponse.json({ status: 'processing', taskId: newTaskId, traceId: createTaskTraceId }, { status: 202 });
+    if (error instanceof ThreeDProviderError) return providerErrorResponse(error);
+    if (error instanceof StorageError) {
+      console.error("Backend: Could not cache the model:", error);
+      return NextResponse.json({ error: error.message }, { status: error.status });
     }
-  } catch (error) {
     console.error("Backend: Unhandled server error:", error);
     return NextResponse.json({ error: `Internal server error: ${error instanceof Error ? error.message : String(error)}` }, { status: 500 });
   }
-} 
\ No newline at end of file
+}
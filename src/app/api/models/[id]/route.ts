@@ -0,0 +1,54 @@
+import { NextResponse } from 'next/server';
+import { getModel, ifRangeMatches, isModelId, matchesEtag, MODEL_CONTENT_TYPE, parseRange } from '@/lib/models';
+import { StorageError } from '@/lib/storage';
+
+type Params = { params: Promise<{ id: string }> };
+
+// Content-addressed, so a URL always names the same bytes
+const CACHE_CONTROL = 'private, max-age=31536000, immutable';
+
+// Generated avatar models cached by the job worker (see src/lib/models), with
+// ETag revalidation and single byte ranges. HEAD is answered from GET.
+export async function GET(req: Request, { params }: Params) {
+  const { id } = await params;
+  if (!isModelId(id)) return NextResponse.json({ error: 'Model not found' }, { status: 404 });
+
+  const etag = `"${id}"`;
+  const headers: Record<string, string> = {
+    'Content-Type': MODEL_CONTENT_TYPE,
+    'Cache-Control': CACHE_CONTROL,
+    'ETag': etag,
+    'Accept-Ranges': 'bytes',
+    'X-Content-Type-Options': 'nosniff',
+  };
+  if (matchesEtag(req.headers.get('If-None-Match'), etag)) return new Response(null, { status: 304, headers });
+
+  let model;
+  try {
+    model = await getModel(id);
+  } catch (error) {
+    if (!(error instanceof StorageError)) throw error;
+    console.error('Models: storage error:', error);
+    return NextResponse.json({ error: error.message }, { status: error.status });
+  }
+  if (!model) return NextResponse.json({ error: 'Model not found' }, { status: 404 });
+
+  const body = Buffer.from(model.body);
+  // If-Range: only resume a download of these same bytes
+  const ifRange = req.headers.get('If-Range');
+  const range = !ifRange || ifRangeMatches(ifRange, etag) ? parseRange(req.headers.get('Range'), body.length) : undefined;
+  if (range === null) {
+    return new Response(null, { status: 416, headers: { ...headers, 'Content-Range': `bytes */${body.length}` } });
+  }
+  if (range) {
+    return new Response(body.subarray(range.start, range.end + 1), {
+      status: 206,
+      headers: {
+        ...headers,
+        'Content-Range': `bytes ${range.start}-${range.end}/${body.length}`,
+        'Content-Length': String(range.end - range.start + 1),
+      },
+    });
+  }
+  return new Response(body, { status: 200, headers: { ...headers, 'Content-Length': String(body.length) } });
+}
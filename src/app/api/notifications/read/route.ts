@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server';
+import { markNotificationsRead } from '@/lib/notifications';
+import { getShopper, shopperKey } from '@/lib/session';
+
+// Marks notifications read: { ids?: string[] }, all of them when ids is omitted
+export async function POST(req: Request) {
+  let body: { ids?: unknown } | null = {};
+  try {
+    const text = await req.text();
+    if (text) body = JSON.parse(text);
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+  // e.g. null or [], which would otherwise read as "mark everything read"
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    return NextResponse.json({ error: 'Expected a JSON object' }, { status: 400 });
+  }
+  if (body.ids !== undefined && (!Array.isArray(body.ids) || body.ids.some(id => typeof id !== 'string'))) {
+    return NextResponse.json({ error: 'ids must be an array of notification ids' }, { status: 400 });
+  }
+  const ownerKey = shopperKey(await getShopper());
+  if (ownerKey) await markNotificationsRead(ownerKey, body.ids as string[] | undefined);
+  return NextResponse.json({ read: true }, { status: 200 });
+}
@@ -0,0 +1,15 @@
+import { NextResponse } from 'next/server';
+import { listNotifications, toPublicNotification } from '@/lib/notifications';
+import { getShopper, shopperKey } from '@/lib/session';
+
+// The shopper's notification center, newest first
+export async function GET() {
+  const notifications = await listNotifications(shopperKey(await getShopper()));
+  return NextResponse.json(
+    {
+      notifications: notifications.map(toPublicNotification),
+      unreadCount: notifications.filter(n => !n.readAt).length,
+    },
+    { status: 200 },
+  );
+}
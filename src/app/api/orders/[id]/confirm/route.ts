@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server';
+import { getOrderForShopper, syncOrderPayment, toPublicOrder } from '@/lib/orders';
+import { PaymentError } from '@/lib/payments';
+import { getShopper } from '@/lib/session';
+
+type Params = { params: Promise<{ id: string }> };
+
+// Called when the shopper returns from a payment step (3-D Secure): asks the
+// provider for the payment's current state and updates the order
+export async function POST(_req: Request, { params }: Params) {
+  const { id } = await params;
+  const order = await getOrderForShopper(id, await getShopper());
+  if (!order) return NextResponse.json({ error: `Unknown order ${id}` }, { status: 404 });
+  try {
+    return NextResponse.json({ order: toPublicOrder(await syncOrderPayment(order)) }, { status: 200 });
+  } catch (error) {
+    if (error instanceof PaymentError) {
+      console.error(`Orders: ${error.provider} payment error:`, error);
+      return NextResponse.json({ error: 'Could not check the payment status', code: error.code }, { status: error.status });
+    }
+    throw error;
+  }
+}
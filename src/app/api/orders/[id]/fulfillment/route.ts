@@ -0,0 +1,53 @@
+import { NextResponse } from 'next/server';
+import { OrderError, toPublicOrder, updateFulfillment, type FulfillmentStatus } from '@/lib/orders';
+
+type Params = { params: Promise<{ id: string }> };
+
+const FULFILLMENT_STATUSES: FulfillmentStatus[] = ['unfulfilled', 'shipped', 'delivered'];
+
+function optionalText(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim().slice(0, 200) : undefined;
+}
+
+// Records shipping progress from the warehouse or a fulfilment service:
+//   { status: shipped | delivered, carrier?, trackingNumber?, trackingUrl? }
+// Requires `Authorization: Bearer $ORDERS_ADMIN_TOKEN`.
+export async function POST(req: Request, { params }: Params) {
+  const token = process.env.ORDERS_ADMIN_TOKEN;
+  if (!token) {
+    return NextResponse.json({ error: 'Order fulfilment updates are not configured' }, { status: 404 });
+  }
+  if (req.headers.get('authorization') !== `Bearer ${token}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  const { id } = await params;
+  let body: { status?: unknown; carrier?: unknown; trackingNumber?: unknown; trackingUrl?: unknown };
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+  if (!FULFILLMENT_STATUSES.includes(body.status as FulfillmentStatus)) {
+    return NextResponse.json({ error: `status must be one of ${FULFILLMENT_STATUSES.join(', ')}` }, { status: 400 });
+  }
+  const trackingUrl = optionalText(body.trackingUrl);
+  if (trackingUrl && !/^https:\/\//.test(trackingUrl)) {
+    return NextResponse.json({ error: 'trackingUrl must be an https URL' }, { status: 400 });
+  }
+  const carrier = optionalText(body.carrier);
+  const trackingNumber = optionalText(body.trackingNumber);
+  try {
+    const order = await updateFulfillment(id, {
+      status: body.status as FulfillmentStatus,
+      ...(carrier ? { carrier } : {}),
+      ...(trackingNumber ? { trackingNumber } : {}),
+      ...(trackingUrl ? { trackingUrl } : {}),
+    });
+    return NextResponse.json({ order: toPublicOrder(order) }, { status: 200 });
+  } catch (error) {
+    if (error instanceof OrderError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,12 @@
+import { NextResponse } from 'next/server';
+import { getOrderForShopper, toPublicOrder } from '@/lib/orders';
+import { getShopper } from '@/lib/session';
+
+type Params = { params: Promise<{ id: string }> };
+
+export async function GET(_req: Request, { params }: Params) {
+  const { id } = await params;
+  const order = await getOrderForShopper(id, await getShopper());
+  if (!order) return NextResponse.json({ error: `Unknown order ${id}` }, { status: 404 });
+  return NextResponse.json({ order: toPublicOrder(order) }, { status: 200 });
+}
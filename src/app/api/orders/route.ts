@@ -0,0 +1,63 @@
+import { NextResponse } from 'next/server';
+import { CatalogSourceError } from '@/lib/catalog';
+import { listOrdersForShopper, OrderError, parseCheckoutInput, placeOrder, toPublicOrder } from '@/lib/orders';
+import { PaymentError } from '@/lib/payments';
+import { ensureShopper, getShopper } from '@/lib/session';
+
+const IDEMPOTENCY_KEY_PATTERN = /^[\w-]{8,100}$/;
+
+function errorResponse(error: unknown) {
+  if (error instanceof OrderError) {
+    return NextResponse.json({ error: error.message }, { status: error.status });
+  }
+  if (error instanceof PaymentError) {
+    console.error(`Orders: ${error.provider} payment error:`, error);
+    return NextResponse.json({ error: 'Payment could not be started. Please try again.', code: error.code }, { status: error.status });
+  }
+  if (error instanceof CatalogSourceError) {
+    console.error('Orders: failed to load catalog:', error);
+    return NextResponse.json({ error: 'Product catalog is temporarily unavailable' }, { status: 502 });
+  }
+  throw error;
+}
+
+// The current shopper's orders, newest first
+export async function GET() {
+  const orders = await listOrdersForShopper(await getShopper());
+  return NextResponse.json({ orders: orders.map(toPublicOrder) }, { status: 200 });
+}
+
+// Places an order for the shopper's cart:
+//   { contact: { email, phone? }, shipping: { name, line1, line2?, city, region?, postalCode, country }, paymentMethod }
+// 201 with the order (and nextAction when the card needs 3-D Secure),
+// 402 when the payment was declined. An optional Idempotency-Key header makes
+// retries safe: repeating a key returns the order it placed (with its
+// nextAction while one is pending), or 409 while that order is still being placed.
+export async function POST(req: Request) {
+  const idempotencyKey = req.headers.get('Idempotency-Key') ?? undefined;
+  if (idempotencyKey !== undefined && !IDEMPOTENCY_KEY_PATTERN.test(idempotencyKey)) {
+    return NextResponse.json({ error: 'Invalid Idempotency-Key header' }, { status: 400 });
+  }
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+  const input = parseCheckoutInput(body);
+  if (!input.ok) {
+    return NextResponse.json({ error: 'Invalid checkout details', details: input.errors }, { status: 400 });
+  }
+  try {
+    const { order, nextAction } = await placeOrder(await ensureShopper(), input.value, new URL(req.url).origin, idempotencyKey);
+    if (order.status === 'failed') {
+      return NextResponse.json(
+        { error: order.payment.failureMessage || 'Payment failed', order: toPublicOrder(order) },
+        { status: 402 },
+      );
+    }
+    return NextResponse.json({ order: toPublicOrder(order), nextAction }, { status: 201 });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
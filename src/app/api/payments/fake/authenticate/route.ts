@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server';
+import { createFakePaymentProvider, PaymentError, paymentProviderName } from '@/lib/payments';
+
+// Answers the fake provider's 3-D Secure challenge: { payment, approved }.
+// Only exists while PAYMENT_PROVIDER is fake.
+export async function POST(req: Request) {
+  if (paymentProviderName() !== 'fake') {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 });
+  }
+  let body: { payment?: unknown; approved?: unknown };
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+  if (typeof body.payment !== 'string' || typeof body.approved !== 'boolean') {
+    return NextResponse.json({ error: 'payment and approved are required' }, { status: 400 });
+  }
+  try {
+    const payment = await createFakePaymentProvider().authenticate(body.payment, body.approved);
+    return NextResponse.json({ status: payment.status }, { status: 200 });
+  } catch (error) {
+    if (error instanceof PaymentError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    throw error;
+  }
+}
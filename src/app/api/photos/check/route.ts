@@ -0,0 +1,43 @@
+import { NextResponse } from 'next/server';
+import { PhotoError, preprocessPhoto } from '@/lib/photos';
+import { getStorage, isStorageKey, StorageError } from '@/lib/storage';
+import { getThreeDProvider, ThreeDProviderError } from '@/lib/three-d';
+
+// POST /api/photos/check  { uploadKey, view? } runs the checks avatar generation makes on an
+//                         /api/upload photo, so each photo of a multi-view set can be retaken
+//                         straight away. Answers with its size and sharpness, or the PhotoError
+//                         (labelled with view).
+export async function POST(req: Request) {
+  let body: { uploadKey?: unknown; view?: unknown } | null;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    return NextResponse.json({ error: 'Expected a JSON object' }, { status: 400 });
+  }
+  if (typeof body.uploadKey !== 'string' || !isStorageKey(body.uploadKey)) {
+    return NextResponse.json({ error: 'uploadKey is required' }, { status: 400 });
+  }
+  const view = typeof body.view === 'string' ? body.view : undefined;
+
+  try {
+    const upload = await getStorage().get(body.uploadKey);
+    if (!upload) return NextResponse.json({ error: 'Upload not found' }, { status: 404 });
+    const { width, height, sharpness } = await preprocessPhoto(upload.body, getThreeDProvider().photoProfile);
+    return NextResponse.json({ photo: { width, height, sharpness: Math.round(sharpness) } }, { status: 200 });
+  } catch (error) {
+    if (error instanceof PhotoError) {
+      return NextResponse.json(
+        { error: error.message, suggestion: error.suggestion, code: error.code, ...(view ? { view } : {}) },
+        { status: error.status },
+      );
+    }
+    if (error instanceof StorageError || error instanceof ThreeDProviderError) {
+      console.error('Photos: could not check photo:', error);
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server';
+import { CatalogSourceError, revalidateCatalog } from '@/lib/catalog';
+
+// Forces a catalog refresh, e.g. from a Shopify products/update webhook.
+// Requires `Authorization: Bearer $CATALOG_REVALIDATE_TOKEN`.
+export async function POST(req: Request) {
+  const token = process.env.CATALOG_REVALIDATE_TOKEN;
+  if (!token) {
+    return NextResponse.json({ error: 'Catalog revalidation is not configured' }, { status: 404 });
+  }
+  if (req.headers.get('authorization') !== `Bearer ${token}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  try {
+    await revalidateCatalog();
+    return NextResponse.json({ revalidated: true }, { status: 200 });
+  } catch (error) {
+    if (error instanceof CatalogSourceError) {
+      return NextResponse.json({ error: error.message }, { status: 502 });
+    }
+    throw error;
+  }
+}
@@ -1,16 +1,28 @@
-export async function GET() {
-  return new Response(
-    JSON.stringify({
-      products: [
-        { id: '1', title: 'Pants 2', image: '/mock-clothes/pants2.jpg', price: '$99.00' },
-        { id: '2', title: 'Pants 1', image: '/mock-clothes/pants1.jpg', price: '$79.00' },
-        { id: '3', title: 'Shirt 1', image: '/mock-clothes/shirt1.jpg', price: '$29.00' },
-        { id: '4', title: 'T-shirt 1', image: '/mock-clothes/tshirt1.jpg', price: '$19.00' },
-      ],
-    }),
-    {
-      status: 200,
-      headers: { 'Content-Type': 'application/json' },
+import { NextResponse } from 'next/server';
+import { CatalogQueryError, CatalogSourceError, parseCatalogQuery, queryProducts } from '@/lib/catalog';
+
+// GET /api/products
+//   q          full-text search over title, brand, tags and colors
+//   category   tops | bottoms
+//   size       variant size, e.g. M
+//   color      variant color, e.g. Black (combined with size, one variant must match both)
+//   minPrice   inclusive lower bound in minor units (cents)
+//   maxPrice   inclusive upper bound in minor units (cents)
+//   sort       relevance | newest | price_asc | price_desc | title
+//   limit      page size, 1-48 (default 12)
+//   cursor     nextCursor from the previous page
+export async function GET(req: Request) {
+  try {
+    const query = parseCatalogQuery(new URL(req.url).searchParams);
+    return NextResponse.json(await queryProducts(query), { status: 200 });
+  } catch (error) {
+    if (error instanceof CatalogQueryError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
     }
-  );
-} 
\ No newline at end of file
+    if (error instanceof CatalogSourceError) {
+      console.error('Catalog: failed to load products:', error);
+      return NextResponse.json({ error: 'Product catalog is temporarily unavailable' }, { status: 502 });
+    }
+    throw error;
+  }
+}
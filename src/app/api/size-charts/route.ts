@@ -0,0 +1,80 @@
+import { NextResponse } from 'next/server';
+import {
+  listSizeCharts,
+  normalizeSizeChart,
+  parseSizeChartCsv,
+  saveSizeChart,
+  type SizeChartImport,
+} from '@/lib/sizing';
+
+// Keeps uploads to something a size chart could plausibly be
+const MAX_IMPORT_BYTES = 256 * 1024;
+
+export async function GET() {
+  return NextResponse.json({ charts: await listSizeCharts() }, { status: 200 });
+}
+
+async function readImport(req: Request, params: URLSearchParams): Promise<SizeChartImport | { error: string }> {
+  const contentType = req.headers.get('content-type') || '';
+  // Metadata for CSV bodies can also come from the query string
+  const defaults = {
+    brand: params.get('brand') ?? undefined,
+    category: params.get('category') ?? undefined,
+    name: params.get('name') ?? undefined,
+    unit: params.get('unit') ?? undefined,
+    weightUnit: params.get('weightUnit') ?? undefined,
+  };
+
+  let text: string;
+  let isJson: boolean;
+  if (contentType.includes('multipart/form-data')) {
+    const formData = await req.formData();
+    const file = formData.get('file');
+    if (!file || typeof file === 'string') return { error: 'No file uploaded' };
+    if (file.size > MAX_IMPORT_BYTES) return { error: 'Size chart file is too large' };
+    text = await file.text();
+    isJson = file.name.toLowerCase().endsWith('.json') || file.type === 'application/json';
+  } else {
+    text = await req.text();
+    if (text.length > MAX_IMPORT_BYTES) return { error: 'Size chart file is too large' };
+    isJson = contentType.includes('application/json');
+  }
+
+  if (!isJson) return parseSizeChartCsv(text, defaults);
+  try {
+    return normalizeSizeChart({ ...defaults, ...JSON.parse(text) });
+  } catch {
+    return { error: 'Invalid JSON body' };
+  }
+}
+
+// Validates and imports a size chart (JSON, CSV, or either as a multipart
+// "file"). With ?dryRun=1 the chart is only validated and echoed back.
+// Requires `Authorization: Bearer $SIZE_CHARTS_ADMIN_TOKEN`.
+export async function POST(req: Request) {
+  const token = process.env.SIZE_CHARTS_ADMIN_TOKEN;
+  if (!token) {
+    return NextResponse.json({ error: 'Size chart import is not configured' }, { status: 404 });
+  }
+  if (req.headers.get('authorization') !== `Bearer ${token}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  const params = new URL(req.url).searchParams;
+  const dryRun = ['1', 'true'].includes(params.get('dryRun') ?? '');
+
+  const result = await readImport(req, params);
+  if ('error' in result) {
+    return NextResponse.json({ error: result.error }, { status: 400 });
+  }
+  if (!result.ok) {
+    return NextResponse.json(
+      { error: 'Invalid size chart', details: result.errors, warnings: result.warnings },
+      { status: 422 },
+    );
+  }
+  if (dryRun) {
+    return NextResponse.json({ valid: true, chart: result.chart, warnings: result.warnings }, { status: 200 });
+  }
+  const chart = await saveSizeChart(result.chart);
+  return NextResponse.json({ chart, warnings: result.warnings }, { status: 201 });
+}
@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server';
+import { getProduct } from '@/lib/catalog';
+import { parseSizingInput, recommendSize, SizingError } from '@/lib/sizing';
+
+export async function POST(req: Request) {
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+  const input = parseSizingInput(body);
+  if (!input.ok) {
+    return NextResponse.json({ error: 'Invalid sizing request', details: input.errors }, { status: 400 });
+  }
+  const { productId, measurements, fit } = input.value;
+  if (!(await getProduct(productId))) {
+    return NextResponse.json({ error: `Unknown product ${productId}` }, { status: 404 });
+  }
+  try {
+    return NextResponse.json(await recommendSize(productId, measurements, fit), { status: 200 });
+  } catch (error) {
+    if (error instanceof SizingError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    throw error;
+  }
+}
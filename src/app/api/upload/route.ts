@@ -1,7 +1,52 @@
-export async function POST() {
-  // You can add file handling logic here later
-  return new Response(JSON.stringify({ success: true }), {
-    status: 200,
-    headers: { 'Content-Type': 'application/json' },
-  });
-} 
\ No newline at end of file
+import { NextResponse } from 'next/server';
+import { heicToJpeg, isHeic, PhotoError } from '@/lib/photos';
+import { assertUploadSize, StorageError, storeUpload, uploadMaxBytes } from '@/lib/storage';
+
+function errorResponse(error: unknown) {
+  if (error instanceof StorageError) {
+    if (error.status >= 500) console.error('Upload: storage error:', error);
+    return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+  }
+  if (error instanceof PhotoError) {
+    return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+  }
+  throw error;
+}
+
+// Multipart upload of one image (JPEG, PNG, WebP or HEIC) in the "file"
+// field. Returns the stored object with a short-lived signed URL.
+export async function POST(req: Request) {
+  if (!(req.headers.get('content-type') || '').includes('multipart/form-data')) {
+    return NextResponse.json({ error: 'Expected a multipart/form-data upload' }, { status: 415 });
+  }
+  // Refuse obviously oversized bodies before buffering them; the multipart
+  // envelope adds a little on top of the file itself
+  const declared = Number(req.headers.get('content-length'));
+  if (declared > uploadMaxBytes() + 64 * 1024) {
+    return errorResponse(new StorageError('too_large', `Files can be at most ${Math.floor(uploadMaxBytes() / 1024 / 1024)} MB`));
+  }
+
+  let file: FormDataEntryValue | null;
+  try {
+    file = (await req.formData()).get('file');
+  } catch {
+    return NextResponse.json({ error: 'Malformed multipart body' }, { status: 400 });
+  }
+  if (!file || typeof file === 'string') {
+    return NextResponse.json({ error: 'No file uploaded' }, { status: 400 });
+  }
+
+  try {
+    // Checked before converting, so an oversized HEIC is never decoded
+    assertUploadSize(file.size);
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    // Browsers can't show HEIC, so iPhone photos are stored as JPEG. The
+    // limit is on the file as sent; its JPEG may come out larger.
+    const upload = isHeic(bytes)
+      ? await storeUpload(await heicToJpeg(bytes), process.env, { uploadedSize: bytes.length })
+      : await storeUpload(bytes);
+    return NextResponse.json({ upload }, { status: 201 });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
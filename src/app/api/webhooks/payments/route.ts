@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server';
+import { applyPaymentEvent } from '@/lib/orders';
+import { getPaymentProvider, PaymentError } from '@/lib/payments';
+
+// Payment provider webhooks (Stripe: payment_intent.succeeded,
+// payment_intent.processing, payment_intent.payment_failed, charge.refunded).
+// The signature is checked against the raw body before anything is parsed.
+export async function POST(req: Request) {
+  try {
+    const provider = getPaymentProvider();
+    if (!provider.parseWebhook) {
+      return NextResponse.json({ error: `The ${provider.name} payment provider does not send webhooks` }, { status: 404 });
+    }
+    const payload = await req.text();
+    const event = await provider.parseWebhook(payload, req.headers);
+    if (!event) return NextResponse.json({ received: true, ignored: true }, { status: 200 });
+    const { order, duplicate } = await applyPaymentEvent(event);
+    return NextResponse.json({ received: true, duplicate, orderStatus: order?.status ?? null }, { status: 200 });
+  } catch (error) {
+    if (error instanceof PaymentError) {
+      if (error.code !== 'invalid_signature') console.error(`Webhooks: ${error.provider} error:`, error);
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    throw error;
+  }
+}
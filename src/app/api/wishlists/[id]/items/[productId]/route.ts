@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server';
+import { CatalogSourceError } from '@/lib/catalog';
+import { getShopper, shopperKey } from '@/lib/session';
+import { removeFromWishlist, resolveWishlist, WishlistError } from '@/lib/wishlists';
+
+type Params = { params: Promise<{ id: string; productId: string }> };
+
+export async function DELETE(_req: Request, { params }: Params) {
+  const { id, productId } = await params;
+  try {
+    const list = await removeFromWishlist(shopperKey(await getShopper()) ?? '', id, productId);
+    return NextResponse.json({ wishlist: await resolveWishlist(list) }, { status: 200 });
+  } catch (error) {
+    if (error instanceof WishlistError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    if (error instanceof CatalogSourceError) {
+      console.error('Wishlists: failed to load catalog:', error);
+      return NextResponse.json({ error: 'Product catalog is temporarily unavailable' }, { status: 502 });
+    }
+    throw error;
+  }
+}
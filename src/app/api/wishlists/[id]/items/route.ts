@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server';
+import { snapshotFavorites } from '@/lib/alerts';
+import { CatalogSourceError } from '@/lib/catalog';
+import { getShopper, shopperKey } from '@/lib/session';
+import { addToWishlist, parseProductId, resolveWishlist, WishlistError } from '@/lib/wishlists';
+
+type Params = { params: Promise<{ id: string }> };
+
+export async function POST(req: Request, { params }: Params) {
+  const { id } = await params;
+  let body: { productId?: unknown };
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+  const productId = parseProductId(body.productId);
+  if (!productId) return NextResponse.json({ error: 'productId must be a product id' }, { status: 400 });
+  try {
+    const list = await addToWishlist(shopperKey(await getShopper()) ?? '', id, [productId]);
+    if (list.isDefault) await snapshotFavorites(list.id, [productId]);
+    return NextResponse.json({ wishlist: await resolveWishlist(list) }, { status: 200 });
+  } catch (error) {
+    if (error instanceof WishlistError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    if (error instanceof CatalogSourceError) {
+      console.error('Wishlists: failed to load catalog:', error);
+      return NextResponse.json({ error: 'Product catalog is temporarily unavailable' }, { status: 502 });
+    }
+    throw error;
+  }
+}
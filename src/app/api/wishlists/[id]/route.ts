@@ -0,0 +1,63 @@
+import { NextResponse } from 'next/server';
+import { CatalogSourceError } from '@/lib/catalog';
+import { getShopper, shopperKey } from '@/lib/session';
+import {
+  deleteWishlist,
+  getWishlist,
+  parseWishlistName,
+  renameWishlist,
+  resolveWishlist,
+  toWishlistSummary,
+  WishlistError,
+} from '@/lib/wishlists';
+
+type Params = { params: Promise<{ id: string }> };
+
+function errorResponse(error: unknown) {
+  if (error instanceof WishlistError) {
+    return NextResponse.json({ error: error.message }, { status: error.status });
+  }
+  if (error instanceof CatalogSourceError) {
+    console.error('Wishlists: failed to load catalog:', error);
+    return NextResponse.json({ error: 'Product catalog is temporarily unavailable' }, { status: 502 });
+  }
+  throw error;
+}
+
+export async function GET(_req: Request, { params }: Params) {
+  const { id } = await params;
+  try {
+    const list = await getWishlist(shopperKey(await getShopper()), id);
+    return NextResponse.json({ wishlist: await resolveWishlist(list) }, { status: 200 });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+export async function PATCH(req: Request, { params }: Params) {
+  const { id } = await params;
+  let body: { name?: unknown };
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+  const name = parseWishlistName(body.name);
+  if (!name) return NextResponse.json({ error: 'name must be 1 to 60 characters' }, { status: 400 });
+  try {
+    const list = await renameWishlist(shopperKey(await getShopper()) ?? '', id, name);
+    return NextResponse.json({ wishlist: toWishlistSummary(list) }, { status: 200 });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+export async function DELETE(_req: Request, { params }: Params) {
+  const { id } = await params;
+  try {
+    await deleteWishlist(shopperKey(await getShopper()) ?? '', id);
+    return NextResponse.json({ deleted: true }, { status: 200 });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server';
+import { getShopper, shopperKey } from '@/lib/session';
+import { setWishlistShared, toWishlistSummary, WishlistError } from '@/lib/wishlists';
+
+type Params = { params: Promise<{ id: string }> };
+
+async function share(req: Request, id: string, shared: boolean) {
+  try {
+    const list = await setWishlistShared(shopperKey(await getShopper()) ?? '', id, shared);
+    const shareUrl = list.shareToken ? `${new URL(req.url).origin}/wishlists/shared/${list.shareToken}` : null;
+    return NextResponse.json({ wishlist: toWishlistSummary(list), shareUrl }, { status: 200 });
+  } catch (error) {
+    if (error instanceof WishlistError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    throw error;
+  }
+}
+
+// Anyone with the link can view the list, but not change it or see who owns it
+export async function POST(req: Request, { params }: Params) {
+  return share(req, (await params).id, true);
+}
+
+export async function DELETE(req: Request, { params }: Params) {
+  return share(req, (await params).id, false);
+}
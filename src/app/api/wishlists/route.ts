@@ -0,0 +1,44 @@
+import { NextResponse } from 'next/server';
+import { ensureShopper, getShopper, shopperKey } from '@/lib/session';
+import { createWishlist, getFavorites, listWishlists, parseWishlistName, toWishlistSummary, WishlistError } from '@/lib/wishlists';
+
+// GET    /api/wishlists                          the shopper's lists, favorites first
+// POST   /api/wishlists                          { name } creates a list
+// GET    /api/wishlists/:id                      one list, resolved against the live catalog
+// PATCH  /api/wishlists/:id                      { name } renames
+// DELETE /api/wishlists/:id
+// POST   /api/wishlists/:id/items                { productId }
+// DELETE /api/wishlists/:id/items/:productId
+// POST   /api/wishlists/:id/share                creates (or returns) the read-only link
+// DELETE /api/wishlists/:id/share                revokes it
+// GET    /api/wishlists/shared/:token            public, read-only view of a shared list
+
+export async function GET() {
+  const ownerKey = shopperKey(await getShopper());
+  // Make sure favorites show up even before anything was saved
+  if (ownerKey) await getFavorites(ownerKey);
+  const lists = await listWishlists(ownerKey);
+  return NextResponse.json({ wishlists: lists.map(toWishlistSummary) }, { status: 200 });
+}
+
+export async function POST(req: Request) {
+  let body: { name?: unknown };
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+  const name = parseWishlistName(body.name);
+  if (!name) return NextResponse.json({ error: 'name must be 1 to 60 characters' }, { status: 400 });
+  try {
+    const ownerKey = shopperKey(await ensureShopper())!;
+    await getFavorites(ownerKey);
+    const list = await createWishlist(ownerKey, name);
+    return NextResponse.json({ wishlist: toWishlistSummary(list) }, { status: 201 });
+  } catch (error) {
+    if (error instanceof WishlistError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    throw error;
+  }
+}
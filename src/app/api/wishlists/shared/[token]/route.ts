@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server';
+import { CatalogSourceError } from '@/lib/catalog';
+import { getSharedWishlist } from '@/lib/wishlists';
+
+type Params = { params: Promise<{ token: string }> };
+
+export async function GET(_req: Request, { params }: Params) {
+  const { token } = await params;
+  try {
+    const wishlist = await getSharedWishlist(token);
+    if (!wishlist) return NextResponse.json({ error: 'This wishlist is not shared' }, { status: 404 });
+    return NextResponse.json({ wishlist }, { status: 200 });
+  } catch (error) {
+    if (error instanceof CatalogSourceError) {
+      console.error('Wishlists: failed to load catalog:', error);
+      return NextResponse.json({ error: 'Product catalog is temporarily unavailable' }, { status: 502 });
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,98 @@
+"use client";
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import Image from "next/image";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useAccount } from "@/hooks/use-account";
+import { useAvatars } from "@/hooks/use-avatars";
+import type { AvatarStatus } from "@/lib/avatars/types";
+
+const STATUS_LABELS: Record<AvatarStatus, string> = {
+  generating: "Generating...",
+  ready: "Ready",
+  failed: "Failed",
+};
+
+// The shopper's avatar library: rename, delete and choose the one to dress
+export default function AvatarsPage() {
+  const account = useAccount();
+  const avatars = useAvatars(account.user?.id);
+  const [renaming, setRenaming] = useState<{ id: string; name: string } | null>(null);
+
+  // Pick up avatars that finish generating while the page is open
+  const { avatars: list, refresh } = avatars;
+  useEffect(() => {
+    if (!list?.some(avatar => avatar.status === "generating")) return;
+    const timer = setTimeout(refresh, 5000);
+    return () => clearTimeout(timer);
+  }, [list, refresh]);
+
+  const handleRename = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (renaming && await avatars.rename(renaming.id, renaming.name)) setRenaming(null);
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col items-center bg-background text-foreground py-12 px-4">
+      <div className="w-full max-w-3xl flex flex-col gap-6">
+        <div className="flex items-center justify-between">
+          <h1 className="text-2xl font-bold">Your avatars</h1>
+          <Link href="/" className="underline underline-offset-4 text-sm">Continue shopping</Link>
+        </div>
+        {avatars.error && <span className="text-red-600 text-sm">{avatars.error}</span>}
+        {!avatars.avatars && !avatars.error && <span>Loading avatars...</span>}
+        {avatars.avatars?.length === 0 && (
+          <span className="text-muted-foreground">No avatars yet. Upload a photo on the home page to make one.</span>
+        )}
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          {avatars.avatars?.map(avatar => (
+            <Card key={avatar.id} className={`p-4 flex gap-4 ${avatar.active ? "border-blue-600 border-2" : ""}`}>
+              <Image
+                src={avatar.thumbnailUrl ?? avatar.photoUrl ?? "/file.svg"}
+                alt={avatar.name}
+                width={96}
+                height={96}
+                unoptimized
+                className="w-24 h-24 object-cover rounded shrink-0"
+              />
+              <div className="flex flex-col gap-2 min-w-0 flex-1">
+                {renaming?.id === avatar.id ? (
+                  <form className="flex gap-2" onSubmit={handleRename}>
+                    <Input
+                      value={renaming.name}
+                      onChange={e => setRenaming({ id: avatar.id, name: e.target.value })}
+                      maxLength={60}
+                      aria-label="Avatar name"
+                      autoFocus
+                    />
+                    <Button type="submit" size="sm" disabled={!renaming.name.trim() || avatars.pending}>Save</Button>
+                  </form>
+                ) : (
+                  <span className="font-semibold truncate">{avatar.name}</span>
+                )}
+                <span className="text-xs text-muted-foreground">
+                  {avatar.active ? "Dressed in the try-on viewer" : STATUS_LABELS[avatar.status]}
+                  {" · "}
+                  Created {new Date(avatar.createdAt).toLocaleDateString()}
+                </span>
+                {avatar.error && <span className="text-xs text-red-600">{avatar.error}</span>}
+                <div className="flex flex-wrap gap-2">
+                  {avatar.status === "ready" && !avatar.active && (
+                    <Button size="sm" disabled={avatars.pending} onClick={() => avatars.setActive(avatar.id)}>Use for try-on</Button>
+                  )}
+                  {renaming?.id !== avatar.id && (
+                    <Button size="sm" variant="outline" onClick={() => setRenaming({ id: avatar.id, name: avatar.name })}>Rename</Button>
+                  )}
+                  <Button size="sm" variant="destructive" disabled={avatars.pending} onClick={() => avatars.remove(avatar.id)}>Delete</Button>
+                </div>
+              </div>
+            </Card>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
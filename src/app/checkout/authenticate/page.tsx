@@ -0,0 +1,51 @@
+"use client";
+import { useState } from "react";
+import { useSearchParams } from "next/navigation";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+
+// Stand-in for a bank's 3-D Secure page, used by the fake payment provider
+export default function AuthenticatePage() {
+  const params = useSearchParams();
+  const payment = params.get("payment");
+  // Only same-site return paths are followed
+  const requestedReturn = params.get("return") ?? "";
+  const returnUrl = requestedReturn.startsWith("/") && !requestedReturn.startsWith("//") ? requestedReturn : "/checkout";
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const respond = async (approved: boolean) => {
+    setSubmitting(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/payments/fake/authenticate", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ payment, approved }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data?.error || "Authentication failed.");
+      window.location.replace(returnUrl);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Authentication failed.");
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col items-center justify-center bg-background text-foreground py-12 px-4">
+      <Card className="w-full max-w-sm p-8 flex flex-col gap-4 items-center text-center">
+        <h1 className="text-xl font-bold">Confirm your payment</h1>
+        <p className="text-sm text-muted-foreground">
+          Your bank asks you to confirm this purchase. This is a simulated 3-D Secure check for the test card.
+        </p>
+        {!payment && <span className="text-red-600 text-sm">Missing payment reference.</span>}
+        {error && <span className="text-red-600 text-sm">{error}</span>}
+        <div className="flex gap-3">
+          <Button onClick={() => respond(true)} disabled={!payment || submitting}>Approve</Button>
+          <Button variant="outline" onClick={() => respond(false)} disabled={!payment || submitting}>Fail authentication</Button>
+        </div>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,88 @@
+"use client";
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { useSearchParams } from "next/navigation";
+import { Card } from "@/components/ui/card";
+import { formatMoney } from "@/lib/catalog/money";
+import type { PublicOrder } from "@/lib/orders/types";
+
+export default function ConfirmationPage() {
+  const orderId = useSearchParams().get("order");
+  const [order, setOrder] = useState<PublicOrder | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Confirming (rather than just reading) picks up the outcome of a
+  // 3-D Secure step the shopper may have just come back from
+  useEffect(() => {
+    if (!orderId) {
+      setError("Missing order number.");
+      return;
+    }
+    fetch(`/api/orders/${encodeURIComponent(orderId)}/confirm`, { method: "POST" })
+      .then(async res => {
+        const data = await res.json();
+        if (!res.ok) throw new Error(data?.error || "Could not load the order.");
+        setOrder(data.order);
+      })
+      .catch(err => setError(err instanceof Error ? err.message : "Could not load the order."));
+  }, [orderId]);
+
+  return (
+    <div className="min-h-screen flex flex-col items-center justify-center bg-background text-foreground py-12 px-4">
+      <Card className="w-full max-w-lg p-8 flex flex-col gap-6">
+        {error && <span className="text-red-600 text-sm">{error}</span>}
+        {!order && !error && <span>Loading order...</span>}
+        {order?.status === "failed" && (
+          <div className="flex flex-col gap-2 items-center text-center">
+            <h1 className="text-2xl font-bold">Payment failed</h1>
+            <p className="text-muted-foreground">{order.payment.failureMessage || "Your payment did not go through."} Your cart has been kept.</p>
+            <Link href="/checkout" className="underline underline-offset-4 text-sm">Try again</Link>
+          </div>
+        )}
+        {order?.status === "refunded" && (
+          <div className="flex flex-col gap-2 items-center text-center">
+            <h1 className="text-2xl font-bold">Order refunded</h1>
+            <p className="text-muted-foreground">Order {order.id} has been refunded to your original payment method.</p>
+          </div>
+        )}
+        {order && (order.status === "pending_payment" || order.status === "requires_action") && (
+          <div className="flex flex-col gap-2 items-center text-center">
+            <h1 className="text-2xl font-bold">Payment processing</h1>
+            <p className="text-muted-foreground">We are waiting for your payment to be confirmed. Order {order.id}.</p>
+          </div>
+        )}
+        {order?.status === "paid" && (
+          <>
+            <div className="flex flex-col gap-2 items-center text-center">
+              <h1 className="text-2xl font-bold">Thank you for your order!</h1>
+              <p className="text-muted-foreground">
+                Order <span className="font-mono">{order.id}</span> is confirmed. A receipt goes to {order.contact.email}.
+              </p>
+            </div>
+            <ul className="flex flex-col gap-2 text-sm">
+              {order.lines.map(line => (
+                <li key={line.sku} className="flex justify-between">
+                  <span>{line.quantity} × {line.title}{line.size && ` (${line.color}, ${line.size})`}</span>
+                  <span>{formatMoney(line.lineTotal)}</span>
+                </li>
+              ))}
+              <li className="flex justify-between border-t pt-2"><span>Shipping</span><span>{formatMoney(order.totals.shipping)}</span></li>
+              <li className="flex justify-between"><span>Tax</span><span>{formatMoney(order.totals.tax)}</span></li>
+              <li className="flex justify-between font-semibold"><span>Total</span><span>{formatMoney(order.totals.total)}</span></li>
+            </ul>
+            <div className="text-sm">
+              <div className="font-semibold">Shipping to</div>
+              <div>{order.shipping.name}</div>
+              <div>{order.shipping.line1}{order.shipping.line2 && `, ${order.shipping.line2}`}</div>
+              <div>{order.shipping.city}{order.shipping.region && `, ${order.shipping.region}`} {order.shipping.postalCode}, {order.shipping.country}</div>
+            </div>
+            <div className="flex justify-center gap-4 text-sm">
+              <Link href={`/orders/${encodeURIComponent(order.id)}`} className="underline underline-offset-4">View order</Link>
+              <Link href="/" className="underline underline-offset-4">Continue shopping</Link>
+            </div>
+          </>
+        )}
+      </Card>
+    </div>
+  );
+}
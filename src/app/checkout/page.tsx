@@ -1,33 +1,171 @@
 "use client";
-import { useSearchParams } from "next/navigation";
+import { useRef, useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import Image from "next/image";
+import { useCart } from "@/hooks/use-cart";
+import { formatMoney } from "@/lib/catalog/money";
+import { computeTotals, REGION_COUNTRIES, SHIPPING_COUNTRIES } from "@/lib/orders/pricing";
+import type { CheckoutInput } from "@/lib/orders/types";
+import { FAKE_PAYMENT_METHODS } from "@/lib/payments/fake-methods";
 
+type CheckoutForm = CheckoutInput["contact"] & CheckoutInput["shipping"] & { paymentMethod: string };
+
+const EMPTY_FORM: CheckoutForm = {
+  email: "",
+  phone: "",
+  name: "",
+  line1: "",
+  line2: "",
+  city: "",
+  region: "",
+  postalCode: "",
+  country: "US",
+  paymentMethod: FAKE_PAYMENT_METHODS[0].id,
+};
+
+// Server errors are keyed "contact.email" / "shipping.city"; the form uses the last segment
+function fieldErrors(details: Record<string, string>): Partial<Record<keyof CheckoutForm, string>> {
+  return Object.fromEntries(Object.entries(details).map(([path, message]) => [path.split(".").pop(), message]));
+}
+
+// Items and prices come from the session's server-side cart, never from the
+// URL; the server recomputes every amount again when the order is placed.
 export default function CheckoutPage() {
-  const params = useSearchParams();
-  const title = params.get("title") || "Sample Product";
-  const price = params.get("price") || "$0.00";
-  const image = params.get("image") || "/mock-clothes/tee.png";
+  const router = useRouter();
+  const { cart, loading, error } = useCart();
+  const [form, setForm] = useState<CheckoutForm>(EMPTY_FORM);
+  const [errors, setErrors] = useState<Partial<Record<keyof CheckoutForm, string>>>({});
+  const [submitError, setSubmitError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  // One key per attempt: a double click, or a retry after the response was
+  // lost, gets the same order back instead of placing a second one
+  const attemptKey = useRef<string | null>(null);
+  const lines = cart?.lines ?? [];
+  // Preview only; the order API is authoritative
+  const totals = cart && lines.length ? computeTotals(cart.subtotal, form) : null;
+
+  const update = (field: keyof CheckoutForm) => (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    setForm(prev => ({ ...prev, [field]: e.target.value }));
+    setErrors(prev => ({ ...prev, [field]: undefined }));
+  };
+
+  const field = (name: keyof CheckoutForm, label: string, props: React.ComponentProps<typeof Input> = {}) => (
+    <label className="flex flex-col gap-1 text-sm">
+      <span>{label}</span>
+      <Input value={form[name] ?? ""} onChange={update(name)} aria-invalid={!!errors[name]} {...props} />
+      {errors[name] && <span className="text-red-600 text-xs">{errors[name]}</span>}
+    </label>
+  );
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setSubmitError(null);
+    try {
+      const { email, phone, paymentMethod, ...shipping } = form;
+      attemptKey.current ??= crypto.randomUUID();
+      const res = await fetch("/api/orders", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", "Idempotency-Key": attemptKey.current },
+        body: JSON.stringify({ contact: { email, phone }, shipping, paymentMethod }),
+      });
+      // Answered, so submitting again is a new attempt
+      attemptKey.current = null;
+      const data = await res.json();
+      if (res.status === 400 && data.details) {
+        setErrors(fieldErrors(data.details));
+        return;
+      }
+      if (!res.ok) throw new Error(data?.error || "Could not place the order.");
+      if (data.nextAction?.type === "redirect") {
+        window.location.assign(data.nextAction.url);
+        return;
+      }
+      router.push(`/checkout/confirmation?order=${encodeURIComponent(data.order.id)}`);
+    } catch (err) {
+      setSubmitError(err instanceof Error ? err.message : "Could not place the order.");
+    } finally {
+      setSubmitting(false);
+    }
+  };
 
   return (
-    <div className="min-h-screen flex flex-col items-center justify-center bg-background text-foreground py-12">
-      <Card className="w-full max-w-md p-8 flex flex-col gap-6 items-center">
-        <h1 className="text-2xl font-bold mb-2">Checkout</h1>
-        <Image src={image} alt={title} width={128} height={128} className="w-32 h-32 object-contain rounded mb-2" />
-        <div className="text-center">
-          <div className="font-semibold text-lg">{title}</div>
-          <div className="text-muted-foreground text-base mb-2">{price}</div>
-        </div>
-        <form className="flex flex-col gap-3 w-full">
-          <Input type="text" placeholder="Name" required disabled value="John Doe" />
-          <Input type="email" placeholder="Email" required disabled value="john@example.com" />
-          <Input type="text" placeholder="Address" required disabled value="123 Main St, City" />
-          <Button type="submit" className="mt-2" disabled>Pay Now (Mock)</Button>
-        </form>
-        <div className="text-xs text-muted-foreground mt-2">This is a mock checkout page for demo purposes only.</div>
+    <div className="min-h-screen flex flex-col items-center justify-center bg-background text-foreground py-12 px-4">
+      <Card className="w-full max-w-lg p-8 flex flex-col gap-6">
+        <h1 className="text-2xl font-bold text-center">Checkout</h1>
+        {loading && <span>Loading cart...</span>}
+        {error && <span className="text-red-600 text-sm">{error}</span>}
+        {!loading && !error && lines.length === 0 && (
+          <div className="flex flex-col items-center gap-2">
+            <span className="text-muted-foreground">Your cart is empty.</span>
+            <Link href="/" className="underline underline-offset-4 text-sm">Continue shopping</Link>
+          </div>
+        )}
+        {lines.length > 0 && (
+          <ul className="w-full flex flex-col gap-3">
+            {lines.map(line => (
+              <li key={line.sku} className="flex items-center gap-3">
+                <Image src={line.image ?? "/file.svg"} alt={line.title} width={48} height={48} className="w-12 h-12 object-contain rounded" />
+                <div className="flex-1 flex flex-col text-sm">
+                  <span className="font-semibold">{line.title}</span>
+                  <span className="text-xs text-muted-foreground">
+                    {line.size && `${line.color} · ${line.size} · `}{line.quantity} × {formatMoney(line.unitPrice)}
+                  </span>
+                  {line.issue && <span className="text-xs text-red-600">{line.issue === "unavailable" ? "No longer available" : `Only ${line.available} left`}</span>}
+                </div>
+                <span className="text-sm font-semibold">{formatMoney(line.lineTotal)}</span>
+              </li>
+            ))}
+            {totals && (
+              <li className="flex flex-col gap-1 border-t pt-3 text-sm">
+                <div className="flex justify-between"><span>Subtotal</span><span>{formatMoney(totals.subtotal)}</span></div>
+                <div className="flex justify-between"><span>Shipping</span><span>{totals.shipping.amount ? formatMoney(totals.shipping) : "Free"}</span></div>
+                <div className="flex justify-between"><span>Tax</span><span>{formatMoney(totals.tax)}</span></div>
+                <div className="flex justify-between font-semibold text-base"><span>Total</span><span>{formatMoney(totals.total)}</span></div>
+              </li>
+            )}
+          </ul>
+        )}
+        {lines.length > 0 && (
+          <form className="flex flex-col gap-3 w-full" onSubmit={handleSubmit} noValidate>
+            <h2 className="font-semibold">Contact</h2>
+            {field("email", "Email", { type: "email", autoComplete: "email", required: true })}
+            {field("phone", "Phone (optional)", { type: "tel", autoComplete: "tel" })}
+            <h2 className="font-semibold mt-2">Shipping address</h2>
+            {field("name", "Full name", { autoComplete: "name", required: true })}
+            {field("line1", "Address", { autoComplete: "address-line1", required: true })}
+            {field("line2", "Apartment, suite (optional)", { autoComplete: "address-line2" })}
+            <div className="grid grid-cols-2 gap-3">
+              {field("city", "City", { autoComplete: "address-level2", required: true })}
+              {field("region", REGION_COUNTRIES.includes(form.country) ? "State / province" : "Region (optional)", { autoComplete: "address-level1" })}
+              {field("postalCode", "Postal code", { autoComplete: "postal-code", required: true })}
+              <label className="flex flex-col gap-1 text-sm">
+                <span>Country</span>
+                <select value={form.country} onChange={update("country")} autoComplete="country" className="border rounded-md px-2 h-9 text-sm bg-transparent">
+                  {Object.entries(SHIPPING_COUNTRIES).map(([code, name]) => <option key={code} value={code}>{name}</option>)}
+                </select>
+                {errors.country && <span className="text-red-600 text-xs">{errors.country}</span>}
+              </label>
+            </div>
+            <h2 className="font-semibold mt-2">Payment</h2>
+            <label className="flex flex-col gap-1 text-sm">
+              <span>Test card</span>
+              <select value={form.paymentMethod} onChange={update("paymentMethod")} className="border rounded-md px-2 h-9 text-sm bg-transparent">
+                {FAKE_PAYMENT_METHODS.map(method => <option key={method.id} value={method.id}>{method.label}</option>)}
+              </select>
+              {errors.paymentMethod && <span className="text-red-600 text-xs">{errors.paymentMethod}</span>}
+            </label>
+            {submitError && <span className="text-red-600 text-sm" role="alert">{submitError}</span>}
+            <Button type="submit" className="mt-2" disabled={submitting || !cart?.checkoutReady}>
+              {submitting ? "Placing order..." : totals ? `Pay ${formatMoney(totals.total)}` : "Pay"}
+            </Button>
+          </form>
+        )}
       </Card>
     </div>
   );
-} 
\ No newline at end of file
+}
@@ -0,0 +1,113 @@
+"use client";
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import Image from "next/image";
+import { useParams } from "next/navigation";
+import { Card } from "@/components/ui/card";
+import OrderStatusBadge from "@/components/OrderStatusBadge";
+import { formatMoney } from "@/lib/catalog/money";
+import { eventLabel } from "@/lib/orders/status";
+import type { PublicOrder } from "@/lib/orders/types";
+
+export default function OrderPage() {
+  const { id } = useParams<{ id: string }>();
+  const [order, setOrder] = useState<PublicOrder | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch(`/api/orders/${encodeURIComponent(id)}`)
+      .then(async res => {
+        const data = await res.json();
+        if (!res.ok) throw new Error(res.status === 404 ? "Order not found." : data?.error || "Could not load the order.");
+        setOrder(data.order);
+      })
+      .catch(err => setError(err instanceof Error ? err.message : "Could not load the order."));
+  }, [id]);
+
+  return (
+    <div className="min-h-screen flex flex-col items-center bg-background text-foreground py-12 px-4">
+      <div className="w-full max-w-2xl flex flex-col gap-6">
+        <Link href="/orders" className="underline underline-offset-4 text-sm">← All orders</Link>
+        {error && <span className="text-red-600 text-sm">{error}</span>}
+        {!order && !error && <span>Loading order...</span>}
+        {order && (
+          <>
+            <div className="flex flex-wrap items-center gap-3">
+              <h1 className="text-2xl font-bold">Order <span className="font-mono text-lg">{order.id}</span></h1>
+              <OrderStatusBadge kind="payment" status={order.status} />
+              {order.status === "paid" && <OrderStatusBadge kind="fulfillment" status={order.fulfillment.status} />}
+            </div>
+            <span className="text-sm text-muted-foreground">Placed {new Date(order.createdAt).toLocaleString()}</span>
+
+            <Card className="p-6 flex flex-col gap-4">
+              <h2 className="font-semibold">Items</h2>
+              <ul className="flex flex-col gap-4">
+                {order.lines.map(line => (
+                  <li key={line.sku} className="flex items-center gap-4">
+                    <Image src={line.image ?? "/file.svg"} alt={line.title} width={64} height={64} className="w-16 h-16 object-contain rounded border" />
+                    {line.tryOnImage && (
+                      <Image src={line.tryOnImage} alt={`Try-on preview of ${line.title}`} width={64} height={64} unoptimized className="w-16 h-16 object-cover rounded border" />
+                    )}
+                    <div className="flex-1 flex flex-col text-sm">
+                      <span className="font-semibold">{line.title}</span>
+                      {line.size && <span className="text-muted-foreground">Size {line.size} · {line.color}</span>}
+                      <span className="text-muted-foreground">{line.quantity} × {formatMoney(line.unitPrice)}</span>
+                    </div>
+                    <span className="font-semibold text-sm">{formatMoney(line.lineTotal)}</span>
+                  </li>
+                ))}
+              </ul>
+              <ul className="flex flex-col gap-1 border-t pt-3 text-sm">
+                <li className="flex justify-between"><span>Subtotal</span><span>{formatMoney(order.totals.subtotal)}</span></li>
+                <li className="flex justify-between"><span>Shipping</span><span>{order.totals.shipping.amount ? formatMoney(order.totals.shipping) : "Free"}</span></li>
+                <li className="flex justify-between"><span>Tax</span><span>{formatMoney(order.totals.tax)}</span></li>
+                <li className="flex justify-between font-semibold"><span>Total</span><span>{formatMoney(order.totals.total)}</span></li>
+              </ul>
+            </Card>
+
+            <div className="grid sm:grid-cols-2 gap-6">
+              <Card className="p-6 flex flex-col gap-2 text-sm">
+                <h2 className="font-semibold">Shipping</h2>
+                <div>{order.shipping.name}</div>
+                <div>{order.shipping.line1}{order.shipping.line2 && `, ${order.shipping.line2}`}</div>
+                <div>{order.shipping.city}{order.shipping.region && `, ${order.shipping.region}`} {order.shipping.postalCode}, {order.shipping.country}</div>
+                {order.fulfillment.trackingNumber && (
+                  <div className="mt-2">
+                    Tracking: {order.fulfillment.carrier && `${order.fulfillment.carrier} `}
+                    {order.fulfillment.trackingUrl ? (
+                      <a href={order.fulfillment.trackingUrl} target="_blank" rel="noopener noreferrer" className="underline">{order.fulfillment.trackingNumber}</a>
+                    ) : (
+                      order.fulfillment.trackingNumber
+                    )}
+                  </div>
+                )}
+              </Card>
+              <Card className="p-6 flex flex-col gap-2 text-sm">
+                <h2 className="font-semibold">Payment</h2>
+                <div>{order.payment.provider === "fake" ? "Test card payment" : "Card payment via Stripe"}</div>
+                {order.status === "failed" && order.payment.failureMessage && (
+                  <div className="text-red-600">{order.payment.failureMessage}</div>
+                )}
+                <div>Receipt sent to {order.contact.email}</div>
+              </Card>
+            </div>
+
+            <Card className="p-6 flex flex-col gap-3">
+              <h2 className="font-semibold">Timeline</h2>
+              <ol className="relative border-l border-border ml-2 flex flex-col gap-4">
+                {order.history.map((event, i) => (
+                  <li key={`${event.status}-${i}`} className="ml-4 text-sm">
+                    <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full bg-primary" aria-hidden />
+                    <div className="font-medium">{eventLabel(event.status)}</div>
+                    <div className="text-muted-foreground text-xs">{new Date(event.at).toLocaleString()}</div>
+                    {event.note && <div className="text-muted-foreground">{event.note}</div>}
+                  </li>
+                ))}
+              </ol>
+            </Card>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
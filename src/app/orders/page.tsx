@@ -0,0 +1,71 @@
+"use client";
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import Image from "next/image";
+import { Card } from "@/components/ui/card";
+import OrderStatusBadge from "@/components/OrderStatusBadge";
+import { formatMoney } from "@/lib/catalog/money";
+import type { PublicOrder } from "@/lib/orders/types";
+
+export default function OrdersPage() {
+  const [orders, setOrders] = useState<PublicOrder[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch("/api/orders")
+      .then(async res => {
+        const data = await res.json();
+        if (!res.ok) throw new Error(data?.error || "Could not load your orders.");
+        setOrders(data.orders);
+      })
+      .catch(err => setError(err instanceof Error ? err.message : "Could not load your orders."));
+  }, []);
+
+  return (
+    <div className="min-h-screen flex flex-col items-center bg-background text-foreground py-12 px-4">
+      <div className="w-full max-w-2xl flex flex-col gap-6">
+        <div className="flex items-center justify-between">
+          <h1 className="text-2xl font-bold">Your orders</h1>
+          <Link href="/" className="underline underline-offset-4 text-sm">Continue shopping</Link>
+        </div>
+        {error && <span className="text-red-600 text-sm">{error}</span>}
+        {!orders && !error && <span>Loading orders...</span>}
+        {orders?.length === 0 && <span className="text-muted-foreground">You have not placed any orders yet.</span>}
+        {orders?.map(order => {
+          const first = order.lines[0];
+          const itemCount = order.lines.reduce((sum, line) => sum + line.quantity, 0);
+          return (
+            <Link key={order.id} href={`/orders/${encodeURIComponent(order.id)}`} className="block">
+              <Card className="p-4 flex flex-row items-center gap-4 hover:border-primary transition-colors">
+                {first && (
+                  <Image
+                    src={first.tryOnImage ?? first.image ?? "/file.svg"}
+                    alt={first.title}
+                    width={64}
+                    height={64}
+                    unoptimized={first.tryOnImage?.startsWith("data:")}
+                    className="w-16 h-16 object-cover rounded"
+                  />
+                )}
+                <div className="flex-1 flex flex-col gap-1 text-sm">
+                  <span className="font-mono text-xs text-muted-foreground">{order.id}</span>
+                  <span className="font-semibold">
+                    {first?.title}{order.lines.length > 1 && ` and ${order.lines.length - 1} more`}
+                  </span>
+                  <span className="text-muted-foreground">
+                    {new Date(order.createdAt).toLocaleDateString()} · {itemCount} {itemCount === 1 ? "item" : "items"}
+                  </span>
+                </div>
+                <div className="flex flex-col items-end gap-1">
+                  <span className="font-semibold">{formatMoney(order.totals.total)}</span>
+                  <OrderStatusBadge kind="payment" status={order.status} />
+                  {order.status === "paid" && <OrderStatusBadge kind="fulfillment" status={order.fulfillment.status} />}
+                </div>
+              </Card>
+            </Link>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -6,9 +6,31 @@ import { Textarea } from "@/components/ui/textarea";
 import { Card } from "@/components/ui/card";
 import { useEffect, useState, useRef } from "react";
 import { motion, AnimatePresence } from "framer-motion";
-import { useRouter } from "next/navigation";
 import dynamic from "next/dynamic";
 import Image from "next/image";
+import Link from "next/link";
+import { readSSE } from "@/lib/sse";
+import { formatMoney } from "@/lib/catalog/money";
+import type { CatalogSort } from "@/lib/catalog/query";
+import type { Product, ProductCategory } from "@/lib/catalog/types";
+import { useCatalog, type CatalogFilters } from "@/hooks/use-catalog";
+import { useInfiniteScroll } from "@/hooks/use-infinite-scroll";
+import { useCart } from "@/hooks/use-cart";
+import { LOCAL_MEASUREMENTS_KEY, SESSION_AVATAR_KEY, useAccount } from "@/hooks/use-account";
+import { useFavorites } from "@/hooks/use-favorites";
+import { useWishlists } from "@/hooks/use-wishlists";
+import CartDrawer from "@/components/CartDrawer";
+import NotificationCenter from "@/components/NotificationCenter";
+import MultiViewCapture from "@/components/MultiViewCapture";
+import type { ViewerGarment } from "@/components/ThreeDViewer";
+import { useNotifications } from "@/hooks/use-notifications";
+import { useAvatarJob } from "@/hooks/use-avatar-job";
+import { useAvatars } from "@/hooks/use-avatars";
+import { tryOnThumbnail } from "@/lib/thumbnail";
+import type { JobStage, JobViews } from "@/lib/jobs/types";
+import { FIT_PREFERENCES, MEASUREMENTS, type FitPreference, type Measurement, type SizeRecommendation } from "@/lib/sizing/types";
+import type { SavedMeasurements } from "@/lib/auth/types";
+import { fromCanonical, roundTo, toCanonical, unitFor, type UnitSystem } from "@/lib/sizing/units";
 
 const PlaceholderLogo = () => (
   <svg width="36" height="36" viewBox="0 0 36 36" fill="none" xmlns="http://www.w3.org/2000/svg">
@@ -19,112 +41,205 @@ const PlaceholderLogo = () => (
 
 const ThreeDViewer = dynamic(() => import("@/components/ThreeDViewer"), { ssr: false });
 
-type Product = {
-  id: string;
-  title: string;
-  image: string;
-  price: string;
+const JOB_STAGE_LABELS: Record<JobStage, string> = {
+  model: "Generating 3D Model...",
+  rig: "Adding a skeleton...",
+  animate: "Adding animations...",
 };
 
-function useFavorites() {
-  const [favorites, setFavorites] = useState<Product[]>([]);
-  useEffect(() => {
-    const favs = localStorage.getItem("favorites");
-    if (favs) setFavorites(JSON.parse(favs));
-  }, []);
-  const addFavorite = (item: Product) => {
-    const updated = [...favorites, item];
-    setFavorites(updated);
-    localStorage.setItem("favorites", JSON.stringify(updated));
-  };
-  const removeFavorite = (id: string) => {
-    const updated = favorites.filter(f => f.id !== id);
-    setFavorites(updated);
-    localStorage.setItem("favorites", JSON.stringify(updated));
-  };
-  const isFavorite = (id: string) => favorites.some(f => f.id === id);
-  return { favorites, addFavorite, removeFavorite, isFavorite };
-}
+// Catalog items without images fall back to a generic icon
+const productImage = (product: Product) => product.images[0]?.url ?? "/file.svg";
+
+type ChatEntry = {
+  sender: "user" | "bot";
+  message: string;
+  // Catalog items the stylist referenced in this reply
+  products?: Product[];
+};
 
 export default function Home() {
   const [image, setImage] = useState<string | null>(null);
   const [dialogOpen, setDialogOpen] = useState(false);
   const [uploadStatus, setUploadStatus] = useState<null | 'success' | 'error'>(null);
+  const [uploadError, setUploadError] = useState<string | null>(null);
   const inputRef = useRef<HTMLInputElement>(null);
-  const router = useRouter();
 
-  // Shopify catalog
-  const [products, setProducts] = useState<Product[]>([]);
-  const [productsLoading, setProductsLoading] = useState(false);
-  const [productsError, setProductsError] = useState<string | null>(null);
+  // Shopify catalog: filters, debounced search and paged results
+  const [searchInput, setSearchInput] = useState("");
+  const [catalogFilters, setCatalogFilters] = useState<CatalogFilters>({});
+  const {
+    products,
+    facets,
+    total: productsTotal,
+    loading: productsLoading,
+    error: productsError,
+    hasMore: hasMoreProducts,
+    loadMore: loadMoreProducts,
+  } = useCatalog(catalogFilters);
+  const productsSentinelRef = useInfiniteScroll<HTMLDivElement>(loadMoreProducts, hasMoreProducts && !productsLoading);
+  const updateCatalogFilter = (patch: Partial<CatalogFilters>) => setCatalogFilters(prev => ({ ...prev, ...patch }));
+  // Prices are typed in dollars but filtered in cents
+  const priceFilter = (value: string) => (value === "" ? undefined : Math.round(Number(value) * 100));
   const [selectedProduct, setSelectedProduct] = useState<Product | null>(null);
+  // Size/color variant picked in the product dialog; defaults to the first one in stock
+  const [selectedSku, setSelectedSku] = useState("");
+  const selectedVariant = selectedProduct?.variants.find(v => v.sku === selectedSku) ?? selectedProduct?.variants.find(v => v.stock > 0);
 
-  // Meshy 3D
-  const [meshyLoading, setMeshyLoading] = useState(false);
-  const [meshyError, setMeshyError] = useState<string | null>(null);
-  const [modelUrl, setModelUrl] = useState<string | null>(null);
+  // What the avatar wears in the 3D viewer: one top and one bottom. Picking a
+  // product that has a 3D model puts it on in place of the same kind.
+  const [outfit, setOutfit] = useState<Partial<Record<ProductCategory, Product>>>({});
+  useEffect(() => {
+    if (selectedProduct?.garment) setOutfit(prev => ({ ...prev, [selectedProduct.category]: selectedProduct }));
+  }, [selectedProduct]);
+  const takeOff = (category: ProductCategory) => setOutfit(prev => {
+    const next = { ...prev };
+    delete next[category];
+    return next;
+  });
+  const wornProducts = Object.values(outfit);
+  const garments: ViewerGarment[] = wornProducts.flatMap(product => (product.garment ? [{ url: product.garment.url, category: product.category }] : []));
+
+  // Server-side cart for this browser session
+  const cart = useCart();
+  const [cartOpen, setCartOpen] = useState(false);
+  const handleAddToCart = async () => {
+    if (!selectedVariant || !selectedProduct) return;
+    // Remember what the item looked like on the shopper for the order history
+    const thumbnail = image ? await tryOnThumbnail(image, productImage(selectedProduct)) : undefined;
+    if (await cart.addItem(selectedVariant.sku, 1, thumbnail)) setCartOpen(true);
+  };
 
   // Sizing logic state
-  const [height, setHeight] = useState(170);
-  const [weight, setWeight] = useState(70);
-  const [sizingResult, setSizingResult] = useState<string | null>(null);
+  const [measurements, setMeasurements] = useState<Record<Measurement, string>>({
+    chest: "", waist: "", hips: "", inseam: "", shoulder: "", height: "", weight: "",
+  });
+  const [unitSystem, setUnitSystem] = useState<UnitSystem>("metric");
+  const [fitPreference, setFitPreference] = useState<FitPreference>("regular");
+  const [sizingProductId, setSizingProductId] = useState("");
+  const [sizingResult, setSizingResult] = useState<SizeRecommendation | null>(null);
   const [sizingLoading, setSizingLoading] = useState(false);
   const [sizingError, setSizingError] = useState<string | null>(null);
 
   // Chatbot UI state
   const [chatInput, setChatInput] = useState("");
-  const [chatHistory, setChatHistory] = useState<{ sender: "user" | "bot"; message: string }[]>([
+  const [chatHistory, setChatHistory] = useState<ChatEntry[]>([
     { sender: "bot", message: "Hi! I'm your AI stylist. Ask me anything about fashion, colors, or outfits!" },
   ]);
   const [chatLoading, setChatLoading] = useState(false);
   const [chatError, setChatError] = useState<string | null>(null);
 
-  const { favorites, addFavorite, removeFavorite, isFavorite } = useFavorites();
+  // Signed-in account; the avatar and measurements follow it across devices
+  const account = useAccount();
+  const { favorites, addFavorite, removeFavorite, isFavorite } = useFavorites(account.user?.id);
+  const wishlists = useWishlists(account.user?.id);
+  // Price-drop and back-in-stock alerts for favorites
+  const notifications = useNotifications(account.user?.id);
+  const namedWishlists = wishlists.wishlists?.filter(list => !list.isDefault) ?? [];
+  const [savedToList, setSavedToList] = useState<{ productId: string; name: string } | null>(null);
+  const handleSaveToList = async (wishlistId: string) => {
+    if (!selectedProduct || !wishlistId) return;
+    const list = namedWishlists.find(l => l.id === wishlistId);
+    if (list && await wishlists.addItem(wishlistId, selectedProduct.id)) setSavedToList({ productId: selectedProduct.id, name: list.name });
+  };
 
-  // Avatar model from Meshy
-  const [avatarModelUrl, setAvatarModelUrl] = useState<string | null>(null);
+  // Saved avatars; the active one is dressed in the try-on viewer
+  const avatars = useAvatars(account.user?.id);
+  const modelUrl = avatars.active?.modelUrl ?? null;
+  const readyAvatars = avatars.avatars?.filter(avatar => avatar.status === "ready") ?? [];
 
-  // Restore avatar from sessionStorage on mount
+  // Restore measurements from the account, or from this browser when signed out
+  // Once per account: later profile saves must not reset what the shopper is typing
+  const { loading: accountLoading, profile } = account;
+  const restoredFor = useRef<string | null>(null);
   useEffect(() => {
-    const savedModelUrl = sessionStorage.getItem('avatarModelUrl');
-    if (savedModelUrl) {
-      setAvatarModelUrl(savedModelUrl);
-      setModelUrl(savedModelUrl);
+    if (accountLoading || restoredFor.current === (profile?.userId ?? "")) return;
+    restoredFor.current = profile?.userId ?? "";
+    let saved: SavedMeasurements | undefined = profile?.measurements;
+    if (!profile) {
+      try {
+        saved = JSON.parse(localStorage.getItem(LOCAL_MEASUREMENTS_KEY) || "null") ?? undefined;
+      } catch {
+        saved = undefined;
+      }
+    }
+    if (saved?.values) {
+      const { values, units } = saved;
+      setUnitSystem(units);
+      setFitPreference(saved.fit);
+      setMeasurements(Object.fromEntries(
+        MEASUREMENTS.map(m => {
+          const value = values[m];
+          return [m, value === undefined ? "" : String(roundTo(fromCanonical(value, unitFor(m, units))))];
+        })
+      ) as Record<Measurement, string>);
     }
-  }, []);
+  }, [accountLoading, profile]);
 
-  // Fetch Shopify products
+  // An avatar saved before the library existed becomes its first entry, once
+  const { avatars: avatarList, importModel: importAvatar } = avatars;
+  const { updateProfile } = account;
+  const importedLegacyAvatar = useRef(false);
   useEffect(() => {
-    setProductsLoading(true);
-    fetch("/api/products")
-      .then((res) => res.json())
-      .then((data) => {
-        setProducts(data.products || []);
-        setProductsError(null);
-      })
-      .catch(() => setProductsError("Failed to load products."))
-      .finally(() => setProductsLoading(false));
-  }, []);
+    if (accountLoading || !avatarList || avatarList.length || importedLegacyAvatar.current) return;
+    const legacyUrl = profile ? profile.avatarModelUrl : sessionStorage.getItem(SESSION_AVATAR_KEY);
+    if (!legacyUrl) return;
+    importedLegacyAvatar.current = true;
+    importAvatar(legacyUrl, "My avatar").then(imported => {
+      if (!imported) return;
+      if (profile) updateProfile({ avatarModelUrl: null });
+      else sessionStorage.removeItem(SESSION_AVATAR_KEY);
+    });
+  }, [accountLoading, avatarList, profile, importAvatar, updateProfile]);
 
-  // After photo upload, generate avatar with Meshy
-  const handleImageChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+  useEffect(() => {
+    const timer = setTimeout(() => setCatalogFilters(prev => ({ ...prev, q: searchInput.trim() || undefined })), 300);
+    return () => clearTimeout(timer);
+  }, [searchInput]);
+
+  // Avatar generation runs as a server-side job, so it survives reloads
+  // A finished avatar becomes the active one on the server
+  const avatarJob = useAvatarJob(() => avatars.refresh());
+  // Last uploaded photo (and side/back photos), for generating again from the dialog
+  const [uploadKey, setUploadKey] = useState<string | null>(null);
+  const [uploadViews, setUploadViews] = useState<JobViews>({});
+  // One photo, or the guided front/side/back capture
+  const [captureMode, setCaptureMode] = useState<"single" | "multi">("single");
+
+  const showPhoto = (file: File) => {
+    const reader = new FileReader();
+    reader.onload = (ev) => {
+      setImage(ev.target?.result as string);
+      setDialogOpen(true);
+    };
+    reader.readAsDataURL(file);
+  };
+
+  // After photo upload, generate an avatar from it
+  const handleImageChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (file) {
-      const reader = new FileReader();
-      reader.onload = (ev) => {
-        setImage(ev.target?.result as string);
-        setDialogOpen(true);
-      };
-      reader.readAsDataURL(file);
-      // Upload to API
-      uploadToApi(file);
-      // Generate avatar with Meshy
-      generateAvatarWithMeshy(file);
+      showPhoto(file);
+      const key = await uploadToApi(file);
+      if (key) {
+        setUploadKey(key);
+        setUploadViews({});
+        if (await avatarJob.start(key)) avatars.refresh();
+      }
     }
   };
 
-  const uploadToApi = async (file: File) => {
+  // The capture flow has uploaded and checked every photo already
+  const handleMultiViewSubmit = async (frontKey: string, views: JobViews, front: File) => {
+    showPhoto(front);
+    setUploadKey(frontKey);
+    setUploadViews(views);
+    if (await avatarJob.start(frontKey, views)) avatars.refresh();
+  };
+
+  // Resolves to the stored photo's key, or null if the upload failed
+  const uploadToApi = async (file: File): Promise<string | null> => {
     setUploadStatus(null);
+    setUploadError(null);
     const formData = new FormData();
     formData.append('file', file);
     try {
@@ -132,129 +247,41 @@ export default function Home() {
         method: 'POST',
         body: formData,
       });
+      const data = await res.json().catch(() => null);
       if (res.ok) {
         setUploadStatus('success');
-      } else {
-        setUploadStatus('error');
+        return data.upload.key;
       }
+      setUploadError(data?.error || null);
+      setUploadStatus('error');
     } catch {
       setUploadStatus('error');
     }
+    return null;
   };
 
-  const [generationProgress, setGenerationProgress] = useState<number>(0);
-
-  const generateAvatarWithMeshy = async (file: File) => {
-    setAvatarModelUrl(null);
-    setMeshyLoading(true);
-    setMeshyError(null);
-    setGenerationProgress(0);
-
-    // Helper: Poll for modelUrl using taskId
-    const pollForModel = async (taskId: string, maxAttempts = 30, interval = 3000) => {
-      for (let attempt = 0; attempt < maxAttempts; attempt++) {
-        setGenerationProgress(Math.round((attempt / maxAttempts) * 100));
-        try {
-          const pollRes = await fetch('/api/meshy-3d', {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ taskId }),
-          });
-          const pollData = await pollRes.json();
-          if (pollData.modelUrl) {
-            setGenerationProgress(100);
-            return pollData.modelUrl;
-          }
-          if (pollData.error) throw new Error(pollData.error);
-          await new Promise(res => setTimeout(res, interval));
-        } catch (err) {
-          throw err;
-        }
-      }
-      throw new Error('Timed out waiting for 3D model.');
-    };
-
-    try {
-      // Convert File to Data URI on the frontend
-      const reader = new FileReader();
-      const imageDataUri: string = await new Promise((resolve, reject) => {
-        reader.onload = (e) => {
-          if (e.target?.result) {
-            resolve(e.target.result as string);
-          } else {
-            reject(new Error("Failed to read file as Data URL."));
-          }
-        };
-        reader.onerror = (e) => reject(e);
-        reader.readAsDataURL(file);
-      });
-
-      console.log("Frontend: File converted to Data URI, sending to backend.");
-
-      // Make the API call to your backend with JSON body
-      const apiRes = await fetch('/api/meshy-3d', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        // Send the Data URI in the JSON body
-        body: JSON.stringify({ image_url: imageDataUri }),
-      });
-
-      if (!apiRes.ok) {
-        const errorData = await apiRes.json();
-        throw new Error(`Backend error: ${errorData?.error || apiRes.statusText}`);
-      }
-
-      const data = await apiRes.json();
-      let modelUrl = data.modelUrl || null;
-      if (!modelUrl && data.taskId) {
-        // Poll for the modelUrl using the returned taskId
-        modelUrl = await pollForModel(data.taskId);
-      }
-      if (modelUrl) {
-        sessionStorage.setItem('avatarModelUrl', modelUrl);
-      }
-      setAvatarModelUrl(modelUrl);
-      setModelUrl(modelUrl);
-      console.log("Frontend: Received model URL:", modelUrl);
-
-    } catch (error) {
-      console.error("Frontend: Error generating avatar:", error);
-      setMeshyError(`Error generating 3D model: ${error instanceof Error ? error.message : String(error)}`);
-      setAvatarModelUrl(null);
-      setModelUrl(null);
-    } finally {
-      setMeshyLoading(false);
-      setGenerationProgress(0);
-    }
+  // Generate again from the last uploaded photo
+  const handleGenerate3D = async () => {
+    if (!uploadKey) return;
+    if (await avatarJob.start(uploadKey, uploadViews)) avatars.refresh();
   };
 
-  // Meshy 3D generation
-  const handleGenerate3D = async () => {
-    if (!image) return;
-    setMeshyLoading(true);
-    setMeshyError(null);
-    setModelUrl(null);
-    try {
-      // Convert base64 image to Blob
-      const res = await fetch(image);
-      const blob = await res.blob();
-      const formData = new FormData();
-      formData.append('file', blob, 'photo.png');
-      const apiRes = await fetch('/api/meshy-3d', {
-        method: 'POST',
-        body: formData,
-      });
-      if (!apiRes.ok) throw new Error('Failed to generate 3D model');
-      const data = await apiRes.json();
-      setModelUrl(data.modelUrl || null);
-    } catch {
-      setMeshyError('Failed to generate 3D model.');
-    } finally {
-      setMeshyLoading(false);
-    }
+  // Switching units converts whatever the shopper already typed
+  const changeUnitSystem = (next: UnitSystem) => {
+    if (next === unitSystem) return;
+    setMeasurements(prev => Object.fromEntries(
+      MEASUREMENTS.map(m => {
+        const value = prev[m];
+        if (value === "" || !Number.isFinite(Number(value))) return [m, value];
+        const canonical = toCanonical(Number(value), unitFor(m, unitSystem));
+        return [m, String(roundTo(fromCanonical(canonical, unitFor(m, next))))];
+      })
+    ) as Record<Measurement, string>);
+    setUnitSystem(next);
   };
+  // Chart values come back in cm/kg; show them in the shopper's units
+  const displayValue = (measurement: Measurement, value: number) =>
+    `${roundTo(fromCanonical(value, unitFor(measurement, unitSystem)))} ${unitFor(measurement, unitSystem)}`;
 
   // Sizing logic (real API)
   const handleSizingSubmit = async (e: React.FormEvent) => {
@@ -262,26 +289,68 @@ export default function Home() {
     setSizingLoading(true);
     setSizingError(null);
     setSizingResult(null);
+    // Remember the measurements in cm/kg for next time
+    const filled = Object.entries(measurements).filter(([, value]) => value !== "" && Number.isFinite(Number(value)));
+    const saved: SavedMeasurements = {
+      values: Object.fromEntries(filled.map(([key, value]) => [key, roundTo(toCanonical(Number(value), unitFor(key as Measurement, unitSystem)))])),
+      fit: fitPreference,
+      units: unitSystem,
+      savedAt: new Date().toISOString(),
+    };
+    if (filled.length) {
+      if (account.user) account.updateProfile({ measurements: saved });
+      else localStorage.setItem(LOCAL_MEASUREMENTS_KEY, JSON.stringify(saved));
+    }
     try {
+      const productId = sizingProductId || products[0]?.id;
       const res = await fetch('/api/sizing', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ height, weight }),
+        body: JSON.stringify({
+          productId,
+          fit: fitPreference,
+          units: unitSystem,
+          // Only send the measurements the shopper filled in
+          measurements: Object.fromEntries(
+            Object.entries(measurements).filter(([, value]) => value !== "").map(([key, value]) => [key, Number(value)])
+          ),
+        }),
       });
-      if (!res.ok) throw new Error('Failed to get size');
       const data = await res.json();
-      setSizingResult(`Estimated size: ${data.size} (height: ${data.height} cm, weight: ${data.weight} kg)`);
-    } catch {
-      setSizingError('Failed to estimate size. Please try again.');
+      if (!res.ok) throw new Error(data?.details?.join('. ') || data?.error || 'Failed to get size');
+      setSizingResult(data);
+    } catch (error) {
+      setSizingError(error instanceof Error && error.message ? error.message : 'Failed to estimate size. Please try again.');
     } finally {
       setSizingLoading(false);
     }
   };
 
-  // Chatbot logic (real API) - avatars, context, no streaming
+  // Product cards in chat: pick the item for the try-on section
+  const showInTryOn = (product: Product) => {
+    setSelectedProduct(product);
+    document.getElementById('tryon')?.scrollIntoView({ behavior: 'smooth' });
+  };
+  const handleTryOn = (product: Product) => {
+    setSelectedProduct(product);
+    if (image) {
+      setDialogOpen(true);
+    } else {
+      document.getElementById('tryon')?.scrollIntoView({ behavior: 'smooth' });
+    }
+  };
+
+  // Chatbot logic (real API) - avatars, context, streamed replies
   const chatEndRef = useRef<HTMLDivElement>(null);
+  const updateLastBotMessage = (patch: Partial<ChatEntry>) => {
+    setChatHistory((prev) => {
+      const updated = [...prev];
+      updated[updated.length - 1] = { ...updated[updated.length - 1], sender: "bot", ...patch };
+      return updated;
+    });
+  };
   const handleSendChat = async () => {
-    if (!chatInput.trim()) return;
+    if (!chatInput.trim() || chatLoading) return;
     setChatHistory((prev) => [...prev, { sender: "user", message: chatInput }]);
     setChatLoading(true);
     setChatError(null);
@@ -290,6 +359,7 @@ export default function Home() {
     // Send recent context (last 10 messages)
     const context = chatHistory.slice(-10).map(m => ({ role: m.sender, content: m.message }));
     let reply = "";
+    // Empty bot bubble that fills in as tokens arrive
     setChatHistory((prev) => [...prev, { sender: "bot", message: "" }]);
     try {
       const res = await fetch('/api/chat', {
@@ -297,27 +367,33 @@ export default function Home() {
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ message: userMessage, context }),
       });
-      let data = null;
-      try {
-        data = await res.json();
-      } catch {
-        data = null;
+      if (!res.ok || !res.body) {
+        let data = null;
+        try {
+          data = await res.json();
+        } catch {
+          data = null;
+        }
+        throw new Error(data?.error || 'No reply from AI');
       }
-      reply = data?.reply || '[No reply from AI]';
-      if (!res.ok) {
-        throw new Error(reply);
+      for await (const { event, data } of readSSE(res.body)) {
+        if (event === 'token') {
+          reply += JSON.parse(data).content;
+          updateLastBotMessage({ message: reply });
+          chatEndRef.current?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+        } else if (event === 'products') {
+          updateLastBotMessage({ products: JSON.parse(data).products });
+        } else if (event === 'error') {
+          throw new Error(JSON.parse(data).error);
+        } else if (event === 'done') {
+          break;
+        }
       }
-      setChatHistory((prev) => {
-        const updated = [...prev];
-        updated[updated.length - 1] = { sender: "bot", message: reply };
-        return updated;
-      });
+      if (!reply) updateLastBotMessage({ message: '[No reply from AI]' });
     } catch {
       setChatError('Failed to get reply from AI. Please try again.');
-      setChatHistory((prev) => [
-        ...prev,
-        { sender: "bot", message: '[Error: No reply from AI]' },
-      ]);
+      // Keep whatever was streamed before the failure
+      updateLastBotMessage({ message: reply || '[Error: No reply from AI]' });
     } finally {
       setChatLoading(false);
       setTimeout(() => {
@@ -341,8 +417,28 @@ export default function Home() {
           <a href="#sizing" className="hover:underline underline-offset-4">Sizing</a>
           <a href="#chatbot" className="hover:underline underline-offset-4">Stylist</a>
           <a href="#branding" className="hover:underline underline-offset-4">Branding</a>
+          <Link href="/avatars" className="hover:underline underline-offset-4">Avatars</Link>
+          <Link href="/orders" className="hover:underline underline-offset-4">Orders</Link>
+          <Link href="/account" className="hover:underline underline-offset-4">{account.user ? "Account" : "Sign in"}</Link>
+          <NotificationCenter
+            notifications={notifications.notifications}
+            unreadCount={notifications.unreadCount}
+            onMarkAllRead={notifications.markAllRead}
+          />
+          <button type="button" onClick={() => setCartOpen(true)} className="hover:underline underline-offset-4" aria-label={`Cart, ${cart.cart?.itemCount ?? 0} items`}>
+            Cart ({cart.cart?.itemCount ?? 0})
+          </button>
         </div>
       </nav>
+      <CartDrawer
+        open={cartOpen}
+        onClose={() => setCartOpen(false)}
+        cart={cart.cart}
+        pending={cart.pending}
+        error={cart.error}
+        onUpdateQuantity={cart.updateQuantity}
+        onRemove={cart.removeItem}
+      />
 
       {/* Main Content */}
       <main className="flex-1 flex flex-col items-center justify-center gap-16 py-12 px-4 sm:px-8">
@@ -360,23 +456,122 @@ export default function Home() {
           <h2 className="text-2xl font-bold mb-2">Virtual Try-On</h2>
           <p className="text-muted-foreground mb-4">Upload a photo and see yourself in any outfit with lifelike 3D avatars and real-time garment simulation.</p>
           <div className="flex flex-col items-center gap-4 w-full">
-            <Input
-              ref={inputRef}
-              type="file"
-              accept="image/*"
-              onChange={handleImageChange}
-              className="max-w-xs"
-            />
-            {uploadStatus === 'success' && (
-              <span className="text-green-600 text-sm">Upload successful!</span>
-            )}
-            {uploadStatus === 'error' && (
-              <span className="text-red-600 text-sm">Upload failed. Please try again.</span>
+            <div className="flex gap-1" role="radiogroup" aria-label="Photos to upload">
+              {(["single", "multi"] as const).map(mode => (
+                <Button
+                  key={mode}
+                  type="button"
+                  size="sm"
+                  variant={captureMode === mode ? "default" : "outline"}
+                  role="radio"
+                  aria-checked={captureMode === mode}
+                  onClick={() => setCaptureMode(mode)}
+                >
+                  {mode === "single" ? "Single photo" : "Front, side & back"}
+                </Button>
+              ))}
+            </div>
+            {captureMode === "single" ? (
+              <>
+                <Input
+                  ref={inputRef}
+                  type="file"
+                  accept="image/jpeg,image/png,image/webp,image/heic,image/heif,.heic,.heif"
+                  onChange={handleImageChange}
+                  className="max-w-xs"
+                />
+                {uploadStatus === 'success' && (
+                  <span className="text-green-600 text-sm">Upload successful!</span>
+                )}
+                {uploadStatus === 'error' && (
+                  <span className="text-red-600 text-sm">{uploadError || "Upload failed. Please try again."}</span>
+                )}
+              </>
+            ) : (
+              <>
+                <span className="text-sm text-muted-foreground text-center max-w-md">
+                  Photos from more than one side give a more faithful avatar.
+                </span>
+                <MultiViewCapture
+                  onSubmit={handleMultiViewSubmit}
+                  onUseSinglePhoto={() => setCaptureMode("single")}
+                  busy={avatarJob.active}
+                />
+                {!dialogOpen && avatarJob.error && <span className="text-red-600 text-sm">{avatarJob.error}</span>}
+              </>
             )}
             {/* Shopify product catalog */}
+            <div className="w-full flex flex-wrap gap-2 justify-center mt-4" role="search" aria-label="Filter products">
+              <Input
+                type="search"
+                value={searchInput}
+                onChange={e => setSearchInput(e.target.value)}
+                placeholder="Search products..."
+                className="max-w-[200px]"
+                aria-label="Search products"
+              />
+              <select
+                value={catalogFilters.category ?? ""}
+                onChange={e => updateCatalogFilter({ category: e.target.value || undefined })}
+                className="border rounded-md px-2 h-9 text-sm bg-transparent"
+                aria-label="Category"
+              >
+                <option value="">All categories</option>
+                {facets?.categories.map(category => (
+                  <option key={category} value={category} className="capitalize">{category}</option>
+                ))}
+              </select>
+              <select
+                value={catalogFilters.size ?? ""}
+                onChange={e => updateCatalogFilter({ size: e.target.value || undefined })}
+                className="border rounded-md px-2 h-9 text-sm bg-transparent"
+                aria-label="Size"
+              >
+                <option value="">Any size</option>
+                {facets?.sizes.map(size => <option key={size} value={size}>{size}</option>)}
+              </select>
+              <select
+                value={catalogFilters.color ?? ""}
+                onChange={e => updateCatalogFilter({ color: e.target.value || undefined })}
+                className="border rounded-md px-2 h-9 text-sm bg-transparent"
+                aria-label="Color"
+              >
+                <option value="">Any color</option>
+                {facets?.colors.map(color => <option key={color} value={color}>{color}</option>)}
+              </select>
+              <Input
+                type="number"
+                min={0}
+                placeholder="Min $"
+                className="max-w-[90px]"
+                aria-label="Minimum price in dollars"
+                onChange={e => updateCatalogFilter({ minPrice: priceFilter(e.target.value) })}
+              />
+              <Input
+                type="number"
+                min={0}
+                placeholder="Max $"
+                className="max-w-[90px]"
+                aria-label="Maximum price in dollars"
+                onChange={e => updateCatalogFilter({ maxPrice: priceFilter(e.target.value) })}
+              />
+              <select
+                value={catalogFilters.sort ?? ""}
+                onChange={e => updateCatalogFilter({ sort: (e.target.value || undefined) as CatalogSort | undefined })}
+                className="border rounded-md px-2 h-9 text-sm bg-transparent"
+                aria-label="Sort by"
+              >
+                <option value="">{catalogFilters.q ? "Best match" : "Newest"}</option>
+                <option value="price_asc">Price: low to high</option>
+                <option value="price_desc">Price: high to low</option>
+                <option value="title">Name</option>
+              </select>
+            </div>
             <div className="w-full flex flex-wrap gap-4 justify-center mt-4">
-              {productsLoading && <span>Loading products...</span>}
               {productsError && <span className="text-red-600 text-sm">{productsError}</span>}
+              {!productsLoading && !productsError && products.length === 0 && (
+                <span className="text-muted-foreground text-sm">No products match these filters.</span>
+              )}
               <AnimatePresence>
                 {products.map((product) => (
                   <motion.div
@@ -393,9 +588,9 @@ export default function Home() {
                       tabIndex={0}
                       onKeyDown={e => { if (e.key === 'Enter') setSelectedProduct(product); }}
                     >
-                      <Image src={product.image} alt={product.title} width={64} height={64} className="w-16 h-16 object-contain mb-2" />
+                      <Image src={productImage(product)} alt={product.title} width={64} height={64} className="w-16 h-16 object-contain mb-2" />
                       <span className="font-semibold text-sm">{product.title}</span>
-                      <span className="text-xs text-muted-foreground">{product.price}</span>
+                      <span className="text-xs text-muted-foreground">{formatMoney(product.price)}</span>
                       <Button
                         variant={isFavorite(product.id) ? "destructive" : "outline"}
                         size="sm"
@@ -417,17 +612,22 @@ export default function Home() {
                 ))}
               </AnimatePresence>
             </div>
-            {image && (
+            <div ref={productsSentinelRef} className="h-1 w-full" aria-hidden />
+            {productsLoading && <span>Loading products...</span>}
+            {!productsLoading && products.length > 0 && (
+              <span className="text-xs text-muted-foreground">Showing {products.length} of {productsTotal}</span>
+            )}
+            {(image || readyAvatars.length > 0) && (
               <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
                 <DialogTrigger asChild>
-                  <Button variant="outline">Preview Uploaded Photo</Button>
+                  <Button variant="outline">{image ? "Preview Uploaded Photo" : "Try On Your Avatar"}</Button>
                 </DialogTrigger>
                 <DialogContent className="flex flex-col items-center gap-4">
-                  <DialogTitle>Preview Uploaded Photo</DialogTitle>
+                  <DialogTitle>{image ? "Preview Uploaded Photo" : "Try On Your Avatar"}</DialogTitle>
                   <DialogDescription>
-                    Here you can preview your uploaded photo and see the selected product overlaid. You can also generate a 3D model.
+                    Here you can preview your uploaded photo and see the selected product overlaid. You can also generate a 3D model or pick one of your saved avatars to dress.
                   </DialogDescription>
-                  <motion.div
+                  {image && <motion.div
                     className="relative w-64 h-80 flex items-center justify-center"
                     initial={{ opacity: 0, y: 40 }}
                     animate={{ opacity: 1, y: 0 }}
@@ -436,13 +636,13 @@ export default function Home() {
                   >
                     <Image src={image} alt="Preview" className="rounded-lg max-h-80 max-w-full border absolute left-0 top-0 w-full h-full object-contain z-0" width={256} height={256} />
                     {selectedProduct && (
-                      <Image src={selectedProduct.image} alt={selectedProduct.title} className="absolute left-0 top-0 w-full h-full object-contain z-10 pointer-events-none" width={64} height={64} />
+                      <Image src={productImage(selectedProduct)} alt={selectedProduct.title} className="absolute left-0 top-0 w-full h-full object-contain z-10 pointer-events-none" width={64} height={64} />
                     )}
-                  </motion.div>
+                  </motion.div>}
                   {selectedProduct && (
                     <div className="flex flex-col items-center gap-1 mt-2">
                       <span className="font-semibold">{selectedProduct.title}</span>
-                      <span className="text-muted-foreground text-sm">{selectedProduct.price}</span>
+                      <span className="text-muted-foreground text-sm">{formatMoney(selectedVariant?.price ?? selectedProduct.price)}</span>
                       <Button
                         variant={isFavorite(selectedProduct.id) ? "destructive" : "outline"}
                         size="sm"
@@ -451,32 +651,103 @@ export default function Home() {
                       >
                         {isFavorite(selectedProduct.id) ? "♥ Remove" : "♡ Favorite"}
                       </Button>
-                      <Button variant="secondary" onClick={() => router.push(`/checkout?title=${encodeURIComponent(selectedProduct.title)}&price=${encodeURIComponent(selectedProduct.price)}&image=${encodeURIComponent(selectedProduct.image)}`)}>
-                        Buy (Mock)
+                      {namedWishlists.length > 0 && (
+                        <select
+                          value=""
+                          onChange={e => handleSaveToList(e.target.value)}
+                          className="border rounded-md px-2 h-9 text-sm bg-transparent"
+                          aria-label="Save to wishlist"
+                          disabled={wishlists.pending}
+                        >
+                          <option value="">Save to list...</option>
+                          {namedWishlists.map(list => (
+                            <option key={list.id} value={list.id}>{list.name}</option>
+                          ))}
+                        </select>
+                      )}
+                      {savedToList?.productId === selectedProduct.id && <span className="text-xs text-muted-foreground">Saved to {savedToList.name}</span>}
+                      {wishlists.error && <span className="text-red-600 text-sm">{wishlists.error}</span>}
+                      <select
+                        value={selectedVariant?.sku ?? ""}
+                        onChange={e => setSelectedSku(e.target.value)}
+                        className="border rounded-md px-2 h-9 text-sm bg-transparent"
+                        aria-label="Size"
+                      >
+                        {selectedProduct.variants.map(variant => (
+                          <option key={variant.sku} value={variant.sku} disabled={variant.stock <= 0}>
+                            {variant.color} · {variant.size}{variant.stock <= 0 ? " (sold out)" : ""}
+                          </option>
+                        ))}
+                      </select>
+                      <Button variant="secondary" onClick={handleAddToCart} disabled={!selectedVariant || cart.pending}>
+                        {selectedVariant ? "Add to cart" : "Sold out"}
                       </Button>
+                      {cart.error && !cartOpen && <span className="text-red-600 text-sm">{cart.error}</span>}
                     </div>
                   )}
                   <div className="flex flex-col items-center gap-2 mt-4 w-full">
-                    <Button onClick={handleGenerate3D} disabled={meshyLoading} className="w-full">
-                      {meshyLoading ? 'Generating 3D Model...' : 'Generate 3D Model (Meshy.ai)'}
+                    <Button onClick={handleGenerate3D} disabled={avatarJob.active || !uploadKey} className="w-full">
+                      {avatarJob.active ? 'Generating 3D Model...' : 'Generate 3D Model'}
                     </Button>
-                    {meshyError && <span className="text-red-600 text-sm">{meshyError}</span>}
+                    {avatarJob.error && <span className="text-red-600 text-sm">Error generating 3D model: {avatarJob.error}</span>}
+                    {readyAvatars.length > 0 && (
+                      <div className="w-full flex flex-col gap-2">
+                        <span className="text-sm font-semibold">Avatar to dress</span>
+                        <div className="flex gap-2 overflow-x-auto pb-1">
+                          {readyAvatars.map(avatar => (
+                            <button
+                              key={avatar.id}
+                              type="button"
+                              onClick={() => avatars.setActive(avatar.id)}
+                              disabled={avatars.pending}
+                              aria-pressed={avatar.active}
+                              className={`flex flex-col items-center gap-1 p-1 rounded-md border-2 shrink-0 ${avatar.active ? "border-blue-600" : "border-transparent"}`}
+                            >
+                              <Image
+                                src={avatar.thumbnailUrl ?? avatar.photoUrl ?? "/file.svg"}
+                                alt={avatar.name}
+                                width={64}
+                                height={64}
+                                unoptimized
+                                className="w-16 h-16 object-cover rounded"
+                              />
+                              <span className="text-xs w-16 truncate">{avatar.name}</span>
+                            </button>
+                          ))}
+                        </div>
+                        {avatars.error && <span className="text-red-600 text-sm">{avatars.error}</span>}
+                        <Link href="/avatars" className="text-xs underline underline-offset-4">Manage your avatars</Link>
+                      </div>
+                    )}
                     {modelUrl && (
                       <div className="w-full mt-2 flex flex-col items-center gap-2">
-                        <a href={modelUrl} target="_blank" rel="noopener noreferrer" className="underline text-blue-600">View 3D Model (external)</a>
-                        <ThreeDViewer url={avatarModelUrl || modelUrl} />
+                        <a href={modelUrl} download className="underline text-blue-600">Download 3D Model (GLB)</a>
+                        {wornProducts.length > 0 && (
+                          <div className="flex flex-wrap justify-center gap-2">
+                            {wornProducts.map(product => (
+                              <Button key={product.id} size="sm" variant="outline" onClick={() => takeOff(product.category)}>Take off {product.title}</Button>
+                            ))}
+                          </div>
+                        )}
+                        {selectedProduct && !selectedProduct.garment && (
+                          <span className="text-xs text-muted-foreground">{selectedProduct.title} has no 3D model to try on yet.</span>
+                        )}
+                        <ThreeDViewer url={modelUrl} garments={garments} />
                         <span className="text-xs text-muted-foreground">(3D preview powered by Three.js)</span>
                       </div>
                     )}
-                    {meshyLoading && (
+                    {avatarJob.active && (
                       <div className="w-full flex flex-col items-center gap-2 mt-2">
                         <div className="w-full bg-gray-200 rounded-full h-4 overflow-hidden">
                           <div
                             className="bg-blue-500 h-4 rounded-full transition-all duration-300"
-                            style={{ width: `${generationProgress}%` }}
+                            style={{ width: `${avatarJob.progress}%` }}
                           ></div>
                         </div>
-                        <span className="text-xs text-muted-foreground">Generating 3D Model... {generationProgress}%</span>
+                        <span className="text-xs text-muted-foreground">{avatarJob.job?.status === "running" ? `${JOB_STAGE_LABELS[avatarJob.job.stage ?? "model"]} ${avatarJob.progress}%` : "Waiting to start..."}</span>
+                        {avatarJob.job && (
+                          <Button size="sm" variant="ghost" onClick={avatarJob.cancel}>Cancel</Button>
+                        )}
                       </div>
                     )}
                   </div>
@@ -490,32 +761,94 @@ export default function Home() {
         <section id="sizing" className="w-full max-w-3xl bg-card rounded-xl shadow p-8 flex flex-col items-center gap-4">
           <h2 className="text-2xl font-bold mb-2">Precise Sizing</h2>
           <p className="text-muted-foreground mb-4">AI-powered body measurement and size recommendations for the perfect fit, every time.</p>
-          <form className="flex flex-col sm:flex-row gap-4 items-center w-full justify-center" onSubmit={handleSizingSubmit}>
-            <Input
-              type="number"
-              min={100}
-              max={250}
-              value={height}
-              onChange={e => setHeight(Number(e.target.value))}
-              className="max-w-[120px]"
-              placeholder="Height (cm)"
-              required
-            />
-            <Input
-              type="number"
-              min={30}
-              max={200}
-              value={weight}
-              onChange={e => setWeight(Number(e.target.value))}
-              className="max-w-[120px]"
-              placeholder="Weight (kg)"
-              required
-            />
-            <Button type="submit" disabled={sizingLoading}>{sizingLoading ? 'Estimating...' : 'Estimate Size'}</Button>
+          <form className="flex flex-col gap-4 items-center w-full" onSubmit={handleSizingSubmit}>
+            <div className="flex gap-1" role="radiogroup" aria-label="Units">
+              {(["metric", "imperial"] as const).map(system => (
+                <Button
+                  key={system}
+                  type="button"
+                  size="sm"
+                  variant={unitSystem === system ? "default" : "outline"}
+                  role="radio"
+                  aria-checked={unitSystem === system}
+                  onClick={() => changeUnitSystem(system)}
+                >
+                  {system === "metric" ? "cm / kg" : "in / lb"}
+                </Button>
+              ))}
+            </div>
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 w-full">
+              {MEASUREMENTS.map(measurement => (
+                <label key={measurement} className="flex flex-col gap-1 text-sm capitalize">
+                  {measurement} ({unitFor(measurement, unitSystem)})
+                  <Input
+                    type="number"
+                    min={0}
+                    step={0.1}
+                    value={measurements[measurement]}
+                    onChange={e => setMeasurements(prev => ({ ...prev, [measurement]: e.target.value }))}
+                    placeholder={unitFor(measurement, unitSystem)}
+                  />
+                </label>
+              ))}
+            </div>
+            <div className="flex flex-col sm:flex-row gap-4 items-center justify-center w-full">
+              <select
+                value={sizingProductId || products[0]?.id || ""}
+                onChange={e => setSizingProductId(e.target.value)}
+                className="border rounded-md px-2 h-9 text-sm bg-transparent"
+                aria-label="Product to size"
+                required
+              >
+                {products.map(product => (
+                  <option key={product.id} value={product.id}>{product.title}</option>
+                ))}
+              </select>
+              <div className="flex gap-1" role="radiogroup" aria-label="Fit preference">
+                {FIT_PREFERENCES.map(fit => (
+                  <Button
+                    key={fit}
+                    type="button"
+                    size="sm"
+                    variant={fitPreference === fit ? "default" : "outline"}
+                    role="radio"
+                    aria-checked={fitPreference === fit}
+                    onClick={() => setFitPreference(fit)}
+                    className="capitalize"
+                  >
+                    {fit}
+                  </Button>
+                ))}
+              </div>
+              <Button type="submit" disabled={sizingLoading || products.length === 0}>{sizingLoading ? 'Estimating...' : 'Estimate Size'}</Button>
+            </div>
           </form>
           {sizingError && <span className="text-red-600 text-sm">{sizingError}</span>}
           {sizingResult && (
-            <Card className="w-full max-w-md p-4 text-center mt-2">{sizingResult}</Card>
+            <Card className="w-full max-w-md p-4 mt-2 flex flex-col gap-2">
+              <div className="text-center">
+                Recommended size: <span className="font-bold text-lg">{sizingResult.size}</span>
+                <span className="text-muted-foreground text-sm"> ({Math.round(sizingResult.confidence * 100)}% confidence, {sizingResult.fit} fit)</span>
+              </div>
+              <ul className="text-sm flex flex-col gap-1">
+                {sizingResult.breakdown.map(item => (
+                  <li key={item.measurement} className="flex justify-between capitalize">
+                    <span>
+                      {item.measurement}: {displayValue(item.measurement, item.value)}{" "}
+                      <span className="text-muted-foreground">(size range {displayValue(item.measurement, item.range[0])}–{displayValue(item.measurement, item.range[1])})</span>
+                    </span>
+                    <span className={item.verdict === 'good' ? 'text-green-600' : 'text-amber-600'}>
+                      {item.verdict === 'good' ? 'Good fit' : `${displayValue(item.measurement, item.delta)} ${item.verdict}`}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+              {sizingResult.alternatives.length > 0 && (
+                <div className="text-xs text-muted-foreground text-center">
+                  Also consider: {sizingResult.alternatives.slice(0, 2).map(alt => alt.size).join(', ')}
+                </div>
+              )}
+            </Card>
           )}
         </section>
 
@@ -538,11 +871,58 @@ export default function Home() {
                     ) : (
                       <Image src="/user-avatar.png" alt="You" width={32} height={32} className="w-8 h-8 rounded-full" />
                     )}
-                    <Card className={`p-3 ${msg.sender === 'user' ? 'ml-auto bg-primary text-primary-foreground' : 'mr-auto bg-muted'}`}>{msg.message}</Card>
+                    <Card className={`p-3 whitespace-pre-wrap ${msg.sender === 'user' ? 'ml-auto bg-primary text-primary-foreground' : 'mr-auto bg-muted'}`}>
+                      {msg.message || <span className="animate-pulse text-muted-foreground" aria-label="Stylist is typing">…</span>}
+                    </Card>
                   </div>
+                  {msg.products && msg.products.length > 0 && (
+                    <div className="flex flex-wrap gap-2 mt-2 ml-10">
+                      {msg.products.map(product => (
+                        <Card
+                          key={product.id}
+                          className="p-2 flex flex-col items-center cursor-pointer w-32"
+                          onClick={() => showInTryOn(product)}
+                          aria-label={`Show ${product.title} in try-on`}
+                          tabIndex={0}
+                          onKeyDown={e => { if (e.key === 'Enter') showInTryOn(product); }}
+                        >
+                          <Image src={productImage(product)} alt={product.title} width={64} height={64} className="w-16 h-16 object-contain" />
+                          <span className="font-semibold text-xs text-center">{product.title}</span>
+                          <span className="text-xs text-muted-foreground">{formatMoney(product.price)}</span>
+                          <div className="flex gap-1">
+                            <Button
+                              variant={isFavorite(product.id) ? "destructive" : "outline"}
+                              size="sm"
+                              className="h-7 px-2 text-xs"
+                              aria-label={isFavorite(product.id) ? "Remove from favorites" : "Add to favorites"}
+                              onClick={e => {
+                                e.stopPropagation();
+                                if (isFavorite(product.id)) {
+                                  removeFavorite(product.id);
+                                } else {
+                                  addFavorite(product);
+                                }
+                              }}
+                            >
+                              {isFavorite(product.id) ? "♥" : "♡"}
+                            </Button>
+                            <Button
+                              size="sm"
+                              className="h-7 px-2 text-xs"
+                              onClick={e => {
+                                e.stopPropagation();
+                                handleTryOn(product);
+                              }}
+                            >
+                              Try on
+                            </Button>
+                          </div>
+                        </Card>
+                      ))}
+                    </div>
+                  )}
                 </motion.div>
               ))}
-              {chatLoading && <Card className="p-3 mr-auto bg-muted">Thinking...</Card>}
               {chatError && <span className="text-red-600 text-sm">{chatError}</span>}
             </div>
             <div className="flex gap-2 mt-2">
@@ -577,15 +957,16 @@ export default function Home() {
         {/* Favorites Section */}
         <section className="w-full max-w-3xl bg-card rounded-xl shadow p-8 flex flex-col items-center gap-4 mt-8" aria-label="Favorites">
           <h2 className="text-2xl font-bold mb-2">Favorites</h2>
+          <Link href="/wishlists" className="text-sm underline underline-offset-4">Manage and share your wishlists</Link>
           {favorites.length === 0 ? (
             <span className="text-muted-foreground">No favorites yet.</span>
           ) : (
             <div className="flex flex-wrap gap-4 justify-center w-full">
               {favorites.map(fav => (
                 <Card key={fav.id} className="p-2 flex flex-col items-center">
-                  <Image src={fav.image} alt={fav.title} width={64} height={64} className="w-16 h-16 object-contain mb-2" />
+                  <Image src={productImage(fav)} alt={fav.title} width={64} height={64} className="w-16 h-16 object-contain mb-2" />
                   <span className="font-semibold text-sm">{fav.title}</span>
-                  <span className="text-xs text-muted-foreground">{fav.price}</span>
+                  <span className="text-xs text-muted-foreground">{formatMoney(fav.price)}</span>
                   <Button
                     variant="destructive"
                     size="sm"
@@ -0,0 +1,168 @@
+"use client";
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import Image from "next/image";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useWishlists } from "@/hooks/use-wishlists";
+import { formatMoney } from "@/lib/catalog/money";
+import type { ResolvedWishlist } from "@/lib/wishlists/types";
+
+export default function WishlistsPage() {
+  const lists = useWishlists();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [selected, setSelected] = useState<ResolvedWishlist | null>(null);
+  const [newName, setNewName] = useState("");
+  const [renameTo, setRenameTo] = useState("");
+  const [copied, setCopied] = useState(false);
+  const activeId = selectedId ?? lists.wishlists?.[0]?.id ?? null;
+
+  const loadSelected = useCallback(async () => {
+    if (!activeId) return;
+    const res = await fetch(`/api/wishlists/${encodeURIComponent(activeId)}`);
+    const data = await res.json();
+    setSelected(res.ok ? data.wishlist : null);
+  }, [activeId]);
+
+  useEffect(() => {
+    loadSelected();
+  }, [loadSelected, lists.wishlists]);
+
+  useEffect(() => {
+    setRenameTo("");
+    setCopied(false);
+  }, [activeId]);
+
+  const shareUrl = selected?.shareToken && typeof window !== "undefined"
+    ? `${window.location.origin}/wishlists/shared/${selected.shareToken}`
+    : null;
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (await lists.create(newName)) setNewName("");
+  };
+  const handleRename = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (activeId && await lists.rename(activeId, renameTo)) setRenameTo("");
+  };
+  const handleDelete = async () => {
+    if (activeId && await lists.remove(activeId)) setSelectedId(null);
+  };
+  const copyShareUrl = async () => {
+    if (!shareUrl) return;
+    await navigator.clipboard.writeText(shareUrl);
+    setCopied(true);
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col items-center bg-background text-foreground py-12 px-4">
+      <div className="w-full max-w-3xl flex flex-col gap-6">
+        <div className="flex items-center justify-between">
+          <h1 className="text-2xl font-bold">Your wishlists</h1>
+          <Link href="/" className="underline underline-offset-4 text-sm">Continue shopping</Link>
+        </div>
+        {lists.error && <span className="text-red-600 text-sm">{lists.error}</span>}
+        {!lists.wishlists && !lists.error && <span>Loading wishlists...</span>}
+
+        <div className="flex flex-col md:flex-row gap-6">
+          <Card className="p-4 flex flex-col gap-2 md:w-64 shrink-0">
+            {lists.wishlists?.map(list => (
+              <Button
+                key={list.id}
+                variant={list.id === activeId ? "default" : "ghost"}
+                className="justify-between"
+                onClick={() => setSelectedId(list.id)}
+              >
+                <span className="truncate">{list.name}</span>
+                <span className="text-xs opacity-70">{list.itemCount}{list.shareToken ? " · shared" : ""}</span>
+              </Button>
+            ))}
+            <form className="flex gap-2 mt-2" onSubmit={handleCreate}>
+              <Input
+                value={newName}
+                onChange={e => setNewName(e.target.value)}
+                placeholder="New list name"
+                maxLength={60}
+                aria-label="New wishlist name"
+              />
+              <Button type="submit" size="sm" disabled={!newName.trim() || lists.pending}>Add</Button>
+            </form>
+          </Card>
+
+          {selected && (
+            <Card className="p-4 flex-1 flex flex-col gap-4">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <h2 className="text-xl font-semibold">{selected.name}</h2>
+                <div className="flex gap-2">
+                  <Button size="sm" variant="outline" disabled={lists.pending} onClick={() => lists.setShared(selected.id, !selected.shareToken)}>
+                    {selected.shareToken ? "Stop sharing" : "Share"}
+                  </Button>
+                  {!selected.isDefault && (
+                    <Button size="sm" variant="destructive" disabled={lists.pending} onClick={handleDelete}>Delete list</Button>
+                  )}
+                </div>
+              </div>
+
+              {shareUrl && (
+                <div className="flex flex-col gap-1 text-sm">
+                  <span className="text-muted-foreground">Anyone with this link can view the list, but not change it:</span>
+                  <div className="flex gap-2">
+                    <Input readOnly value={shareUrl} aria-label="Share link" onFocus={e => e.target.select()} />
+                    <Button size="sm" variant="outline" onClick={copyShareUrl}>{copied ? "Copied" : "Copy"}</Button>
+                  </div>
+                </div>
+              )}
+
+              {!selected.isDefault && (
+                <form className="flex gap-2" onSubmit={handleRename}>
+                  <Input
+                    value={renameTo}
+                    onChange={e => setRenameTo(e.target.value)}
+                    placeholder="Rename list"
+                    maxLength={60}
+                    aria-label="Rename wishlist"
+                  />
+                  <Button type="submit" size="sm" variant="outline" disabled={!renameTo.trim() || lists.pending}>Rename</Button>
+                </form>
+              )}
+
+              {selected.products.length === 0 ? (
+                <span className="text-muted-foreground text-sm">Nothing saved here yet.</span>
+              ) : (
+                <div className="grid grid-cols-2 sm:grid-cols-3 gap-4">
+                  {selected.products.map(product => (
+                    <Card key={product.id} className="p-2 flex flex-col items-center gap-1 text-center">
+                      <Image
+                        src={product.images[0]?.url ?? "/file.svg"}
+                        alt={product.title}
+                        width={96}
+                        height={96}
+                        className="w-24 h-24 object-contain"
+                      />
+                      <span className="font-semibold text-sm">{product.title}</span>
+                      <span className="text-xs text-muted-foreground">{formatMoney(product.price)}</span>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        disabled={lists.pending}
+                        onClick={() => lists.removeItem(selected.id, product.id)}
+                      >
+                        Remove
+                      </Button>
+                    </Card>
+                  ))}
+                </div>
+              )}
+              {selected.unavailableCount > 0 && (
+                <span className="text-xs text-muted-foreground">
+                  {selected.unavailableCount} saved {selected.unavailableCount === 1 ? "item is" : "items are"} no longer available.
+                </span>
+              )}
+            </Card>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
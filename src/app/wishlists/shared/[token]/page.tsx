@@ -0,0 +1,62 @@
+"use client";
+import { useEffect, useState } from "react";
+import { useParams } from "next/navigation";
+import Link from "next/link";
+import Image from "next/image";
+import { Card } from "@/components/ui/card";
+import { formatMoney } from "@/lib/catalog/money";
+import type { SharedWishlist } from "@/lib/wishlists/types";
+
+// Read-only view of someone else's wishlist
+export default function SharedWishlistPage() {
+  const { token } = useParams<{ token: string }>();
+  const [wishlist, setWishlist] = useState<SharedWishlist | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch(`/api/wishlists/shared/${encodeURIComponent(token)}`)
+      .then(async res => {
+        const data = await res.json();
+        if (!res.ok) throw new Error(data?.error || "Could not load this wishlist.");
+        setWishlist(data.wishlist);
+      })
+      .catch(err => setError(err instanceof Error ? err.message : "Could not load this wishlist."));
+  }, [token]);
+
+  return (
+    <div className="min-h-screen flex flex-col items-center bg-background text-foreground py-12 px-4">
+      <div className="w-full max-w-3xl flex flex-col gap-6">
+        <div className="flex items-center justify-between">
+          <h1 className="text-2xl font-bold">{wishlist ? wishlist.name : "Shared wishlist"}</h1>
+          <Link href="/" className="underline underline-offset-4 text-sm">Visit the shop</Link>
+        </div>
+        {error && <span className="text-red-600 text-sm">{error}</span>}
+        {!wishlist && !error && <span>Loading wishlist...</span>}
+        {wishlist && (
+          <>
+            <span className="text-sm text-muted-foreground">Updated {new Date(wishlist.updatedAt).toLocaleDateString()}</span>
+            {wishlist.products.length === 0 ? (
+              <span className="text-muted-foreground">This wishlist is empty.</span>
+            ) : (
+              <div className="grid grid-cols-2 sm:grid-cols-3 gap-4">
+                {wishlist.products.map(product => (
+                  <Card key={product.id} className="p-3 flex flex-col items-center gap-1 text-center">
+                    <Image
+                      src={product.images[0]?.url ?? "/file.svg"}
+                      alt={product.title}
+                      width={128}
+                      height={128}
+                      className="w-32 h-32 object-contain"
+                    />
+                    <span className="font-semibold text-sm">{product.title}</span>
+                    <span className="text-xs text-muted-foreground">{formatMoney(product.price)}</span>
+                  </Card>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,127 @@
+"use client";
+import { useEffect } from "react";
+import Link from "next/link";
+import Image from "next/image";
+import { AnimatePresence, motion } from "framer-motion";
+import { XIcon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { formatMoney } from "@/lib/catalog/money";
+import type { PricedCart, PricedCartLine } from "@/lib/cart/types";
+
+type CartDrawerProps = {
+  open: boolean;
+  onClose: () => void;
+  cart: PricedCart | null;
+  pending: boolean;
+  error: string | null;
+  onUpdateQuantity: (sku: string, quantity: number) => void;
+  onRemove: (sku: string) => void;
+};
+
+function lineIssue(line: PricedCartLine) {
+  if (line.issue === "unavailable") return "No longer available";
+  if (line.issue === "insufficient_stock") return `Only ${line.available} left`;
+  return null;
+}
+
+// Slide-over cart opened from the header
+export default function CartDrawer({ open, onClose, cart, pending, error, onUpdateQuantity, onRemove }: CartDrawerProps) {
+  useEffect(() => {
+    if (!open) return;
+    const onKeyDown = (e: KeyboardEvent) => { if (e.key === "Escape") onClose(); };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [open, onClose]);
+
+  const lines = cart?.lines ?? [];
+
+  return (
+    <AnimatePresence>
+      {open && (
+        <>
+          <motion.div
+            className="fixed inset-0 z-40 bg-black/40"
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={onClose}
+            aria-hidden
+          />
+          <motion.aside
+            role="dialog"
+            aria-modal="true"
+            aria-label="Shopping cart"
+            className="fixed right-0 top-0 z-50 h-full w-full max-w-sm bg-background border-l border-border shadow-xl flex flex-col"
+            initial={{ x: "100%" }}
+            animate={{ x: 0 }}
+            exit={{ x: "100%" }}
+            transition={{ type: "tween", duration: 0.25 }}
+          >
+            <div className="flex items-center justify-between px-6 py-4 border-b border-border">
+              <h2 className="text-lg font-bold">Your cart</h2>
+              <Button variant="ghost" size="icon" onClick={onClose} aria-label="Close cart">
+                <XIcon />
+              </Button>
+            </div>
+            <div className="flex-1 overflow-y-auto px-6 py-4 flex flex-col gap-4">
+              {lines.length === 0 && <span className="text-muted-foreground text-sm">Your cart is empty.</span>}
+              {lines.map(line => (
+                <div key={line.sku} className="flex gap-3 items-start">
+                  <Image src={line.image ?? "/file.svg"} alt={line.title} width={56} height={56} className="w-14 h-14 object-contain rounded border" />
+                  <div className="flex-1 flex flex-col gap-1 text-sm">
+                    <span className="font-semibold">{line.title}</span>
+                    {line.size && <span className="text-xs text-muted-foreground">{line.color} · {line.size}</span>}
+                    <span className="text-xs text-muted-foreground">{formatMoney(line.unitPrice)} each</span>
+                    {lineIssue(line) && <span className="text-xs text-red-600">{lineIssue(line)}</span>}
+                    <div className="flex items-center gap-2 mt-1">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={pending || line.quantity <= 1}
+                        onClick={() => onUpdateQuantity(line.sku, line.quantity - 1)}
+                        aria-label={`Decrease quantity of ${line.title}`}
+                      >
+                        −
+                      </Button>
+                      <span aria-label="Quantity" className="w-6 text-center">{line.quantity}</span>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={pending || line.issue === "unavailable" || line.quantity >= line.available}
+                        onClick={() => onUpdateQuantity(line.sku, line.quantity + 1)}
+                        aria-label={`Increase quantity of ${line.title}`}
+                      >
+                        +
+                      </Button>
+                      <Button variant="link" size="sm" disabled={pending} onClick={() => onRemove(line.sku)}>
+                        Remove
+                      </Button>
+                    </div>
+                  </div>
+                  <span className="text-sm font-semibold">{formatMoney(line.lineTotal)}</span>
+                </div>
+              ))}
+              {error && <span className="text-red-600 text-sm">{error}</span>}
+            </div>
+            <div className="border-t border-border px-6 py-4 flex flex-col gap-3">
+              <div className="flex justify-between font-semibold">
+                <span>Subtotal</span>
+                <span>{cart ? formatMoney(cart.subtotal) : "—"}</span>
+              </div>
+              {cart?.checkoutReady ? (
+                <Button asChild>
+                  <Link href="/checkout" onClick={onClose}>Checkout</Link>
+                </Button>
+              ) : (
+                <Button disabled>Checkout</Button>
+              )}
+              {cart && lines.length > 0 && !cart.checkoutReady && (
+                <span className="text-xs text-muted-foreground">Remove or adjust the items marked above to check out.</span>
+              )}
+            </div>
+          </motion.aside>
+        </>
+      )}
+    </AnimatePresence>
+  );
+}
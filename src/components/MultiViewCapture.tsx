@@ -0,0 +1,181 @@
+"use client";
+import { useEffect, useRef, useState } from "react";
+import Image from "next/image";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import type { JobViews } from "@/lib/jobs/types";
+import type { ThreeDView } from "@/lib/three-d/types";
+
+const STEPS: { view: ThreeDView; title: string; instructions: string }[] = [
+  {
+    view: "front",
+    title: "Front",
+    instructions: "Face the camera with your arms held slightly away from your body. Your whole body should be in the frame.",
+  },
+  {
+    view: "side",
+    title: "Side",
+    // Taken as the left view by providers that name the sides
+    instructions: "Turn a quarter turn to your right so your left side faces the camera. Keep the same pose and distance.",
+  },
+  {
+    view: "back",
+    title: "Back",
+    instructions: "Turn your back to the camera, arms in the same position as before.",
+  },
+];
+
+type Shot =
+  | { status: "checking"; preview: string }
+  | { status: "ready"; preview: string; uploadKey: string; file: File }
+  | { status: "rejected"; preview: string; error: string };
+
+type MultiViewCaptureProps = {
+  // Starts generation; views is empty when only the front photo was taken
+  onSubmit: (frontKey: string, views: JobViews, front: File) => void;
+  // Back to the one-photo upload
+  onUseSinglePhoto: () => void;
+  busy: boolean;
+};
+
+async function readError(res: Response, fallback: string): Promise<string> {
+  const data: { error?: string; suggestion?: string } | null = await res.json().catch(() => null);
+  return [data?.error || fallback, data?.suggestion].filter(Boolean).join(" ");
+}
+
+// Guided front, side and back photos for a multi-view avatar. Each photo is
+// uploaded and checked as soon as it's taken, so a blurry or cropped one can
+// be retaken on the spot. Side and back are optional: with the front alone
+// the avatar is made from a single photo.
+export default function MultiViewCapture({ onSubmit, onUseSinglePhoto, busy }: MultiViewCaptureProps) {
+  const [step, setStep] = useState(0);
+  const [shots, setShots] = useState<Partial<Record<ThreeDView, Shot>>>({});
+
+  // Previews are object URLs; free them with the component
+  const previews = useRef<string[]>([]);
+  useEffect(() => () => previews.current.forEach(url => URL.revokeObjectURL(url)), []);
+
+  // Past the last step once every photo is taken or skipped
+  const current = STEPS[step];
+  const currentShot = current && shots[current.view];
+  const front = shots.front?.status === "ready" ? shots.front : undefined;
+  const checking = Object.values(shots).some(shot => shot.status === "checking");
+
+  const capture = async (view: ThreeDView, file: File) => {
+    const preview = URL.createObjectURL(file);
+    previews.current.push(preview);
+    const reject = (error: string) => setShots(prev => ({ ...prev, [view]: { status: "rejected", preview, error } }));
+    setShots(prev => ({ ...prev, [view]: { status: "checking", preview } }));
+    try {
+      const formData = new FormData();
+      formData.append("file", file);
+      const uploaded = await fetch("/api/upload", { method: "POST", body: formData });
+      if (!uploaded.ok) return reject(await readError(uploaded, "Upload failed. Please try again."));
+      const { upload } = await uploaded.json();
+      const checked = await fetch("/api/photos/check", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ uploadKey: upload.key, view }),
+      });
+      if (!checked.ok) return reject(await readError(checked, "This photo could not be checked."));
+      setShots(prev => ({ ...prev, [view]: { status: "ready", preview, uploadKey: upload.key, file } }));
+      setStep(s => (STEPS[s]?.view === view ? s + 1 : s));
+    } catch {
+      reject("Upload failed. Please try again.");
+    }
+  };
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (file && current) capture(current.view, file);
+  };
+
+  const skip = () => {
+    setShots(prev => {
+      const next = { ...prev };
+      delete next[current.view];
+      return next;
+    });
+    setStep(s => s + 1);
+  };
+
+  const handleSubmit = () => {
+    if (!front) return;
+    const views: JobViews = {};
+    for (const view of ["side", "back"] as const) {
+      const shot = shots[view];
+      if (shot?.status === "ready") views[view] = shot.uploadKey;
+    }
+    onSubmit(front.uploadKey, views, front.file);
+  };
+
+  const extraViews = (["side", "back"] as const).filter(view => shots[view]?.status === "ready").length;
+
+  return (
+    <div className="w-full max-w-md flex flex-col gap-4">
+      <ol className="flex gap-2" aria-label="Photos">
+        {STEPS.map((s, i) => {
+          const shot = shots[s.view];
+          return (
+            <li key={s.view} className="flex-1">
+              <button
+                type="button"
+                onClick={() => setStep(i)}
+                disabled={busy}
+                aria-current={i === step ? "step" : undefined}
+                className={`w-full flex flex-col items-center gap-1 p-1 rounded-md border-2 ${i === step ? "border-blue-600" : "border-transparent"}`}
+              >
+                <div className="w-20 h-24 rounded bg-muted flex items-center justify-center overflow-hidden">
+                  {shot ? (
+                    <Image src={shot.preview} alt={`${s.title} photo`} width={80} height={96} unoptimized className="w-full h-full object-cover" />
+                  ) : (
+                    <span className="text-xs text-muted-foreground">{s.view === "front" ? "Required" : "Optional"}</span>
+                  )}
+                </div>
+                <span className="text-xs">
+                  {s.title}
+                  {shot?.status === "checking" && " · checking..."}
+                  {shot?.status === "ready" && " ✓"}
+                  {shot?.status === "rejected" && " · retake"}
+                </span>
+              </button>
+            </li>
+          );
+        })}
+      </ol>
+
+      {current ? (
+        <div className="flex flex-col gap-2">
+          <span className="font-semibold">Step {step + 1} of {STEPS.length}: {current.title}</span>
+          <p className="text-sm text-muted-foreground">{current.instructions}</p>
+          <Input
+            type="file"
+            accept="image/jpeg,image/png,image/webp,image/heic,image/heif,.heic,.heif"
+            capture="environment"
+            onChange={handleFile}
+            disabled={busy || currentShot?.status === "checking"}
+            aria-label={`${current.title} photo`}
+          />
+          {currentShot?.status === "rejected" && <span className="text-red-600 text-sm">{currentShot.error}</span>}
+          {current.view !== "front" && (
+            <Button type="button" variant="ghost" size="sm" onClick={skip} disabled={busy}>Skip this photo</Button>
+          )}
+        </div>
+      ) : (
+        <span className="text-sm text-muted-foreground">
+          {extraViews > 0
+            ? `Front photo plus ${extraViews} more: your avatar will be made from all of them.`
+            : "Only the front photo was taken, so your avatar will be made from that one photo."}
+        </span>
+      )}
+
+      <div className="flex flex-col gap-2">
+        <Button type="button" onClick={handleSubmit} disabled={!front || checking || busy}>
+          {busy ? "Generating 3D Model..." : "Generate 3D Model"}
+        </Button>
+        <Button type="button" variant="link" size="sm" onClick={onUseSinglePhoto} disabled={busy}>Use a single photo instead</Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,88 @@
+"use client";
+import { useEffect, useRef, useState } from "react";
+import Link from "next/link";
+import Image from "next/image";
+import { AnimatePresence, motion } from "framer-motion";
+import { Button } from "@/components/ui/button";
+import type { PublicNotification } from "@/lib/notifications/types";
+
+type NotificationCenterProps = {
+  notifications: PublicNotification[];
+  unreadCount: number;
+  onMarkAllRead: () => void;
+};
+
+// Header button with a dropdown of price-drop and back-in-stock alerts
+export default function NotificationCenter({ notifications, unreadCount, onMarkAllRead }: NotificationCenterProps) {
+  const [open, setOpen] = useState(false);
+  const ref = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    const onPointerDown = (e: PointerEvent) => { if (!ref.current?.contains(e.target as Node)) setOpen(false); };
+    const onKeyDown = (e: KeyboardEvent) => { if (e.key === "Escape") setOpen(false); };
+    window.addEventListener("pointerdown", onPointerDown);
+    window.addEventListener("keydown", onKeyDown);
+    return () => {
+      window.removeEventListener("pointerdown", onPointerDown);
+      window.removeEventListener("keydown", onKeyDown);
+    };
+  }, [open]);
+
+  return (
+    <div className="relative" ref={ref}>
+      <button
+        type="button"
+        className="hover:underline underline-offset-4"
+        aria-haspopup="true"
+        aria-expanded={open}
+        onClick={() => setOpen(o => !o)}
+      >
+        Alerts{unreadCount > 0 && ` (${unreadCount})`}
+      </button>
+      <AnimatePresence>
+        {open && (
+          <motion.div
+            className="absolute right-0 mt-2 w-80 max-h-96 overflow-y-auto rounded-lg border bg-white shadow-lg z-30 p-3 flex flex-col gap-2 text-left"
+            initial={{ opacity: 0, y: -8 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -8 }}
+            transition={{ duration: 0.15 }}
+            role="dialog"
+            aria-label="Notifications"
+          >
+            <div className="flex items-center justify-between">
+              <span className="font-semibold">Notifications</span>
+              {unreadCount > 0 && (
+                <Button size="sm" variant="ghost" onClick={onMarkAllRead}>Mark all read</Button>
+              )}
+            </div>
+            {notifications.length === 0 ? (
+              <span className="text-sm text-muted-foreground">
+                Favorite items to hear when they drop in price or come back in stock.
+              </span>
+            ) : (
+              notifications.map(notification => (
+                <Link
+                  key={notification.id}
+                  href={notification.url ?? "/"}
+                  onClick={() => setOpen(false)}
+                  className={`flex gap-3 rounded-md p-2 hover:bg-muted ${notification.readAt ? "opacity-70" : ""}`}
+                >
+                  {notification.image && (
+                    <Image src={notification.image} alt="" width={40} height={40} className="w-10 h-10 object-contain" />
+                  )}
+                  <div className="flex flex-col text-sm">
+                    <span className={notification.readAt ? "" : "font-semibold"}>{notification.title}</span>
+                    <span className="text-muted-foreground">{notification.body}</span>
+                    <span className="text-xs text-muted-foreground">{new Date(notification.createdAt).toLocaleString()}</span>
+                  </div>
+                </Link>
+              ))
+            )}
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
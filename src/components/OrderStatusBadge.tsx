@@ -0,0 +1,23 @@
+import { FULFILLMENT_STATUS_LABELS, ORDER_STATUS_LABELS } from "@/lib/orders/status";
+import type { FulfillmentStatus, OrderStatus } from "@/lib/orders/types";
+import { cn } from "@/lib/utils";
+
+const TONES: Record<OrderStatus | FulfillmentStatus, string> = {
+  pending_payment: "bg-amber-100 text-amber-800",
+  requires_action: "bg-amber-100 text-amber-800",
+  paid: "bg-green-100 text-green-800",
+  failed: "bg-red-100 text-red-800",
+  refunded: "bg-gray-200 text-gray-800",
+  unfulfilled: "bg-blue-100 text-blue-800",
+  shipped: "bg-indigo-100 text-indigo-800",
+  delivered: "bg-green-100 text-green-800",
+};
+
+type OrderStatusBadgeProps =
+  | { kind: "payment"; status: OrderStatus }
+  | { kind: "fulfillment"; status: FulfillmentStatus };
+
+export default function OrderStatusBadge(props: OrderStatusBadgeProps) {
+  const label = props.kind === "payment" ? ORDER_STATUS_LABELS[props.status] : FULFILLMENT_STATUS_LABELS[props.status];
+  return <span className={cn("rounded-full px-2 py-0.5 text-xs font-medium", TONES[props.status])}>{label}</span>;
+}
@@ -1,23 +1,17 @@
-import { Canvas, useLoader } from '@react-three/fiber';
+import { Canvas } from '@react-three/fiber';
 import { OrbitControls, Environment, useGLTF, useAnimations, Text } from '@react-three/drei';
-import React, { useEffect, useState, Suspense } from 'react';
+import React, { useCallback, useEffect, useLayoutEffect, useMemo, useState, Suspense } from 'react';
 import { XR, ARButton, VRButton, createXRStore } from '@react-three/xr';
-import { TextureLoader } from 'three';
-
-// Sample clothing models and animations
-const clothingOptions = [
-  { name: 'Jacket', url: '/models/jacket.glb' },
-  { name: 'Dress', url: '/models/dress.glb' },
-  { name: 'Tee', url: '/models/tee.glb' },
-];
-const animationOptions = [
-  { name: 'Idle', value: 'Idle' },
-  { name: 'Walk', value: 'Walk' },
-  { name: 'Spin', value: 'Spin' },
-];
+import type { Object3D } from 'three';
+import { clone as cloneSkinned } from 'three/examples/jsm/utils/SkeletonUtils.js';
+import type { ProductCategory } from '@/lib/catalog/types';
+import { attachGarment } from '@/lib/garments';
+
+// A garment GLB to dress the avatar in
+export type ViewerGarment = { url: string, category: ProductCategory };
 
 // Simple Error Boundary Component
-class ErrorBoundary extends React.Component<{ children?: React.ReactNode }, { hasError: boolean, error: Error | null }> {
+class ErrorBoundary extends React.Component<{ children?: React.ReactNode, fallback?: React.ReactNode }, { hasError: boolean, error: Error | null }> {
   state = { hasError: false, error: null };
 
   static getDerivedStateFromError(error: unknown) {
@@ -36,20 +30,25 @@ class ErrorBoundary extends React.Component<{ children?: React.ReactNode }, { ha
   render() {
     if (this.state.hasError) {
       // You can render any custom fallback UI
-      return <div>Error loading 3D model.</div>;
+      return this.props.fallback === undefined ? <div>Error loading 3D model.</div> : this.props.fallback;
     }
     return this.props.children;
   }
 }
 
 // Model component - Call hooks unconditionally
-function Model({ url, animationName }: { url: string, animationName?: string }) {
+function Model({ url, animationName, onClips, garments = [] }: { url: string, animationName?: string, onClips?: (names: string[]) => void, garments?: ViewerGarment[] }) {
   // Always call hooks at the top level!
   // useGLTF will suspend while loading and might throw if url is invalid.
   // This is handled by Suspense and ErrorBoundary.
   const { scene, animations } = useGLTF(url); // Use the direct url prop
   const { actions } = useAnimations(animations, scene);
 
+  // Report the clips this model really has; unrigged avatars have none
+  useEffect(() => {
+    onClips?.(animations.map(clip => clip.name));
+  }, [animations, onClips]);
+
   useEffect(() => {
     // Only try to play animation if actions and the specific animation exist
     // No need for inCanvas check here, as Model is inside Canvas
@@ -66,91 +65,74 @@ function Model({ url, animationName }: { url: string, animationName?: string })
   // Only render the primitive if the scene is loaded
   if (!scene) return null;
 
-  return <primitive object={scene} />;
-}
-
-// Add ClothingBillboard component for 2D overlay
-function ClothingBillboard({ imageUrl, position = [0, 1, 0], scale = [1, 1, 1] }: { imageUrl: string, position?: [number, number, number], scale?: [number, number, number] }) {
-  const texture = useLoader(TextureLoader, imageUrl);
+  // Each garment loads on its own; one that fails to load is left off
   return (
-    <mesh position={position} scale={scale}>
-      <planeGeometry args={[1, 1]} />
-      <meshBasicMaterial map={texture} transparent />
-    </mesh>
+    <>
+      <primitive object={scene} />
+      {garments.map(garment => (
+        <ErrorBoundary key={garment.url} fallback={null}>
+          <Suspense fallback={null}>
+            <Garment avatar={scene} url={garment.url} category={garment.category} />
+          </Suspense>
+        </ErrorBoundary>
+      ))}
+    </>
   );
 }
 
-const xrStore = createXRStore();
+// Dresses the avatar in a garment, sized to its proportions and bound to its
+// skeleton, so it moves with the avatar's animations
+function Garment({ avatar, url, category }: { avatar: Object3D, url: string, category: ProductCategory }) {
+  const { scene } = useGLTF(url);
+  // useGLTF caches the scene; every avatar wearing the garment needs its own,
+  // with skinned meshes bound to the copied bones
+  const garment = useMemo(() => cloneSkinned(scene), [scene]);
+  useLayoutEffect(() => attachGarment(avatar, garment, category), [avatar, garment, category]);
+  return null;
+}
 
-export default function ThreeDViewer({ url, clothingImageUrl, clothingPosition = [0, 1, 0], clothingScale = [1, 1, 1] }: { url: string, clothingImageUrl?: string, clothingPosition?: [number, number, number], clothingScale?: [number, number, number] }) {
-  // State for clothing and animation selection
-  const [selectedClothing, setSelectedClothing] = useState(clothingOptions[0].url);
-  const [selectedAnimation, setSelectedAnimation] = useState(animationOptions[0].value);
+const xrStore = createXRStore();
 
-  // Interactive state for overlay position/scale
-  const [overlayPos, setOverlayPos] = useState<[number, number, number]>(clothingPosition);
-  const [overlayScale, setOverlayScale] = useState<[number, number, number]>(clothingScale);
+export default function ThreeDViewer({ url, garments }: { url: string, garments?: ViewerGarment[] }) {
+  // Clips of the loaded model, and the one playing
+  const [clips, setClips] = useState<string[]>([]);
+  const [selectedAnimation, setSelectedAnimation] = useState<string>('');
 
-  // If a url is passed from parent, use it as the default clothing
-  useEffect(() => {
-    if (url) {
-        setSelectedClothing(url);
-    }
-  }, [url]);
-
-  // Sync prop changes
-  useEffect(() => {
-    setOverlayPos(clothingPosition);
-  }, [clothingPosition]);
-  useEffect(() => {
-    setOverlayScale(clothingScale);
-  }, [clothingScale]);
+  // A newly loaded model keeps the playing clip if it has one by that name,
+  // otherwise starts on its Idle clip, or its first
+  const handleClips = useCallback((names: string[]) => {
+    setClips(names);
+    setSelectedAnimation(current => (names.includes(current) ? current : names.includes('Idle') ? 'Idle' : names[0] ?? ''));
+  }, []);
 
   return (
     <div style={{ width: '100%', height: 540, borderRadius: 12, overflow: 'hidden', background: '#f3f3f3' }}>
-      <div style={{ display: 'flex', gap: 12, marginBottom: 8, alignItems: 'center', justifyContent: 'center' }}>
-        <label className="text-sm font-medium">Clothing:</label>
-        <select
-          value={selectedClothing}
-          onChange={e => setSelectedClothing(e.target.value)}
-          className="border rounded px-2 py-1 text-sm"
-          aria-label="Select clothing model"
-          // disabled={!!url} // Optional: disable if a generated URL is present
-        >
-          {/* Include the current 'url' prop in the options if it's different from defaults */}
-          {url && !clothingOptions.find(opt => opt.url === url) && (
-              <option key={url} value={url}>Generated Model</option>
-          )}
-          {clothingOptions.map(opt => (
-            <option key={opt.url} value={opt.url}>{opt.name}</option>
-          ))}
-        </select>
-        <label className="text-sm font-medium ml-4">Animation:</label>
-        <select
-          value={selectedAnimation}
-          onChange={e => setSelectedAnimation(e.target.value)}
-          className="border rounded px-2 py-1 text-sm"
-          aria-label="Select animation"
-        >
-          {animationOptions.map(opt => (
-            <option key={opt.value} value={opt.value}>{opt.name}</option>
-          ))}
-        </select>
-      </div>
+      {clips.length > 0 && (
+        <div style={{ display: 'flex', gap: 12, marginBottom: 8, alignItems: 'center', justifyContent: 'center' }}>
+          <label className="text-sm font-medium">Animation:</label>
+          <select
+            value={selectedAnimation}
+            onChange={e => setSelectedAnimation(e.target.value)}
+            className="border rounded px-2 py-1 text-sm"
+            aria-label="Select animation"
+          >
+            <option value="">None</option>
+            {clips.map(name => (
+              <option key={name} value={name}>{name}</option>
+            ))}
+          </select>
+        </div>
+      )}
       <XR store={xrStore}>
         <Canvas camera={{ position: [0, 1, 2.5], fov: 45 }} shadows>
           <ambientLight intensity={0.7} />
-          {selectedClothing && typeof selectedClothing === 'string' && selectedClothing.trim() !== '' ? (
+          {url && url.trim() !== '' ? (
             <>
               <directionalLight position={[2, 5, 2]} intensity={1.2} castShadow />
               <Environment preset="city" />
               <ErrorBoundary>
                 <Suspense fallback={null}>
-                  <Model url={selectedClothing} animationName={selectedAnimation} />
-                  {/* Overlay clothing image as billboard if provided */}
-                  {clothingImageUrl && (
-                    <ClothingBillboard imageUrl={clothingImageUrl} position={overlayPos} scale={overlayScale} />
-                  )}
+                  <Model url={url} animationName={selectedAnimation || undefined} onClips={handleClips} garments={garments} />
                 </Suspense>
               </ErrorBoundary>
               <OrbitControls enablePan enableZoom enableRotate />
@@ -166,52 +148,6 @@ export default function ThreeDViewer({ url, clothingImageUrl, clothingPosition =
           <VRButton store={xrStore} />
         </div>
       </XR>
-      {/* Interactive controls for overlay position/scale */}
-      {clothingImageUrl && (
-        <div style={{ marginTop: 16, background: '#fff', borderRadius: 8, padding: 12, boxShadow: '0 1px 4px #0001', maxWidth: 600, marginLeft: 'auto', marginRight: 'auto' }}>
-          <div style={{ fontWeight: 500, marginBottom: 8 }}>Adjust Clothing Overlay</div>
-          <div style={{ display: 'flex', flexWrap: 'wrap', gap: 12 }}>
-            {/* Position sliders */}
-            {['X', 'Y', 'Z'].map((axis, i) => (
-              <div key={axis} style={{ flex: 1, minWidth: 100 }}>
-                <label style={{ fontSize: 12 }}>Position {axis}: {overlayPos[i].toFixed(2)}</label>
-                <input
-                  type="range"
-                  min={-2}
-                  max={2}
-                  step={0.01}
-                  value={overlayPos[i]}
-                  onChange={e => {
-                    const newPos = [...overlayPos] as [number, number, number];
-                    newPos[i] = parseFloat(e.target.value);
-                    setOverlayPos(newPos);
-                  }}
-                  style={{ width: '100%' }}
-                />
-              </div>
-            ))}
-            {/* Scale sliders */}
-            {['X', 'Y', 'Z'].map((axis, i) => (
-              <div key={axis + 's'} style={{ flex: 1, minWidth: 100 }}>
-                <label style={{ fontSize: 12 }}>Scale {axis}: {overlayScale[i].toFixed(2)}</label>
-                <input
-                  type="range"
-                  min={0.1}
-                  max={3}
-                  step={0.01}
-                  value={overlayScale[i]}
-                  onChange={e => {
-                    const newScale = [...overlayScale] as [number, number, number];
-                    newScale[i] = parseFloat(e.target.value);
-                    setOverlayScale(newScale);
-                  }}
-                  style={{ width: '100%' }}
-                />
-              </div>
-            ))}
-          </div>
-        </div>
-      )}
     </div>
   );
 }
@@ -0,0 +1,146 @@
+"use client";
+import { useCallback, useEffect, useState } from "react";
+import type { AccountProfile, LocalData, PublicUser, SavedMeasurements } from "@/lib/auth/types";
+
+// Browser storage used while signed out; merged into the account on sign-in
+export const LOCAL_MEASUREMENTS_KEY = "measurements";
+export const SESSION_AVATAR_KEY = "avatarModelUrl";
+
+export type ProfilePatch = {
+  avatarModelUrl?: string | null;
+  measurements?: SavedMeasurements | null;
+  emailAlerts?: boolean;
+};
+
+type AccountState = { user: PublicUser; profile: AccountProfile };
+
+async function accountRequest<T>(url: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(url, {
+    ...init,
+    headers: init?.body ? { "Content-Type": "application/json" } : undefined,
+  });
+  const data = await res.json();
+  if (!res.ok) throw new Error(data?.details?.join(". ") || data?.error || "Account request failed.");
+  return data as T;
+}
+
+function readLocalData(): LocalData {
+  const data: LocalData = {};
+  try {
+    const measurements = localStorage.getItem(LOCAL_MEASUREMENTS_KEY);
+    if (measurements) data.measurements = JSON.parse(measurements);
+  } catch {
+    // Unreadable leftovers are not worth failing sign-in over
+  }
+  const avatarModelUrl = sessionStorage.getItem(SESSION_AVATAR_KEY);
+  if (avatarModelUrl) data.avatarModelUrl = avatarModelUrl;
+  return data;
+}
+
+function clearLocalData() {
+  localStorage.removeItem(LOCAL_MEASUREMENTS_KEY);
+  sessionStorage.removeItem(SESSION_AVATAR_KEY);
+}
+
+// The signed-in account (/api/account), or null when signed out. Whenever a
+// user is found, anything this browser saved while signed out is merged into
+// the account once and then removed locally.
+export function useAccount() {
+  const [account, setAccount] = useState<AccountState | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [pending, setPending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      const { user } = await accountRequest<{ user: PublicUser | null }>("/api/auth/session");
+      if (!user) {
+        setAccount(null);
+        return;
+      }
+      const local = readLocalData();
+      if (Object.keys(local).length) {
+        await accountRequest("/api/account/merge", { method: "POST", body: JSON.stringify(local) });
+        clearLocalData();
+      }
+      setAccount(await accountRequest<AccountState>("/api/account"));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load your account.");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const submit = useCallback(async (url: string, body?: unknown): Promise<boolean> => {
+    setPending(true);
+    try {
+      await accountRequest(url, { method: "POST", ...(body ? { body: JSON.stringify(body) } : {}) });
+      setError(null);
+      await refresh();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Account request failed.");
+      return false;
+    } finally {
+      setPending(false);
+    }
+  }, [refresh]);
+
+  const signIn = useCallback(
+    (email: string, password: string) => submit("/api/auth/login", { email, password }),
+    [submit],
+  );
+  const register = useCallback(
+    (email: string, password: string) => submit("/api/auth/register", { email, password }),
+    [submit],
+  );
+  const signOut = useCallback(() => submit("/api/auth/logout"), [submit]);
+  // For accounts that so far only signed in with email links
+  const addPassword = useCallback((password: string) => submit("/api/account/password", { password }), [submit]);
+
+  // Resolves true once the email has been handed to the mail service
+  const requestLoginLink = useCallback(async (email: string): Promise<boolean> => {
+    setPending(true);
+    try {
+      await accountRequest("/api/auth/magic-link", { method: "POST", body: JSON.stringify({ email }) });
+      setError(null);
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not send the sign-in link.");
+      return false;
+    } finally {
+      setPending(false);
+    }
+  }, []);
+
+  const updateProfile = useCallback(async (patch: ProfilePatch): Promise<boolean> => {
+    try {
+      setAccount(await accountRequest<AccountState>("/api/account", { method: "PATCH", body: JSON.stringify(patch) }));
+      setError(null);
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not save to your account.");
+      return false;
+    }
+  }, []);
+
+  return {
+    user: account?.user ?? null,
+    profile: account?.profile ?? null,
+    loading,
+    pending,
+    error,
+    refresh,
+    signIn,
+    register,
+    signOut,
+    addPassword,
+    requestLoginLink,
+    updateProfile,
+  };
+}
@@ -0,0 +1,93 @@
+"use client";
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { JobViews, PublicJob } from "@/lib/jobs/types";
+
+// The job being watched, so a reload picks it back up
+const ACTIVE_JOB_KEY = "avatarJobId";
+
+// `view` names the photo of a multi-view set that was turned down
+type JobResponse = { job?: PublicJob; error?: string; suggestion?: string; view?: string };
+
+function jobErrorMessage(data: JobResponse | null, fallback: string): string {
+  const message = [data?.error || fallback, data?.suggestion].filter(Boolean).join(" ");
+  return data?.view ? `Your ${data.view} photo: ${message}` : message;
+}
+
+// Avatar generation as a server-side job (/api/jobs), started by adding an
+// avatar to the library (/api/avatars). Progress arrives over server-sent
+// events; `onModelReady` is called with the model URL once the job succeeds,
+// including for a job that finished while the page was closed.
+export function useAvatarJob(onModelReady: (modelUrl: string) => void) {
+  const [job, setJob] = useState<PublicJob | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [starting, setStarting] = useState(false);
+  const source = useRef<EventSource | null>(null);
+  const onModelReadyRef = useRef(onModelReady);
+  onModelReadyRef.current = onModelReady;
+
+  const watch = useCallback((id: string) => {
+    source.current?.close();
+    localStorage.setItem(ACTIVE_JOB_KEY, id);
+    const events = new EventSource(`/api/jobs/${encodeURIComponent(id)}/events`);
+    source.current = events;
+    events.addEventListener("job", e => {
+      const current = JSON.parse((e as MessageEvent<string>).data) as PublicJob;
+      setJob(current);
+      if (current.status === "queued" || current.status === "running") return;
+      // Finished: stop EventSource from reconnecting when the server closes
+      events.close();
+      localStorage.removeItem(ACTIVE_JOB_KEY);
+      if (current.status === "succeeded" && current.modelUrl) onModelReadyRef.current(current.modelUrl);
+      if (current.error) setError([current.error.message, current.error.suggestion].filter(Boolean).join(" "));
+    });
+    events.onerror = () => {
+      // The job is gone (e.g. after signing out); EventSource retries anything else
+      if (events.readyState === EventSource.CLOSED) localStorage.removeItem(ACTIVE_JOB_KEY);
+    };
+  }, []);
+
+  useEffect(() => {
+    const saved = localStorage.getItem(ACTIVE_JOB_KEY);
+    if (saved) watch(saved);
+    return () => source.current?.close();
+  }, [watch]);
+
+  // Queues a new avatar from a photo already stored by /api/upload, plus
+  // side and back photos for a multi-view one
+  const start = useCallback(async (uploadKey: string, views: JobViews = {}): Promise<boolean> => {
+    setStarting(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/avatars", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ uploadKey, ...(Object.keys(views).length ? { views } : {}) }),
+      });
+      const data: JobResponse | null = await res.json().catch(() => null);
+      // 409: one is already running for this shopper, follow that one instead
+      if (data?.job && (res.ok || res.status === 409)) {
+        setJob(data.job);
+        watch(data.job.id);
+        return res.ok;
+      }
+      setError(jobErrorMessage(data, "Could not start avatar generation."));
+      return false;
+    } catch {
+      setError("Could not start avatar generation.");
+      return false;
+    } finally {
+      setStarting(false);
+    }
+  }, [watch]);
+
+  const cancel = useCallback(async () => {
+    if (!job) return;
+    const res = await fetch(`/api/jobs/${encodeURIComponent(job.id)}`, { method: "DELETE" });
+    const data: JobResponse | null = await res.json().catch(() => null);
+    if (data?.job) setJob(data.job);
+    if (!res.ok) setError(jobErrorMessage(data, "Could not cancel avatar generation."));
+  }, [job]);
+
+  const active = starting || job?.status === "queued" || job?.status === "running";
+  return { job, active, progress: job?.progress ?? 0, error, start, cancel };
+}
@@ -0,0 +1,71 @@
+"use client";
+import { useCallback, useEffect, useState } from "react";
+import type { PublicAvatar } from "@/lib/avatars/types";
+
+async function avatarRequest<T>(url: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(url, {
+    ...init,
+    headers: init?.body ? { "Content-Type": "application/json" } : undefined,
+  });
+  const data = await res.json();
+  if (!res.ok) throw new Error(data?.error || "Avatar request failed.");
+  return data as T;
+}
+
+// The shopper's avatar library (/api/avatars). New avatars are generated
+// through useAvatarJob; call `refresh` once its job finishes. Mutations
+// resolve to false with `error` set when they fail. `userId` re-fetches after
+// signing in or out.
+export function useAvatars(userId?: string) {
+  const [avatars, setAvatars] = useState<PublicAvatar[] | null>(null);
+  const [pending, setPending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setAvatars((await avatarRequest<{ avatars: PublicAvatar[] }>("/api/avatars")).avatars);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load your avatars.");
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh, userId]);
+
+  const mutate = useCallback(async (url: string, init: RequestInit): Promise<boolean> => {
+    setPending(true);
+    try {
+      await avatarRequest(url, init);
+      setError(null);
+      await refresh();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Avatar request failed.");
+      return false;
+    } finally {
+      setPending(false);
+    }
+  }, [refresh]);
+
+  const avatarUrl = (id: string) => `/api/avatars/${encodeURIComponent(id)}`;
+
+  const rename = useCallback(
+    (id: string, name: string) => mutate(avatarUrl(id), { method: "PATCH", body: JSON.stringify({ name }) }),
+    [mutate],
+  );
+  const setActive = useCallback(
+    (id: string) => mutate(avatarUrl(id), { method: "PATCH", body: JSON.stringify({ active: true }) }),
+    [mutate],
+  );
+  const remove = useCallback((id: string) => mutate(avatarUrl(id), { method: "DELETE" }), [mutate]);
+  // Adds an already generated model, e.g. one saved before the library existed
+  const importModel = useCallback(
+    (modelUrl: string, name?: string) => mutate("/api/avatars", { method: "POST", body: JSON.stringify({ modelUrl, name }) }),
+    [mutate],
+  );
+
+  const active = avatars?.find(avatar => avatar.active) ?? null;
+  return { avatars, active, pending, error, refresh, rename, setActive, remove, importModel };
+}
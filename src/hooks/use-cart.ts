@@ -0,0 +1,69 @@
+"use client";
+import { useCallback, useEffect, useState } from "react";
+import type { PricedCart } from "@/lib/cart/types";
+
+async function cartRequest(url: string, init?: RequestInit): Promise<PricedCart> {
+  const res = await fetch(url, {
+    ...init,
+    headers: init?.body ? { "Content-Type": "application/json" } : undefined,
+  });
+  const data = await res.json();
+  if (!res.ok) throw new Error(data?.error || "Cart request failed.");
+  return (data as { cart: PricedCart }).cart;
+}
+
+// The session's server-side cart (/api/cart). Every mutation returns the
+// re-priced cart, which replaces local state.
+export function useCart() {
+  const [cart, setCart] = useState<PricedCart | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [pending, setPending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setCart(await cartRequest("/api/cart"));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load cart.");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const mutate = useCallback(async (url: string, init: RequestInit): Promise<boolean> => {
+    setPending(true);
+    try {
+      setCart(await cartRequest(url, init));
+      setError(null);
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Cart request failed.");
+      return false;
+    } finally {
+      setPending(false);
+    }
+  }, []);
+
+  const addItem = useCallback(
+    (sku: string, quantity = 1, tryOnImage?: string) =>
+      mutate("/api/cart", { method: "POST", body: JSON.stringify({ sku, quantity, tryOnImage }) }),
+    [mutate],
+  );
+  const updateQuantity = useCallback(
+    (sku: string, quantity: number) =>
+      mutate(`/api/cart/${encodeURIComponent(sku)}`, { method: "PATCH", body: JSON.stringify({ quantity }) }),
+    [mutate],
+  );
+  const removeItem = useCallback(
+    (sku: string) => mutate(`/api/cart/${encodeURIComponent(sku)}`, { method: "DELETE" }),
+    [mutate],
+  );
+  const clear = useCallback(() => mutate("/api/cart", { method: "DELETE" }), [mutate]);
+
+  return { cart, loading, pending, error, refresh, addItem, updateQuantity, removeItem, clear };
+}
@@ -0,0 +1,81 @@
+"use client";
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { CatalogFacets, CatalogSort } from "@/lib/catalog/query";
+import type { Product } from "@/lib/catalog/types";
+
+export type CatalogFilters = {
+  q?: string;
+  category?: string;
+  size?: string;
+  color?: string;
+  // Minor units (cents)
+  minPrice?: number;
+  maxPrice?: number;
+  sort?: CatalogSort;
+};
+
+type CatalogResponse = {
+  products: Product[];
+  total: number;
+  nextCursor: string | null;
+  facets: CatalogFacets;
+};
+
+function toParams(filters: CatalogFilters, limit: number, cursor?: string) {
+  const params = new URLSearchParams({ limit: String(limit) });
+  for (const [key, value] of Object.entries(filters)) {
+    if (value !== undefined && value !== "") params.set(key, String(value));
+  }
+  if (cursor) params.set("cursor", cursor);
+  return params;
+}
+
+// Paged access to /api/products. Changing the filters starts over from the
+// first page; loadMore appends the next one.
+export function useCatalog(filters: CatalogFilters, pageSize = 8) {
+  const [products, setProducts] = useState<Product[]>([]);
+  const [facets, setFacets] = useState<CatalogFacets | null>(null);
+  const [total, setTotal] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Responses for superseded filters are dropped
+  const generation = useRef(0);
+  const filterKey = JSON.stringify(filters);
+
+  const loadPage = useCallback(async (cursor?: string) => {
+    const current = generation.current;
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/products?${toParams(JSON.parse(filterKey), pageSize, cursor)}`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data?.error || "Failed to load products.");
+      if (current !== generation.current) return;
+      const page = data as CatalogResponse;
+      setProducts(prev => (cursor ? [...prev, ...page.products] : page.products));
+      setTotal(page.total);
+      setFacets(page.facets);
+      setNextCursor(page.nextCursor);
+      setError(null);
+    } catch (err) {
+      if (current === generation.current) {
+        setError(err instanceof Error ? err.message : "Failed to load products.");
+      }
+    } finally {
+      if (current === generation.current) setLoading(false);
+    }
+  }, [filterKey, pageSize]);
+
+  useEffect(() => {
+    generation.current++;
+    setProducts([]);
+    setNextCursor(null);
+    loadPage();
+  }, [loadPage]);
+
+  const loadMore = useCallback(() => {
+    if (nextCursor && !loading) loadPage(nextCursor);
+  }, [nextCursor, loading, loadPage]);
+
+  return { products, facets, total, loading, error, hasMore: nextCursor !== null, loadMore };
+}
@@ -0,0 +1,72 @@
+"use client";
+import { useCallback, useEffect, useState } from "react";
+import type { Product } from "@/lib/catalog/types";
+import type { ResolvedWishlist } from "@/lib/wishlists/types";
+
+// Where favorites used to live as full product snapshots
+const LEGACY_FAVORITES_KEY = "favorites";
+
+async function favoritesRequest(url: string, init?: RequestInit): Promise<ResolvedWishlist> {
+  const res = await fetch(url, {
+    ...init,
+    headers: init?.body ? { "Content-Type": "application/json" } : undefined,
+  });
+  const data = await res.json();
+  if (!res.ok) throw new Error(data?.error || "Favorites request failed.");
+  return (data as { wishlist: ResolvedWishlist }).wishlist;
+}
+
+// Product ids from snapshots saved by older versions of the page
+function legacyFavoriteIds(): string[] {
+  try {
+    const saved = JSON.parse(localStorage.getItem(LEGACY_FAVORITES_KEY) || "[]") as { id?: unknown }[];
+    return saved.map(f => f?.id).filter((id): id is string => typeof id === "string");
+  } catch {
+    return [];
+  }
+}
+
+// The shopper's favorites (/api/favorites), stored as product ids on the
+// server and resolved against the live catalog. `userId` re-fetches after
+// signing in or out, when the favorites change owner.
+export function useFavorites(userId?: string) {
+  const [favorites, setFavorites] = useState<Product[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      const legacy = legacyFavoriteIds();
+      if (legacy.length) {
+        // One at a time: ids no longer in the catalog are skipped, and the
+        // first request may be the one that starts the session
+        for (const productId of legacy) {
+          await favoritesRequest("/api/favorites", { method: "POST", body: JSON.stringify({ productId }) }).catch(() => undefined);
+        }
+        localStorage.removeItem(LEGACY_FAVORITES_KEY);
+      }
+      setFavorites((await favoritesRequest("/api/favorites")).products);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load favorites.");
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh, userId]);
+
+  const mutate = useCallback(async (url: string, init: RequestInit) => {
+    try {
+      setFavorites((await favoritesRequest(url, init)).products);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Favorites request failed.");
+    }
+  }, []);
+
+  const addFavorite = (item: Product) =>
+    mutate("/api/favorites", { method: "POST", body: JSON.stringify({ productId: item.id }) });
+  const removeFavorite = (id: string) => mutate(`/api/favorites/${encodeURIComponent(id)}`, { method: "DELETE" });
+  const isFavorite = (id: string) => favorites.some(f => f.id === id);
+  return { favorites, error, refresh, addFavorite, removeFavorite, isFavorite };
+}
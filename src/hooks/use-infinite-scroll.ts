@@ -0,0 +1,24 @@
+"use client";
+import { useEffect, useRef } from "react";
+
+// Calls onReach whenever the returned sentinel element scrolls into view
+export function useInfiniteScroll<T extends Element>(onReach: () => void, enabled: boolean) {
+  const sentinelRef = useRef<T>(null);
+  const callback = useRef(onReach);
+  callback.current = onReach;
+
+  useEffect(() => {
+    const node = sentinelRef.current;
+    if (!node || !enabled) return;
+    const observer = new IntersectionObserver(
+      entries => {
+        if (entries.some(entry => entry.isIntersecting)) callback.current();
+      },
+      { rootMargin: "200px" }
+    );
+    observer.observe(node);
+    return () => observer.disconnect();
+  }, [enabled]);
+
+  return sentinelRef;
+}
@@ -0,0 +1,40 @@
+"use client";
+import { useCallback, useEffect, useState } from "react";
+import type { PublicNotification } from "@/lib/notifications/types";
+
+type NotificationsResponse = { notifications: PublicNotification[]; unreadCount: number };
+
+// Alerts aren't urgent; a slow poll keeps the header badge roughly current
+const POLL_INTERVAL_MS = 60_000;
+
+// The shopper's notification center (/api/notifications). `userId`
+// re-fetches after signing in or out.
+export function useNotifications(userId?: string) {
+  const [notifications, setNotifications] = useState<PublicNotification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+
+  const refresh = useCallback(async () => {
+    try {
+      const res = await fetch("/api/notifications");
+      if (!res.ok) return;
+      const data: NotificationsResponse = await res.json();
+      setNotifications(data.notifications);
+      setUnreadCount(data.unreadCount);
+    } catch {
+      // Keep showing what we have; the next poll will try again
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    const timer = setInterval(refresh, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [refresh, userId]);
+
+  const markAllRead = useCallback(async () => {
+    await fetch("/api/notifications/read", { method: "POST" });
+    await refresh();
+  }, [refresh]);
+
+  return { notifications, unreadCount, refresh, markAllRead };
+}
@@ -0,0 +1,80 @@
+"use client";
+import { useCallback, useEffect, useState } from "react";
+import type { WishlistSummary } from "@/lib/wishlists/types";
+
+async function wishlistRequest<T>(url: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(url, {
+    ...init,
+    headers: init?.body ? { "Content-Type": "application/json" } : undefined,
+  });
+  const data = await res.json();
+  if (!res.ok) throw new Error(data?.error || "Wishlist request failed.");
+  return data as T;
+}
+
+// The shopper's wishlists (/api/wishlists). Mutations re-fetch the list of
+// summaries and resolve to false with `error` set when they fail. `userId`
+// re-fetches after signing in or out.
+export function useWishlists(userId?: string) {
+  const [wishlists, setWishlists] = useState<WishlistSummary[] | null>(null);
+  const [pending, setPending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setWishlists((await wishlistRequest<{ wishlists: WishlistSummary[] }>("/api/wishlists")).wishlists);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load wishlists.");
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh, userId]);
+
+  const mutate = useCallback(async <T,>(url: string, init: RequestInit): Promise<T | null> => {
+    setPending(true);
+    try {
+      const data = await wishlistRequest<T>(url, init);
+      setError(null);
+      await refresh();
+      return data;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Wishlist request failed.");
+      return null;
+    } finally {
+      setPending(false);
+    }
+  }, [refresh]);
+
+  const listUrl = (id: string) => `/api/wishlists/${encodeURIComponent(id)}`;
+
+  const create = useCallback(
+    async (name: string) => !!(await mutate("/api/wishlists", { method: "POST", body: JSON.stringify({ name }) })),
+    [mutate],
+  );
+  const rename = useCallback(
+    async (id: string, name: string) => !!(await mutate(listUrl(id), { method: "PATCH", body: JSON.stringify({ name }) })),
+    [mutate],
+  );
+  const remove = useCallback(async (id: string) => !!(await mutate(listUrl(id), { method: "DELETE" })), [mutate]);
+  const addItem = useCallback(
+    async (id: string, productId: string) =>
+      !!(await mutate(`${listUrl(id)}/items`, { method: "POST", body: JSON.stringify({ productId }) })),
+    [mutate],
+  );
+  const removeItem = useCallback(
+    async (id: string, productId: string) =>
+      !!(await mutate(`${listUrl(id)}/items/${encodeURIComponent(productId)}`, { method: "DELETE" })),
+    [mutate],
+  );
+  // Resolves to the public link, or null when sharing was turned off or failed
+  const setShared = useCallback(
+    async (id: string, shared: boolean) =>
+      (await mutate<{ shareUrl: string | null }>(`${listUrl(id)}/share`, { method: shared ? "POST" : "DELETE" }))?.shareUrl ?? null,
+    [mutate],
+  );
+
+  return { wishlists, pending, error, refresh, create, rename, remove, addItem, removeItem, setShared };
+}
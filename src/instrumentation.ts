@@ -0,0 +1,8 @@
+// Runs once when the server starts
+export async function register() {
+  // Resume avatar generation jobs left running by the previous server
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { startJobWorker } = await import('@/lib/jobs');
+    startJobWorker();
+  }
+}
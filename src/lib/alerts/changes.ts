@@ -0,0 +1,28 @@
+import { variantPrice } from '@/lib/catalog';
+import type { Money, Product } from '@/lib/catalog/types';
+import type { FavoriteChange, FavoriteSnapshot } from './types';
+
+export function lowestPrice(product: Product): Money {
+  const prices = product.variants.map(variant => variantPrice(product, variant)).filter(p => p.currency === product.price.currency);
+  return prices.reduce((low, price) => (price.amount < low.amount ? price : low), product.price);
+}
+
+export function inStockSkus(product: Product): string[] {
+  return product.variants.filter(variant => variant.stock > 0).map(variant => variant.sku);
+}
+
+// Compares the live product with its snapshot. A price change in another
+// currency is not comparable and is ignored.
+export function detectChanges(snapshot: FavoriteSnapshot, product: Product): FavoriteChange[] {
+  const changes: FavoriteChange[] = [];
+  const price = lowestPrice(product);
+  if (price.currency === snapshot.lowestPrice.currency && price.amount < snapshot.lowestPrice.amount) {
+    changes.push({ type: 'price_drop', from: snapshot.lowestPrice, to: price });
+  }
+  const wasInStock = new Set(snapshot.inStockSkus);
+  const restocked = product.variants.filter(variant => variant.stock > 0 && !wasInStock.has(variant.sku));
+  if (restocked.length) {
+    changes.push({ type: 'back_in_stock', variants: restocked.map(({ sku, size, color }) => ({ sku, size, color })) });
+  }
+  return changes;
+}
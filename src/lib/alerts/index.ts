@@ -0,0 +1,159 @@
+import { getProfile } from '@/lib/auth/profile';
+import { getUser } from '@/lib/auth/users';
+import { formatMoney, getProduct } from '@/lib/catalog';
+import type { Product } from '@/lib/catalog/types';
+import { getMailTransport, MailError } from '@/lib/mail';
+import { createNotification, type Notification } from '@/lib/notifications';
+import { userIdFromKey } from '@/lib/session';
+import { collection } from '@/lib/store';
+import { listAllFavorites, type WishlistMerge } from '@/lib/wishlists';
+import { detectChanges, inStockSkus, lowestPrice } from './changes';
+import type { AlertRunResult, FavoriteChange, FavoriteSnapshot } from './types';
+
+export { detectChanges } from './changes';
+export * from './types';
+
+// Keyed by "<wishlistId>:<productId>"
+const snapshots = collection<FavoriteSnapshot>('favorite-snapshots');
+
+function snapshotKey(wishlistId: string, productId: string): string {
+  return `${wishlistId}:${productId}`;
+}
+
+function takeSnapshot(wishlistId: string, product: Product): FavoriteSnapshot {
+  const now = new Date().toISOString();
+  return {
+    wishlistId,
+    productId: product.id,
+    lowestPrice: lowestPrice(product),
+    inStockSkus: inStockSkus(product),
+    takenAt: now,
+    checkedAt: now,
+  };
+}
+
+// Records what newly favorited products look like, as the baseline for
+// alerts. Products that already have a snapshot keep it.
+export async function snapshotFavorites(wishlistId: string, productIds: string[]): Promise<void> {
+  for (const productId of productIds) {
+    const product = await getProduct(productId);
+    if (!product) continue;
+    await snapshots.update(snapshotKey(wishlistId, productId), current => current ?? takeSnapshot(wishlistId, product));
+  }
+}
+
+// Re-keys the snapshots of lists folded into another at sign-in, so products
+// favorited before signing in keep their baseline. Where the target list
+// already watches a product, its own snapshot wins.
+export async function moveSnapshots(merges: WishlistMerge[]): Promise<void> {
+  if (!merges.length) return;
+  const targets = new Map(merges.map(({ fromId, toId }) => [fromId, toId]));
+  await snapshots.transact(data => {
+    for (const [key, snapshot] of Object.entries(data)) {
+      const toId = targets.get(snapshot.wishlistId);
+      if (!toId) continue;
+      delete data[key];
+      data[snapshotKey(toId, snapshot.productId)] ??= { ...snapshot, wishlistId: toId };
+    }
+  });
+}
+
+function describe(product: Product, change: FavoriteChange): Pick<Notification, 'kind' | 'title' | 'body'> {
+  if (change.type === 'price_drop') {
+    return {
+      kind: 'price_drop',
+      title: `${product.title} is now ${formatMoney(change.to)}`,
+      body: `Down from ${formatMoney(change.from)} since you saved it.`,
+    };
+  }
+  const sizes = change.variants.map(v => `${v.color} ${v.size}`).join(', ');
+  return {
+    kind: 'back_in_stock',
+    title: `${product.title} is back in stock`,
+    body: `Available again: ${sizes}.`,
+  };
+}
+
+// One email per shopper per run, listing everything that changed
+async function emailAlerts(ownerKey: string, alerts: Notification[], origin: string): Promise<boolean | undefined> {
+  const userId = userIdFromKey(ownerKey);
+  const user = userId && await getUser(userId);
+  if (!user || (await getProfile(user.id)).emailAlerts === false) return undefined;
+  const lines = alerts.map(alert => `- ${alert.title}. ${alert.body}\n  ${origin}${alert.url ?? '/'}`);
+  try {
+    await getMailTransport().send({
+      to: user.email,
+      subject: alerts.length === 1 ? alerts[0].title : `${alerts.length} updates on your favorites`,
+      text: `Good news about items you saved on VirtuFit:\n\n${lines.join('\n')}\n\nTo stop these emails, turn off alerts on ${origin}/account.`,
+    });
+    return true;
+  } catch (error) {
+    if (!(error instanceof MailError)) throw error;
+    console.error(`Alerts: ${error.transport} mail error for ${user.id}:`, error);
+    return false;
+  }
+}
+
+// Compares every favorited product with its snapshot and notifies the owner
+// of price drops and restocked sizes. Snapshots then move forward: the price
+// baseline only goes down, stock always reflects this run, so each change
+// alerts once. `origin` is the site origin for links in emails.
+export async function runFavoriteAlerts(origin: string): Promise<AlertRunResult> {
+  const result: AlertRunResult = { checked: 0, notifications: 0, emailsSent: 0, emailsFailed: 0 };
+  const startedAt = new Date().toISOString();
+  const byOwner = new Map<string, Notification[]>();
+
+  for (const list of await listAllFavorites()) {
+    for (const productId of list.productIds) {
+      const key = snapshotKey(list.id, productId);
+      const product = await getProduct(productId);
+      if (!product) continue;
+      result.checked++;
+      const snapshot = await snapshots.get(key);
+      if (!snapshot) {
+        await snapshots.put(key, takeSnapshot(list.id, product));
+        continue;
+      }
+
+      const changes = detectChanges(snapshot, product);
+      const price = lowestPrice(product);
+      await snapshots.put(key, {
+        ...snapshot,
+        lowestPrice: changes.some(c => c.type === 'price_drop') ? price : snapshot.lowestPrice,
+        inStockSkus: inStockSkus(product),
+        checkedAt: new Date().toISOString(),
+      });
+      for (const change of changes) {
+        const notification = await createNotification({
+          ownerKey: list.ownerKey,
+          ...describe(product, change),
+          url: '/wishlists',
+          ...(product.images[0] ? { image: product.images[0].url } : {}),
+          productId: product.id,
+        });
+        byOwner.set(list.ownerKey, [...(byOwner.get(list.ownerKey) ?? []), notification]);
+        result.notifications++;
+      }
+    }
+  }
+
+  // Unfavorited products and deleted lists. Favorites are read again, since
+  // shoppers may have saved products or signed in while the run was going,
+  // and snapshots taken since the run started are left for the next one.
+  const watched = new Set<string>();
+  for (const list of await listAllFavorites()) {
+    for (const productId of list.productIds) watched.add(snapshotKey(list.id, productId));
+  }
+  await snapshots.transact(data => {
+    for (const [key, snapshot] of Object.entries(data)) {
+      if (!watched.has(key) && snapshot.takenAt < startedAt) delete data[key];
+    }
+  });
+
+  for (const [ownerKey, alerts] of byOwner) {
+    const sent = await emailAlerts(ownerKey, alerts, origin);
+    if (sent === true) result.emailsSent++;
+    else if (sent === false) result.emailsFailed++;
+  }
+  return result;
+}
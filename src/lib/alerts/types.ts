@@ -0,0 +1,24 @@
+import type { Money } from '@/lib/catalog/types';
+
+// What a favorited product looked like when it was favorited, moved forward
+// as alerts are sent
+export type FavoriteSnapshot = {
+  wishlistId: string;
+  productId: string;
+  // Lowest variant price; only ever lowered, so the same drop alerts once
+  lowestPrice: Money;
+  inStockSkus: string[];
+  takenAt: string;
+  checkedAt: string;
+};
+
+export type FavoriteChange =
+  | { type: 'price_drop'; from: Money; to: Money }
+  | { type: 'back_in_stock'; variants: { sku: string; size: string; color: string }[] };
+
+export type AlertRunResult = {
+  checked: number;
+  notifications: number;
+  emailsSent: number;
+  emailsFailed: number;
+};
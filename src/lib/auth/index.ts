@@ -0,0 +1,128 @@
+import { moveSnapshots } from '@/lib/alerts';
+import { claimAvatars } from '@/lib/avatars';
+import { mergeCarts } from '@/lib/cart';
+import { claimJobs } from '@/lib/jobs';
+import { getMailTransport } from '@/lib/mail';
+import { claimNotifications } from '@/lib/notifications';
+import { claimSessionOrders } from '@/lib/orders';
+import { getSessionId, shopperKey } from '@/lib/session';
+import { claimWishlists } from '@/lib/wishlists';
+import { consumeLoginLink, createLoginLink } from './login-links';
+import { burnPasswordCheck, hashPassword, verifyPassword } from './passwords';
+import { createAuthSession, destroyAuthSession, getAuthUserId } from './sessions';
+import type { User } from './types';
+import { createUser, findOrCreateUser, findUserByEmail, getUser, updateUser } from './users';
+
+export { AUTH_COOKIE } from './sessions';
+export { getProfile, mergeLocalData, updateProfile } from './profile';
+export { getUser, toPublicUser } from './users';
+export { parseCredentials, parseEmail, parseLocalData, parseNewPassword, parseProfilePatch } from './validation';
+export * from './types';
+
+export class AuthError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'AuthError';
+    this.status = status;
+  }
+}
+
+// Failed password attempts per email. In memory, like the rest of the
+// single-process state, and shared across route bundles via globalThis.
+const MAX_FAILED_LOGINS = 5;
+const FAILED_LOGIN_WINDOW_MS = 15 * 60 * 1000;
+
+const globalForAuth = globalThis as typeof globalThis & { __virtuFitFailedLogins?: Map<string, number[]> };
+const failedLogins = (globalForAuth.__virtuFitFailedLogins ??= new Map<string, number[]>());
+
+function recentFailures(email: string): number[] {
+  const since = Date.now() - FAILED_LOGIN_WINDOW_MS;
+  const attempts = (failedLogins.get(email) ?? []).filter(at => at > since);
+  if (attempts.length) failedLogins.set(email, attempts);
+  else failedLogins.delete(email);
+  return attempts;
+}
+
+export async function getCurrentUser(): Promise<User | undefined> {
+  const userId = await getAuthUserId();
+  return userId ? getUser(userId) : undefined;
+}
+
+// Starts a signed-in session and adopts what the shopper did anonymously in
+// this browser: the cart, wishlists (with their alert baselines), notifications
+// and avatar jobs join the account's, and past orders join the account's
+// order history
+export async function signIn(user: User): Promise<User> {
+  await createAuthSession(user.id);
+  const sessionId = await getSessionId();
+  if (sessionId) {
+    const accountKey = shopperKey({ userId: user.id })!;
+    await mergeCarts(sessionId, accountKey);
+    await moveSnapshots(await claimWishlists(sessionId, accountKey));
+    await claimNotifications(sessionId, accountKey);
+    await claimJobs(sessionId, accountKey);
+    await claimAvatars(sessionId, accountKey);
+    await claimSessionOrders(sessionId, user.id);
+  }
+  return (await updateUser(user.id, { lastLoginAt: new Date().toISOString() })) ?? user;
+}
+
+export async function signOut(): Promise<void> {
+  await destroyAuthSession();
+}
+
+// Creates a password account. Any existing account is refused, including
+// one that so far only signed in with email links: registering signs the
+// caller in, so it must never hand over someone else's account. The early
+// check only spares hashing; createUser has the final say.
+export async function register(email: string, password: string): Promise<User> {
+  const taken = () => new AuthError('An account with this email already exists', 409);
+  if (await findUserByEmail(email)) throw taken();
+  const user = await createUser(email, await hashPassword(password));
+  if (!user) throw taken();
+  return user;
+}
+
+// Lets a signed-in shopper who only used email links add a password.
+// Changing an existing password is not supported here.
+export async function addPassword(user: User, password: string): Promise<User> {
+  if (user.passwordHash) throw new AuthError('This account already has a password', 409);
+  return (await updateUser(user.id, { passwordHash: await hashPassword(password) }))!;
+}
+
+// Unknown emails and wrong passwords fail the same way, in about the same time
+export async function authenticate(email: string, password: string): Promise<User> {
+  if (recentFailures(email).length >= MAX_FAILED_LOGINS) {
+    throw new AuthError('Too many failed sign-in attempts. Try again later or use an email link.', 429);
+  }
+  const user = await findUserByEmail(email);
+  let valid = false;
+  if (user?.passwordHash) valid = await verifyPassword(password, user.passwordHash);
+  else await burnPasswordCheck(password);
+  if (!user || !valid) {
+    failedLogins.set(email, [...recentFailures(email), Date.now()]);
+    throw new AuthError('Incorrect email or password', 401);
+  }
+  failedLogins.delete(email);
+  return user;
+}
+
+// Emails a single-use sign-in link. Sent whether or not an account exists;
+// the account is created when the link is first used.
+export async function requestLoginLink(email: string, origin: string): Promise<void> {
+  const token = await createLoginLink(email);
+  const url = `${origin}/api/auth/magic-link/verify?token=${encodeURIComponent(token)}`;
+  await getMailTransport().send({
+    to: email,
+    subject: 'Your VirtuFit sign-in link',
+    text: `Sign in to VirtuFit:\n\n${url}\n\nThe link works once and expires in 15 minutes. If you did not ask for it, ignore this email.`,
+  });
+}
+
+export async function verifyLoginLink(token: string): Promise<User> {
+  const email = await consumeLoginLink(token);
+  if (!email) throw new AuthError('This sign-in link has expired or was already used', 410);
+  return findOrCreateUser(email);
+}
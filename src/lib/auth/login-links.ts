@@ -0,0 +1,32 @@
+import { collection } from '@/lib/store';
+import { createToken, hashToken } from './tokens';
+
+// Single-use magic-link tokens
+const LOGIN_LINK_MINUTES = 15;
+
+type LoginLink = {
+  email: string;
+  expiresAt: string;
+};
+
+const loginLinks = collection<LoginLink>('login-links');
+
+export async function createLoginLink(email: string): Promise<string> {
+  const token = createToken();
+  await loginLinks.put(hashToken(token), {
+    email,
+    expiresAt: new Date(Date.now() + LOGIN_LINK_MINUTES * 60 * 1000).toISOString(),
+  });
+  return token;
+}
+
+// Returns the email the link was sent to, or undefined if it is unknown,
+// expired or already used
+export async function consumeLoginLink(token: string): Promise<string | undefined> {
+  let link: LoginLink | undefined;
+  await loginLinks.update(hashToken(token), current => {
+    link = current;
+    return undefined;
+  });
+  return link && Date.parse(link.expiresAt) > Date.now() ? link.email : undefined;
+}
@@ -0,0 +1,47 @@
+import { collection } from '@/lib/store';
+import type { AccountProfile, LocalData } from './types';
+
+const profiles = collection<AccountProfile>('profiles');
+
+function emptyProfile(userId: string): AccountProfile {
+  return { userId, updatedAt: new Date().toISOString() };
+}
+
+export async function getProfile(userId: string): Promise<AccountProfile> {
+  return (await profiles.get(userId)) ?? emptyProfile(userId);
+}
+
+// Replaces the given fields; null clears an optional one
+export async function updateProfile(
+  userId: string,
+  patch: { avatarModelUrl?: string | null; measurements?: AccountProfile['measurements'] | null; emailAlerts?: boolean },
+): Promise<AccountProfile> {
+  const updated = await profiles.update(userId, current => {
+    const next: AccountProfile = { ...(current ?? emptyProfile(userId)), updatedAt: new Date().toISOString() };
+    if (patch.avatarModelUrl === null) delete next.avatarModelUrl;
+    else if (patch.avatarModelUrl) next.avatarModelUrl = patch.avatarModelUrl;
+    if (patch.measurements === null) delete next.measurements;
+    else if (patch.measurements) next.measurements = patch.measurements;
+    if (patch.emailAlerts !== undefined) next.emailAlerts = patch.emailAlerts;
+    return next;
+  });
+  return updated!;
+}
+
+// Folds what a browser collected while signed out into the account: the
+// avatar and measurements fill in only what the account does not have yet,
+// or replace older measurements. Favorites are wishlists, claimed on sign-in.
+export async function mergeLocalData(userId: string, local: LocalData): Promise<AccountProfile> {
+  const merged = await profiles.update(userId, current => {
+    const profile = current ?? emptyProfile(userId);
+    const newerMeasurements = local.measurements
+      && (!profile.measurements || local.measurements.savedAt > profile.measurements.savedAt);
+    return {
+      ...profile,
+      ...(!profile.avatarModelUrl && local.avatarModelUrl ? { avatarModelUrl: local.avatarModelUrl } : {}),
+      ...(newerMeasurements ? { measurements: local.measurements } : {}),
+      updatedAt: new Date().toISOString(),
+    };
+  });
+  return merged!;
+}
@@ -0,0 +1,50 @@
+import { cookies } from 'next/headers';
+import { collection } from '@/lib/store';
+import { createToken, hashToken } from './tokens';
+
+// Signed-in sessions: a random token in an HTTP-only cookie, looked up by its
+// hash. Separate from the anonymous shopper session in src/lib/session.ts.
+
+export const AUTH_COOKIE = 'vf_auth';
+const AUTH_SESSION_DAYS = 30;
+
+type AuthSession = {
+  userId: string;
+  createdAt: string;
+  expiresAt: string;
+};
+
+const authSessions = collection<AuthSession>('auth-sessions');
+
+export async function createAuthSession(userId: string): Promise<void> {
+  const token = createToken();
+  const now = Date.now();
+  const expiresAt = new Date(now + AUTH_SESSION_DAYS * 24 * 60 * 60 * 1000);
+  await authSessions.put(hashToken(token), { userId, createdAt: new Date(now).toISOString(), expiresAt: expiresAt.toISOString() });
+  (await cookies()).set(AUTH_COOKIE, token, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    expires: expiresAt,
+  });
+}
+
+export async function getAuthUserId(): Promise<string | undefined> {
+  const token = (await cookies()).get(AUTH_COOKIE)?.value;
+  if (!token) return undefined;
+  const session = await authSessions.get(hashToken(token));
+  if (!session) return undefined;
+  if (Date.parse(session.expiresAt) <= Date.now()) {
+    await authSessions.delete(hashToken(token));
+    return undefined;
+  }
+  return session.userId;
+}
+
+export async function destroyAuthSession(): Promise<void> {
+  const jar = await cookies();
+  const token = jar.get(AUTH_COOKIE)?.value;
+  if (token) await authSessions.delete(hashToken(token));
+  jar.delete(AUTH_COOKIE);
+}
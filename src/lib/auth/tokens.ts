@@ -0,0 +1,12 @@
+import { createHash, randomBytes } from 'crypto';
+
+// Opaque bearer tokens (session cookies, login links). Only the SHA-256 of a
+// token is stored, so a leaked data file cannot be replayed.
+
+export function createToken(): string {
+  return randomBytes(32).toString('base64url');
+}
+
+export function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
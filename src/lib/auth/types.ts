@@ -0,0 +1,45 @@
+import type { BodyMeasurements, FitPreference } from '@/lib/sizing/types';
+import type { UnitSystem } from '@/lib/sizing/units';
+
+export type User = {
+  id: string;
+  // Stored lower-cased; the login identifier
+  email: string;
+  // Absent for accounts that only ever used magic links
+  passwordHash?: string;
+  createdAt: string;
+  lastLoginAt?: string;
+};
+
+// What the browser gets to see about the signed-in user
+export type PublicUser = {
+  id: string;
+  email: string;
+  hasPassword: boolean;
+  createdAt: string;
+};
+
+export type SavedMeasurements = {
+  // Canonical cm/kg
+  values: BodyMeasurements;
+  fit: FitPreference;
+  // Units the shopper prefers to type in
+  units: UnitSystem;
+  savedAt: string;
+};
+
+// Per-account shopper state that used to live only in the browser
+export type AccountProfile = {
+  userId: string;
+  avatarModelUrl?: string;
+  measurements?: SavedMeasurements;
+  // Price-drop and back-in-stock emails; on unless turned off
+  emailAlerts?: boolean;
+  updatedAt: string;
+};
+
+// Browser-held state sent once after signing in, to be merged into the account
+export type LocalData = {
+  avatarModelUrl?: string;
+  measurements?: SavedMeasurements;
+};
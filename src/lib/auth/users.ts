@@ -0,0 +1,64 @@
+import { randomBytes } from 'crypto';
+import { collection } from '@/lib/store';
+import type { PublicUser, User } from './types';
+
+const users = collection<User>('users');
+
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+export function getUser(id: string): Promise<User | undefined> {
+  return users.get(id);
+}
+
+export async function findUserByEmail(email: string): Promise<User | undefined> {
+  const normalized = normalizeEmail(email);
+  return (await users.list()).find(user => user.email === normalized);
+}
+
+function newUser(email: string, passwordHash?: string): User {
+  return {
+    id: `usr_${randomBytes(8).toString('hex')}`,
+    email,
+    ...(passwordHash ? { passwordHash } : {}),
+    createdAt: new Date().toISOString(),
+  };
+}
+
+function findIn(data: Record<string, User>, email: string): User | undefined {
+  return Object.values(data).find(user => user.email === email);
+}
+
+// Adds an account unless one already uses the email, or undefined. The check
+// and the insert share the collection lock, so of two concurrent signups for
+// one address only the first gets an account.
+export function createUser(email: string, passwordHash?: string): Promise<User | undefined> {
+  const normalized = normalizeEmail(email);
+  return users.transact(data => {
+    if (findIn(data, normalized)) return undefined;
+    const user = newUser(normalized, passwordHash);
+    data[user.id] = user;
+    return user;
+  });
+}
+
+// The account using the email, created without a password if there is none
+export function findOrCreateUser(email: string): Promise<User> {
+  const normalized = normalizeEmail(email);
+  return users.transact(data => {
+    const existing = findIn(data, normalized);
+    if (existing) return existing;
+    const user = newUser(normalized);
+    data[user.id] = user;
+    return user;
+  });
+}
+
+export async function updateUser(id: string, patch: Partial<Omit<User, 'id' | 'email' | 'createdAt'>>): Promise<User | undefined> {
+  return users.update(id, user => (user ? { ...user, ...patch } : user));
+}
+
+export function toPublicUser(user: User): PublicUser {
+  return { id: user.id, email: user.email, hasPassword: !!user.passwordHash, createdAt: user.createdAt };
+}
@@ -0,0 +1,94 @@
+import { FIT_PREFERENCES, type FitPreference } from '@/lib/sizing/types';
+import { parseMeasurements } from '@/lib/sizing/validation';
+import { MAX_PASSWORD_LENGTH, MIN_PASSWORD_LENGTH } from './passwords';
+import type { LocalData, SavedMeasurements } from './types';
+
+export type ValidationResult<T> = { ok: true; value: T } | { ok: false; errors: string[] };
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export function parseEmail(value: unknown): string | undefined {
+  if (typeof value !== 'string') return undefined;
+  const email = value.trim().toLowerCase();
+  return email.length <= 254 && EMAIL_PATTERN.test(email) ? email : undefined;
+}
+
+function passwordErrors(password: unknown): string[] {
+  if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+    return [`Password must be at least ${MIN_PASSWORD_LENGTH} characters`];
+  }
+  if (password.length > MAX_PASSWORD_LENGTH) return [`Password must be at most ${MAX_PASSWORD_LENGTH} characters`];
+  return [];
+}
+
+export function parseCredentials(body: unknown): ValidationResult<{ email: string; password: string }> {
+  const { email: rawEmail, password } = (typeof body === 'object' && body !== null ? body : {}) as Record<string, unknown>;
+  const errors: string[] = [];
+  const email = parseEmail(rawEmail);
+  if (!email) errors.push('Enter a valid email address');
+  errors.push(...passwordErrors(password));
+  return errors.length ? { ok: false, errors } : { ok: true, value: { email: email!, password: password as string } };
+}
+
+export function parseNewPassword(body: unknown): ValidationResult<string> {
+  const { password } = (typeof body === 'object' && body !== null ? body : {}) as Record<string, unknown>;
+  const errors = passwordErrors(password);
+  return errors.length ? { ok: false, errors } : { ok: true, value: password as string };
+}
+
+// Avatar models are either our own files or https URLs from the 3D provider
+export function parseAvatarUrl(value: unknown): string | undefined {
+  if (typeof value !== 'string' || value.length > 2048) return undefined;
+  return /^https:\/\//.test(value) || /^\/(?!\/)/.test(value) ? value : undefined;
+}
+
+export function parseSavedMeasurements(value: unknown): SavedMeasurements | undefined {
+  if (typeof value !== 'object' || value === null) return undefined;
+  const { values, fit, units, savedAt } = value as Record<string, unknown>;
+  // Saved values are already canonical
+  const parsed = parseMeasurements(values, 'metric');
+  if (!parsed.ok || !Object.keys(parsed.value).length) return undefined;
+  return {
+    values: parsed.value,
+    fit: FIT_PREFERENCES.includes(fit as FitPreference) ? (fit as FitPreference) : 'regular',
+    units: units === 'imperial' ? 'imperial' : 'metric',
+    savedAt: typeof savedAt === 'string' && !Number.isNaN(Date.parse(savedAt)) ? new Date(savedAt).toISOString() : new Date().toISOString(),
+  };
+}
+
+// Anything malformed is dropped rather than rejected: this is best-effort
+// carry-over of browser state
+export function parseLocalData(body: unknown): LocalData {
+  const { avatarModelUrl, measurements } = (typeof body === 'object' && body !== null ? body : {}) as Record<string, unknown>;
+  const data: LocalData = {};
+  const avatar = parseAvatarUrl(avatarModelUrl);
+  if (avatar) data.avatarModelUrl = avatar;
+  const saved = parseSavedMeasurements(measurements);
+  if (saved) data.measurements = saved;
+  return data;
+}
+
+export function parseProfilePatch(body: unknown): ValidationResult<{
+  avatarModelUrl?: string | null;
+  measurements?: SavedMeasurements | null;
+  emailAlerts?: boolean;
+}> {
+  const input = (typeof body === 'object' && body !== null ? body : {}) as Record<string, unknown>;
+  const errors: string[] = [];
+  const patch: { avatarModelUrl?: string | null; measurements?: SavedMeasurements | null; emailAlerts?: boolean } = {};
+  if ('avatarModelUrl' in input) {
+    const avatar = input.avatarModelUrl === null ? null : parseAvatarUrl(input.avatarModelUrl);
+    if (avatar !== undefined) patch.avatarModelUrl = avatar;
+    else errors.push('avatarModelUrl must be an https URL or a site path');
+  }
+  if ('measurements' in input) {
+    const saved = input.measurements === null ? null : parseSavedMeasurements(input.measurements);
+    if (saved !== undefined) patch.measurements = saved;
+    else errors.push('measurements must contain plausible values in cm/kg');
+  }
+  if ('emailAlerts' in input) {
+    if (typeof input.emailAlerts === 'boolean') patch.emailAlerts = input.emailAlerts;
+    else errors.push('emailAlerts must be true or false');
+  }
+  return errors.length ? { ok: false, errors } : { ok: true, value: patch };
+}
@@ -0,0 +1,200 @@
+import { randomBytes } from 'crypto';
+import { cancelJob, createAvatarJob, getJobForOwner, isFinished, JobError, type Job, type JobViews } from '@/lib/jobs';
+import { cacheModel } from '@/lib/models';
+import { isStorageKey, signFileUrl } from '@/lib/storage';
+import { collection } from '@/lib/store';
+import type { Avatar, PublicAvatar } from './types';
+
+export * from './types';
+
+export const MAX_AVATARS = 20;
+const MAX_NAME_LENGTH = 60;
+
+export class AvatarError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'AvatarError';
+    this.status = status;
+  }
+}
+
+const avatars = collection<Avatar>('avatars');
+
+export function parseAvatarName(value: unknown): string | null {
+  if (typeof value !== 'string') return null;
+  const name = value.trim().replace(/\s+/g, ' ');
+  return name && name.length <= MAX_NAME_LENGTH ? name : null;
+}
+
+// Finished models can come from elsewhere on this site (/api/models, the
+// mock mannequin) or from an https URL
+export function parseModelUrl(value: unknown): string | null {
+  if (typeof value !== 'string' || value.length > 2048) return null;
+  return /^https:\/\//.test(value) || /^\/(?!\/)/.test(value) ? value : null;
+}
+
+// Storage keys get a fresh signed link; site paths are public already
+function fileUrl(ref: string): string {
+  return isStorageKey(ref) ? signFileUrl(ref).url : ref;
+}
+
+export function toPublicAvatar(avatar: Avatar): PublicAvatar {
+  const { id, name, status, modelUrl, error, active, createdAt, updatedAt } = avatar;
+  return {
+    id,
+    name,
+    status,
+    modelUrl,
+    error,
+    active,
+    createdAt,
+    updatedAt,
+    ...(avatar.photoKey ? { photoUrl: fileUrl(avatar.photoKey) } : {}),
+    ...(avatar.thumbnail ? { thumbnailUrl: fileUrl(avatar.thumbnail) } : {}),
+  };
+}
+
+async function ownedBy(ownerKey: string): Promise<Avatar[]> {
+  return (await avatars.list()).filter(avatar => avatar.ownerKey === ownerKey);
+}
+
+// Makes the avatar its owner's only active one. Both happen in one write, so
+// no one ever sees two active avatars, or none.
+async function activate(avatar: Avatar, patch: Partial<Avatar> = {}): Promise<Avatar> {
+  const now = new Date().toISOString();
+  const updated = await avatars.transact(data => {
+    const current = data[avatar.id];
+    if (!current) return undefined;
+    for (const other of Object.values(data)) {
+      if (other.active && other.ownerKey === current.ownerKey) data[other.id] = { ...other, active: false };
+    }
+    return (data[avatar.id] = { ...current, ...patch, active: true, updatedAt: now });
+  });
+  if (!updated) throw new AvatarError('Avatar not found', 404);
+  return updated;
+}
+
+function failureMessage(job: Job | undefined): string {
+  if (job?.error) return job.error.message;
+  return job?.status === 'cancelled' ? 'Generation was cancelled.' : 'Generation did not finish.';
+}
+
+// Catches a generating avatar up with its job. One that has just become
+// ready is made active, as it's the one the shopper is waiting for.
+async function sync(avatar: Avatar): Promise<Avatar> {
+  if (avatar.status !== 'generating') return avatar;
+  const job = avatar.jobId ? await getJobForOwner(avatar.jobId, avatar.ownerKey) : undefined;
+  if (job && !isFinished(job)) return avatar;
+  if (job?.status === 'succeeded' && job.modelUrl) {
+    return activate(avatar, { status: 'ready', modelUrl: job.modelUrl, ...(job.thumbnail ? { thumbnail: job.thumbnail } : {}) });
+  }
+  const now = new Date().toISOString();
+  const failed = await avatars.update(avatar.id, current => current && { ...current, status: 'failed', error: failureMessage(job), updatedAt: now });
+  return failed ?? avatar;
+}
+
+// Newest first
+export async function listAvatars(ownerKey: string | undefined): Promise<Avatar[]> {
+  if (!ownerKey) return [];
+  const owned: Avatar[] = [];
+  for (const avatar of await ownedBy(ownerKey)) owned.push(await sync(avatar));
+  return owned.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+// Avatars belong to the shopper that made them; anyone else gets a 404
+export async function getAvatar(ownerKey: string | undefined, id: string): Promise<Avatar> {
+  const avatar = await avatars.get(id);
+  if (!avatar || !ownerKey || avatar.ownerKey !== ownerKey) throw new AvatarError('Avatar not found', 404);
+  return sync(avatar);
+}
+
+async function countWithRoom(ownerKey: string): Promise<number> {
+  const count = (await ownedBy(ownerKey)).length;
+  if (count >= MAX_AVATARS) throw new AvatarError(`You can keep at most ${MAX_AVATARS} avatars. Delete one to make another.`, 422);
+  return count;
+}
+
+async function newAvatar(ownerKey: string, name: string | undefined, fields: Partial<Avatar> & Pick<Avatar, 'status'>): Promise<Avatar> {
+  const count = await countWithRoom(ownerKey);
+  const now = new Date().toISOString();
+  const id = `av_${randomBytes(8).toString('hex')}`;
+  return avatars.put(id, {
+    id,
+    ownerKey,
+    name: name ?? `Avatar ${count + 1}`,
+    active: false,
+    createdAt: now,
+    updatedAt: now,
+    ...fields,
+  });
+}
+
+// Starts generating a new avatar from a photo stored by /api/upload, with
+// side and back photos for a multi-view one. Throws what createAvatarJob
+// throws, including a JobError (409) while another avatar is still being
+// generated.
+export async function createAvatar(
+  ownerKey: string,
+  uploadKey: string,
+  name?: string,
+  views?: JobViews,
+): Promise<{ avatar: Avatar; job: Job }> {
+  // Checked up front too, so no generation is paid for that can't be kept
+  await countWithRoom(ownerKey);
+  const job = await createAvatarJob(ownerKey, uploadKey, views);
+  const avatar = await newAvatar(ownerKey, name, { status: 'generating', photoKey: job.photoKey, jobId: job.id });
+  return { avatar, job };
+}
+
+// Adds a finished model, such as an avatar saved before the library existed.
+// Models from other sites are copied into storage like generated ones, so the
+// avatar keeps loading when the original link expires. It becomes active if
+// nothing else is. Throws a StorageError if the model can't be copied.
+export async function importAvatar(ownerKey: string, modelUrl: string, name?: string): Promise<Avatar> {
+  await countWithRoom(ownerKey);
+  const cachedUrl = await cacheModel(modelUrl, `import:${modelUrl}`);
+  const avatar = await newAvatar(ownerKey, name, { status: 'ready', modelUrl: cachedUrl });
+  const hasActive = (await ownedBy(ownerKey)).some(other => other.active);
+  return hasActive ? avatar : activate(avatar);
+}
+
+export async function renameAvatar(ownerKey: string, id: string, name: string): Promise<Avatar> {
+  await getAvatar(ownerKey, id);
+  const now = new Date().toISOString();
+  const renamed = await avatars.update(id, current => current && { ...current, name, updatedAt: now });
+  if (!renamed) throw new AvatarError('Avatar not found', 404);
+  return renamed;
+}
+
+export async function setActiveAvatar(ownerKey: string, id: string): Promise<Avatar> {
+  const avatar = await getAvatar(ownerKey, id);
+  if (avatar.status !== 'ready') throw new AvatarError('Only a finished avatar can be dressed', 409);
+  return avatar.active ? avatar : activate(avatar);
+}
+
+// Stops generation if it's still running. Deleting the active avatar hands
+// that role to the newest ready one.
+export async function deleteAvatar(ownerKey: string, id: string): Promise<void> {
+  const avatar = await getAvatar(ownerKey, id);
+  if (avatar.status === 'generating' && avatar.jobId) {
+    await cancelJob(avatar.jobId, ownerKey).catch(error => {
+      if (!(error instanceof JobError)) throw error;
+    });
+  }
+  await avatars.delete(id);
+  if (!avatar.active) return;
+  const next = (await listAvatars(ownerKey)).find(other => other.status === 'ready');
+  if (next) await activate(next);
+}
+
+// Moves an anonymous shopper's avatars to their account on sign-in. The
+// account's active avatar, if it has one, stays active.
+export async function claimAvatars(fromKey: string, toKey: string): Promise<void> {
+  if (fromKey === toKey) return;
+  const keepActive = (await ownedBy(toKey)).some(avatar => avatar.active);
+  for (const avatar of await ownedBy(fromKey)) {
+    await avatars.update(avatar.id, current => current && { ...current, ownerKey: toKey, active: current.active && !keepActive });
+  }
+}
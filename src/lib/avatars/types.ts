@@ -0,0 +1,28 @@
+export type AvatarStatus = 'generating' | 'ready' | 'failed';
+
+export type Avatar = {
+  id: string;
+  // shopperKey() of the owner
+  ownerKey: string;
+  name: string;
+  status: AvatarStatus;
+  // Preprocessed source photo in upload storage; avatars carried over from
+  // before the library existed have none
+  photoKey?: string;
+  // Generation job, while the avatar is being made
+  jobId?: string;
+  modelUrl?: string;
+  // Rendered preview: an upload storage key, or a site path
+  thumbnail?: string;
+  error?: string;
+  // The one dressed in the try-on viewer; at most one per owner
+  active: boolean;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type PublicAvatar = Pick<Avatar, 'id' | 'name' | 'status' | 'modelUrl' | 'error' | 'active' | 'createdAt' | 'updatedAt'> & {
+  // Short-lived signed links
+  photoUrl?: string;
+  thumbnailUrl?: string;
+};
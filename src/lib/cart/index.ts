@@ -0,0 +1,181 @@
+import { addMoney, findProductBySku, findVariant, getProduct, money, multiplyMoney, variantPrice } from '@/lib/catalog';
+import { collection } from '@/lib/store';
+import type { Cart, CartLine, PricedCart, PricedCartLine } from './types';
+
+export * from './types';
+
+export const MAX_LINE_QUANTITY = 10;
+export const MAX_CART_LINES = 50;
+const DEFAULT_CURRENCY = 'USD';
+// Try-on thumbnails are stored inline, so keep them thumbnail-sized
+const MAX_TRY_ON_IMAGE_LENGTH = 32 * 1024;
+
+export class CartError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'CartError';
+    this.status = status;
+  }
+}
+
+const carts = collection<Cart>('carts');
+
+function emptyCart(id: string): Cart {
+  return { id, lines: [], updatedAt: new Date().toISOString() };
+}
+
+export function parseQuantity(value: unknown, { allowZero = false } = {}): number | null {
+  const quantity = Number(value);
+  if (!Number.isInteger(quantity) || quantity > MAX_LINE_QUANTITY) return null;
+  return quantity > 0 || (allowZero && quantity === 0) ? quantity : null;
+}
+
+// Accepts a same-site path or a small inline JPEG/PNG/WebP
+export function parseTryOnImage(value: unknown): string | undefined | null {
+  if (value === undefined || value === null || value === '') return undefined;
+  if (typeof value !== 'string' || value.length > MAX_TRY_ON_IMAGE_LENGTH) return null;
+  if (/^\/(?!\/)/.test(value) || /^data:image\/(jpeg|png|webp);base64,[A-Za-z0-9+/=]+$/.test(value)) return value;
+  return null;
+}
+
+// Shoppers without a session yet simply have an empty cart
+export async function getCart(cartId: string | undefined): Promise<Cart> {
+  if (!cartId) return emptyCart('');
+  return (await carts.get(cartId)) ?? emptyCart(cartId);
+}
+
+// Stock is checked against the catalog when an item is added or changed;
+// pricing re-checks it because stock may have moved since.
+async function stockFor(sku: string) {
+  const found = await findProductBySku(sku);
+  if (!found) throw new CartError(`Unknown SKU ${sku}`, 404);
+  return found;
+}
+
+function assertStock(sku: string, quantity: number, stock: number) {
+  if (stock <= 0) throw new CartError(`${sku} is out of stock`, 409);
+  if (quantity > stock) throw new CartError(`Only ${stock} of ${sku} left in stock`, 409);
+}
+
+// The line is re-read and checked under the cart's lock, so concurrent adds
+// of one SKU add up instead of overwriting each other
+export async function addToCart(cartId: string, sku: string, quantity: number, tryOnImage?: string): Promise<Cart> {
+  const { product, variant } = await stockFor(sku);
+  const updated = await carts.update(cartId, cart => {
+    const base = cart ?? emptyCart(cartId);
+    const line = base.lines.find(l => l.sku === sku);
+    const total = (line?.quantity ?? 0) + quantity;
+    if (total > MAX_LINE_QUANTITY) {
+      throw new CartError(`At most ${MAX_LINE_QUANTITY} of one item per order`, 422);
+    }
+    assertStock(sku, total, variant.stock);
+    if (!line && base.lines.length >= MAX_CART_LINES) {
+      throw new CartError('Cart is full', 422);
+    }
+    const lines: CartLine[] = line
+      ? base.lines.map(l => (l.sku === sku ? { ...l, quantity: total, ...(tryOnImage ? { tryOnImage } : {}) } : l))
+      : [...base.lines, { sku, productId: product.id, quantity, ...(tryOnImage ? { tryOnImage } : {}), addedAt: new Date().toISOString() }];
+    return { ...base, lines, updatedAt: new Date().toISOString() };
+  });
+  return updated!;
+}
+
+// Sets the quantity of a line; 0 removes it
+export async function setLineQuantity(cartId: string, sku: string, quantity: number): Promise<Cart> {
+  const current = await getCart(cartId);
+  if (!current.lines.some(line => line.sku === sku)) {
+    throw new CartError(`${sku} is not in the cart`, 404);
+  }
+  if (quantity > 0) assertStock(sku, quantity, (await stockFor(sku)).variant.stock);
+
+  const updated = await carts.update(cartId, cart => {
+    const base = cart ?? emptyCart(cartId);
+    const lines = quantity > 0
+      ? base.lines.map(l => (l.sku === sku ? { ...l, quantity } : l))
+      : base.lines.filter(l => l.sku !== sku);
+    return { ...base, lines, updatedAt: new Date().toISOString() };
+  });
+  return updated ?? emptyCart(cartId);
+}
+
+export function removeFromCart(cartId: string, sku: string): Promise<Cart> {
+  return setLineQuantity(cartId, sku, 0);
+}
+
+export async function clearCart(cartId: string): Promise<void> {
+  await carts.delete(cartId);
+}
+
+// Moves every line of one cart into another, e.g. the anonymous cart into
+// the account's cart on sign-in. Quantities of the same SKU are added up to
+// the per-line limit; stock is re-checked when the cart is priced.
+export async function mergeCarts(fromId: string, toId: string): Promise<Cart> {
+  const from = await carts.get(fromId);
+  if (!from || fromId === toId) return getCart(toId);
+  const merged = await carts.update(toId, cart => {
+    const lines = [...(cart ?? emptyCart(toId)).lines];
+    for (const line of from.lines) {
+      const index = lines.findIndex(l => l.sku === line.sku);
+      if (index >= 0) {
+        lines[index] = { ...lines[index], quantity: Math.min(lines[index].quantity + line.quantity, MAX_LINE_QUANTITY) };
+      } else if (lines.length < MAX_CART_LINES) {
+        lines.push(line);
+      }
+    }
+    return { id: toId, lines, updatedAt: new Date().toISOString() };
+  });
+  await carts.delete(fromId);
+  return merged!;
+}
+
+// Joins stored lines with the current catalog: titles, prices and stock
+// always come from the server, never from what the client last saw.
+export async function priceCart(cart: Cart): Promise<PricedCart> {
+  const lines: PricedCartLine[] = [];
+  for (const line of cart.lines) {
+    const product = await getProduct(line.productId);
+    const variant = product && findVariant(product, line.sku);
+    if (!product || !variant) {
+      lines.push({
+        sku: line.sku,
+        productId: line.productId,
+        quantity: line.quantity,
+        title: 'No longer available',
+        image: null,
+        size: '',
+        color: '',
+        unitPrice: money(0, DEFAULT_CURRENCY),
+        lineTotal: money(0, DEFAULT_CURRENCY),
+        available: 0,
+        issue: 'unavailable',
+      });
+      continue;
+    }
+    const unitPrice = variantPrice(product, variant);
+    lines.push({
+      sku: line.sku,
+      productId: product.id,
+      quantity: line.quantity,
+      title: product.title,
+      image: product.images[0]?.url ?? null,
+      ...(line.tryOnImage ? { tryOnImage: line.tryOnImage } : {}),
+      size: variant.size,
+      color: variant.color,
+      unitPrice,
+      lineTotal: multiplyMoney(unitPrice, line.quantity),
+      available: variant.stock,
+      ...(variant.stock <= 0 ? { issue: 'unavailable' as const } : variant.stock < line.quantity ? { issue: 'insufficient_stock' as const } : {}),
+    });
+  }
+
+  const orderable = lines.filter(line => line.issue !== 'unavailable');
+  const currency = orderable[0]?.unitPrice.currency ?? DEFAULT_CURRENCY;
+  return {
+    lines,
+    itemCount: lines.reduce((sum, line) => sum + line.quantity, 0),
+    subtotal: orderable.reduce((sum, line) => addMoney(sum, line.lineTotal), money(0, currency)),
+    checkoutReady: lines.length > 0 && lines.every(line => !line.issue),
+  };
+}
@@ -0,0 +1,44 @@
+import type { Money } from '@/lib/catalog/types';
+
+// What is stored per session: only SKUs and quantities. Titles and prices
+// are always looked up from the catalog so a client cannot set them.
+export type CartLine = {
+  sku: string;
+  productId: string;
+  quantity: number;
+  // Small preview of the shopper wearing the item, when added from try-on
+  tryOnImage?: string;
+  addedAt: string;
+};
+
+export type Cart = {
+  id: string;
+  lines: CartLine[];
+  updatedAt: string;
+};
+
+export type CartLineIssue = 'unavailable' | 'insufficient_stock';
+
+export type PricedCartLine = {
+  sku: string;
+  productId: string;
+  quantity: number;
+  title: string;
+  image: string | null;
+  tryOnImage?: string;
+  size: string;
+  color: string;
+  unitPrice: Money;
+  lineTotal: Money;
+  // Units currently in stock for this SKU
+  available: number;
+  issue?: CartLineIssue;
+};
+
+export type PricedCart = {
+  lines: PricedCartLine[];
+  itemCount: number;
+  subtotal: Money;
+  // True when every line can be ordered as is
+  checkoutReady: boolean;
+};
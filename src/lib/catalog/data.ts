@@ -0,0 +1,153 @@
+import { money } from './money';
+import type { Product, ProductVariant } from './types';
+
+const SIZES = ['S', 'M', 'L', 'XL'];
+
+// One variant per size; stock given smallest to largest
+function sizeVariants(skuPrefix: string, color: string, stock: number[]): ProductVariant[] {
+  return SIZES.map((size, i) => ({ sku: `${skuPrefix}-${color.toUpperCase()}-${size}`, size, color, stock: stock[i] ?? 0 }));
+}
+
+// Mock catalog backing /api/products until a real commerce backend is wired up
+export const MOCK_PRODUCTS: Product[] = [
+  {
+    id: '1',
+    handle: 'casual-brown-chinos',
+    title: 'Casual Brown Chinos',
+    description: 'Straight-leg cotton twill chinos with a soft washed finish.',
+    brand: 'VirtuFit Basics',
+    category: 'bottoms',
+    images: [{ url: '/mock-clothes/pants2.jpg', alt: 'Brown chinos, front view' }],
+    price: money(9900),
+    variants: sizeVariants('VF-CHINO', 'Brown', [4, 10, 8, 2]),
+    tags: ['chinos', 'pants', 'cotton', 'casual'],
+    createdAt: '2025-03-02T00:00:00.000Z',
+    garment: { url: '/models/garments/casual-brown-chinos.glb' },
+  },
+  {
+    id: '2',
+    handle: 'classic-black-pants',
+    title: 'Classic Black Pants',
+    description: 'Tailored black trousers with a slim taper, for office or evening.',
+    brand: 'VirtuFit Basics',
+    category: 'bottoms',
+    images: [{ url: '/mock-clothes/pants1.jpg', alt: 'Black pants, front view' }],
+    price: money(7900),
+    variants: sizeVariants('VF-PANT', 'Black', [6, 12, 9, 0]),
+    tags: ['pants', 'trousers', 'formal'],
+    createdAt: '2025-02-14T00:00:00.000Z',
+    garment: { url: '/models/garments/classic-black-pants.glb' },
+  },
+  {
+    id: '3',
+    handle: 'blue-patterned-shirt',
+    title: 'Blue Patterned Shirt',
+    description: 'Lightweight button-up shirt with an all-over blue print.',
+    brand: 'VirtuFit Basics',
+    category: 'tops',
+    images: [{ url: '/mock-clothes/shirt1.jpg', alt: 'Blue patterned shirt, front view' }],
+    price: money(2900),
+    variants: sizeVariants('VF-SHIRT', 'Blue', [3, 7, 7, 4]),
+    tags: ['shirt', 'button-up', 'print', 'summer'],
+    createdAt: '2025-04-20T00:00:00.000Z',
+    garment: { url: '/models/garments/blue-patterned-shirt.glb' },
+  },
+  {
+    id: '4',
+    handle: 'cartoon-graphic-t-shirt',
+    title: 'Cartoon Graphic T-Shirt',
+    description: 'Relaxed cotton tee with a front cartoon graphic.',
+    brand: 'VirtuFit Basics',
+    category: 'tops',
+    images: [{ url: '/mock-clothes/tshirt1.jpg', alt: 'Graphic t-shirt, front view' }],
+    price: money(1900),
+    variants: sizeVariants('VF-TEE', 'White', [10, 15, 11, 5]),
+    tags: ['t-shirt', 'tee', 'graphic', 'casual'],
+    createdAt: '2025-05-01T00:00:00.000Z',
+    garment: { url: '/models/garments/cartoon-graphic-t-shirt.glb' },
+  },
+  {
+    id: '5',
+    handle: 'slim-navy-chinos',
+    title: 'Slim Navy Chinos',
+    description: 'Slim-fit stretch chinos in a deep navy, cropped just above the ankle.',
+    brand: 'Northline',
+    category: 'bottoms',
+    images: [{ url: '/mock-clothes/pants2.jpg', alt: 'Navy chinos, front view' }],
+    price: money(6900),
+    variants: sizeVariants('NL-CHINO', 'Navy', [5, 8, 0, 3]),
+    tags: ['chinos', 'pants', 'stretch', 'slim'],
+    createdAt: '2025-05-18T00:00:00.000Z',
+    garment: { url: '/models/garments/slim-navy-chinos.glb' },
+  },
+  {
+    id: '6',
+    handle: 'charcoal-wool-trousers',
+    title: 'Charcoal Wool Trousers',
+    description: 'Pleated wool-blend trousers with a relaxed leg.',
+    brand: 'Northline',
+    category: 'bottoms',
+    images: [{ url: '/mock-clothes/pants1.jpg', alt: 'Charcoal trousers, front view' }],
+    price: money(12900),
+    variants: sizeVariants('NL-TROUSER', 'Charcoal', [2, 4, 4, 1]),
+    tags: ['trousers', 'pants', 'wool', 'formal'],
+    createdAt: '2025-01-09T00:00:00.000Z',
+    garment: { url: '/models/garments/charcoal-wool-trousers.glb' },
+  },
+  {
+    id: '7',
+    handle: 'white-oxford-shirt',
+    title: 'White Oxford Shirt',
+    description: 'Classic oxford-cloth shirt with a button-down collar.',
+    brand: 'Northline',
+    category: 'tops',
+    images: [{ url: '/mock-clothes/shirt1.jpg', alt: 'Oxford shirt, front view' }],
+    price: money(4900),
+    variants: sizeVariants('NL-OXFORD', 'White', [6, 9, 9, 6]),
+    tags: ['shirt', 'oxford', 'button-up', 'formal'],
+    createdAt: '2025-03-27T00:00:00.000Z',
+    garment: { url: '/models/garments/white-oxford-shirt.glb' },
+  },
+  {
+    id: '8',
+    handle: 'black-logo-tee',
+    title: 'Black Logo Tee',
+    description: 'Heavyweight cotton tee with a small chest logo.',
+    brand: 'VirtuFit Basics',
+    category: 'tops',
+    images: [{ url: '/mock-clothes/tshirt1.jpg', alt: 'Black logo tee, front view' }],
+    price: money(2400),
+    variants: sizeVariants('VF-LOGO', 'Black', [0, 12, 14, 8]),
+    tags: ['t-shirt', 'tee', 'logo', 'casual'],
+    createdAt: '2025-06-03T00:00:00.000Z',
+    garment: { url: '/models/garments/black-logo-tee.glb' },
+  },
+  {
+    id: '9',
+    handle: 'olive-camp-shirt',
+    title: 'Olive Camp Shirt',
+    description: 'Short-sleeve camp-collar shirt in washed olive linen.',
+    brand: 'Northline',
+    category: 'tops',
+    images: [{ url: '/mock-clothes/shirt1.jpg', alt: 'Olive camp shirt, front view' }],
+    price: money(5500),
+    variants: sizeVariants('NL-CAMP', 'Olive', [3, 0, 5, 2]),
+    tags: ['shirt', 'linen', 'summer', 'short-sleeve'],
+    createdAt: '2025-06-11T00:00:00.000Z',
+    garment: { url: '/models/garments/olive-camp-shirt.glb' },
+  },
+  {
+    id: '10',
+    handle: 'grey-jogger-pants',
+    title: 'Grey Jogger Pants',
+    description: 'Brushed fleece joggers with an elastic waist and cuffed hem.',
+    brand: 'VirtuFit Basics',
+    category: 'bottoms',
+    images: [{ url: '/mock-clothes/pants1.jpg', alt: 'Grey joggers, front view' }],
+    price: money(3900),
+    variants: sizeVariants('VF-JOG', 'Grey', [7, 11, 6, 4]),
+    tags: ['joggers', 'pants', 'lounge', 'casual'],
+    createdAt: '2025-04-02T00:00:00.000Z',
+    garment: { url: '/models/garments/grey-jogger-pants.glb' },
+  },
+];
@@ -0,0 +1,93 @@
+import { queryCatalog, type CatalogPage, type CatalogQuery } from './query';
+import { queryTerms, relevance } from './search';
+import { withCache, type CachedCatalogSource } from './sources/cache';
+import { createMockCatalogSource } from './sources/mock';
+import {
+  createFixtureStorefrontClient,
+  createShopifyCatalogSource,
+  createStorefrontClient,
+  shopifyConfigFromEnv,
+} from './sources/shopify';
+import { CatalogSourceError } from './sources/types';
+import type { Money, Product, ProductVariant } from './types';
+
+export { addMoney, formatMoney, money, multiplyMoney } from './money';
+export { CATALOG_SORTS, CatalogQueryError, parseCatalogQuery } from './query';
+export type { CatalogFacets, CatalogPage, CatalogQuery, CatalogSort } from './query';
+export { CatalogSourceError } from './sources/types';
+export type * from './types';
+
+// Source selection:
+//   CATALOG_SOURCE     mock (default) | shopify
+//   SHOPIFY_FIXTURE    1 to serve the recorded Storefront fixture instead of calling Shopify
+//   CATALOG_CACHE_TTL  seconds before a cached catalog is refreshed in the background (default 300)
+function createCatalogSource(env: NodeJS.ProcessEnv = process.env): CachedCatalogSource {
+  const ttlMs = (Number(env.CATALOG_CACHE_TTL) || 300) * 1000;
+  switch (env.CATALOG_SOURCE || 'mock') {
+    case 'mock':
+      return withCache(createMockCatalogSource(), ttlMs);
+    case 'shopify': {
+      const request = env.SHOPIFY_FIXTURE === '1'
+        ? createFixtureStorefrontClient()
+        : createStorefrontClient(shopifyConfigFromEnv(env));
+      return withCache(createShopifyCatalogSource(request), ttlMs);
+    }
+    default:
+      throw new CatalogSourceError(String(env.CATALOG_SOURCE), `Unknown CATALOG_SOURCE "${env.CATALOG_SOURCE}"`);
+  }
+}
+
+// One cached source per server process, shared by every route bundle
+const globalForCatalog = globalThis as typeof globalThis & { __virtuFitCatalog?: CachedCatalogSource };
+
+export function getCatalogSource(): CachedCatalogSource {
+  return (globalForCatalog.__virtuFitCatalog ??= createCatalogSource());
+}
+
+export async function revalidateCatalog(): Promise<void> {
+  await getCatalogSource().revalidate();
+}
+
+export function listProducts(): Promise<Product[]> {
+  return getCatalogSource().listProducts();
+}
+
+export async function getProduct(id: string): Promise<Product | undefined> {
+  return (await listProducts()).find(p => p.id === id);
+}
+
+export async function queryProducts(query: CatalogQuery): Promise<CatalogPage> {
+  return queryCatalog(await listProducts(), query);
+}
+
+// Ranks products by how many query words match their title, tags, colors...
+export async function searchProducts(query: string, limit = 4): Promise<Product[]> {
+  const terms = queryTerms(query);
+  return (await listProducts())
+    .map(product => ({ product, score: relevance(product, terms) }))
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(({ product }) => product);
+}
+
+export function findVariant(product: Product, sku: string): ProductVariant | undefined {
+  return product.variants.find(v => v.sku === sku);
+}
+
+// Looks a variant up by SKU across the whole catalog
+export async function findProductBySku(sku: string): Promise<{ product: Product; variant: ProductVariant } | undefined> {
+  for (const product of await listProducts()) {
+    const variant = findVariant(product, sku);
+    if (variant) return { product, variant };
+  }
+  return undefined;
+}
+
+export function variantPrice(product: Product, variant: ProductVariant): Money {
+  return variant.price ?? product.price;
+}
+
+export function isInStock(product: Product): boolean {
+  return product.variants.some(v => v.stock > 0);
+}
@@ -0,0 +1,35 @@
+import type { CurrencyCode, Money } from './types';
+
+export function money(amount: number, currency: CurrencyCode = 'USD'): Money {
+  if (!Number.isInteger(amount)) throw new Error(`Money amounts must be integer minor units (got ${amount})`);
+  return { amount, currency };
+}
+
+// Number of minor units per major unit for the currency (2 for USD, 0 for JPY)
+function minorDigits(currency: CurrencyCode): number {
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency }).resolvedOptions().maximumFractionDigits ?? 2;
+}
+
+// Converts a decimal string such as "19.99" to integer minor units without
+// going through floating point
+export function parseMoney(decimal: string, currency: CurrencyCode): Money {
+  const match = decimal.trim().match(/^(-?)(\d+)(?:\.(\d+))?$/);
+  if (!match) throw new Error(`Invalid money amount "${decimal}"`);
+  const [, sign, whole, fraction = ''] = match;
+  const digits = minorDigits(currency);
+  const minor = Number(whole) * 10 ** digits + Number(fraction.padEnd(digits, '0').slice(0, digits) || '0');
+  return { amount: sign ? -minor : minor, currency };
+}
+
+export function formatMoney({ amount, currency }: Money, locale = 'en-US'): string {
+  return new Intl.NumberFormat(locale, { style: 'currency', currency }).format(amount / 10 ** minorDigits(currency));
+}
+
+export function addMoney(a: Money, b: Money): Money {
+  if (a.currency !== b.currency) throw new Error(`Cannot add ${a.currency} and ${b.currency}`);
+  return { amount: a.amount + b.amount, currency: a.currency };
+}
+
+export function multiplyMoney(value: Money, factor: number): Money {
+  return { amount: Math.round(value.amount * factor), currency: value.currency };
+}
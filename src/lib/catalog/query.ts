@@ -0,0 +1,171 @@
+import { queryTerms, relevance } from './search';
+import type { Money, Product, ProductCategory } from './types';
+
+export const CATALOG_SORTS = ['relevance', 'newest', 'price_asc', 'price_desc', 'title'] as const;
+
+export type CatalogSort = (typeof CATALOG_SORTS)[number];
+
+const CATEGORIES: ProductCategory[] = ['tops', 'bottoms'];
+
+export const DEFAULT_PAGE_SIZE = 12;
+export const MAX_PAGE_SIZE = 48;
+
+export type CatalogQuery = {
+  q?: string;
+  category?: ProductCategory;
+  size?: string;
+  color?: string;
+  // Inclusive bounds in minor units of the catalog currency
+  minPrice?: number;
+  maxPrice?: number;
+  sort: CatalogSort;
+  cursor?: string;
+  limit: number;
+};
+
+export type CatalogFacets = {
+  categories: ProductCategory[];
+  sizes: string[];
+  colors: string[];
+  price: { min: Money; max: Money } | null;
+};
+
+export type CatalogPage = {
+  products: Product[];
+  total: number;
+  nextCursor: string | null;
+  facets: CatalogFacets;
+};
+
+export class CatalogQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CatalogQueryError';
+  }
+}
+
+function nonNegativeInt(name: string, raw: string | null): number | undefined {
+  if (raw === null || raw === '') return undefined;
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < 0) throw new CatalogQueryError(`${name} must be a non-negative integer`);
+  return value;
+}
+
+// Reads /api/products query parameters; throws CatalogQueryError on bad input
+export function parseCatalogQuery(params: URLSearchParams): CatalogQuery {
+  const q = params.get('q')?.trim() || undefined;
+  const category = params.get('category') || undefined;
+  if (category && !CATEGORIES.includes(category as ProductCategory)) {
+    throw new CatalogQueryError(`category must be one of: ${CATEGORIES.join(', ')}`);
+  }
+  const sort = params.get('sort') || (q ? 'relevance' : 'newest');
+  if (!CATALOG_SORTS.includes(sort as CatalogSort)) {
+    throw new CatalogQueryError(`sort must be one of: ${CATALOG_SORTS.join(', ')}`);
+  }
+  const minPrice = nonNegativeInt('minPrice', params.get('minPrice'));
+  const maxPrice = nonNegativeInt('maxPrice', params.get('maxPrice'));
+  if (minPrice !== undefined && maxPrice !== undefined && minPrice > maxPrice) {
+    throw new CatalogQueryError('minPrice must not exceed maxPrice');
+  }
+  const limit = nonNegativeInt('limit', params.get('limit')) ?? DEFAULT_PAGE_SIZE;
+  if (limit < 1 || limit > MAX_PAGE_SIZE) throw new CatalogQueryError(`limit must be between 1 and ${MAX_PAGE_SIZE}`);
+  return {
+    q,
+    category: category as ProductCategory | undefined,
+    size: params.get('size') || undefined,
+    color: params.get('color') || undefined,
+    minPrice,
+    maxPrice,
+    sort: sort as CatalogSort,
+    cursor: params.get('cursor') || undefined,
+    limit,
+  };
+}
+
+// Cursors are opaque to clients: the offset plus a fingerprint of the
+// filters, so a cursor cannot be replayed against a different query.
+function fingerprint(query: CatalogQuery): string {
+  const { q, category, size, color, minPrice, maxPrice, sort } = query;
+  const text = JSON.stringify([q, category, size, color, minPrice, maxPrice, sort]);
+  let hash = 0;
+  for (let i = 0; i < text.length; i++) hash = (hash * 31 + text.charCodeAt(i)) | 0;
+  return (hash >>> 0).toString(36);
+}
+
+function encodeCursor(offset: number, query: CatalogQuery): string {
+  return Buffer.from(JSON.stringify({ o: offset, f: fingerprint(query) })).toString('base64url');
+}
+
+function decodeCursor(cursor: string, query: CatalogQuery): number {
+  try {
+    const { o, f } = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (Number.isInteger(o) && o >= 0 && f === fingerprint(query)) return o;
+  } catch {
+    // fall through
+  }
+  throw new CatalogQueryError('cursor is invalid or belongs to a different query');
+}
+
+function same(a: string, b: string): boolean {
+  return a.localeCompare(b, undefined, { sensitivity: 'accent' }) === 0;
+}
+
+function matchesFilters(product: Product, query: CatalogQuery): boolean {
+  if (query.category && product.category !== query.category) return false;
+  if (query.minPrice !== undefined && product.price.amount < query.minPrice) return false;
+  if (query.maxPrice !== undefined && product.price.amount > query.maxPrice) return false;
+  if (query.size || query.color) {
+    // Size and color must be offered together by the same variant
+    return product.variants.some(
+      v => (!query.size || same(v.size, query.size)) && (!query.color || same(v.color, query.color)),
+    );
+  }
+  return true;
+}
+
+function facetsFor(products: Product[]): CatalogFacets {
+  const prices = products.map(p => p.price);
+  const sorted = [...prices].sort((a, b) => a.amount - b.amount);
+  return {
+    categories: CATEGORIES.filter(c => products.some(p => p.category === c)),
+    sizes: [...new Set(products.flatMap(p => p.variants.map(v => v.size)))],
+    colors: [...new Set(products.flatMap(p => p.variants.map(v => v.color)))].sort(),
+    price: sorted.length ? { min: sorted[0], max: sorted[sorted.length - 1] } : null,
+  };
+}
+
+export function queryCatalog(products: Product[], query: CatalogQuery): CatalogPage {
+  const terms = queryTerms(query.q ?? '');
+  let ranked = products
+    .filter(p => matchesFilters(p, query))
+    .map(product => ({ product, score: terms.size ? relevance(product, terms) : 0 }));
+  if (terms.size) ranked = ranked.filter(r => r.score > 0);
+
+  const byNewest = (a: Product, b: Product) => b.createdAt.localeCompare(a.createdAt);
+  // Array sort is stable, so ties keep catalog order and pages never overlap
+  ranked.sort((a, b) => {
+    switch (query.sort) {
+      case 'relevance':
+        return b.score - a.score || byNewest(a.product, b.product);
+      case 'price_asc':
+        return a.product.price.amount - b.product.price.amount;
+      case 'price_desc':
+        return b.product.price.amount - a.product.price.amount;
+      case 'title':
+        return a.product.title.localeCompare(b.product.title);
+      case 'newest':
+        return byNewest(a.product, b.product);
+    }
+  });
+  const results = ranked.map(r => r.product);
+
+  const offset = query.cursor ? decodeCursor(query.cursor, query) : 0;
+  const page = results.slice(offset, offset + query.limit);
+  const next = offset + page.length;
+  return {
+    products: page,
+    total: results.length,
+    nextCursor: next < results.length ? encodeCursor(next, query) : null,
+    facets: facetsFor(products),
+  };
+}
@@ -0,0 +1,49 @@
+import type { Product } from './types';
+
+// Shoppers and models use loose wording; fold common variants together
+const SYNONYMS: Record<string, string> = {
+  tee: 'tshirt',
+  tees: 'tshirt',
+  tshirts: 'tshirt',
+  shirts: 'shirt',
+  trousers: 'pants',
+  chinos: 'pants',
+  chino: 'pants',
+  jeans: 'pants',
+  joggers: 'pants',
+  top: 'tops',
+  bottom: 'bottoms',
+};
+
+// Filler words that would otherwise match every product description
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'at', 'but', 'by', 'for', 'from', 'i', 'in', 'is', 'it', 'me', 'my', 'of', 'on', 'or',
+  'some', 'something', 'that', 'the', 'this', 'to', 'what', 'which', 'with', 'you', 'your',
+]);
+
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/t-shirt/g, 'tshirt')
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean)
+    .map(token => SYNONYMS[token] ?? token);
+}
+
+export function queryTerms(query: string): Set<string> {
+  return new Set(tokenize(query).filter(token => !STOPWORDS.has(token)));
+}
+
+// Title words count double so "shirt" ranks shirts above shirt-adjacent tags
+export function relevance(product: Product, terms: Set<string>): number {
+  const title = new Set(tokenize(product.title));
+  const other = new Set(
+    tokenize([product.brand, product.category, product.description, ...product.tags, ...product.variants.map(v => v.color)].join(' ')),
+  );
+  let score = 0;
+  for (const term of terms) {
+    if (title.has(term)) score += 2;
+    else if (other.has(term)) score += 1;
+  }
+  return score;
+}
@@ -0,0 +1,45 @@
+import type { Product } from '../types';
+import type { CatalogSource } from './types';
+
+export type CachedCatalogSource = CatalogSource & {
+  // Drops the cached list so the next read refetches
+  revalidate(): Promise<void>;
+};
+
+// Stale-while-revalidate cache around a slow source: a fresh list is served
+// from memory, a stale one is served while a refresh runs in the background,
+// and a failed refresh keeps serving the last good list.
+export function withCache(source: CatalogSource, ttlMs: number): CachedCatalogSource {
+  let products: Product[] | null = null;
+  let fetchedAt = 0;
+  let pending: Promise<Product[]> | null = null;
+
+  function refresh(): Promise<Product[]> {
+    pending ??= source
+      .listProducts()
+      .then(result => {
+        products = result;
+        fetchedAt = Date.now();
+        return result;
+      })
+      .finally(() => {
+        pending = null;
+      });
+    return pending;
+  }
+
+  return {
+    name: source.name,
+    async listProducts() {
+      if (!products) return refresh();
+      if (Date.now() - fetchedAt > ttlMs) {
+        refresh().catch(error => console.error(`Catalog: background refresh of ${source.name} failed:`, error));
+      }
+      return products;
+    },
+    async revalidate() {
+      fetchedAt = 0;
+      await refresh();
+    },
+  };
+}
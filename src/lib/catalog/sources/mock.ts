@@ -0,0 +1,9 @@
+import { MOCK_PRODUCTS } from '../data';
+import type { CatalogSource } from './types';
+
+export function createMockCatalogSource(): CatalogSource {
+  return {
+    name: 'mock',
+    listProducts: async () => MOCK_PRODUCTS,
+  };
+}
@@ -0,0 +1,46 @@
+import { CatalogSourceError } from '../types';
+
+export type StorefrontConfig = {
+  // "my-shop.myshopify.com", or a full URL such as http://localhost:4010 for a stub
+  domain: string;
+  token: string;
+  apiVersion: string;
+};
+
+export type StorefrontRequest = <T>(query: string, variables?: Record<string, unknown>) => Promise<T>;
+
+function endpoint({ domain, apiVersion }: StorefrontConfig): string {
+  const base = /^https?:\/\//.test(domain) ? domain.replace(/\/+$/, '') : `https://${domain}`;
+  return `${base}/api/${apiVersion}/graphql.json`;
+}
+
+// Minimal Storefront GraphQL client: one POST per query, errors normalized to
+// CatalogSourceError
+export function createStorefrontClient(config: StorefrontConfig, timeoutMs = 10_000): StorefrontRequest {
+  const url = endpoint(config);
+  return async <T>(query: string, variables: Record<string, unknown> = {}) => {
+    let res: Response;
+    try {
+      res = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Shopify-Storefront-Access-Token': config.token,
+        },
+        body: JSON.stringify({ query, variables }),
+        signal: AbortSignal.timeout(timeoutMs),
+        cache: 'no-store',
+      });
+    } catch (error) {
+      throw new CatalogSourceError('shopify', `Failed to reach Shopify: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    if (!res.ok) {
+      throw new CatalogSourceError('shopify', `Shopify Storefront API returned HTTP ${res.status}`);
+    }
+    const json = await res.json();
+    if (json.errors?.length) {
+      throw new CatalogSourceError('shopify', `Shopify GraphQL error: ${json.errors.map((e: { message: string }) => e.message).join('; ')}`);
+    }
+    return json.data as T;
+  };
+}
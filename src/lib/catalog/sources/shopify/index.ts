@@ -0,0 +1,47 @@
+import type { Product } from '../../types';
+import { CatalogSourceError, type CatalogSource } from '../types';
+import { createStorefrontClient, type StorefrontConfig, type StorefrontRequest } from './client';
+import fixture from './fixtures/products.json';
+import { mapStorefrontProduct } from './mapping';
+import { PRODUCTS_QUERY, type ProductsQueryResult } from './queries';
+
+const PAGE_SIZE = 100;
+// Guard against runaway pagination on very large shops
+const MAX_PAGES = 20;
+
+// Serves a recorded Storefront response so the adapter can be developed and
+// exercised offline. Image URLs point at local assets.
+export function createFixtureStorefrontClient(): StorefrontRequest {
+  return async <T>() => fixture.data as unknown as T;
+}
+
+export function createShopifyCatalogSource(request: StorefrontRequest): CatalogSource {
+  async function listProducts(): Promise<Product[]> {
+    const products: Product[] = [];
+    let after: string | null = null;
+    for (let page = 0; page < MAX_PAGES; page++) {
+      const result: ProductsQueryResult = await request<ProductsQueryResult>(PRODUCTS_QUERY, { first: PAGE_SIZE, after });
+      for (const node of result.products.nodes) {
+        const product = mapStorefrontProduct(node);
+        if (product) products.push(product);
+        else console.warn(`Catalog: skipping Shopify product ${node.handle}, no known category for "${node.productType}"`);
+      }
+      if (!result.products.pageInfo.hasNextPage) return products;
+      after = result.products.pageInfo.endCursor;
+    }
+    console.warn(`Catalog: stopped after ${MAX_PAGES} pages of Shopify products`);
+    return products;
+  }
+
+  return { name: 'shopify', listProducts };
+}
+
+export function shopifyConfigFromEnv(env: NodeJS.ProcessEnv = process.env): StorefrontConfig {
+  const { SHOPIFY_STORE_DOMAIN: domain, SHOPIFY_STOREFRONT_TOKEN: token } = env;
+  if (!domain || !token) {
+    throw new CatalogSourceError('shopify', 'SHOPIFY_STORE_DOMAIN and SHOPIFY_STOREFRONT_TOKEN are required');
+  }
+  return { domain, token, apiVersion: env.SHOPIFY_API_VERSION || '2025-04' };
+}
+
+export { createStorefrontClient };
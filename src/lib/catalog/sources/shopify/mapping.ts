@@ -0,0 +1,75 @@
+import { parseMoney } from '../../money';
+import type { Product, ProductCategory, ProductGarment, ProductVariant } from '../../types';
+import type { StorefrontProduct } from './queries';
+
+// Shopify product types and tags are free text; map them onto our categories
+const CATEGORY_PATTERNS: [ProductCategory, RegExp][] = [
+  ['bottoms', /\b(pants?|trousers?|jeans|chinos?|shorts|skirts?|joggers?|leggings|bottoms?)\b/i],
+  ['tops', /\b(shirts?|t-?shirts?|tees?|tops?|blouses?|sweaters?|hoodies?|sweatshirts?|jackets?|polos?|tanks?)\b/i],
+];
+
+function categoryFor(node: StorefrontProduct): ProductCategory | undefined {
+  const text = [node.productType, node.title, ...node.tags].join(' ');
+  return CATEGORY_PATTERNS.find(([, pattern]) => pattern.test(text))?.[0];
+}
+
+// "gid://shopify/Product/8123" -> "8123"
+function shortId(gid: string): string {
+  return gid.split('/').pop() || gid;
+}
+
+function option(options: { name: string; value: string }[], name: string): string | undefined {
+  return options.find(o => o.name.toLowerCase() === name)?.value;
+}
+
+// The first GLB among the product's 3D model media; Shopify also offers USDZ
+// renditions for iOS, which the viewer can't load
+function garmentFor(node: StorefrontProduct): ProductGarment | undefined {
+  for (const media of node.media?.nodes ?? []) {
+    if (media.mediaContentType !== 'MODEL_3D') continue;
+    const glb = media.sources?.find(source => source.format === 'glb' || source.mimeType === 'model/gltf-binary');
+    if (glb) return { url: glb.url };
+  }
+  return undefined;
+}
+
+// Returns null for products we cannot place in a category; the caller logs them
+export function mapStorefrontProduct(node: StorefrontProduct): Product | null {
+  const category = categoryFor(node);
+  if (!category) return null;
+  const price = parseMoney(node.priceRange.minVariantPrice.amount, node.priceRange.minVariantPrice.currencyCode);
+  const id = shortId(node.id);
+  const garment = garmentFor(node);
+
+  const variants: ProductVariant[] = node.variants.nodes.map((variant, index) => {
+    const variantPrice = parseMoney(variant.price.amount, variant.price.currencyCode);
+    return {
+      sku: variant.sku || `${id}-${index}`,
+      size: option(variant.selectedOptions, 'size') ?? 'One Size',
+      color: option(variant.selectedOptions, 'color') ?? option(variant.selectedOptions, 'colour') ?? 'Default',
+      ...(variantPrice.amount !== price.amount ? { price: variantPrice } : {}),
+      // Without inventory access, treat "available" as a single unit in stock
+      stock: variant.quantityAvailable ?? (variant.availableForSale ? 1 : 0),
+    };
+  });
+
+  return {
+    id,
+    handle: node.handle,
+    title: node.title,
+    description: node.description,
+    brand: node.vendor,
+    category,
+    images: node.images.nodes.map(image => ({
+      url: image.url,
+      alt: image.altText || node.title,
+      ...(image.width ? { width: image.width } : {}),
+      ...(image.height ? { height: image.height } : {}),
+    })),
+    price,
+    variants,
+    tags: node.tags,
+    createdAt: node.publishedAt,
+    ...(garment ? { garment } : {}),
+  };
+}
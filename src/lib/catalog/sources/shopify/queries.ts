@@ -0,0 +1,100 @@
+export const PRODUCTS_QUERY = /* GraphQL */ `
+  query CatalogProducts($first: Int!, $after: String) {
+    products(first: $first, after: $after, sortKey: CREATED_AT, reverse: true) {
+      pageInfo {
+        hasNextPage
+        endCursor
+      }
+      nodes {
+        id
+        handle
+        title
+        description
+        vendor
+        productType
+        tags
+        publishedAt
+        priceRange {
+          minVariantPrice {
+            amount
+            currencyCode
+          }
+        }
+        images(first: 10) {
+          nodes {
+            url
+            altText
+            width
+            height
+          }
+        }
+        media(first: 10) {
+          nodes {
+            mediaContentType
+            ... on Model3d {
+              sources {
+                url
+                format
+                mimeType
+              }
+            }
+          }
+        }
+        variants(first: 100) {
+          nodes {
+            sku
+            availableForSale
+            quantityAvailable
+            selectedOptions {
+              name
+              value
+            }
+            price {
+              amount
+              currencyCode
+            }
+          }
+        }
+      }
+    }
+  }
+`;
+
+export type StorefrontMoney = { amount: string; currencyCode: string };
+
+export type StorefrontProduct = {
+  id: string;
+  handle: string;
+  title: string;
+  description: string;
+  vendor: string;
+  productType: string;
+  tags: string[];
+  publishedAt: string;
+  priceRange: { minVariantPrice: StorefrontMoney };
+  images: { nodes: { url: string; altText: string | null; width: number | null; height: number | null }[] };
+  // 3D models are the nodes with mediaContentType MODEL_3D
+  media?: {
+    nodes: {
+      mediaContentType: string;
+      sources?: { url: string; format: string; mimeType: string }[];
+    }[];
+  };
+  variants: {
+    nodes: {
+      sku: string | null;
+      availableForSale: boolean;
+      // Null unless the token has the unauthenticated_read_product_inventory scope
+      quantityAvailable: number | null;
+      selectedOptions: { name: string; value: string }[];
+      price: StorefrontMoney;
+    }[];
+  };
+};
+
+export type ProductsQueryResult = {
+  products: {
+    pageInfo: { hasNextPage: boolean; endCursor: string | null };
+    nodes: StorefrontProduct[];
+  };
+};
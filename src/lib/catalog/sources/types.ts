@@ -0,0 +1,18 @@
+import type { Product } from '../types';
+
+// Where catalog data comes from. Sources only need to list products; search,
+// filtering and pagination happen on top of that list.
+export interface CatalogSource {
+  readonly name: string;
+  listProducts(): Promise<Product[]>;
+}
+
+export class CatalogSourceError extends Error {
+  readonly source: string;
+
+  constructor(source: string, message: string) {
+    super(message);
+    this.name = 'CatalogSourceError';
+    this.source = source;
+  }
+}
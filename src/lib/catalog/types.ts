@@ -0,0 +1,49 @@
+// ISO 4217 currency code, e.g. "USD"
+export type CurrencyCode = string;
+
+// Amounts are integer minor units (cents) to avoid floating point drift
+export type Money = {
+  amount: number;
+  currency: CurrencyCode;
+};
+
+export type ProductCategory = 'tops' | 'bottoms';
+
+export type ProductImage = {
+  url: string;
+  alt: string;
+  width?: number;
+  height?: number;
+};
+
+// A 3D model of the garment for the try-on viewer, modelled on a reference
+// body (see src/lib/garments.ts) so it can be fitted to any avatar
+export type ProductGarment = {
+  url: string;
+};
+
+export type ProductVariant = {
+  sku: string;
+  size: string;
+  color: string;
+  // Overrides the product price when set
+  price?: Money;
+  stock: number;
+};
+
+export type Product = {
+  id: string;
+  handle: string;
+  title: string;
+  description: string;
+  brand: string;
+  category: ProductCategory;
+  images: ProductImage[];
+  // Base price; variants may override it
+  price: Money;
+  variants: ProductVariant[];
+  tags: string[];
+  createdAt: string;
+  // Only products with a 3D model can be tried on the avatar
+  garment?: ProductGarment;
+};
@@ -0,0 +1,249 @@
+import { Bone, Box3, Matrix4, Mesh, Object3D, Skeleton, SkinnedMesh, Vector3 } from 'three';
+import type { ProductCategory } from '@/lib/catalog/types';
+
+// Garment GLBs are modelled on this body: metres, +Y up, facing +Z, feet at
+// the origin. Shoulders and hips are where a rig puts the arm and leg
+// joints, not the outline of the body. Skinned garments use the skeleton in
+// scripts/generate-mock-models.mjs, whose joints these are.
+const REFERENCE_BODY = {
+  height: 1.75,
+  shoulderY: 1.42,
+  shoulderWidth: 0.5,
+  hipY: 0.86,
+  hipWidth: 0.2,
+};
+
+// A little room between skin and cloth
+const EASE = 1.04;
+// Joint spacing varies more between rigs than between bodies, so no ratio
+// strays further than this from what the avatar's height alone would give
+const RATIO_RANGE: [number, number] = [0.75, 1.35];
+
+type Joint = { bone: Bone; inverse: Matrix4; rest: Matrix4; position: Vector3 };
+
+// Avatar proportions in the space garments are placed in: the skin's bind
+// space for rigged avatars, the body mesh's own space otherwise
+type Body = {
+  mesh: Mesh;
+  joints: Joint[];
+  floorY: number;
+  height: number;
+  shoulderY: number;
+  shoulderWidth: number;
+  hipY: number;
+  hipWidth: number;
+  centre: Vector3;
+  chest?: Joint;
+  hips?: Joint;
+};
+
+const bodies = new WeakMap<Object3D, Body | null>();
+
+function vertexCount(mesh: Mesh): number {
+  return mesh.geometry.getAttribute('position')?.count ?? 0;
+}
+
+// The body is the biggest skinned mesh, or the biggest mesh of an unrigged
+// avatar. Garments already attached don't count.
+function bodyMesh(avatar: Object3D): Mesh | undefined {
+  let body: Mesh | undefined;
+  avatar.traverse(object => {
+    if (object.userData.garment || !(object instanceof Mesh)) return;
+    const better = !body
+      || (object instanceof SkinnedMesh && !(body instanceof SkinnedMesh))
+      || ((object instanceof SkinnedMesh) === (body instanceof SkinnedMesh) && vertexCount(object) > vertexCount(body));
+    if (better) body = object;
+  });
+  return body;
+}
+
+function named(joints: Joint[], include: RegExp, exclude?: RegExp): Joint[] {
+  return joints.filter(joint => include.test(joint.bone.name) && !exclude?.test(joint.bone.name));
+}
+
+// One joint each side of the centre line, the one `better` prefers
+function pair(joints: Joint[], centreX: number, better: (a: Joint, b: Joint) => boolean): [Joint, Joint] | undefined {
+  let left: Joint | undefined;
+  let right: Joint | undefined;
+  for (const joint of joints) {
+    if (joint.position.x > centreX && (!left || better(joint, left))) left = joint;
+    if (joint.position.x < centreX && (!right || better(joint, right))) right = joint;
+  }
+  return left && right ? [left, right] : undefined;
+}
+
+function measure(avatar: Object3D): Body | null {
+  const mesh = bodyMesh(avatar);
+  if (!mesh) return null;
+  mesh.geometry.computeBoundingBox();
+  const box = new Box3().copy(mesh.geometry.boundingBox!);
+
+  // A bone's rest pose is the inverse of its inverse bind matrix
+  let joints: Joint[] = [];
+  if (mesh instanceof SkinnedMesh) {
+    box.applyMatrix4(mesh.bindMatrix);
+    joints = mesh.skeleton.bones.map((bone, i) => {
+      const inverse = mesh.skeleton.boneInverses[i];
+      const rest = inverse.clone().invert();
+      return { bone, inverse, rest, position: new Vector3().setFromMatrixPosition(rest) };
+    });
+  }
+
+  const floorY = box.min.y;
+  const height = box.max.y - floorY;
+  const k = height / REFERENCE_BODY.height;
+  const centre = box.getCenter(new Vector3());
+
+  const hips = named(joints, /hips|pelvis/i)[0];
+  if (hips) centre.set(hips.position.x, centre.y, hips.position.z);
+  const chest = named(joints, /spine|chest/i).sort((a, b) => b.position.y - a.position.y)[0];
+  // Upper arms sit further out than collarbones; thighs are the highest leg bones
+  const arms = pair(named(joints, /arm|shoulder|clavicle/i, /fore|lower|hand|finger|twist/i), centre.x, (a, b) => Math.abs(a.position.x - centre.x) > Math.abs(b.position.x - centre.x));
+  const legs = pair(named(joints, /leg|thigh/i, /lower|calf|shin|knee|foot|toe/i), centre.x, (a, b) => a.position.y > b.position.y);
+
+  return {
+    mesh,
+    joints,
+    floorY,
+    height,
+    shoulderY: arms ? (arms[0].position.y + arms[1].position.y) / 2 : floorY + REFERENCE_BODY.shoulderY * k,
+    shoulderWidth: arms ? arms[0].position.x - arms[1].position.x : REFERENCE_BODY.shoulderWidth * k,
+    hipY: legs ? (legs[0].position.y + legs[1].position.y) / 2 : hips?.position.y ?? floorY + REFERENCE_BODY.hipY * k,
+    hipWidth: legs ? legs[0].position.x - legs[1].position.x : REFERENCE_BODY.hipWidth * k,
+    centre,
+    chest,
+    hips,
+  };
+}
+
+function nearest(joints: Joint[], point: Vector3): Joint | undefined {
+  let best: Joint | undefined;
+  for (const joint of joints) {
+    if (!best || joint.position.distanceToSquared(point) < best.position.distanceToSquared(point)) best = joint;
+  }
+  return best;
+}
+
+// Where the reference garment goes on this body. Tops map the reference
+// shoulder line onto the avatar's shoulders and stretch to its torso; bottoms
+// stand on its floor and stretch to its hips. Widths follow the joint spacing.
+function placement(body: Body, category: ProductCategory): Matrix4 {
+  const k = body.height / REFERENCE_BODY.height;
+  const ratio = (value: number) => Math.min(Math.max(value, k * RATIO_RANGE[0]), k * RATIO_RANGE[1]);
+  const { centre } = body;
+  if (category === 'tops') {
+    const width = ratio(body.shoulderWidth / REFERENCE_BODY.shoulderWidth) * EASE;
+    const length = ratio((body.shoulderY - body.hipY) / (REFERENCE_BODY.shoulderY - REFERENCE_BODY.hipY));
+    return new Matrix4()
+      .makeTranslation(centre.x, body.shoulderY - REFERENCE_BODY.shoulderY * length, centre.z)
+      .multiply(new Matrix4().makeScale(width, length, width));
+  }
+  const width = ratio(body.hipWidth / REFERENCE_BODY.hipWidth) * EASE;
+  const length = ratio((body.hipY - body.floorY) / REFERENCE_BODY.hipY);
+  return new Matrix4()
+    .makeTranslation(centre.x, body.floorY, centre.z)
+    .multiply(new Matrix4().makeScale(width, length, width));
+}
+
+// Bone names without rig prefixes ("mixamorig:LeftArm") or separators
+function boneKey(name: string): string {
+  return name.toLowerCase().replace(/^.*[:|]/, '').replace(/[^a-z0-9]/g, '');
+}
+
+// Moves a skinned garment mesh into the avatar's bind space and skins it to
+// the avatar's bones. Each garment joint lands on the avatar joint of the same
+// name, dragging the vertices it weights along; joints the avatar lacks stay
+// where the placement puts them and follow the nearest avatar joint. Returns a
+// function that restores the mesh's own geometry and skeleton.
+function bindToBody(body: Body, mesh: SkinnedMesh, matrix: Matrix4): () => void {
+  const { geometry, skeleton, bindMatrix, frustumCulled } = mesh;
+  const byName = new Map(body.joints.map(joint => [boneKey(joint.bone.name), joint]));
+  const offsets: Vector3[] = [];
+  const joints = skeleton.boneInverses.map((inverse, i) => {
+    const placed = new Vector3().setFromMatrixPosition(inverse.clone().invert()).applyMatrix4(matrix);
+    const joint = byName.get(boneKey(skeleton.bones[i].name));
+    offsets.push(joint ? joint.position.clone().sub(placed) : new Vector3());
+    return joint ?? nearest(body.joints, placed)!;
+  });
+
+  const fitted = geometry.clone();
+  const position = fitted.getAttribute('position');
+  const normal = fitted.getAttribute('normal');
+  const skinIndex = fitted.getAttribute('skinIndex');
+  const skinWeight = fitted.getAttribute('skinWeight');
+  const toBody = matrix.clone().multiply(bindMatrix);
+  const scale = new Vector3().setFromMatrixScale(matrix);
+  const vertex = new Vector3();
+  for (let i = 0; i < position.count; i++) {
+    vertex.fromBufferAttribute(position, i).applyMatrix4(toBody);
+    for (let k = 0; k < skinWeight.itemSize; k++) {
+      const weight = skinWeight.getComponent(i, k);
+      if (weight > 0) vertex.addScaledVector(offsets[skinIndex.getComponent(i, k)], weight);
+    }
+    position.setXYZ(i, vertex.x, vertex.y, vertex.z);
+    if (normal) {
+      vertex.fromBufferAttribute(normal, i).transformDirection(bindMatrix).divide(scale).normalize();
+      normal.setXYZ(i, vertex.x, vertex.y, vertex.z);
+    }
+  }
+  fitted.boundingBox = null;
+  fitted.boundingSphere = null;
+
+  const original = { geometry, skeleton, bindMatrix: bindMatrix.clone() };
+  const fittedSkeleton = new Skeleton(joints.map(joint => joint.bone), joints.map(joint => joint.inverse.clone()));
+  mesh.geometry = fitted;
+  mesh.bind(fittedSkeleton, new Matrix4());
+  // Its bounds no longer say where the bones put it
+  mesh.frustumCulled = false;
+  return () => {
+    mesh.geometry = original.geometry;
+    mesh.bind(original.skeleton, original.bindMatrix);
+    mesh.frustumCulled = frustumCulled;
+    fitted.dispose();
+    fittedSkeleton.dispose();
+  };
+}
+
+// Fits a garment to the avatar so its animations carry it along. Skinned
+// garments are rebound to the avatar's skeleton, bone by bone. Anything else
+// hangs rigidly from the bone nearest where it is worn: tops from the chest,
+// bottoms from the hips. Unrigged avatars take it on the body mesh, which node
+// animations still move. Proportions come from the rest pose, so fitting
+// mid-animation is fine. Returns a function that takes the garment off again.
+export function attachGarment(avatar: Object3D, garment: Object3D, category: ProductCategory): () => void {
+  if (!bodies.has(avatar)) bodies.set(avatar, measure(avatar));
+  const body = bodies.get(avatar);
+  if (!body) return () => {};
+
+  const matrix = placement(body, category);
+  const skinned: SkinnedMesh[] = [];
+  garment.traverse(object => {
+    object.userData.garment = true;
+    if (object instanceof SkinnedMesh) skinned.push(object);
+  });
+
+  if (body.joints.length > 0 && skinned.length > 0) {
+    const unbind = skinned.map(mesh => bindToBody(body, mesh, matrix));
+    avatar.add(garment);
+    return () => {
+      avatar.remove(garment);
+      unbind.forEach(restore => restore());
+    };
+  }
+
+  let anchor: Object3D = body.mesh;
+  if (body.joints.length > 0) {
+    const target = new Vector3(body.centre.x, category === 'tops' ? body.shoulderY : body.hipY, body.centre.z);
+    const joint = (category === 'tops' ? body.chest : body.hips) ?? nearest(body.joints, target)!;
+    anchor = joint.bone;
+    // From bind space into the bone's space
+    matrix.premultiply(joint.rest.clone().invert());
+  }
+
+  garment.matrixAutoUpdate = false;
+  garment.matrix.copy(matrix);
+  anchor.add(garment);
+  return () => {
+    anchor.remove(garment);
+  };
+}
@@ -0,0 +1,138 @@
+import { randomBytes } from 'crypto';
+import { PhotoError, preprocessPhoto, type PhotoProfile } from '@/lib/photos';
+import { getStorage, isStorageKey, storeUpload } from '@/lib/storage';
+import { getThreeDProvider } from '@/lib/three-d';
+import { ACTIVE_STATUSES, isFinished, jobs, updateJob } from './records';
+import { startJobWorker } from './worker';
+import type { Job, JobViews, PublicJob } from './types';
+
+export { isFinished, subscribeToJob } from './records';
+export { startJobWorker } from './worker';
+export * from './types';
+
+// How many past jobs GET /api/jobs returns
+const MAX_LISTED_JOBS = 20;
+
+// Sides a multi-view avatar can have besides the front
+export const EXTRA_VIEWS: (keyof JobViews)[] = ['side', 'back'];
+
+export class JobError extends Error {
+  readonly status: number;
+  readonly job?: Job;
+
+  constructor(message: string, status: number, job?: Job) {
+    super(message);
+    this.name = 'JobError';
+    this.status = status;
+    this.job = job;
+  }
+}
+
+export function toPublicJob(job: Job): PublicJob {
+  const { id, kind, status, stage, progress, modelUrl, error, createdAt, updatedAt, finishedAt } = job;
+  return { id, kind, status, stage, progress, modelUrl, error, createdAt, updatedAt, finishedAt };
+}
+
+// Newest first
+export async function listJobs(ownerKey: string | undefined): Promise<Job[]> {
+  if (!ownerKey) return [];
+  return (await jobs.list())
+    .filter(job => job.ownerKey === ownerKey)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    .slice(0, MAX_LISTED_JOBS);
+}
+
+// Other shoppers' jobs look the same as missing ones
+export async function getJobForOwner(id: string, ownerKey: string | undefined): Promise<Job | undefined> {
+  const job = await jobs.get(id);
+  return job && ownerKey && job.ownerKey === ownerKey ? job : undefined;
+}
+
+// { side?, back? } of upload keys from a request body, or null if malformed
+export function parseViewKeys(value: unknown): JobViews | null {
+  if (value === undefined) return {};
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return null;
+  const views: JobViews = {};
+  for (const [view, key] of Object.entries(value)) {
+    if (!EXTRA_VIEWS.includes(view as keyof JobViews) || (key !== undefined && typeof key !== 'string')) return null;
+    if (key) views[view as keyof JobViews] = key;
+  }
+  return views;
+}
+
+// Checks and normalizes one photo stored by /api/upload. `view` labels its
+// PhotoError when the photo is one of several.
+async function preparePhoto(uploadKey: string, profile: PhotoProfile, view?: string): Promise<string> {
+  if (!isStorageKey(uploadKey)) throw new JobError('Invalid upload key', 400);
+  const upload = await getStorage().get(uploadKey);
+  if (!upload) throw new JobError('Upload not found', 404);
+  try {
+    const photo = await preprocessPhoto(upload.body, profile);
+    return (await storeUpload(photo.body)).key;
+  } catch (error) {
+    throw error instanceof PhotoError && view ? error.forView(view) : error;
+  }
+}
+
+// Queues avatar generation from a photo stored by /api/upload, plus side and
+// back photos for a multi-view avatar. Photos are checked and normalized
+// here, so bad photos fail fast with a PhotoError instead of as a failed
+// job. One job per shopper at a time.
+export async function createAvatarJob(ownerKey: string, uploadKey: string, views: JobViews = {}): Promise<Job> {
+  const provider = getThreeDProvider();
+  const active = (await listJobs(ownerKey)).find(job => ACTIVE_STATUSES.includes(job.status));
+  if (active) throw new JobError('An avatar is already being generated', 409, active);
+
+  const multiView = Object.keys(views).length > 0;
+  const photoKey = await preparePhoto(uploadKey, provider.photoProfile, multiView ? 'front' : undefined);
+  const viewKeys: JobViews = {};
+  for (const view of EXTRA_VIEWS) {
+    const key = views[view];
+    if (key) viewKeys[view] = await preparePhoto(key, provider.photoProfile, view);
+  }
+
+  const now = new Date().toISOString();
+  const id = `job_${randomBytes(8).toString('hex')}`;
+  const job = await jobs.put(id, {
+    id,
+    ownerKey,
+    kind: 'avatar_generation',
+    status: 'queued',
+    stage: 'model',
+    progress: 0,
+    photoKey,
+    ...(multiView ? { viewKeys } : {}),
+    provider: provider.name,
+    polls: 0,
+    failures: 0,
+    nextRunAt: now,
+    createdAt: now,
+    updatedAt: now,
+  });
+  startJobWorker();
+  return job;
+}
+
+// Stops a queued or running job. The provider task is cancelled where the
+// provider allows it; either way its result is ignored from now on.
+export async function cancelJob(id: string, ownerKey: string | undefined): Promise<Job> {
+  const job = await getJobForOwner(id, ownerKey);
+  if (!job) throw new JobError('Job not found', 404);
+  if (isFinished(job)) throw new JobError(`This job has already ${job.status === 'cancelled' ? 'been cancelled' : 'finished'}`, 409, job);
+  const now = new Date().toISOString();
+  const cancelled = (await updateJob(id, current => ({ ...current, status: 'cancelled', finishedAt: now })))!;
+  if (job.taskId) {
+    await getThreeDProvider(job.provider).cancel(job.taskId).catch(error => {
+      console.error(`Jobs: could not cancel ${job.provider} task for ${id}:`, error);
+    });
+  }
+  return cancelled;
+}
+
+// Moves an anonymous shopper's jobs to their account on sign-in
+export async function claimJobs(fromKey: string, toKey: string): Promise<void> {
+  if (fromKey === toKey) return;
+  for (const job of await jobs.list()) {
+    if (job.ownerKey === fromKey) await jobs.update(job.id, current => current && { ...current, ownerKey: toKey });
+  }
+}
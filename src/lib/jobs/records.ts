@@ -0,0 +1,36 @@
+import { EventEmitter } from 'events';
+import { collection } from '@/lib/store';
+import type { Job, JobStatus } from './types';
+
+export const jobs = collection<Job>('jobs');
+
+export const ACTIVE_STATUSES: JobStatus[] = ['queued', 'running'];
+
+export function isFinished(job: Job): boolean {
+  return !ACTIVE_STATUSES.includes(job.status);
+}
+
+// Job changes for /api/jobs/[id]/events. Kept on globalThis so the worker and
+// every route bundle share one emitter.
+const globalForJobs = globalThis as typeof globalThis & { __virtuFitJobEvents?: EventEmitter };
+const events = (globalForJobs.__virtuFitJobEvents ??= new EventEmitter().setMaxListeners(0));
+
+export function subscribeToJob(id: string, listener: (job: Job) => void): () => void {
+  events.on(id, listener);
+  return () => {
+    events.off(id, listener);
+  };
+}
+
+// Read-modify-write that stamps updatedAt and tells subscribers
+export async function updateJob(id: string, fn: (job: Job) => Job): Promise<Job | undefined> {
+  const updated = await jobs.update(id, current => current && { ...fn(current), updatedAt: new Date().toISOString() });
+  if (updated) events.emit(id, updated);
+  return updated;
+}
+
+// Like updateJob, but leaves finished jobs alone, so a worker result that
+// arrives after a cancellation doesn't revive the job
+export async function updateActiveJob(id: string, fn: (job: Job) => Job): Promise<Job | undefined> {
+  return updateJob(id, current => (isFinished(current) ? current : fn(current)));
+}
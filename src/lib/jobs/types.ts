@@ -0,0 +1,57 @@
+import type { ThreeDProviderName, ThreeDView } from '@/lib/three-d/types';
+
+export type JobKind = 'avatar_generation';
+
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+export type JobFailure = {
+  message: string;
+  // Provider error code, when the provider gave one
+  code?: number | string;
+  suggestion?: string;
+};
+
+// Each stage is a provider task: the model itself, then, for providers that
+// can rig, a skeleton and the animation clips
+export type JobStage = 'model' | 'rig' | 'animate';
+
+// Extra photos for a multi-view avatar, by side; storage keys like photoKey
+export type JobViews = Partial<Record<Exclude<ThreeDView, 'front'>, string>>;
+
+export type Job = {
+  id: string;
+  // shopperKey() of whoever started the job
+  ownerKey: string;
+  kind: JobKind;
+  status: JobStatus;
+  // 0-100, as reported by the provider
+  progress: number;
+  // Preprocessed photo in storage; the front one for a multi-view avatar
+  photoKey: string;
+  viewKeys?: JobViews;
+  // Image-to-3D provider the job was started with, and keeps polling
+  provider: ThreeDProviderName;
+  // Missing on jobs from before rigging, which only have a model stage
+  stage?: JobStage;
+  // Provider task of the current stage, once submitted
+  taskId?: string;
+  // Finished tasks of earlier stages, which later ones build on
+  stageTaskIds?: Partial<Record<JobStage, string>>;
+  // The model before rigging, handed out instead if rigging fails
+  baseModelUrl?: string;
+  modelUrl?: string;
+  // Rendered preview: an upload storage key, or a site path
+  thumbnail?: string;
+  error?: JobFailure;
+  // Status checks so far, for the polling backoff
+  polls: number;
+  // Consecutive failed provider calls; reset by a successful one
+  failures: number;
+  // When the worker should next look at the job
+  nextRunAt: string;
+  createdAt: string;
+  updatedAt: string;
+  finishedAt?: string;
+};
+
+export type PublicJob = Pick<Job, 'id' | 'kind' | 'status' | 'stage' | 'progress' | 'modelUrl' | 'error' | 'createdAt' | 'updatedAt' | 'finishedAt'>;
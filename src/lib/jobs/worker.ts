@@ -0,0 +1,268 @@
+import { cacheModel, cacheThumbnail } from '@/lib/models';
+import { getStorage, StorageError } from '@/lib/storage';
+import {
+  AVATAR_CLIPS,
+  getThreeDProvider,
+  ThreeDProviderError,
+  type ThreeDImageInput,
+  type ThreeDRigging,
+  type ThreeDTask,
+  type ThreeDViews,
+} from '@/lib/three-d';
+import { ACTIVE_STATUSES, jobs, updateActiveJob } from './records';
+import type { Job, JobFailure, JobStage, JobViews } from './types';
+
+// Background worker for generation jobs, running inside the Next.js server
+// process. Job state lives in the store, so after a restart the worker
+// picks up where it left off: queued jobs are submitted, running ones polled.
+
+// Providers usually take one to three minutes a task; anything this old has stalled
+const JOB_TIMEOUT_MS = 15 * 60 * 1000;
+// Consecutive failed provider calls before a job is given up on
+const MAX_FAILURES = 5;
+// Longest the worker sleeps, so a job created while a tick was running, which
+// doesn't wake it, still gets picked up
+const IDLE_TICK_MS = 5000;
+
+// Where each stage starts on the progress bar of a job that gets rigged;
+// one that doesn't spends all of it on the model
+const STAGE_START: Record<JobStage, number> = { model: 0, rig: 70, animate: 85 };
+const NEXT_STAGE: Partial<Record<JobStage, JobStage>> = { model: 'rig', rig: 'animate' };
+
+// AVATAR_RIGGING  "off" hands out the unrigged model, skipping the rig and animate stages
+function rigging(job: Job, env: NodeJS.ProcessEnv = process.env): ThreeDRigging | undefined {
+  return env.AVATAR_RIGGING === 'off' ? undefined : getThreeDProvider(job.provider).rigging;
+}
+
+// 2s, 3s, 4.5s, ... up to 15s between status checks
+function pollDelay(polls: number): number {
+  return Math.min(2000 * 1.5 ** polls, 15_000);
+}
+
+// 5s, 10s, 20s, ... up to a minute after a failed call
+function retryDelay(failures: number): number {
+  return Math.min(5000 * 2 ** (failures - 1), 60_000);
+}
+
+function after(ms: number): string {
+  return new Date(Date.now() + ms).toISOString();
+}
+
+async function fail(job: Job, error: JobFailure): Promise<void> {
+  console.error(`Jobs: ${job.id} failed:`, error.message);
+  const now = new Date().toISOString();
+  await updateActiveJob(job.id, current => ({ ...current, status: 'failed', error, finishedAt: now }));
+}
+
+async function succeed(job: Job, modelUrl: string, patch: Partial<Job> = {}): Promise<void> {
+  const now = new Date().toISOString();
+  await updateActiveJob(job.id, current => ({ ...current, ...patch, status: 'succeeded', progress: 100, modelUrl, failures: 0, finishedAt: now }));
+}
+
+// A model that couldn't be rigged is still a usable avatar, just a still one
+async function succeedUnrigged(job: Job, reason: unknown): Promise<void> {
+  console.warn(`Jobs: could not rig ${job.id}, keeping the unrigged model:`, reason);
+  if (!job.baseModelUrl) return fail(job, { message: 'Avatar generation finished without a model. Please try again.' });
+  await succeed(job, job.baseModelUrl);
+}
+
+async function loadPhoto(key: string): Promise<ThreeDImageInput | undefined> {
+  const photo = await getStorage().get(key);
+  return photo && { image: Buffer.from(photo.body), contentType: photo.contentType };
+}
+
+// A multi-view task when the job has side or back photos. If the provider
+// turns those down, the front photo is sent on its own rather than failing
+// the job.
+async function createModelTask(job: Job, views: ThreeDViews): Promise<string> {
+  const provider = getThreeDProvider(job.provider);
+  // Keyed by job, so a retry after a lost response doesn't start a second task
+  const options = { idempotencyKey: `job:${job.id}` };
+  if (views.side || views.back) {
+    try {
+      return (await provider.createMultiviewToModel(views, options)).taskId;
+    } catch (error) {
+      if (!(error instanceof ThreeDProviderError) || error.code !== 'invalid_request') throw error;
+      console.warn(`Jobs: ${job.provider} rejected the multi-view photos for ${job.id}, using the front one alone:`, error.message);
+    }
+  }
+  return (await provider.createImageToModel(views.front, options)).taskId;
+}
+
+// Rig and animate tasks build on the task of the stage before
+async function createRiggingTask(job: Job, stage: 'rig' | 'animate'): Promise<string> {
+  const tasks = rigging(job);
+  const previous = job.stageTaskIds?.[stage === 'rig' ? 'model' : 'rig'];
+  if (!tasks || !previous) throw new Error(`Nothing to ${stage} for ${job.id}`);
+  const options = { idempotencyKey: `job:${job.id}:${stage}` };
+  const { taskId } = stage === 'rig' ? await tasks.rig(previous, options) : await tasks.animate(previous, AVATAR_CLIPS, options);
+  return taskId;
+}
+
+async function submit(job: Job): Promise<void> {
+  const stage = job.stage ?? 'model';
+  let taskId: string;
+  if (stage === 'model') {
+    const front = await loadPhoto(job.photoKey);
+    if (!front) return fail(job, { message: 'The photo for this avatar is no longer available. Please upload it again.' });
+    const views: ThreeDViews = { front };
+    for (const [view, key] of Object.entries(job.viewKeys ?? {}) as [keyof JobViews, string][]) {
+      const photo = await loadPhoto(key);
+      if (photo) views[view] = photo;
+    }
+    taskId = await createModelTask(job, views);
+  } else {
+    taskId = await createRiggingTask(job, stage);
+  }
+  await updateActiveJob(job.id, current => ({ ...current, status: 'running', taskId, failures: 0, nextRunAt: after(pollDelay(0)) }));
+}
+
+// The model stage caches the model and preview, then moves on to rigging if
+// the provider can; the animate stage's model, with named clips, is the result
+async function finishStage(job: Job, taskId: string, task: ThreeDTask & { modelUrl: string }): Promise<void> {
+  const stage = job.stage ?? 'model';
+  const ref = `${job.provider}:${taskId}`;
+  if (stage === 'animate') return succeed(job, await cacheModel(task.modelUrl, ref, { clipNames: AVATAR_CLIPS }));
+
+  const next = NEXT_STAGE[stage]!;
+  const stageTaskIds = { ...job.stageTaskIds, [stage]: taskId };
+  const toNextStage = (patch: Partial<Job> = {}) => updateActiveJob(job.id, current => ({
+    ...current,
+    ...patch,
+    stage: next,
+    taskId: undefined,
+    stageTaskIds,
+    progress: STAGE_START[next],
+    polls: 0,
+    failures: 0,
+    nextRunAt: new Date().toISOString(),
+  }));
+  // The rig task's model is only a step towards the animated one
+  if (stage === 'rig') {
+    await toNextStage();
+    return;
+  }
+
+  // Provider links expire; the job hands out our own copy
+  const modelUrl = await cacheModel(task.modelUrl, ref);
+  // A missing preview isn't worth failing the job over
+  const thumbnail = task.thumbnailUrl && await cacheThumbnail(task.thumbnailUrl).catch(error => {
+    console.error(`Jobs: could not cache the thumbnail for ${job.id}:`, error);
+    return undefined;
+  });
+  const patch = thumbnail ? { thumbnail } : {};
+  if (!rigging(job)) return succeed(job, modelUrl, patch);
+  await toNextStage({ ...patch, baseModelUrl: modelUrl });
+}
+
+async function poll(job: Job, taskId: string): Promise<void> {
+  const task = await getThreeDProvider(job.provider).poll(taskId);
+  const stage = job.stage ?? 'model';
+  const now = new Date().toISOString();
+  if (task.status === 'succeeded') {
+    if (!task.modelUrl) {
+      if (stage !== 'model') return succeedUnrigged(job, `${stage} task finished without a model`);
+      return fail(job, { message: 'Avatar generation finished without a model. Please try again.' });
+    }
+    await finishStage(job, taskId, { ...task, modelUrl: task.modelUrl });
+  } else if (task.status === 'cancelled') {
+    await updateActiveJob(job.id, current => ({ ...current, status: 'cancelled', finishedAt: now }));
+  } else if (task.status === 'failed') {
+    console.error(`Jobs: ${job.id} ${job.provider} ${stage} task failed:`, task.error);
+    if (stage !== 'model') return succeedUnrigged(job, task.error);
+    await fail(job, { message: 'Avatar generation failed. Please try another photo.' });
+  } else {
+    // Scaled into the stage's share of the bar
+    const next = NEXT_STAGE[stage];
+    const from = STAGE_START[stage];
+    const to = next && rigging(job) ? STAGE_START[next] : 100;
+    const progress = Math.round(from + (task.progress / 100) * (to - from));
+    await updateActiveJob(job.id, current => ({
+      ...current,
+      progress: Math.max(current.progress, Math.min(progress, 99)),
+      polls: current.polls + 1,
+      failures: 0,
+      nextRunAt: after(pollDelay(current.polls + 1)),
+    }));
+  }
+}
+
+// Anything that isn't a provider or storage error (e.g. a network failure) is retried too
+function isRetryable(error: unknown): boolean {
+  if (error instanceof ThreeDProviderError) return error.retryable;
+  if (error instanceof StorageError) return error.code === 'unavailable';
+  return true;
+}
+
+function toFailure(error: unknown): JobFailure {
+  if (error instanceof ThreeDProviderError) {
+    return {
+      message: error.message,
+      ...(error.providerCode !== undefined ? { code: error.providerCode } : {}),
+      ...(error.suggestion ? { suggestion: error.suggestion } : {}),
+    };
+  }
+  if (error instanceof StorageError) return { message: 'The generated model could not be saved. Please try again.' };
+  return { message: 'Avatar generation is unavailable right now. Please try again later.' };
+}
+
+async function advance(job: Job): Promise<void> {
+  // Rigging that fails or stalls still leaves the unrigged model
+  const rigStage = job.stage === 'rig' || job.stage === 'animate';
+  if (Date.parse(job.createdAt) + JOB_TIMEOUT_MS < Date.now()) {
+    if (rigStage) return succeedUnrigged(job, 'timed out');
+    return fail(job, { message: 'Avatar generation took too long and was stopped. Please try again.' });
+  }
+  try {
+    if (job.taskId) await poll(job, job.taskId);
+    else await submit(job);
+  } catch (error) {
+    const failures = job.failures + 1;
+    if (!isRetryable(error) || failures >= MAX_FAILURES) return rigStage ? succeedUnrigged(job, error) : fail(job, toFailure(error));
+    console.error(`Jobs: ${job.id} attempt ${failures} failed, retrying:`, error);
+    await updateActiveJob(job.id, current => ({ ...current, failures, nextRunAt: after(retryDelay(failures)) }));
+  }
+}
+
+type WorkerState = { timer?: NodeJS.Timeout; running: boolean };
+
+const globalForWorker = globalThis as typeof globalThis & { __virtuFitJobWorker?: WorkerState };
+
+function schedule(state: WorkerState, delay: number) {
+  clearTimeout(state.timer);
+  state.timer = setTimeout(() => tick(state), delay);
+  state.timer.unref?.();
+}
+
+// Jobs are handled one at a time, oldest due first
+async function tick(state: WorkerState) {
+  state.running = true;
+  let next = IDLE_TICK_MS;
+  try {
+    const active = (await jobs.list()).filter(job => ACTIVE_STATUSES.includes(job.status));
+    const now = Date.now();
+    const due = active.filter(job => Date.parse(job.nextRunAt) <= now).sort((a, b) => a.nextRunAt.localeCompare(b.nextRunAt));
+    for (const job of due) await advance(job);
+    for (const job of await jobs.list()) {
+      if (ACTIVE_STATUSES.includes(job.status)) next = Math.min(next, Math.max(Date.parse(job.nextRunAt) - Date.now(), 250));
+    }
+  } catch (error) {
+    console.error('Jobs: worker tick failed:', error);
+  } finally {
+    state.running = false;
+    schedule(state, next);
+  }
+}
+
+// Idempotent; called on server start (src/instrumentation.ts) and whenever a
+// job is created, which also wakes a sleeping worker
+export function startJobWorker(): void {
+  const existing = globalForWorker.__virtuFitJobWorker;
+  if (!existing) {
+    const state: WorkerState = { running: false };
+    globalForWorker.__virtuFitJobWorker = state;
+    schedule(state, 0);
+  } else if (!existing.running) {
+    schedule(existing, 0);
+  }
+}
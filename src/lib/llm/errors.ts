@@ -0,0 +1,64 @@
+export type LLMErrorCode =
+  | 'configuration'
+  | 'authentication'
+  | 'rate_limited'
+  | 'invalid_request'
+  | 'unavailable'
+  | 'unknown';
+
+// Status we answer our own clients with for each failure class
+const STATUS_BY_CODE: Record<LLMErrorCode, number> = {
+  configuration: 500,
+  authentication: 502,
+  rate_limited: 429,
+  invalid_request: 400,
+  unavailable: 503,
+  unknown: 502,
+};
+
+export class LLMError extends Error {
+  readonly code: LLMErrorCode;
+  readonly provider: string;
+  readonly status: number;
+
+  constructor(code: LLMErrorCode, message: string, provider: string) {
+    super(message);
+    this.name = 'LLMError';
+    this.code = code;
+    this.provider = provider;
+    this.status = STATUS_BY_CODE[code];
+  }
+}
+
+function codeForStatus(status: number): LLMErrorCode {
+  if (status === 401 || status === 402 || status === 403) return 'authentication';
+  if (status === 429) return 'rate_limited';
+  if (status === 400 || status === 404 || status === 413 || status === 422) return 'invalid_request';
+  if (status >= 500) return 'unavailable';
+  return 'unknown';
+}
+
+// Pulls a readable message out of the different error envelopes providers use
+function extractMessage(body: string): string | undefined {
+  try {
+    const json = JSON.parse(body);
+    const message = json?.error?.message ?? json?.error ?? json?.message;
+    return typeof message === 'string' ? message : undefined;
+  } catch {
+    return body.trim() || undefined;
+  }
+}
+
+export function llmErrorFromResponse(provider: string, status: number, body: string): LLMError {
+  const detail = extractMessage(body);
+  return new LLMError(codeForStatus(status), detail ? `${provider}: ${detail}` : `${provider} returned HTTP ${status}`, provider);
+}
+
+export function toLLMError(error: unknown, provider: string): LLMError {
+  if (error instanceof LLMError) return error;
+  if (error instanceof Error && error.name === 'AbortError') {
+    return new LLMError('unavailable', `${provider}: request aborted`, provider);
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  return new LLMError('unavailable', `Failed to connect to ${provider}: ${message}`, provider);
+}
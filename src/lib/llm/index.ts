@@ -0,0 +1,64 @@
+import { LLMError } from './errors';
+import { createMockProvider } from './mock';
+import { createOpenAICompatibleProvider } from './openai-compatible';
+import { createOpenRouterProvider } from './openrouter';
+import type { LLMConfig, LLMProvider, LLMProviderName } from './types';
+
+export { LLMError } from './errors';
+export type { ChatMessage, LLMChunk, LLMConfig, LLMProvider, LLMRequest, LLMTool, LLMToolCall } from './types';
+
+const PROVIDERS: LLMProviderName[] = ['openrouter', 'openai-compatible', 'mock'];
+
+const DEFAULT_MODELS: Record<LLMProviderName, string> = {
+  'openrouter': 'openai/gpt-3.5-turbo',
+  'openai-compatible': 'llama3.1',
+  'mock': 'mock-stylist',
+};
+
+function numberFromEnv(value: string | undefined, fallback: number): number {
+  const parsed = value === undefined || value === '' ? NaN : Number(value);
+  return Number.isFinite(parsed) ? parsed : fallback;
+}
+
+// Configuration comes from the environment:
+//   LLM_PROVIDER     openrouter (default) | openai-compatible | mock
+//   LLM_MODEL        model id understood by the provider
+//   LLM_TEMPERATURE  sampling temperature (default 0.7)
+//   LLM_MAX_TOKENS   reply length cap (default 512)
+//   LLM_BASE_URL     server URL for openai-compatible, e.g. http://localhost:11434/v1
+//   LLM_API_KEY      key for openai-compatible servers that need one
+export function getLLMConfig(env: NodeJS.ProcessEnv = process.env): LLMConfig {
+  const provider = (env.LLM_PROVIDER || 'openrouter') as LLMProviderName;
+  if (!PROVIDERS.includes(provider)) {
+    throw new LLMError('configuration', `Unknown LLM_PROVIDER "${provider}"`, provider);
+  }
+  return {
+    provider,
+    model: env.LLM_MODEL || DEFAULT_MODELS[provider],
+    temperature: numberFromEnv(env.LLM_TEMPERATURE, 0.7),
+    maxTokens: numberFromEnv(env.LLM_MAX_TOKENS, 512),
+    baseUrl: env.LLM_BASE_URL || undefined,
+    apiKey: provider === 'openrouter' ? env.OPENROUTER_API_KEY : env.LLM_API_KEY,
+  };
+}
+
+export function getLLMProvider(config: LLMConfig = getLLMConfig()): LLMProvider {
+  switch (config.provider) {
+    case 'openrouter':
+      return createOpenRouterProvider(config);
+    case 'openai-compatible':
+      if (!config.baseUrl) {
+        throw new LLMError('configuration', 'LLM_BASE_URL is required for the openai-compatible provider', config.provider);
+      }
+      return createOpenAICompatibleProvider({
+        name: 'openai-compatible',
+        baseUrl: config.baseUrl,
+        apiKey: config.apiKey,
+        defaultModel: config.model,
+        defaultTemperature: config.temperature,
+        defaultMaxTokens: config.maxTokens,
+      });
+    case 'mock':
+      return createMockProvider();
+  }
+}
@@ -0,0 +1,60 @@
+import type { ChatMessage, LLMChunk, LLMProvider, LLMRequest, LLMToolCall } from './types';
+
+// Words that make the mock stylist look things up in the catalog
+const SHOPPING_PATTERN = /\b(shirts?|t-?shirts?|tees?|tops?|pants|trousers|chinos|jeans|outfits?|wear|buy|recommend|suggest|show)\b/i;
+const MEASUREMENT_PATTERN = /\b(chest|waist|hips|inseam|shoulder|height|weight)\D{0,6}(\d{2,3}(?:\.\d)?)/gi;
+
+// Offline stand-in: the same conversation always yields the same reply, so
+// the chat UI can be developed and exercised without network access.
+function mockReply(messages: ChatMessage[]): string {
+  const lastUserIndex = messages.map(m => m.role).lastIndexOf('user');
+  const lastUser = messages[lastUserIndex];
+  const turns = messages.filter(m => m.role === 'user').length;
+  const topic = lastUser?.content.trim().replace(/\s+/g, ' ').slice(0, 80) || 'your outfit';
+  const usedTools = messages.slice(lastUserIndex + 1).some(m => m.role === 'tool');
+  const lookedUp = usedTools ? ' I looked that up in our store for you.' : '';
+  return (
+    `[mock stylist, turn ${turns}] You asked about "${topic}".${lookedUp} ` +
+    'A safe bet is to pair one statement piece with neutral basics, keep the palette to two or three colors, ' +
+    'and choose a fit that follows your shoulders and waist without pulling.'
+  );
+}
+
+// Calls the available tools once per user turn, based on simple keyword rules
+function mockToolCalls(request: LLMRequest): LLMToolCall[] {
+  const { messages, tools = [] } = request;
+  const last = messages[messages.length - 1];
+  if (!last || last.role !== 'user') return [];
+  const available = new Set(tools.map(t => t.name));
+  const calls: LLMToolCall[] = [];
+  if (available.has('search_catalog') && SHOPPING_PATTERN.test(last.content)) {
+    calls.push({ id: 'mock_call_search', name: 'search_catalog', arguments: JSON.stringify({ query: last.content }) });
+  }
+  const measurements = Object.fromEntries(
+    [...last.content.matchAll(MEASUREMENT_PATTERN)].map(([, name, value]) => {
+      const measurement = name.toLowerCase();
+      return [`${measurement}_${measurement === 'weight' ? 'kg' : 'cm'}`, Number(value)];
+    }),
+  );
+  if (available.has('get_size_recommendation') && Object.keys(measurements).length) {
+    calls.push({ id: 'mock_call_size', name: 'get_size_recommendation', arguments: JSON.stringify(measurements) });
+  }
+  return calls;
+}
+
+export function createMockProvider(): LLMProvider {
+  async function* streamChat(request: LLMRequest): AsyncGenerator<LLMChunk> {
+    const calls = mockToolCalls(request);
+    if (calls.length) {
+      for (const call of calls) yield { type: 'tool_call', call };
+      return;
+    }
+    const words = mockReply(request.messages).split(/(?<= )/);
+    const limit = request.maxTokens ?? words.length;
+    for (const word of words.slice(0, limit)) {
+      if (request.signal?.aborted) return;
+      yield { type: 'text', text: word };
+    }
+  }
+  return { name: 'mock', streamChat };
+}
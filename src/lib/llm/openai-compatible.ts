@@ -0,0 +1,113 @@
+import { readSSE } from '@/lib/sse';
+import { LLMError, llmErrorFromResponse, toLLMError } from './errors';
+import type { ChatMessage, LLMChunk, LLMProvider, LLMRequest, LLMTool, LLMToolCall } from './types';
+
+export type OpenAICompatibleOptions = {
+  name: string;
+  baseUrl: string;
+  apiKey?: string;
+  defaultModel: string;
+  defaultTemperature: number;
+  defaultMaxTokens: number;
+  headers?: Record<string, string>;
+};
+
+function toWireMessage(message: ChatMessage) {
+  if (message.role === 'tool') {
+    return { role: 'tool', tool_call_id: message.toolCallId, content: message.content };
+  }
+  if (message.role === 'assistant' && message.toolCalls?.length) {
+    return {
+      role: 'assistant',
+      content: message.content || null,
+      tool_calls: message.toolCalls.map(call => ({
+        id: call.id,
+        type: 'function',
+        function: { name: call.name, arguments: call.arguments },
+      })),
+    };
+  }
+  return { role: message.role, content: message.content };
+}
+
+function toWireTool(tool: LLMTool) {
+  return { type: 'function', function: tool };
+}
+
+// Works with any server that speaks the OpenAI chat-completions protocol:
+// OpenRouter, Ollama (/v1), llama.cpp server, vLLM, LM Studio...
+export function createOpenAICompatibleProvider(options: OpenAICompatibleOptions): LLMProvider {
+  const { name } = options;
+  const endpoint = `${options.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+  async function* streamChat(request: LLMRequest): AsyncGenerator<LLMChunk> {
+    let res: Response;
+    try {
+      res = await fetch(endpoint, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(options.apiKey ? { 'Authorization': `Bearer ${options.apiKey}` } : {}),
+          ...options.headers,
+        },
+        body: JSON.stringify({
+          model: request.model ?? options.defaultModel,
+          messages: request.messages.map(toWireMessage),
+          ...(request.tools?.length ? { tools: request.tools.map(toWireTool) } : {}),
+          temperature: request.temperature ?? options.defaultTemperature,
+          max_tokens: request.maxTokens ?? options.defaultMaxTokens,
+          stream: true,
+        }),
+        signal: request.signal,
+      });
+    } catch (error) {
+      throw toLLMError(error, name);
+    }
+    if (!res.ok || !res.body) {
+      throw llmErrorFromResponse(name, res.status, await res.text().catch(() => ''));
+    }
+
+    // Tool calls arrive as fragments keyed by index; emit them once complete
+    const pendingCalls = new Map<number, LLMToolCall>();
+    function* flushToolCalls(): Generator<LLMChunk> {
+      for (const call of pendingCalls.values()) {
+        if (call.name) yield { type: 'tool_call', call };
+      }
+      pendingCalls.clear();
+    }
+
+    try {
+      for await (const { data } of readSSE(res.body)) {
+        if (data === '[DONE]') break;
+        let chunk;
+        try {
+          chunk = JSON.parse(data);
+        } catch {
+          continue;
+        }
+        // Some servers report failures inside an otherwise successful stream
+        if (chunk.error) {
+          throw llmErrorFromResponse(name, Number(chunk.error.code) || 502, JSON.stringify(chunk));
+        }
+        const choice = chunk.choices?.[0];
+        const text = choice?.delta?.content;
+        if (text) yield { type: 'text', text };
+        for (const fragment of choice?.delta?.tool_calls ?? []) {
+          const index = typeof fragment.index === 'number' ? fragment.index : pendingCalls.size;
+          const call = pendingCalls.get(index) ?? { id: '', name: '', arguments: '' };
+          if (fragment.id) call.id = fragment.id;
+          if (fragment.function?.name) call.name += fragment.function.name;
+          if (fragment.function?.arguments) call.arguments += fragment.function.arguments;
+          if (!call.id) call.id = `call_${index}`;
+          pendingCalls.set(index, call);
+        }
+        if (choice?.finish_reason === 'tool_calls') yield* flushToolCalls();
+      }
+      yield* flushToolCalls();
+    } catch (error) {
+      throw error instanceof LLMError ? error : toLLMError(error, name);
+    }
+  }
+
+  return { name, streamChat };
+}
@@ -0,0 +1,24 @@
+import { LLMError } from './errors';
+import { createOpenAICompatibleProvider } from './openai-compatible';
+import type { LLMConfig, LLMProvider } from './types';
+
+const OPENROUTER_BASE_URL = 'https://openrouter.ai/api/v1';
+
+export function createOpenRouterProvider(config: LLMConfig): LLMProvider {
+  if (!config.apiKey) {
+    throw new LLMError('configuration', 'Missing OpenRouter API key', 'openrouter');
+  }
+  return createOpenAICompatibleProvider({
+    name: 'openrouter',
+    baseUrl: config.baseUrl ?? OPENROUTER_BASE_URL,
+    apiKey: config.apiKey,
+    defaultModel: config.model,
+    defaultTemperature: config.temperature,
+    defaultMaxTokens: config.maxTokens,
+    // Optional attribution headers recommended by OpenRouter
+    headers: {
+      'X-Title': 'VirtuFit',
+      ...(process.env.NEXT_PUBLIC_SITE_URL ? { 'HTTP-Referer': process.env.NEXT_PUBLIC_SITE_URL } : {}),
+    },
+  });
+}
@@ -0,0 +1,50 @@
+export type ChatRole = 'system' | 'user' | 'assistant' | 'tool';
+
+export type LLMToolCall = {
+  id: string;
+  name: string;
+  // Raw JSON string as produced by the model; may be malformed
+  arguments: string;
+};
+
+export type ChatMessage =
+  | { role: 'system' | 'user'; content: string }
+  | { role: 'assistant'; content: string; toolCalls?: LLMToolCall[] }
+  | { role: 'tool'; content: string; toolCallId: string };
+
+// A function the model may call, described with a JSON schema
+export type LLMTool = {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+};
+
+export type LLMRequest = {
+  messages: ChatMessage[];
+  tools?: LLMTool[];
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  signal?: AbortSignal;
+};
+
+export type LLMChunk =
+  | { type: 'text'; text: string }
+  | { type: 'tool_call'; call: LLMToolCall };
+
+export interface LLMProvider {
+  readonly name: string;
+  // Streams the assistant reply. Failures are thrown as LLMError.
+  streamChat(request: LLMRequest): AsyncGenerator<LLMChunk>;
+}
+
+export type LLMProviderName = 'openrouter' | 'openai-compatible' | 'mock';
+
+export type LLMConfig = {
+  provider: LLMProviderName;
+  model: string;
+  temperature: number;
+  maxTokens: number;
+  baseUrl?: string;
+  apiKey?: string;
+};
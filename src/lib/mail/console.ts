@@ -0,0 +1,12 @@
+import type { MailTransport } from './types';
+
+// Development transport: prints messages to the server log instead of
+// sending them, so login links can be copied from the terminal
+export function createConsoleTransport(): MailTransport {
+  return {
+    name: 'console',
+    async send({ to, subject, text }) {
+      console.log(`[mail] To: ${to}\n[mail] Subject: ${subject}\n${text.replace(/^/gm, '[mail] ')}`);
+    },
+  };
+}
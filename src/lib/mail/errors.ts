@@ -0,0 +1,11 @@
+import type { MailTransportName } from './types';
+
+export class MailError extends Error {
+  readonly transport: MailTransportName;
+
+  constructor(message: string, transport: MailTransportName) {
+    super(message);
+    this.name = 'MailError';
+    this.transport = transport;
+  }
+}
@@ -0,0 +1,24 @@
+import { createConsoleTransport } from './console';
+import { MailError } from './errors';
+import { createResendTransport } from './resend';
+import type { MailTransport, MailTransportName } from './types';
+
+export { MailError } from './errors';
+export type * from './types';
+
+const TRANSPORTS: MailTransportName[] = ['console', 'resend'];
+
+// MAIL_TRANSPORT  console (default; logs messages) | resend
+// MAIL_FROM       sender address, e.g. "VirtuFit <hello@example.com>"
+// RESEND_API_KEY  API key for the resend transport
+export function getMailTransport(env: NodeJS.ProcessEnv = process.env): MailTransport {
+  const name = (env.MAIL_TRANSPORT || 'console') as MailTransportName;
+  if (!TRANSPORTS.includes(name)) throw new MailError(`Unknown MAIL_TRANSPORT "${name}"`, name);
+  switch (name) {
+    case 'console':
+      return createConsoleTransport();
+    case 'resend':
+      if (!env.RESEND_API_KEY) throw new MailError('RESEND_API_KEY is required for the resend transport', name);
+      return createResendTransport({ apiKey: env.RESEND_API_KEY, from: env.MAIL_FROM || 'VirtuFit <no-reply@virtufit.app>' });
+  }
+}
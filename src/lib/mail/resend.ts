@@ -0,0 +1,33 @@
+import { MailError } from './errors';
+import type { MailTransport } from './types';
+
+export type ResendConfig = {
+  apiKey: string;
+  from: string;
+  baseUrl?: string;
+};
+
+// Sends through the Resend HTTP API (https://resend.com/docs/api-reference/emails/send-email)
+export function createResendTransport(config: ResendConfig, timeoutMs = 10_000): MailTransport {
+  const url = `${(config.baseUrl ?? 'https://api.resend.com').replace(/\/+$/, '')}/emails`;
+  return {
+    name: 'resend',
+    async send(message) {
+      let res: Response;
+      try {
+        res = await fetch(url, {
+          method: 'POST',
+          headers: { Authorization: `Bearer ${config.apiKey}`, 'Content-Type': 'application/json' },
+          body: JSON.stringify({ from: config.from, ...message }),
+          signal: AbortSignal.timeout(timeoutMs),
+        });
+      } catch (error) {
+        throw new MailError(`Failed to reach Resend: ${error instanceof Error ? error.message : String(error)}`, 'resend');
+      }
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}));
+        throw new MailError(`Resend returned HTTP ${res.status}: ${body?.message ?? 'no details'}`, 'resend');
+      }
+    },
+  };
+}
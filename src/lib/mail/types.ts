@@ -0,0 +1,13 @@
+export type MailTransportName = 'console' | 'resend';
+
+export type MailMessage = {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+};
+
+export type MailTransport = {
+  name: MailTransportName;
+  send(message: MailMessage): Promise<void>;
+};
@@ -0,0 +1,57 @@
+// Just enough of the GLB container (https://registry.khronos.org/glTF/specs/2.0/glTF-2.0.html#glb-file-format-specification)
+// to edit the JSON chunk. Every other chunk is copied through untouched.
+
+// "glTF", little-endian, at the start of every GLB file
+export const GLB_MAGIC = 0x46546c67;
+const JSON_CHUNK = 0x4e4f534a;
+const HEADER_BYTES = 12;
+const CHUNK_HEADER_BYTES = 8;
+
+type GltfJson = { animations?: { name?: string }[] } & Record<string, unknown>;
+
+// The 12-byte GLB header: magic, version 2 and the total length
+export function isGlb(bytes: Uint8Array): boolean {
+  if (bytes.length < HEADER_BYTES) return false;
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.length);
+  return view.getUint32(0, true) === GLB_MAGIC && view.getUint32(4, true) === 2 && view.getUint32(8, true) === bytes.length;
+}
+
+function readJson(glb: Uint8Array): { json: GltfJson; rest: Uint8Array } | undefined {
+  if (!isGlb(glb) || glb.length < HEADER_BYTES + CHUNK_HEADER_BYTES) return undefined;
+  const view = new DataView(glb.buffer, glb.byteOffset, glb.length);
+  const length = view.getUint32(HEADER_BYTES, true);
+  if (view.getUint32(HEADER_BYTES + 4, true) !== JSON_CHUNK) return undefined;
+  const start = HEADER_BYTES + CHUNK_HEADER_BYTES;
+  if (start + length > glb.length) return undefined;
+  try {
+    const json = JSON.parse(Buffer.from(glb.subarray(start, start + length)).toString('utf8'));
+    return { json, rest: glb.subarray(start + length) };
+  } catch {
+    return undefined;
+  }
+}
+
+function writeJson(json: GltfJson, rest: Uint8Array): Buffer {
+  const text = Buffer.from(JSON.stringify(json), 'utf8');
+  // Chunks are 4-byte aligned; JSON is padded with spaces
+  const padded = Buffer.concat([text, Buffer.alloc((4 - (text.length % 4)) % 4, 0x20)]);
+  const header = Buffer.alloc(HEADER_BYTES + CHUNK_HEADER_BYTES);
+  header.writeUInt32LE(GLB_MAGIC, 0);
+  header.writeUInt32LE(2, 4);
+  header.writeUInt32LE(header.length + padded.length + rest.length, 8);
+  header.writeUInt32LE(padded.length, 12);
+  header.writeUInt32LE(JSON_CHUNK, 16);
+  return Buffer.concat([header, padded, rest]);
+}
+
+// Renames a GLB's clips to `names`, in order. Providers name retargeted
+// clips after their own presets, or not at all. A file whose clip count
+// doesn't match is returned as is, since there'd be no telling which is which.
+export function nameClips(glb: Uint8Array, names: readonly string[]): Uint8Array {
+  const parsed = readJson(glb);
+  const animations = parsed?.json.animations;
+  if (!parsed || animations?.length !== names.length) return glb;
+  if (animations.every((clip, i) => clip.name === names[i])) return glb;
+  const json = { ...parsed.json, animations: animations.map((clip, i) => ({ ...clip, name: names[i] })) };
+  return writeJson(json, parsed.rest);
+}
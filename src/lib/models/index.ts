@@ -0,0 +1,120 @@
+import { createHash } from 'crypto';
+import { getStorage, storeUpload, StorageError, uploadMaxBytes, type StoredObject } from '@/lib/storage';
+import { collection } from '@/lib/store';
+import { isGlb, nameClips } from './glb';
+
+export { ifRangeMatches, matchesEtag, parseRange, type ByteRange } from './range';
+
+export const MODEL_CONTENT_TYPE = 'model/gltf-binary';
+export const DEFAULT_MODEL_MAX_BYTES = 100 * 1024 * 1024;
+
+const DOWNLOAD_TIMEOUT_MS = 120_000;
+
+// A provider task whose model has been copied into storage, so polling the
+// same finished task again doesn't download it again
+type CachedModel = {
+  // "<provider>:<taskId>"
+  ref: string;
+  id: string;
+  size: number;
+  sourceHost: string;
+  cachedAt: string;
+};
+
+const cachedModels = collection<CachedModel>('cached-models');
+
+// Model ids are the SHA-256 of the GLB, which is also what makes the
+// /api/models URLs safe to hand out without signing: they can't be guessed.
+export function isModelId(id: string): boolean {
+  return /^[0-9a-f]{64}$/.test(id);
+}
+
+function modelKey(id: string): string {
+  return `models/${id}.glb`;
+}
+
+export function modelUrl(id: string): string {
+  return `/api/models/${id}`;
+}
+
+// MODEL_MAX_BYTES  largest model accepted from a provider, default 100 MB
+export function modelMaxBytes(env: NodeJS.ProcessEnv = process.env): number {
+  const max = Number(env.MODEL_MAX_BYTES);
+  return Number.isInteger(max) && max > 0 ? max : DEFAULT_MODEL_MAX_BYTES;
+}
+
+async function download(url: string, max: number): Promise<Uint8Array> {
+  let res: Response;
+  try {
+    res = await fetch(url, { signal: AbortSignal.timeout(DOWNLOAD_TIMEOUT_MS), cache: 'no-store' });
+  } catch (error) {
+    throw new StorageError('unavailable', `Model download failed: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (!res.ok || !res.body) throw new StorageError('unavailable', `Model download failed: HTTP ${res.status}`);
+  if (Number(res.headers.get('Content-Length')) > max) throw new StorageError('too_large', 'The generated model is too large to store');
+
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  const reader = res.body.getReader();
+  try {
+    for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+      size += chunk.value.length;
+      if (size > max) {
+        await reader.cancel();
+        throw new StorageError('too_large', 'The generated model is too large to store');
+      }
+      chunks.push(chunk.value);
+    }
+  } catch (error) {
+    if (error instanceof StorageError) throw error;
+    throw new StorageError('unavailable', `Model download failed: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  return Buffer.concat(chunks);
+}
+
+export type CacheModelOptions = {
+  // Names for the model's animation clips, in order (see nameClips)
+  clipNames?: readonly string[];
+};
+
+// Copies a finished task's model into storage and returns its /api/models
+// URL. Provider URLs are signed and expire within days, so saved avatars
+// would otherwise stop loading. `ref` identifies the task ("tripo:<taskId>").
+// Site paths, such as the mock provider's mannequin, are already ours and
+// come back unchanged. Throws a StorageError; "unavailable" is worth retrying.
+export async function cacheModel(
+  sourceUrl: string,
+  ref: string,
+  options: CacheModelOptions = {},
+  env: NodeJS.ProcessEnv = process.env,
+): Promise<string> {
+  if (/^\/(?!\/)/.test(sourceUrl)) return sourceUrl;
+  if (!/^https?:\/\//.test(sourceUrl)) throw new StorageError('invalid_request', 'The provider returned an invalid model URL');
+
+  const storage = getStorage(env);
+  const cached = await cachedModels.get(ref);
+  if (cached && await storage.exists(modelKey(cached.id))) return modelUrl(cached.id);
+
+  const downloaded = await download(sourceUrl, modelMaxBytes(env));
+  if (!isGlb(downloaded)) throw new StorageError('unsupported_type', 'The generated model is not a GLB file');
+  const body = options.clipNames ? nameClips(downloaded, options.clipNames) : downloaded;
+  const id = createHash('sha256').update(body).digest('hex');
+  if (!(await storage.exists(modelKey(id)))) await storage.put(modelKey(id), body, MODEL_CONTENT_TYPE);
+  await cachedModels.put(ref, { ref, id, size: body.length, sourceHost: new URL(sourceUrl).host, cachedAt: new Date().toISOString() });
+  return modelUrl(id);
+}
+
+// Copies a provider's preview render into upload storage, where it gets the
+// same checks and metadata stripping as a shopper's photo. Returns the storage
+// key, or a site path unchanged.
+export async function cacheThumbnail(sourceUrl: string, env: NodeJS.ProcessEnv = process.env): Promise<string> {
+  if (/^\/(?!\/)/.test(sourceUrl)) return sourceUrl;
+  if (!/^https?:\/\//.test(sourceUrl)) throw new StorageError('invalid_request', 'The provider returned an invalid thumbnail URL');
+  const { key } = await storeUpload(await download(sourceUrl, uploadMaxBytes(env)), env);
+  return key;
+}
+
+export async function getModel(id: string, env: NodeJS.ProcessEnv = process.env): Promise<StoredObject | undefined> {
+  if (!isModelId(id)) return undefined;
+  return getStorage(env).get(modelKey(id));
+}
@@ -0,0 +1,39 @@
+// Single byte ranges (RFC 9110 section 14), which is all model loaders ask
+// for. Multiple ranges are answered with the whole file, as the RFC allows.
+
+// Inclusive, like the Content-Range header
+export type ByteRange = { start: number; end: number };
+
+// undefined: no usable Range header, send everything. null: the range lies
+// outside the file (416).
+export function parseRange(header: string | null, size: number): ByteRange | null | undefined {
+  const match = header && /^bytes=(\d*)-(\d*)$/.exec(header.trim());
+  if (!match || (!match[1] && !match[2])) return undefined;
+  if (!match[1]) {
+    // "bytes=-500": the last 500 bytes
+    const suffix = Number(match[2]);
+    if (suffix === 0 || size === 0) return null;
+    return { start: Math.max(size - suffix, 0), end: size - 1 };
+  }
+  const start = Number(match[1]);
+  // "bytes=500-400" is malformed and ignored
+  if (match[2] && Number(match[2]) < start) return undefined;
+  if (start >= size) return null;
+  return { start, end: match[2] ? Math.min(Number(match[2]), size - 1) : size - 1 };
+}
+
+// Whether an If-None-Match header names this ETag
+export function matchesEtag(header: string | null, etag: string): boolean {
+  if (!header) return false;
+  return header.split(',').some(tag => {
+    const trimmed = tag.trim();
+    return trimmed === '*' || trimmed === etag || trimmed === `W/${etag}`;
+  });
+}
+
+// Whether an If-Range header allows answering with a range. It holds one
+// validator, which must be this exact strong ETag: no "*", no W/ forms and
+// no lists. A date, or anything else, gets the whole file.
+export function ifRangeMatches(header: string, etag: string): boolean {
+  return !etag.startsWith('W/') && header.trim() === etag;
+}
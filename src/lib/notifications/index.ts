@@ -0,0 +1,49 @@
+import { randomBytes } from 'crypto';
+import { collection } from '@/lib/store';
+import type { Notification, PublicNotification } from './types';
+
+export * from './types';
+
+// Older notifications are dropped once an owner has more than this
+const MAX_NOTIFICATIONS_PER_OWNER = 100;
+
+const notifications = collection<Notification>('notifications');
+
+export function toPublicNotification(notification: Notification): PublicNotification {
+  const publicNotification: Partial<Notification> = { ...notification };
+  delete publicNotification.ownerKey;
+  return publicNotification as PublicNotification;
+}
+
+// Newest first
+export async function listNotifications(ownerKey: string | undefined): Promise<Notification[]> {
+  if (!ownerKey) return [];
+  return (await notifications.list())
+    .filter(n => n.ownerKey === ownerKey)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export async function createNotification(input: Omit<Notification, 'id' | 'createdAt' | 'readAt'>): Promise<Notification> {
+  const id = `ntf_${randomBytes(8).toString('hex')}`;
+  const created = await notifications.put(id, { ...input, id, createdAt: new Date().toISOString() });
+  const stale = (await listNotifications(input.ownerKey)).slice(MAX_NOTIFICATIONS_PER_OWNER);
+  for (const { id: staleId } of stale) await notifications.delete(staleId);
+  return created;
+}
+
+// Marks the given notifications read, or all of them when no ids are given
+export async function markNotificationsRead(ownerKey: string, ids?: string[]): Promise<void> {
+  const now = new Date().toISOString();
+  for (const notification of await listNotifications(ownerKey)) {
+    if (notification.readAt || (ids && !ids.includes(notification.id))) continue;
+    await notifications.update(notification.id, current => current && { ...current, readAt: now });
+  }
+}
+
+// Moves an anonymous shopper's notifications to their account on sign-in
+export async function claimNotifications(fromKey: string, toKey: string): Promise<void> {
+  if (fromKey === toKey) return;
+  for (const { id } of await listNotifications(fromKey)) {
+    await notifications.update(id, current => current && { ...current, ownerKey: toKey });
+  }
+}
@@ -0,0 +1,18 @@
+export type NotificationKind = 'price_drop' | 'back_in_stock';
+
+export type Notification = {
+  id: string;
+  // shopperKey() of the recipient
+  ownerKey: string;
+  kind: NotificationKind;
+  title: string;
+  body: string;
+  // Same-site link to what the notification is about
+  url?: string;
+  image?: string;
+  productId?: string;
+  createdAt: string;
+  readAt?: string;
+};
+
+export type PublicNotification = Omit<Notification, 'ownerKey'>;
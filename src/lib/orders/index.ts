@@ -0,0 +1,285 @@
+import { randomBytes } from 'crypto';
+import { clearCart, getCart, priceCart } from '@/lib/cart';
+import { getPaymentProvider, type PaymentEvent, type PaymentNextAction, type PaymentResult } from '@/lib/payments';
+import { shopperKey, type Shopper } from '@/lib/session';
+import { collection } from '@/lib/store';
+import { computeTotals } from './pricing';
+import type { CheckoutInput, FulfillmentStatus, Order, OrderFulfillment, OrderStatus, PublicOrder } from './types';
+
+export { computeTotals, REGION_COUNTRIES, SHIPPING_COUNTRIES } from './pricing';
+export { FULFILLMENT_STATUS_LABELS, ORDER_STATUS_LABELS, eventLabel } from './status';
+export { parseCheckoutInput } from './validation';
+export * from './types';
+
+export class OrderError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'OrderError';
+    this.status = status;
+  }
+}
+
+const orders = collection<Order>('orders');
+// Webhook events already applied, by provider event id
+const paymentEvents = collection<{ id: string; type: PaymentEvent['type']; orderId?: string; processedAt: string }>('payment-events');
+
+// Which status an order may move to from each status. Anything else is
+// ignored, so late or repeated payment updates cannot roll an order back.
+const TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  pending_payment: ['requires_action', 'paid', 'failed'],
+  requires_action: ['pending_payment', 'paid', 'failed'],
+  paid: ['refunded'],
+  // A shopper may still complete the same payment, e.g. retrying 3-D Secure
+  failed: ['paid'],
+  refunded: [],
+};
+
+const STATUS_BY_PAYMENT: Record<PaymentResult['status'], OrderStatus> = {
+  succeeded: 'paid',
+  requires_action: 'requires_action',
+  processing: 'pending_payment',
+  failed: 'failed',
+};
+
+const STATUS_BY_EVENT: Record<PaymentEvent['type'], OrderStatus> = {
+  'payment.succeeded': 'paid',
+  'payment.processing': 'pending_payment',
+  'payment.failed': 'failed',
+  'payment.refunded': 'refunded',
+};
+
+export function toPublicOrder(order: Order): PublicOrder {
+  const publicOrder: Partial<Order> = { ...order };
+  delete publicOrder.sessionId;
+  delete publicOrder.userId;
+  delete publicOrder.idempotencyKey;
+  return publicOrder as PublicOrder;
+}
+
+const FULFILLMENT_STEPS: FulfillmentStatus[] = ['unfulfilled', 'shipped', 'delivered'];
+
+export function getOrder(id: string): Promise<Order | undefined> {
+  return orders.get(id);
+}
+
+// An account's orders are visible to that account only; orders placed
+// without signing in stay with the session that placed them
+function belongsTo(order: Order, shopper: Shopper): boolean {
+  return order.userId ? order.userId === shopper.userId : !!shopper.sessionId && order.sessionId === shopper.sessionId;
+}
+
+export async function getOrderForShopper(id: string, shopper: Shopper): Promise<Order | undefined> {
+  const order = await orders.get(id);
+  return order && belongsTo(order, shopper) ? order : undefined;
+}
+
+// Newest first
+export async function listOrdersForShopper(shopper: Shopper): Promise<Order[]> {
+  if (!shopper.sessionId && !shopper.userId) return [];
+  return (await orders.list())
+    .filter(order => belongsTo(order, shopper))
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+// Attaches orders placed before signing in to the account
+export async function claimSessionOrders(sessionId: string, userId: string): Promise<void> {
+  const unclaimed = (await orders.list()).filter(order => order.sessionId === sessionId && !order.userId);
+  for (const { id } of unclaimed) {
+    await orders.update(id, order => (order && !order.userId ? { ...order, userId } : order));
+  }
+}
+
+export async function transitionOrder(
+  id: string,
+  status: OrderStatus,
+  note?: string,
+  patch: Partial<Pick<Order, 'payment'>> = {},
+): Promise<Order> {
+  const updated = await orders.update(id, order => {
+    if (!order || (order.status !== status && !TRANSITIONS[order.status].includes(status))) return order;
+    const at = new Date().toISOString();
+    return {
+      ...order,
+      ...patch,
+      status,
+      history: order.status === status ? order.history : [...order.history, { status, at, ...(note ? { note } : {}) }],
+      updatedAt: at,
+    };
+  });
+  if (!updated) throw new OrderError(`Unknown order ${id}`, 404);
+  return updated;
+}
+
+async function moveOrder(
+  order: Order,
+  status: OrderStatus,
+  reference: string,
+  failureMessage?: string,
+  nextAction?: PaymentNextAction,
+): Promise<Order> {
+  const note = status === 'failed' ? failureMessage
+    : status === 'requires_action' ? 'Waiting for card authentication'
+    : undefined;
+  const payment: Order['payment'] = { ...order.payment, reference, ...(failureMessage ? { failureMessage } : {}) };
+  delete payment.nextAction;
+  if (status === 'requires_action' && nextAction) payment.nextAction = nextAction;
+  const updated = await transitionOrder(order.id, status, note, { payment });
+  // The cart has become an order; a failed payment leaves it for another try
+  if (updated.status === 'paid' && order.status !== 'paid') await clearCart(shopperKey(order)!);
+  return updated;
+}
+
+function applyPaymentResult(order: Order, result: PaymentResult): Promise<Order> {
+  return moveOrder(order, STATUS_BY_PAYMENT[result.status], result.reference, result.failureMessage, result.nextAction);
+}
+
+// What a repeated submission gets back: the order, and where to send the
+// shopper if the card still needs authenticating. One whose payment hasn't
+// been started yet is still being placed by the first submission.
+function replay(order: Order): { order: Order; nextAction?: PaymentNextAction } {
+  if (order.status === 'pending_payment' && !order.payment.reference) {
+    throw new OrderError('This order is still being placed', 409);
+  }
+  return { order, nextAction: order.status === 'requires_action' ? order.payment.nextAction : undefined };
+}
+
+function findSubmission(candidates: Order[], sessionId: string, idempotencyKey: string | undefined): Order | undefined {
+  return idempotencyKey ? candidates.find(order => order.sessionId === sessionId && order.idempotencyKey === idempotencyKey) : undefined;
+}
+
+// Creates an order from the shopper's cart and starts the payment. Prices,
+// shipping and tax are recomputed from the catalog here; nothing the client
+// sends besides contact, address and payment method is trusted. A submission
+// repeating an earlier one's idempotency key gets that order back without
+// starting another payment.
+export async function placeOrder(
+  shopper: Shopper & { sessionId: string },
+  input: CheckoutInput,
+  // Site origin for the absolute return URL, e.g. https://shop.example
+  origin: string,
+  idempotencyKey?: string,
+): Promise<{ order: Order; nextAction?: PaymentNextAction }> {
+  const previous = findSubmission(await orders.list(), shopper.sessionId, idempotencyKey);
+  if (previous) return replay(previous);
+
+  const cart = await priceCart(await getCart(shopperKey(shopper)));
+  if (!cart.lines.length) throw new OrderError('Your cart is empty', 409);
+  if (!cart.checkoutReady) {
+    throw new OrderError('Some items in your cart are no longer available in the quantity requested', 409);
+  }
+
+  const provider = getPaymentProvider();
+  const id = `ord_${randomBytes(8).toString('hex')}`;
+  const now = new Date().toISOString();
+  const draft: Order = {
+    id,
+    sessionId: shopper.sessionId,
+    ...(shopper.userId ? { userId: shopper.userId } : {}),
+    ...(idempotencyKey ? { idempotencyKey } : {}),
+    status: 'pending_payment',
+    lines: cart.lines.map(({ sku, productId, title, image, tryOnImage, size, color, quantity, unitPrice, lineTotal }) => ({
+      sku, productId, title, image, ...(tryOnImage ? { tryOnImage } : {}), size, color, quantity, unitPrice, lineTotal,
+    })),
+    totals: computeTotals(cart.subtotal, input.shipping),
+    contact: input.contact,
+    shipping: input.shipping,
+    payment: { provider: provider.name },
+    fulfillment: { status: 'unfulfilled' },
+    history: [{ status: 'pending_payment', at: now }],
+    createdAt: now,
+    updatedAt: now,
+  };
+  // Checked again under the collection lock, so concurrent submissions with
+  // one key create one order
+  const { order, duplicate } = await orders.transact(data => {
+    const existing = findSubmission(Object.values(data), shopper.sessionId, idempotencyKey);
+    if (existing) return { order: existing, duplicate: true };
+    data[id] = draft;
+    return { order: draft, duplicate: false };
+  });
+  if (duplicate) return replay(order);
+
+  let result: PaymentResult;
+  try {
+    result = await provider.createPayment({
+      orderId: id,
+      amount: order.totals.total,
+      email: input.contact.email,
+      paymentMethod: input.paymentMethod,
+      returnUrl: `${origin}/checkout/confirmation?order=${id}`,
+      idempotencyKey: `order_${id}`,
+    });
+  } catch (error) {
+    await transitionOrder(id, 'failed', 'Payment could not be started');
+    throw error;
+  }
+  return { order: await applyPaymentResult(order, result), nextAction: result.nextAction };
+}
+
+// Re-reads the payment from the provider, e.g. when the shopper comes back
+// from a 3-D Secure challenge
+export async function syncOrderPayment(order: Order): Promise<Order> {
+  if (!order.payment.reference || order.status !== 'pending_payment' && order.status !== 'requires_action') return order;
+  const result = await getPaymentProvider().retrievePayment(order.payment.reference);
+  return applyPaymentResult(order, result);
+}
+
+// Records shipping progress. Only paid orders ship, and fulfilment only
+// moves forward (shipped, then delivered).
+export async function updateFulfillment(id: string, fulfillment: OrderFulfillment): Promise<Order> {
+  const current = await orders.get(id);
+  if (!current) throw new OrderError(`Unknown order ${id}`, 404);
+  if (current.status !== 'paid') throw new OrderError(`Order ${id} is ${current.status} and cannot be fulfilled`, 409);
+  const from = FULFILLMENT_STEPS.indexOf(current.fulfillment.status);
+  const to = FULFILLMENT_STEPS.indexOf(fulfillment.status);
+  if (to < from) {
+    throw new OrderError(`Order ${id} is already ${current.fulfillment.status}`, 409);
+  }
+
+  const updated = await orders.update(id, order => {
+    if (!order) return order;
+    const at = new Date().toISOString();
+    const changed = order.fulfillment.status !== fulfillment.status && fulfillment.status !== 'unfulfilled';
+    const note = fulfillment.trackingNumber
+      ? [fulfillment.carrier, fulfillment.trackingNumber].filter(Boolean).join(' ')
+      : undefined;
+    return {
+      ...order,
+      fulfillment: { ...order.fulfillment, ...fulfillment },
+      history: changed
+        ? [...order.history, { status: fulfillment.status as 'shipped' | 'delivered', at, ...(note ? { note } : {}) }]
+        : order.history,
+      updatedAt: at,
+    };
+  });
+  return updated!;
+}
+
+async function findOrderForEvent(event: PaymentEvent): Promise<Order | undefined> {
+  const order = event.orderId ? await orders.get(event.orderId) : undefined;
+  if (order) return order;
+  return (await orders.list()).find(o => o.payment.reference === event.reference);
+}
+
+// Applies a verified provider webhook. Each event id is applied once;
+// redelivered events are acknowledged without touching the order again.
+export async function applyPaymentEvent(event: PaymentEvent): Promise<{ order?: Order; duplicate: boolean }> {
+  if (await paymentEvents.get(event.id)) return { duplicate: true };
+
+  const order = await findOrderForEvent(event);
+  // The webhook can beat the createPayment response, before the order knows its reference
+  const matches = order && (!order.payment.reference || order.payment.reference === event.reference);
+  const updated = matches
+    ? await moveOrder(order, STATUS_BY_EVENT[event.type], event.reference, event.failureMessage)
+    : undefined;
+
+  await paymentEvents.put(event.id, {
+    id: event.id,
+    type: event.type,
+    ...(updated ? { orderId: updated.id } : {}),
+    processedAt: new Date().toISOString(),
+  });
+  return { order: updated, duplicate: false };
+}
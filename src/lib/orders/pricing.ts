@@ -0,0 +1,58 @@
+import { addMoney, money, multiplyMoney } from '@/lib/catalog/money';
+import type { Money } from '@/lib/catalog/types';
+import type { OrderTotals, ShippingAddress } from './types';
+
+// Pure pricing rules, shared by the checkout page (for the live preview) and
+// the orders API (which recomputes everything before charging).
+
+export const SHIPPING_COUNTRIES: Record<string, string> = {
+  US: 'United States',
+  CA: 'Canada',
+  GB: 'United Kingdom',
+  DE: 'Germany',
+  FR: 'France',
+};
+
+// Countries where region (state/province) is required
+export const REGION_COUNTRIES = ['US', 'CA'];
+
+const HOME_COUNTRY = 'US';
+
+// Minor units of the order currency
+const DOMESTIC_SHIPPING = 595;
+const INTERNATIONAL_SHIPPING = 1495;
+const FREE_SHIPPING_THRESHOLD = 10000;
+
+const COUNTRY_TAX_RATES: Record<string, number> = {
+  CA: 0.05,
+  GB: 0.2,
+  DE: 0.19,
+  FR: 0.2,
+};
+
+// Simplified statewide sales tax; states not listed are charged none
+const US_STATE_TAX_RATES: Record<string, number> = {
+  CA: 0.0725,
+  FL: 0.06,
+  IL: 0.0625,
+  NY: 0.04,
+  TX: 0.0625,
+  WA: 0.065,
+};
+
+export function shippingFor(subtotal: Money, country: string): Money {
+  if (country !== HOME_COUNTRY) return money(INTERNATIONAL_SHIPPING, subtotal.currency);
+  return money(subtotal.amount >= FREE_SHIPPING_THRESHOLD ? 0 : DOMESTIC_SHIPPING, subtotal.currency);
+}
+
+export function taxRateFor(address: Pick<ShippingAddress, 'country' | 'region'>): number {
+  if (address.country === 'US') return US_STATE_TAX_RATES[address.region?.toUpperCase() ?? ''] ?? 0;
+  return COUNTRY_TAX_RATES[address.country] ?? 0;
+}
+
+export function computeTotals(subtotal: Money, address: Pick<ShippingAddress, 'country' | 'region'>): OrderTotals {
+  const shipping = shippingFor(subtotal, address.country);
+  const taxRate = taxRateFor(address);
+  const tax = multiplyMoney(subtotal, taxRate);
+  return { subtotal, shipping, tax, taxRate, total: addMoney(addMoney(subtotal, shipping), tax) };
+}
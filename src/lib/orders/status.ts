@@ -0,0 +1,31 @@
+import type { FulfillmentStatus, OrderEvent, OrderStatus } from './types';
+
+// Shopper-facing wording for order states, shared by the order pages
+
+export const ORDER_STATUS_LABELS: Record<OrderStatus, string> = {
+  pending_payment: 'Awaiting payment',
+  requires_action: 'Awaiting card authentication',
+  paid: 'Paid',
+  failed: 'Payment failed',
+  refunded: 'Refunded',
+};
+
+export const FULFILLMENT_STATUS_LABELS: Record<FulfillmentStatus, string> = {
+  unfulfilled: 'Preparing',
+  shipped: 'Shipped',
+  delivered: 'Delivered',
+};
+
+const EVENT_LABELS: Record<OrderEvent['status'], string> = {
+  pending_payment: 'Order placed',
+  requires_action: 'Card authentication requested',
+  paid: 'Payment received',
+  failed: 'Payment failed',
+  refunded: 'Refunded',
+  shipped: 'Shipped',
+  delivered: 'Delivered',
+};
+
+export function eventLabel(status: OrderEvent['status']): string {
+  return EVENT_LABELS[status];
+}
@@ -0,0 +1,95 @@
+import type { Money } from '@/lib/catalog/types';
+import type { PaymentNextAction, PaymentProviderName } from '@/lib/payments/types';
+
+export type OrderStatus = 'pending_payment' | 'requires_action' | 'paid' | 'failed' | 'refunded';
+
+export type FulfillmentStatus = 'unfulfilled' | 'shipped' | 'delivered';
+
+export type OrderFulfillment = {
+  status: FulfillmentStatus;
+  carrier?: string;
+  trackingNumber?: string;
+  trackingUrl?: string;
+};
+
+export type ContactDetails = {
+  email: string;
+  phone?: string;
+};
+
+export type ShippingAddress = {
+  name: string;
+  line1: string;
+  line2?: string;
+  city: string;
+  // State or province; required where the country uses one for tax
+  region?: string;
+  postalCode: string;
+  country: string;
+};
+
+export type CheckoutInput = {
+  contact: ContactDetails;
+  shipping: ShippingAddress;
+  paymentMethod: string;
+};
+
+// Snapshot of a cart line at the time the order was placed
+export type OrderLine = {
+  sku: string;
+  productId: string;
+  title: string;
+  image: string | null;
+  tryOnImage?: string;
+  size: string;
+  color: string;
+  quantity: number;
+  unitPrice: Money;
+  lineTotal: Money;
+};
+
+export type OrderTotals = {
+  subtotal: Money;
+  shipping: Money;
+  tax: Money;
+  // Rate applied to the subtotal, e.g. 0.0725
+  taxRate: number;
+  total: Money;
+};
+
+// Payment and fulfilment changes share one timeline
+export type OrderEvent = {
+  status: OrderStatus | Exclude<FulfillmentStatus, 'unfulfilled'>;
+  at: string;
+  note?: string;
+};
+
+export type Order = {
+  id: string;
+  // Anonymous session that placed the order
+  sessionId: string;
+  // Account the order belongs to, once the shopper has signed in
+  userId?: string;
+  // Idempotency-Key the checkout was submitted with; the same key from the
+  // same session gets this order back
+  idempotencyKey?: string;
+  status: OrderStatus;
+  lines: OrderLine[];
+  totals: OrderTotals;
+  contact: ContactDetails;
+  shipping: ShippingAddress;
+  payment: {
+    provider: PaymentProviderName;
+    reference?: string;
+    failureMessage?: string;
+    // Where to send the shopper while the order requires action
+    nextAction?: PaymentNextAction;
+  };
+  fulfillment: OrderFulfillment;
+  history: OrderEvent[];
+  createdAt: string;
+  updatedAt: string;
+};
+
+// What the shopper's browser gets to see
+export type PublicOrder = Omit<Order, 'sessionId' | 'userId' | 'idempotencyKey'>;
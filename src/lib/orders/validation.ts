@@ -0,0 +1,74 @@
+import { REGION_COUNTRIES, SHIPPING_COUNTRIES } from './pricing';
+import type { CheckoutInput } from './types';
+
+// Field errors are keyed by path ("shipping.postalCode") so the form can
+// show each one next to its input
+export type CheckoutValidation = { ok: true; value: CheckoutInput } | { ok: false; errors: Record<string, string> };
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const PHONE_PATTERN = /^\+?[\d\s().-]{7,20}$/;
+const POSTAL_PATTERNS: Record<string, RegExp> = {
+  US: /^\d{5}(-\d{4})?$/,
+  CA: /^[A-Z]\d[A-Z] ?\d[A-Z]\d$/i,
+  GB: /^[A-Z]{1,2}\d[A-Z\d]? ?\d[A-Z]{2}$/i,
+  DE: /^\d{5}$/,
+  FR: /^\d{5}$/,
+};
+
+function text(value: unknown, max: number): string | undefined {
+  if (typeof value !== 'string') return undefined;
+  const trimmed = value.trim().replace(/\s+/g, ' ');
+  return trimmed ? trimmed.slice(0, max) : undefined;
+}
+
+export function parseCheckoutInput(body: unknown): CheckoutValidation {
+  const input = (typeof body === 'object' && body !== null ? body : {}) as Record<string, unknown>;
+  const contact = (typeof input.contact === 'object' && input.contact !== null ? input.contact : {}) as Record<string, unknown>;
+  const shipping = (typeof input.shipping === 'object' && input.shipping !== null ? input.shipping : {}) as Record<string, unknown>;
+  const errors: Record<string, string> = {};
+
+  const email = text(contact.email, 254)?.toLowerCase();
+  if (!email || !EMAIL_PATTERN.test(email)) errors['contact.email'] = 'Enter a valid email address';
+  const phone = text(contact.phone, 20);
+  if (phone && !PHONE_PATTERN.test(phone)) errors['contact.phone'] = 'Enter a valid phone number';
+
+  const name = text(shipping.name, 100);
+  if (!name) errors['shipping.name'] = 'Enter the recipient name';
+  const line1 = text(shipping.line1, 200);
+  if (!line1) errors['shipping.line1'] = 'Enter a street address';
+  const line2 = text(shipping.line2, 200);
+  const city = text(shipping.city, 100);
+  if (!city) errors['shipping.city'] = 'Enter a city';
+  const country = text(shipping.country, 2)?.toUpperCase();
+  if (!country || !(country in SHIPPING_COUNTRIES)) errors['shipping.country'] = 'We do not ship to this country';
+  const region = text(shipping.region, 50)?.toUpperCase();
+  if (country && REGION_COUNTRIES.includes(country) && !region) {
+    errors['shipping.region'] = country === 'US' ? 'Enter a state' : 'Enter a province';
+  }
+  const postalCode = text(shipping.postalCode, 12)?.toUpperCase();
+  if (!postalCode) errors['shipping.postalCode'] = 'Enter a postal code';
+  else if (country && POSTAL_PATTERNS[country] && !POSTAL_PATTERNS[country].test(postalCode)) {
+    errors['shipping.postalCode'] = 'Enter a valid postal code';
+  }
+
+  const paymentMethod = text(input.paymentMethod, 100);
+  if (!paymentMethod) errors.paymentMethod = 'Choose a payment method';
+
+  if (Object.keys(errors).length) return { ok: false, errors };
+  return {
+    ok: true,
+    value: {
+      contact: { email: email!, ...(phone ? { phone } : {}) },
+      shipping: {
+        name: name!,
+        line1: line1!,
+        ...(line2 ? { line2 } : {}),
+        city: city!,
+        ...(region ? { region } : {}),
+        postalCode: postalCode!,
+        country: country!,
+      },
+      paymentMethod: paymentMethod!,
+    },
+  };
+}
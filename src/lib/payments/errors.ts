@@ -0,0 +1,28 @@
+import type { PaymentProviderName } from './types';
+
+export type PaymentErrorCode = 'configuration' | 'invalid_request' | 'invalid_signature' | 'not_found' | 'unavailable' | 'unknown';
+
+const STATUS_BY_CODE: Record<PaymentErrorCode, number> = {
+  configuration: 500,
+  invalid_request: 400,
+  invalid_signature: 400,
+  not_found: 404,
+  unavailable: 502,
+  unknown: 502,
+};
+
+// A problem talking to the payment provider, as opposed to a declined card,
+// which is a normal failed PaymentResult
+export class PaymentError extends Error {
+  readonly code: PaymentErrorCode;
+  readonly provider: PaymentProviderName;
+  readonly status: number;
+
+  constructor(code: PaymentErrorCode, message: string, provider: PaymentProviderName) {
+    super(message);
+    this.name = 'PaymentError';
+    this.code = code;
+    this.provider = provider;
+    this.status = STATUS_BY_CODE[code];
+  }
+}
@@ -0,0 +1,9 @@
+// Test payment methods understood by the fake provider. The ids match
+// Stripe's test payment methods so the same checkout form works with both.
+export const FAKE_PAYMENT_METHODS = [
+  { id: 'pm_card_visa', label: 'Visa •••• 4242 (succeeds)' },
+  { id: 'pm_card_chargeDeclined', label: 'Visa •••• 0002 (declined)' },
+  { id: 'pm_card_threeDSecure2Required', label: 'Visa •••• 3184 (3-D Secure)' },
+] as const;
+
+export type FakePaymentMethod = (typeof FAKE_PAYMENT_METHODS)[number]['id'];
@@ -0,0 +1,91 @@
+import { randomBytes } from 'crypto';
+import type { Money } from '@/lib/catalog/types';
+import { collection } from '@/lib/store';
+import { PaymentError } from './errors';
+import { FAKE_PAYMENT_METHODS, type FakePaymentMethod } from './fake-methods';
+import type { PaymentProvider, PaymentResult, PaymentStatus } from './types';
+
+type FakePayment = {
+  reference: string;
+  orderId: string;
+  amount: Money;
+  paymentMethod: FakePaymentMethod;
+  idempotencyKey: string;
+  status: PaymentStatus;
+  returnUrl: string;
+  failureMessage?: string;
+  createdAt: string;
+};
+
+const payments = collection<FakePayment>('fake-payments');
+
+function isFakeMethod(id: string): id is FakePaymentMethod {
+  return FAKE_PAYMENT_METHODS.some(method => method.id === id);
+}
+
+function toResult(payment: FakePayment): PaymentResult {
+  return {
+    reference: payment.reference,
+    status: payment.status,
+    ...(payment.status === 'requires_action'
+      ? { nextAction: { type: 'redirect' as const, url: `/checkout/authenticate?payment=${payment.reference}&return=${encodeURIComponent(payment.returnUrl)}` } }
+      : {}),
+    ...(payment.failureMessage ? { failureMessage: payment.failureMessage } : {}),
+  };
+}
+
+// Offline stand-in for a card processor. Outcomes depend only on the test
+// payment method, and a 3-D Secure challenge is answered on our own
+// /checkout/authenticate page.
+export function createFakePaymentProvider(): PaymentProvider & {
+  authenticate(reference: string, approved: boolean): Promise<FakePayment>;
+} {
+  return {
+    name: 'fake',
+
+    async createPayment(request) {
+      if (!isFakeMethod(request.paymentMethod)) {
+        throw new PaymentError('invalid_request', `Unknown test payment method "${request.paymentMethod}"`, 'fake');
+      }
+      const existing = (await payments.list()).find(p => p.idempotencyKey === request.idempotencyKey);
+      if (existing) return toResult(existing);
+
+      const payment: FakePayment = {
+        reference: `fake_pi_${randomBytes(12).toString('hex')}`,
+        orderId: request.orderId,
+        amount: request.amount,
+        paymentMethod: request.paymentMethod,
+        idempotencyKey: request.idempotencyKey,
+        // Our challenge page only follows same-site paths
+        returnUrl: new URL(request.returnUrl).pathname + new URL(request.returnUrl).search,
+        status: 'succeeded',
+        createdAt: new Date().toISOString(),
+      };
+      if (request.paymentMethod === 'pm_card_chargeDeclined') {
+        payment.status = 'failed';
+        payment.failureMessage = 'Your card was declined.';
+      } else if (request.paymentMethod === 'pm_card_threeDSecure2Required') {
+        payment.status = 'requires_action';
+      }
+      return toResult(await payments.put(payment.reference, payment));
+    },
+
+    async retrievePayment(reference) {
+      const payment = await payments.get(reference);
+      if (!payment) throw new PaymentError('not_found', `Unknown payment ${reference}`, 'fake');
+      return toResult(payment);
+    },
+
+    // Completes a pending 3-D Secure challenge
+    async authenticate(reference, approved) {
+      const payment = await payments.update(reference, current => {
+        if (!current || current.status !== 'requires_action') return current;
+        return approved
+          ? { ...current, status: 'succeeded' }
+          : { ...current, status: 'failed', failureMessage: 'The card issuer could not authenticate this payment.' };
+      });
+      if (!payment) throw new PaymentError('not_found', `Unknown payment ${reference}`, 'fake');
+      return payment;
+    },
+  };
+}
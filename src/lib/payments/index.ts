@@ -0,0 +1,40 @@
+import { PaymentError } from './errors';
+import { createFakePaymentProvider } from './fake';
+import { createStripePaymentProvider } from './stripe';
+import type { PaymentProvider, PaymentProviderName } from './types';
+
+export { PaymentError } from './errors';
+export { createFakePaymentProvider } from './fake';
+export { signPayload, verifySignature } from './signature';
+export { createStripePaymentProvider, type StripeConfig } from './stripe';
+export type * from './types';
+
+const PROVIDERS: PaymentProviderName[] = ['fake', 'stripe'];
+
+// PAYMENT_PROVIDER       fake (default; simulated cards, no network) | stripe
+// STRIPE_SECRET_KEY      sk_test_... / sk_live_...
+// STRIPE_WEBHOOK_SECRET  whsec_... used to verify /api/webhooks/payments
+// STRIPE_API_BASE        API origin, default https://api.stripe.com (point at a stub for local testing)
+export function paymentProviderName(env: NodeJS.ProcessEnv = process.env): PaymentProviderName {
+  const name = (env.PAYMENT_PROVIDER || 'fake') as PaymentProviderName;
+  if (!PROVIDERS.includes(name)) {
+    throw new PaymentError('configuration', `Unknown PAYMENT_PROVIDER "${name}"`, name);
+  }
+  return name;
+}
+
+export function getPaymentProvider(env: NodeJS.ProcessEnv = process.env): PaymentProvider {
+  switch (paymentProviderName(env)) {
+    case 'fake':
+      return createFakePaymentProvider();
+    case 'stripe':
+      if (!env.STRIPE_SECRET_KEY) {
+        throw new PaymentError('configuration', 'STRIPE_SECRET_KEY is required for the stripe provider', 'stripe');
+      }
+      return createStripePaymentProvider({
+        secretKey: env.STRIPE_SECRET_KEY,
+        webhookSecret: env.STRIPE_WEBHOOK_SECRET || undefined,
+        apiBase: env.STRIPE_API_BASE || 'https://api.stripe.com',
+      });
+  }
+}
@@ -0,0 +1,34 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+// Stripe-style webhook signatures: the header carries "t=<unix seconds>"
+// and one or more "v1=<hex HMAC-SHA256 of `${t}.${payload}`>" entries.
+
+// Deliveries older than this are rejected to stop replays
+export const SIGNATURE_TOLERANCE_SECONDS = 300;
+
+function hmac(payload: string, secret: string, timestamp: number): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${payload}`, 'utf8').digest('hex');
+}
+
+export function signPayload(payload: string, secret: string, timestamp = Math.floor(Date.now() / 1000)): string {
+  return `t=${timestamp},v1=${hmac(payload, secret, timestamp)}`;
+}
+
+export function verifySignature(
+  payload: string,
+  header: string | null,
+  secret: string,
+  now = Math.floor(Date.now() / 1000),
+): boolean {
+  if (!header) return false;
+  const parts = header.split(',').map(part => part.trim().split('='));
+  const timestamp = Number(parts.find(([key]) => key === 't')?.[1]);
+  if (!Number.isInteger(timestamp) || Math.abs(now - timestamp) > SIGNATURE_TOLERANCE_SECONDS) return false;
+  const expected = Buffer.from(hmac(payload, secret, timestamp), 'hex');
+  return parts
+    .filter(([key, value]) => key === 'v1' && value)
+    .some(([, value]) => {
+      const given = Buffer.from(value, 'hex');
+      return given.length === expected.length && timingSafeEqual(given, expected);
+    });
+}
@@ -0,0 +1,176 @@
+import { PaymentError, type PaymentErrorCode } from './errors';
+import { verifySignature } from './signature';
+import type { PaymentProvider, PaymentResult } from './types';
+
+export type StripeConfig = {
+  secretKey: string;
+  // Needed to accept webhooks
+  webhookSecret?: string;
+  // https://api.stripe.com, or a local stub such as http://localhost:12111
+  apiBase: string;
+  timeoutMs?: number;
+};
+
+type StripePaymentIntent = {
+  id: string;
+  object: 'payment_intent';
+  status: string;
+  amount: number;
+  currency: string;
+  metadata?: Record<string, string>;
+  next_action?: { type: string; redirect_to_url?: { url: string } } | null;
+  last_payment_error?: { message?: string } | null;
+};
+
+type StripeCharge = {
+  id: string;
+  object: 'charge';
+  payment_intent: string | null;
+  refunded: boolean;
+  metadata?: Record<string, string>;
+};
+
+type StripeEvent = {
+  id: string;
+  type: string;
+  data: { object: StripePaymentIntent | StripeCharge };
+};
+
+type StripeErrorBody = {
+  error?: { type?: string; code?: string; message?: string; payment_intent?: StripePaymentIntent };
+};
+
+const ERROR_CODE_BY_STATUS: Record<number, PaymentErrorCode> = {
+  400: 'invalid_request',
+  401: 'configuration',
+  403: 'configuration',
+  404: 'not_found',
+  429: 'unavailable',
+};
+
+function toResult(intent: StripePaymentIntent, declineMessage?: string): PaymentResult {
+  const result = { reference: intent.id };
+  switch (intent.status) {
+    case 'succeeded':
+      return { ...result, status: 'succeeded' };
+    case 'processing':
+    case 'requires_capture':
+    // Created but not confirmed yet; the shopper has nothing to do
+    case 'requires_confirmation':
+      return { ...result, status: 'processing' };
+    case 'requires_action': {
+      const url = intent.next_action?.redirect_to_url?.url;
+      return { ...result, status: 'requires_action', ...(url ? { nextAction: { type: 'redirect' as const, url } } : {}) };
+    }
+    case 'canceled':
+      return { ...result, status: 'failed', failureMessage: 'The payment was canceled.' };
+    default:
+      // requires_payment_method: the last attempt was declined or abandoned
+      return {
+        ...result,
+        status: 'failed',
+        failureMessage: declineMessage ?? intent.last_payment_error?.message ?? 'Your payment was not completed.',
+      };
+  }
+}
+
+// PaymentIntents over Stripe's form-encoded REST API, without the SDK so the
+// base URL can point at a local stub (see scripts/stripe-stub.mjs)
+export function createStripePaymentProvider(config: StripeConfig): PaymentProvider {
+  const apiBase = config.apiBase.replace(/\/+$/, '');
+
+  async function request(path: string, init: { method?: string; form?: URLSearchParams; idempotencyKey?: string } = {}) {
+    let res: Response;
+    try {
+      res = await fetch(`${apiBase}${path}`, {
+        method: init.method ?? 'GET',
+        headers: {
+          Authorization: `Bearer ${config.secretKey}`,
+          ...(init.form ? { 'Content-Type': 'application/x-www-form-urlencoded' } : {}),
+          ...(init.idempotencyKey ? { 'Idempotency-Key': init.idempotencyKey } : {}),
+        },
+        body: init.form,
+        signal: AbortSignal.timeout(config.timeoutMs ?? 15_000),
+        cache: 'no-store',
+      });
+    } catch (error) {
+      throw new PaymentError('unavailable', `Failed to reach Stripe: ${error instanceof Error ? error.message : String(error)}`, 'stripe');
+    }
+    return { res, body: (await res.json().catch(() => ({}))) as StripePaymentIntent & StripeErrorBody };
+  }
+
+  function requestError(status: number, body: StripeErrorBody): PaymentError {
+    const code = ERROR_CODE_BY_STATUS[status] ?? (status >= 500 ? 'unavailable' : 'unknown');
+    return new PaymentError(code, `Stripe returned HTTP ${status}: ${body.error?.message ?? 'no details'}`, 'stripe');
+  }
+
+  return {
+    name: 'stripe',
+
+    async createPayment(payment) {
+      const form = new URLSearchParams({
+        amount: String(payment.amount.amount),
+        currency: payment.amount.currency.toLowerCase(),
+        payment_method: payment.paymentMethod,
+        'payment_method_types[]': 'card',
+        confirm: 'true',
+        return_url: payment.returnUrl,
+        receipt_email: payment.email,
+        'metadata[order_id]': payment.orderId,
+      });
+      const { res, body } = await request('/v1/payment_intents', { method: 'POST', form, idempotencyKey: payment.idempotencyKey });
+      if (res.ok) return toResult(body);
+      // A declined card is a 402 card_error that still carries the intent
+      if (res.status === 402 && body.error?.type === 'card_error' && body.error.payment_intent) {
+        return toResult(body.error.payment_intent, body.error.message);
+      }
+      throw requestError(res.status, body);
+    },
+
+    async retrievePayment(reference) {
+      const { res, body } = await request(`/v1/payment_intents/${encodeURIComponent(reference)}`);
+      if (!res.ok) throw requestError(res.status, body);
+      return toResult(body);
+    },
+
+    async parseWebhook(payload, headers) {
+      if (!config.webhookSecret) {
+        throw new PaymentError('configuration', 'STRIPE_WEBHOOK_SECRET is not set', 'stripe');
+      }
+      if (!verifySignature(payload, headers.get('stripe-signature'), config.webhookSecret)) {
+        throw new PaymentError('invalid_signature', 'Invalid Stripe webhook signature', 'stripe');
+      }
+      let event: StripeEvent;
+      try {
+        event = JSON.parse(payload);
+      } catch {
+        throw new PaymentError('invalid_request', 'Webhook payload is not JSON', 'stripe');
+      }
+      const object = event.data?.object;
+      if (!event.id || !object) throw new PaymentError('invalid_request', 'Malformed Stripe event', 'stripe');
+
+      const base = { id: event.id, orderId: object.metadata?.order_id };
+      if (object.object === 'payment_intent') {
+        const reference = object.id;
+        switch (event.type) {
+          case 'payment_intent.succeeded':
+            return { ...base, type: 'payment.succeeded', reference };
+          case 'payment_intent.processing':
+            return { ...base, type: 'payment.processing', reference };
+          case 'payment_intent.payment_failed':
+            return {
+              ...base,
+              type: 'payment.failed',
+              reference,
+              failureMessage: object.last_payment_error?.message ?? 'Your payment was not completed.',
+            };
+        }
+      }
+      // Only full refunds move the order; partial ones are left to the dashboard
+      if (event.type === 'charge.refunded' && object.object === 'charge' && object.refunded && object.payment_intent) {
+        return { ...base, type: 'payment.refunded', reference: object.payment_intent };
+      }
+      return null;
+    },
+  };
+}
@@ -0,0 +1,49 @@
+import type { Money } from '@/lib/catalog/types';
+
+export type PaymentProviderName = 'fake' | 'stripe';
+
+export type PaymentStatus = 'succeeded' | 'requires_action' | 'processing' | 'failed';
+
+export type PaymentRequest = {
+  orderId: string;
+  amount: Money;
+  email: string;
+  // Provider-specific payment method id, e.g. a Stripe "pm_..." id
+  paymentMethod: string;
+  // Absolute URL the shopper lands on after an off-site step such as 3-D Secure
+  returnUrl: string;
+  // Repeating a request with the same key must not charge twice
+  idempotencyKey: string;
+};
+
+export type PaymentNextAction =
+  | { type: 'redirect'; url: string };
+
+export type PaymentResult = {
+  // Provider's id for the payment, stored on the order
+  reference: string;
+  status: PaymentStatus;
+  nextAction?: PaymentNextAction;
+  // Shopper-facing reason when status is failed
+  failureMessage?: string;
+};
+
+// Provider webhook, verified and reduced to what orders care about
+export type PaymentEvent = {
+  // Provider's event id; each one is applied at most once
+  id: string;
+  type: 'payment.succeeded' | 'payment.processing' | 'payment.failed' | 'payment.refunded';
+  reference: string;
+  orderId?: string;
+  failureMessage?: string;
+};
+
+export type PaymentProvider = {
+  name: PaymentProviderName;
+  createPayment(request: PaymentRequest): Promise<PaymentResult>;
+  // Current state of an existing payment, e.g. after the shopper returns from 3-D Secure
+  retrievePayment(reference: string): Promise<PaymentResult>;
+  // Verifies and decodes a webhook delivery. Resolves to null for event
+  // types we do not act on; providers without webhooks leave this out.
+  parseWebhook?(payload: string, headers: Headers): Promise<PaymentEvent | null>;
+};
@@ -0,0 +1,31 @@
+export type PhotoErrorCode = 'unsupported_type' | 'unreadable' | 'too_small' | 'too_blurry';
+
+const STATUS_BY_CODE: Record<PhotoErrorCode, number> = {
+  unsupported_type: 415,
+  unreadable: 400,
+  too_small: 422,
+  too_blurry: 422,
+};
+
+// A photo that can't be used for avatar generation. The message is meant for
+// the shopper; `suggestion` says what to do about it. `view` says which
+// photo of a multi-view set ("front", "side", "back") it is about.
+export class PhotoError extends Error {
+  readonly code: PhotoErrorCode;
+  readonly status: number;
+  readonly suggestion?: string;
+  readonly view?: string;
+
+  constructor(code: PhotoErrorCode, message: string, suggestion?: string, view?: string) {
+    super(message);
+    this.name = 'PhotoError';
+    this.code = code;
+    this.status = STATUS_BY_CODE[code];
+    this.suggestion = suggestion;
+    this.view = view;
+  }
+
+  forView(view: string): PhotoError {
+    return new PhotoError(this.code, this.message, this.suggestion, view);
+  }
+}
@@ -0,0 +1,23 @@
+import convert from 'heic-convert';
+import { PhotoError } from './errors';
+
+// ISO-BMFF brands used by HEIC/HEIF stills from phone cameras. AVIF shares
+// the container but sharp decodes it natively.
+const HEIC_BRANDS = new Set(['heic', 'heix', 'hevc', 'hevx', 'heim', 'heis', 'mif1', 'msf1']);
+
+export function isHeic(bytes: Uint8Array): boolean {
+  if (bytes.length < 12) return false;
+  const box = String.fromCharCode(...bytes.subarray(4, 12));
+  return box.startsWith('ftyp') && HEIC_BRANDS.has(box.slice(4));
+}
+
+// sharp's prebuilt libvips can't decode HEVC, so HEIC goes through
+// heic-convert (libheif compiled to wasm) first
+export async function heicToJpeg(bytes: Uint8Array): Promise<Buffer> {
+  try {
+    return Buffer.from(await convert({ buffer: bytes, format: 'JPEG', quality: 0.95 }));
+  } catch (error) {
+    console.error('Photos: HEIC conversion failed:', error);
+    throw new PhotoError('unreadable', 'This HEIC photo could not be read.', 'Try exporting it as a JPEG and uploading again.');
+  }
+}
@@ -0,0 +1,97 @@
+import sharp from 'sharp';
+import { sniffImageType } from '@/lib/storage';
+import { PhotoError } from './errors';
+import { heicToJpeg, isHeic } from './heic';
+import { sharpness } from './sharpness';
+
+export { PhotoError, type PhotoErrorCode } from './errors';
+export { heicToJpeg, isHeic } from './heic';
+
+export type PhotoProfile = {
+  // Longest edge sent to the provider; larger photos are scaled down
+  maxEdge: number;
+  // Shortest edge accepted before scaling; smaller photos are rejected
+  minEdge: number;
+  // Minimum Laplacian variance (see sharpness.ts)
+  minSharpness: number;
+};
+
+// What each 3D provider works best with: bigger inputs only slow the upload
+// and don't improve the mesh
+export const PHOTO_PROFILES = {
+  tripo: { maxEdge: 2048, minEdge: 512, minSharpness: 20 },
+  meshy: { maxEdge: 1024, minEdge: 512, minSharpness: 20 },
+  // Same checks as Tripo, so offline runs reject the same photos
+  mock: { maxEdge: 2048, minEdge: 512, minSharpness: 20 },
+} satisfies Record<string, PhotoProfile>;
+
+export type PreparedPhoto = {
+  body: Buffer;
+  contentType: 'image/jpeg';
+  width: number;
+  height: number;
+  // Format the shopper uploaded
+  sourceType: string;
+  sharpness: number;
+};
+
+function unreadable(): PhotoError {
+  return new PhotoError('unreadable', 'This photo could not be read.', 'It may be damaged or incomplete. Try another photo.');
+}
+
+// Turns a shopper's photo into what avatar generation expects: upright
+// (EXIF orientation applied), flattened onto white, scaled to the profile
+// and re-encoded as a metadata-free JPEG. Photos too small or too blurry to
+// give a usable avatar are rejected here, before any credits are spent.
+export async function preprocessPhoto(bytes: Uint8Array, profile: PhotoProfile): Promise<PreparedPhoto> {
+  const heic = isHeic(bytes);
+  const sourceType = heic ? 'image/heic' : sniffImageType(bytes);
+  if (!sourceType) {
+    throw new PhotoError('unsupported_type', 'Only JPEG, PNG, WebP and HEIC photos are supported.');
+  }
+  const input = heic ? await heicToJpeg(bytes) : Buffer.from(bytes);
+
+  let metadata: sharp.Metadata;
+  try {
+    metadata = await sharp(input).metadata();
+  } catch {
+    throw unreadable();
+  }
+  const shortEdge = Math.min(metadata.width ?? 0, metadata.height ?? 0);
+  if (shortEdge < profile.minEdge) {
+    throw new PhotoError(
+      'too_small',
+      `This photo is too small (${metadata.width ?? 0}×${metadata.height ?? 0}). It needs to be at least ${profile.minEdge} pixels on each side.`,
+      'Use the original photo from your camera rather than a thumbnail or screenshot.',
+    );
+  }
+
+  let output: { data: Buffer; info: sharp.OutputInfo };
+  try {
+    output = await sharp(input)
+      .rotate()
+      .flatten({ background: '#ffffff' })
+      .resize({ width: profile.maxEdge, height: profile.maxEdge, fit: 'inside', withoutEnlargement: true })
+      .jpeg({ quality: 90, mozjpeg: true })
+      .toBuffer({ resolveWithObject: true });
+  } catch {
+    throw unreadable();
+  }
+
+  const score = await sharpness(output.data);
+  if (score < profile.minSharpness) {
+    throw new PhotoError(
+      'too_blurry',
+      'This photo looks too blurry to build an avatar from.',
+      'Hold the camera steady in good light and make sure you are in focus.',
+    );
+  }
+  return {
+    body: output.data,
+    contentType: 'image/jpeg',
+    width: output.info.width,
+    height: output.info.height,
+    sourceType,
+    sharpness: score,
+  };
+}
@@ -0,0 +1,30 @@
+import sharp from 'sharp';
+
+// Size the sharpness check runs at, so scores are comparable across photos
+const SAMPLE_EDGE = 512;
+
+// Variance of the Laplacian over a greyscale copy: high for crisp edges,
+// low for out-of-focus or motion-blurred photos
+export async function sharpness(image: Buffer): Promise<number> {
+  const { data, info } = await sharp(image)
+    .greyscale()
+    .resize({ width: SAMPLE_EDGE, height: SAMPLE_EDGE, fit: 'inside', withoutEnlargement: true })
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  const { width, height } = info;
+  let sum = 0;
+  let sumOfSquares = 0;
+  let count = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const laplacian = 4 * data[i] - data[i - 1] - data[i + 1] - data[i - width] - data[i + width];
+      sum += laplacian;
+      sumOfSquares += laplacian * laplacian;
+      count++;
+    }
+  }
+  if (!count) return 0;
+  const mean = sum / count;
+  return sumOfSquares / count - mean * mean;
+}
@@ -0,0 +1,59 @@
+import { randomUUID } from 'crypto';
+import { cookies } from 'next/headers';
+import { getAuthUserId } from '@/lib/auth/sessions';
+
+// Anonymous shopper session: a random id in an HTTP-only cookie that keys
+// server-side state such as the cart. Only usable from route handlers and
+// server actions, where cookies can be set.
+
+export const SESSION_COOKIE = 'vf_session';
+const SESSION_MAX_AGE = 60 * 60 * 24 * 30;
+const SESSION_ID_PATTERN = /^[0-9a-f-]{36}$/;
+
+export async function getSessionId(): Promise<string | undefined> {
+  const value = (await cookies()).get(SESSION_COOKIE)?.value;
+  return value && SESSION_ID_PATTERN.test(value) ? value : undefined;
+}
+
+// Returns the current session id, starting a new session if there is none
+export async function ensureSessionId(): Promise<string> {
+  const existing = await getSessionId();
+  if (existing) return existing;
+  const id = randomUUID();
+  (await cookies()).set(SESSION_COOKIE, id, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    maxAge: SESSION_MAX_AGE,
+  });
+  return id;
+}
+
+// Who is shopping: the anonymous session, plus the account once signed in
+export type Shopper = {
+  sessionId?: string;
+  userId?: string;
+};
+
+export async function getShopper(): Promise<Shopper> {
+  const [sessionId, userId] = await Promise.all([getSessionId(), getAuthUserId()]);
+  return { ...(sessionId ? { sessionId } : {}), ...(userId ? { userId } : {}) };
+}
+
+// Like getShopper, starting an anonymous session if there is none
+export async function ensureShopper(): Promise<Shopper & { sessionId: string }> {
+  const [sessionId, userId] = await Promise.all([ensureSessionId(), getAuthUserId()]);
+  return { sessionId, ...(userId ? { userId } : {}) };
+}
+
+// Key for per-shopper state such as the cart and wishlists. Signed-in
+// shoppers share theirs across browsers.
+export function shopperKey(shopper: Shopper): string | undefined {
+  return shopper.userId ? `user:${shopper.userId}` : shopper.sessionId;
+}
+
+// The account behind a shopperKey(), if it belongs to a signed-in shopper
+export function userIdFromKey(key: string): string | undefined {
+  return key.startsWith('user:') ? key.slice('user:'.length) : undefined;
+}
@@ -0,0 +1,69 @@
+import { getProduct } from '@/lib/catalog';
+import { collection } from '@/lib/store';
+import type { SizeChart } from './types';
+
+// Built-in unisex charts, body measurements in centimeters
+const BUILTIN_CHARTS: SizeChart[] = [
+  {
+    id: 'tops-unisex',
+    name: 'Unisex tops',
+    category: 'tops',
+    source: 'builtin',
+    sizes: [
+      { label: 'S', ranges: { chest: [86, 94], waist: [71, 79], shoulder: [42, 44] } },
+      { label: 'M', ranges: { chest: [94, 102], waist: [79, 87], shoulder: [44, 46] } },
+      { label: 'L', ranges: { chest: [102, 110], waist: [87, 95], shoulder: [46, 48] } },
+      { label: 'XL', ranges: { chest: [110, 118], waist: [95, 103], shoulder: [48, 50] } },
+    ],
+  },
+  {
+    id: 'bottoms-unisex',
+    name: 'Unisex bottoms',
+    category: 'bottoms',
+    source: 'builtin',
+    sizes: [
+      { label: 'S', ranges: { waist: [71, 79], hips: [88, 96], inseam: [76, 79] } },
+      { label: 'M', ranges: { waist: [79, 87], hips: [96, 104], inseam: [78, 81] } },
+      { label: 'L', ranges: { waist: [87, 95], hips: [104, 112], inseam: [80, 83] } },
+      { label: 'XL', ranges: { waist: [95, 103], hips: [112, 120], inseam: [81, 84] } },
+    ],
+  },
+];
+
+const importedCharts = collection<SizeChart>('size-charts');
+
+function same(a: string | undefined, b: string | undefined): boolean {
+  return !!a && !!b && a.toLowerCase() === b.toLowerCase();
+}
+
+// Imported charts may not take a built-in chart's id, or they'd replace it
+export function isBuiltinChartId(id: string): boolean {
+  return BUILTIN_CHARTS.some(chart => chart.id === id);
+}
+
+export async function listSizeCharts(): Promise<SizeChart[]> {
+  return [...BUILTIN_CHARTS, ...(await importedCharts.list())];
+}
+
+export async function getSizeChart(id: string): Promise<SizeChart | undefined> {
+  return BUILTIN_CHARTS.find(chart => chart.id === id) ?? (await importedCharts.get(id));
+}
+
+export async function saveSizeChart(chart: SizeChart): Promise<SizeChart> {
+  return importedCharts.put(chart.id, chart);
+}
+
+// Most specific chart wins: brand + category, brand-wide, category-wide
+// import, then the built-in chart for the category.
+export async function getSizeChartForProduct(productId: string): Promise<SizeChart | undefined> {
+  const product = await getProduct(productId);
+  if (!product) return undefined;
+  const { brand, category } = product;
+  const imported = await importedCharts.list();
+  return (
+    imported.find(c => same(c.brand, brand) && same(c.category, category)) ??
+    imported.find(c => same(c.brand, brand) && !c.category) ??
+    imported.find(c => !c.brand && same(c.category, category)) ??
+    BUILTIN_CHARTS.find(c => same(c.category, category))
+  );
+}
@@ -0,0 +1,116 @@
+import type {
+  BodyMeasurements,
+  FitPreference,
+  FitVerdict,
+  Measurement,
+  MeasurementFit,
+  MeasurementRange,
+  SizeChart,
+  SizeChartRow,
+} from './types';
+import { canonicalUnit, roundTo } from './units';
+
+// Where in a size's range the body should sit for each preference:
+// slim wants the body near the top of the range (garment hugs), relaxed
+// near the bottom (garment has room to spare).
+const TARGET_POSITION: Record<FitPreference, number> = {
+  slim: 0.75,
+  regular: 0.5,
+  relaxed: 0.25,
+};
+
+// Girths decide fit; lengths can be hemmed, so they count less
+const MEASUREMENT_WEIGHT: Record<Measurement, number> = {
+  chest: 1,
+  waist: 1,
+  hips: 0.8,
+  shoulder: 0.7,
+  weight: 0.6,
+  height: 0.5,
+  inseam: 0.4,
+};
+
+// Extra cost per range-width a measurement falls outside a size
+const OUT_OF_RANGE_PENALTY = 2;
+
+export type SizeScore = { size: SizeChartRow; cost: number; measured: number };
+
+function rangeWidth([min, max]: MeasurementRange): number {
+  return Math.max(max - min, 1);
+}
+
+function measurementCost(value: number, range: MeasurementRange, fit: FitPreference): number {
+  const [min, max] = range;
+  const width = rangeWidth(range);
+  const target = min + TARGET_POSITION[fit] * width;
+  const deviation = (value - target) / width;
+  const outside = value < min ? (min - value) / width : value > max ? (value - max) / width : 0;
+  return deviation * deviation + OUT_OF_RANGE_PENALTY * outside;
+}
+
+export function scoreSize(size: SizeChartRow, measurements: BodyMeasurements, fit: FitPreference): SizeScore {
+  let total = 0;
+  let weights = 0;
+  let measured = 0;
+  for (const [measurement, range] of Object.entries(size.ranges) as [Measurement, MeasurementRange][]) {
+    const value = measurements[measurement];
+    if (value === undefined) continue;
+    const weight = MEASUREMENT_WEIGHT[measurement];
+    total += weight * measurementCost(value, range, fit);
+    weights += weight;
+    measured++;
+  }
+  return { size, cost: weights ? total / weights : Infinity, measured };
+}
+
+function verdictFor(value: number, [min, max]: MeasurementRange): { verdict: FitVerdict; delta: number } {
+  if (value > max) return { verdict: 'tight', delta: roundTo(value - max) };
+  if (value < min) return { verdict: 'loose', delta: roundTo(min - value) };
+  return { verdict: 'good', delta: 0 };
+}
+
+export function fitBreakdown(size: SizeChartRow, measurements: BodyMeasurements): MeasurementFit[] {
+  const breakdown: MeasurementFit[] = [];
+  for (const [measurement, range] of Object.entries(size.ranges) as [Measurement, MeasurementRange][]) {
+    const value = measurements[measurement];
+    if (value === undefined) continue;
+    const unit = canonicalUnit(measurement) as MeasurementFit['unit'];
+    breakdown.push({ measurement, value: roundTo(value), range, unit, ...verdictFor(value, range) });
+  }
+  return breakdown;
+}
+
+export type ChartRecommendation = {
+  size: string;
+  confidence: number;
+  breakdown: MeasurementFit[];
+  alternatives: { size: string; score: number }[];
+};
+
+// Picks the size whose ranges best match the body for the given fit.
+// Returns null when none of the provided measurements apply to the chart.
+export function recommendFromChart(
+  chart: SizeChart,
+  measurements: BodyMeasurements,
+  fit: FitPreference,
+): ChartRecommendation | null {
+  const scores = chart.sizes.map(size => scoreSize(size, measurements, fit));
+  const ranked = scores.filter(s => s.measured > 0).sort((a, b) => a.cost - b.cost);
+  if (!ranked.length) return null;
+
+  const [best, runnerUp] = ranked;
+  const chartMeasurements = new Set(chart.sizes.flatMap(s => Object.keys(s.ranges)));
+  const coverage = best.measured / chartMeasurements.size;
+  // Good absolute match, a clear margin over the next size and complete
+  // measurements all raise confidence
+  const match = Math.exp(-best.cost);
+  const margin = runnerUp ? Math.min(1, (runnerUp.cost - best.cost) / (runnerUp.cost + 0.25)) : 1;
+  const confidence = match * (0.6 + 0.4 * margin) * Math.sqrt(coverage);
+
+  return {
+    size: best.size.label,
+    confidence: roundTo(confidence, 2),
+    breakdown: fitBreakdown(best.size, measurements),
+    alternatives: ranked.slice(1).map(s => ({ size: s.size.label, score: roundTo(Math.exp(-s.cost), 2) })),
+  };
+}
@@ -0,0 +1,264 @@
+import { isBuiltinChartId } from './charts';
+import { MEASUREMENTS, type Measurement, type MeasurementRange, type SizeChart, type SizeChartRow } from './types';
+import {
+  canonicalUnit,
+  isWeight,
+  parseLengthUnit,
+  parseWeightUnit,
+  roundTo,
+  toCanonical,
+  type LengthUnit,
+  type WeightUnit,
+} from './units';
+import { MEASUREMENT_BOUNDS } from './validation';
+
+// Size chart import format
+// =======================
+//
+// JSON:
+//   {
+//     "brand": "Acme",             // brand and/or category is required
+//     "category": "tops",
+//     "name": "Acme tops",         // optional display name
+//     "unit": "in",                // cm (default) or in, for length columns
+//     "weightUnit": "lb",          // kg (default) or lb, for the weight column
+//     "sizes": [
+//       { "label": "S", "chest": [34, 37], "waist": "28-31", "weight_kg": { "min": 55, "max": 65 } }
+//     ]
+//   }
+//
+// CSV: optional "# key: value" metadata lines (brand, category, name, unit,
+// weight_unit), then a header row with a "size" column and one column per
+// measurement. A column may carry its own unit ("chest_in", "weight (lb)").
+// Cells hold a range ("34-37", "34 – 37") or a single value.
+//
+//   # brand: Acme
+//   # category: tops
+//   size,chest_in,waist_in,weight_lb
+//   S,34-37,28-31,120-145
+
+export type SizeChartDocument = {
+  name?: unknown;
+  brand?: unknown;
+  category?: unknown;
+  unit?: unknown;
+  weightUnit?: unknown;
+  sizes?: unknown;
+};
+
+export type SizeChartImport =
+  | { ok: true; chart: SizeChart; warnings: string[] }
+  | { ok: false; errors: string[]; warnings: string[] };
+
+const COLUMN_PATTERN = /^([a-z]+)(?:[\s_-]*\(?\s*([a-z"]+)\s*\)?)?$/;
+
+function slug(value: string): string {
+  return value.toLowerCase().trim().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+}
+
+function optionalText(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+// Accepts [min, max], { min, max }, "min-max", or a single number
+export function parseRange(raw: unknown): MeasurementRange | null {
+  let min: number;
+  let max: number;
+  if (Array.isArray(raw) && raw.length === 2) {
+    [min, max] = raw.map(Number);
+  } else if (typeof raw === 'object' && raw !== null) {
+    min = Number((raw as { min?: unknown }).min);
+    max = Number((raw as { max?: unknown }).max);
+  } else if (typeof raw === 'number') {
+    min = max = raw;
+  } else if (typeof raw === 'string') {
+    const match = raw.trim().match(/^(\d+(?:[.,]\d+)?)\s*(?:(?:-|–|—|to)\s*(\d+(?:[.,]\d+)?))?$/i);
+    if (!match) return null;
+    min = Number(match[1].replace(',', '.'));
+    max = match[2] ? Number(match[2].replace(',', '.')) : min;
+  } else {
+    return null;
+  }
+  return Number.isFinite(min) && Number.isFinite(max) ? [min, max] : null;
+}
+
+// Splits "chest_in" / "Weight (lb)" into the measurement and its unit
+function parseColumn(key: string): { measurement: Measurement; unit?: LengthUnit | WeightUnit } | null {
+  const match = key.trim().toLowerCase().match(COLUMN_PATTERN);
+  if (!match || !MEASUREMENTS.includes(match[1] as Measurement)) return null;
+  const measurement = match[1] as Measurement;
+  if (!match[2]) return { measurement };
+  const unit = isWeight(measurement) ? parseWeightUnit(match[2]) : parseLengthUnit(match[2]);
+  return unit ? { measurement, unit } : null;
+}
+
+// Validates a chart document and converts every range to canonical units
+export function normalizeSizeChart(doc: SizeChartDocument): SizeChartImport {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const brand = optionalText(doc.brand);
+  const category = optionalText(doc.category);
+  if (!brand && !category) errors.push('brand or category is required');
+
+  const lengthUnit = doc.unit === undefined ? 'cm' : parseLengthUnit(doc.unit);
+  if (!lengthUnit) errors.push(`unit must be cm or in (got "${String(doc.unit)}")`);
+  const weightUnit = doc.weightUnit === undefined ? 'kg' : parseWeightUnit(doc.weightUnit);
+  if (!weightUnit) errors.push(`weightUnit must be kg or lb (got "${String(doc.weightUnit)}")`);
+
+  if (!Array.isArray(doc.sizes) || !doc.sizes.length) {
+    errors.push('sizes must be a non-empty array');
+    return { ok: false, errors, warnings };
+  }
+
+  const sizes: SizeChartRow[] = [];
+  const labels = new Set<string>();
+  doc.sizes.forEach((entry: unknown, index: number) => {
+    if (typeof entry !== 'object' || entry === null) {
+      errors.push(`sizes[${index}] must be an object`);
+      return;
+    }
+    const { label: rawLabel, size, ranges: nested, ...columns } = entry as Record<string, unknown>;
+    const label = optionalText(rawLabel) ?? optionalText(size);
+    const where = label ? `size ${label}` : `sizes[${index}]`;
+    if (!label) errors.push(`${where}: label is required`);
+    else if (labels.has(label.toLowerCase())) errors.push(`${where}: duplicate size label`);
+    else labels.add(label.toLowerCase());
+
+    const ranges: SizeChartRow['ranges'] = {};
+    const cells = typeof nested === 'object' && nested !== null ? { ...nested, ...columns } : columns;
+    for (const [key, raw] of Object.entries(cells)) {
+      if (raw === undefined || raw === null || raw === '') continue;
+      const column = parseColumn(key);
+      if (!column) {
+        warnings.push(`${where}: ignored unknown column "${key}"`);
+        continue;
+      }
+      const { measurement } = column;
+      const range = parseRange(raw);
+      if (!range) {
+        errors.push(`${where}: ${key} must be a range like 34-37 (got ${JSON.stringify(raw)})`);
+        continue;
+      }
+      if (range[0] > range[1]) {
+        errors.push(`${where}: ${key} minimum ${range[0]} is larger than maximum ${range[1]}`);
+        continue;
+      }
+      const unit = column.unit ?? (isWeight(measurement) ? weightUnit : lengthUnit);
+      if (!unit) continue;
+      const converted: MeasurementRange = [roundTo(toCanonical(range[0], unit)), roundTo(toCanonical(range[1], unit))];
+      const [low, high] = MEASUREMENT_BOUNDS[measurement];
+      if (converted[0] < low || converted[1] > high) {
+        const canonical = canonicalUnit(measurement);
+        const given = `${range[0]}-${range[1]} ${unit}`;
+        const asCanonical = unit === canonical ? given : `${given} (${converted[0]}-${converted[1]} ${canonical})`;
+        errors.push(`${where}: ${key} ${asCanonical} is outside the plausible ${low}-${high} ${canonical}; check the unit`);
+        continue;
+      }
+      ranges[measurement] = converted;
+    }
+    if (!Object.keys(ranges).length) errors.push(`${where}: no measurement ranges`);
+    sizes.push({ label: label ?? `#${index + 1}`, ranges });
+  });
+
+  // Sizes are expected smallest first; the engine does not rely on it, but
+  // an out-of-order row usually means a typo in the sheet
+  for (const measurement of MEASUREMENTS) {
+    let previous: { label: string; min: number } | undefined;
+    for (const row of sizes) {
+      const range = row.ranges[measurement];
+      if (!range) continue;
+      if (previous && range[0] < previous.min) {
+        warnings.push(`${measurement}: size ${row.label} starts below size ${previous.label}`);
+      }
+      previous = { label: row.label, min: range[0] };
+    }
+  }
+
+  const id = [brand, category].filter((part): part is string => !!part).map(slug).join('-');
+  if (isBuiltinChartId(id)) errors.push(`chart id "${id}" belongs to a built-in chart; use a different brand or category`);
+  if (errors.length) return { ok: false, errors, warnings };
+  return {
+    ok: true,
+    warnings,
+    chart: {
+      id,
+      name: optionalText(doc.name) ?? [brand, category].filter(Boolean).join(' '),
+      ...(brand ? { brand } : {}),
+      ...(category ? { category: category.toLowerCase() } : {}),
+      source: 'import',
+      importedAt: new Date().toISOString(),
+      sizes,
+    },
+  };
+}
+
+function splitCsvLine(line: string, delimiter: string): string[] {
+  const cells: string[] = [];
+  let current = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        current += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      cells.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  cells.push(current.trim());
+  return cells;
+}
+
+// Parses the CSV flavour of the format. `defaults` fills metadata that is
+// not given in "# key: value" lines (e.g. from query parameters).
+export function parseSizeChartCsv(text: string, defaults: SizeChartDocument = {}): SizeChartImport {
+  const doc: SizeChartDocument = { ...defaults };
+  const rows: string[] = [];
+  for (const rawLine of text.replace(/^\uFEFF/, '').split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line) continue;
+    const meta = line.match(/^#\s*([a-z_ ]+?)\s*:\s*(.+)$/i);
+    if (meta) {
+      const key = meta[1].toLowerCase().replace(/\s+/g, '_');
+      const value = meta[2].trim();
+      if (key === 'brand') doc.brand = value;
+      else if (key === 'category') doc.category = value;
+      else if (key === 'name') doc.name = value;
+      else if (key === 'unit') doc.unit = value;
+      else if (key === 'weight_unit') doc.weightUnit = value;
+      continue;
+    }
+    if (line.startsWith('#')) continue;
+    rows.push(rawLine);
+  }
+  if (rows.length < 2) {
+    return { ok: false, errors: ['CSV needs a header row and at least one size row'], warnings: [] };
+  }
+  const delimiter = rows[0].includes('\t') ? '\t' : rows[0].includes(';') && !rows[0].includes(',') ? ';' : ',';
+  const header = splitCsvLine(rows[0], delimiter).map(h => h.toLowerCase());
+  const sizeColumn = header.findIndex(h => h === 'size' || h === 'label');
+  if (sizeColumn === -1) {
+    return { ok: false, errors: ['CSV header must contain a "size" column'], warnings: [] };
+  }
+  doc.sizes = rows.slice(1).map(row => {
+    const cells = splitCsvLine(row, delimiter);
+    const entry: Record<string, string> = {};
+    header.forEach((key, i) => {
+      if (i === sizeColumn) entry.label = cells[i] ?? '';
+      else if (key) entry[key] = cells[i] ?? '';
+    });
+    return entry;
+  });
+  return normalizeSizeChart(doc);
+}
@@ -0,0 +1,34 @@
+import { getSizeChartForProduct } from './charts';
+import { recommendFromChart } from './engine';
+import type { BodyMeasurements, FitPreference, SizeRecommendation } from './types';
+
+export { getSizeChart, getSizeChartForProduct, listSizeCharts, saveSizeChart } from './charts';
+export { recommendFromChart } from './engine';
+export { normalizeSizeChart, parseSizeChartCsv, type SizeChartImport } from './import';
+export { parseMeasurements, parseSizingInput } from './validation';
+export * from './types';
+export * from './units';
+
+export class SizingError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'SizingError';
+    this.status = status;
+  }
+}
+
+export async function recommendSize(
+  productId: string,
+  measurements: BodyMeasurements,
+  fit: FitPreference,
+): Promise<SizeRecommendation> {
+  const chart = await getSizeChartForProduct(productId);
+  if (!chart) throw new SizingError(`No size chart for product ${productId}`, 404);
+  const result = recommendFromChart(chart, measurements, fit);
+  if (!result) {
+    throw new SizingError(`None of the provided measurements apply to ${chart.name.toLowerCase()}`, 422);
+  }
+  return { productId, chartId: chart.id, fit, ...result };
+}
@@ -0,0 +1,54 @@
+export const MEASUREMENTS = ['chest', 'waist', 'hips', 'inseam', 'shoulder', 'height', 'weight'] as const;
+
+export type Measurement = (typeof MEASUREMENTS)[number];
+
+// Body measurements in centimeters (weight in kilograms); shoppers may
+// leave some out
+export type BodyMeasurements = Partial<Record<Measurement, number>>;
+
+export const FIT_PREFERENCES = ['slim', 'regular', 'relaxed'] as const;
+
+export type FitPreference = (typeof FIT_PREFERENCES)[number];
+
+// Inclusive [min, max] body measurement range in canonical units
+export type MeasurementRange = [number, number];
+
+export type SizeChartRow = {
+  label: string;
+  ranges: Partial<Record<Measurement, MeasurementRange>>;
+};
+
+export type SizeChart = {
+  id: string;
+  name: string;
+  // Imported charts apply to a brand, a category, or both
+  brand?: string;
+  category?: string;
+  source: 'builtin' | 'import';
+  importedAt?: string;
+  // Rows ordered from smallest to largest
+  sizes: SizeChartRow[];
+};
+
+export type FitVerdict = 'tight' | 'good' | 'loose';
+
+export type MeasurementFit = {
+  measurement: Measurement;
+  value: number;
+  range: MeasurementRange;
+  verdict: FitVerdict;
+  // How far outside the range the body measurement is, 0 when inside
+  delta: number;
+  unit: 'cm' | 'kg';
+};
+
+export type SizeRecommendation = {
+  productId: string;
+  chartId: string;
+  fit: FitPreference;
+  size: string;
+  // 0..1, how well the best size matches and how clearly it beats the others
+  confidence: number;
+  breakdown: MeasurementFit[];
+  alternatives: { size: string; score: number }[];
+};
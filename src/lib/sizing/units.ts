@@ -0,0 +1,57 @@
+import type { Measurement } from './types';
+
+export type LengthUnit = 'cm' | 'in';
+export type WeightUnit = 'kg' | 'lb';
+export type UnitSystem = 'metric' | 'imperial';
+
+const CM_PER_INCH = 2.54;
+const KG_PER_POUND = 0.45359237;
+
+// Spellings merchandisers actually use in spreadsheets
+const LENGTH_ALIASES: Record<string, LengthUnit> = {
+  cm: 'cm', cms: 'cm', centimeter: 'cm', centimeters: 'cm', centimetre: 'cm', centimetres: 'cm',
+  in: 'in', inch: 'in', inches: 'in', '"': 'in',
+};
+const WEIGHT_ALIASES: Record<string, WeightUnit> = {
+  kg: 'kg', kgs: 'kg', kilo: 'kg', kilos: 'kg', kilogram: 'kg', kilograms: 'kg',
+  lb: 'lb', lbs: 'lb', pound: 'lb', pounds: 'lb',
+};
+
+export function parseLengthUnit(value: unknown): LengthUnit | undefined {
+  return typeof value === 'string' ? LENGTH_ALIASES[value.trim().toLowerCase()] : undefined;
+}
+
+export function parseWeightUnit(value: unknown): WeightUnit | undefined {
+  return typeof value === 'string' ? WEIGHT_ALIASES[value.trim().toLowerCase()] : undefined;
+}
+
+export function isWeight(measurement: Measurement): boolean {
+  return measurement === 'weight';
+}
+
+// Canonical units are centimeters for lengths and kilograms for weight
+export function canonicalUnit(measurement: Measurement): LengthUnit | WeightUnit {
+  return isWeight(measurement) ? 'kg' : 'cm';
+}
+
+export function unitFor(measurement: Measurement, system: UnitSystem): LengthUnit | WeightUnit {
+  if (isWeight(measurement)) return system === 'imperial' ? 'lb' : 'kg';
+  return system === 'imperial' ? 'in' : 'cm';
+}
+
+export function toCanonical(value: number, unit: LengthUnit | WeightUnit): number {
+  if (unit === 'in') return value * CM_PER_INCH;
+  if (unit === 'lb') return value * KG_PER_POUND;
+  return value;
+}
+
+export function fromCanonical(value: number, unit: LengthUnit | WeightUnit): number {
+  if (unit === 'in') return value / CM_PER_INCH;
+  if (unit === 'lb') return value / KG_PER_POUND;
+  return value;
+}
+
+export function roundTo(value: number, digits = 1): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
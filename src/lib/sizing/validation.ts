@@ -0,0 +1,68 @@
+import { FIT_PREFERENCES, MEASUREMENTS, type BodyMeasurements, type FitPreference, type Measurement } from './types';
+import { canonicalUnit, toCanonical, unitFor, type UnitSystem } from './units';
+
+// Plausible adult body measurement bounds in canonical units (cm, kg)
+export const MEASUREMENT_BOUNDS: Record<Measurement, [number, number]> = {
+  chest: [60, 160],
+  waist: [50, 160],
+  hips: [60, 170],
+  inseam: [50, 100],
+  shoulder: [30, 65],
+  height: [120, 230],
+  weight: [30, 250],
+};
+
+const UNIT_SYSTEMS: UnitSystem[] = ['metric', 'imperial'];
+
+export type SizingInput = {
+  productId: string;
+  measurements: BodyMeasurements;
+  fit: FitPreference;
+};
+
+export type ValidationResult<T> = { ok: true; value: T } | { ok: false; errors: string[] };
+
+// Reads measurements entered in the given unit system and returns them in
+// canonical units
+export function parseMeasurements(input: unknown, units: UnitSystem = 'metric'): ValidationResult<BodyMeasurements> {
+  if (typeof input !== 'object' || input === null) {
+    return { ok: false, errors: ['measurements must be an object'] };
+  }
+  const errors: string[] = [];
+  const measurements: BodyMeasurements = {};
+  for (const measurement of MEASUREMENTS) {
+    const raw = (input as Record<string, unknown>)[measurement];
+    if (raw === undefined || raw === null || raw === '') continue;
+    const value = toCanonical(Number(raw), unitFor(measurement, units));
+    const [min, max] = MEASUREMENT_BOUNDS[measurement];
+    if (!Number.isFinite(value) || value < min || value > max) {
+      errors.push(`${measurement} must be between ${min} and ${max} ${canonicalUnit(measurement)}`);
+      continue;
+    }
+    measurements[measurement] = value;
+  }
+  if (!errors.length && !Object.keys(measurements).length) {
+    errors.push(`Provide at least one of: ${MEASUREMENTS.join(', ')}`);
+  }
+  return errors.length ? { ok: false, errors } : { ok: true, value: measurements };
+}
+
+export function parseSizingInput(body: unknown): ValidationResult<SizingInput> {
+  if (typeof body !== 'object' || body === null) {
+    return { ok: false, errors: ['Request body must be a JSON object'] };
+  }
+  const { productId, measurements, fit = 'regular', units = 'metric' } = body as Record<string, unknown>;
+  const errors: string[] = [];
+  if (typeof productId !== 'string' || !productId) errors.push('productId is required');
+  if (!FIT_PREFERENCES.includes(fit as FitPreference)) {
+    errors.push(`fit must be one of: ${FIT_PREFERENCES.join(', ')}`);
+  }
+  if (!UNIT_SYSTEMS.includes(units as UnitSystem)) {
+    errors.push(`units must be one of: ${UNIT_SYSTEMS.join(', ')}`);
+    return { ok: false, errors };
+  }
+  const parsed = parseMeasurements(measurements, units as UnitSystem);
+  if (!parsed.ok) errors.push(...parsed.errors);
+  if (errors.length || !parsed.ok) return { ok: false, errors };
+  return { ok: true, value: { productId: productId as string, measurements: parsed.value, fit: fit as FitPreference } };
+}
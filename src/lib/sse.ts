@@ -0,0 +1,100 @@
+// Minimal Server-Sent Events helpers shared by streaming routes and the browser.
+
+export type SSEMessage = { event: string; data: string };
+
+export type SSESend = (event: string, data: unknown) => void;
+
+const SSE_HEADERS = {
+  'Content-Type': 'text/event-stream; charset=utf-8',
+  'Cache-Control': 'no-cache, no-transform',
+  Connection: 'keep-alive',
+  // Stops nginx-style proxies from buffering the stream
+  'X-Accel-Buffering': 'no',
+};
+
+const encoder = new TextEncoder();
+
+export function encodeSSE(event: string, data: unknown): Uint8Array {
+  return encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+// Wraps a producer in a streaming Response. Anything the producer throws is
+// forwarded as an `error` event so the client can surface it. With
+// `heartbeatMs`, a comment line goes out at that interval so proxies don't
+// close a quiet stream; clients never see it as an event.
+export function sseResponse(
+  producer: (send: SSESend, signal: AbortSignal) => Promise<void>,
+  { heartbeatMs }: { heartbeatMs?: number } = {},
+): Response {
+  const abort = new AbortController();
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send: SSESend = (event, data) => {
+        if (!abort.signal.aborted) controller.enqueue(encodeSSE(event, data));
+      };
+      const heartbeat = heartbeatMs
+        ? setInterval(() => {
+          if (!abort.signal.aborted) controller.enqueue(encoder.encode(': ping\n\n'));
+        }, heartbeatMs)
+        : undefined;
+      try {
+        await producer(send, abort.signal);
+      } catch (error) {
+        send('error', { error: error instanceof Error ? error.message : String(error) });
+      } finally {
+        clearInterval(heartbeat);
+        if (!abort.signal.aborted) controller.close();
+      }
+    },
+    cancel() {
+      abort.abort();
+    },
+  });
+  return new Response(stream, { status: 200, headers: SSE_HEADERS });
+}
+
+function parseBlock(block: string): SSEMessage | null {
+  let event = 'message';
+  const data: string[] = [];
+  for (const line of block.split('\n')) {
+    // Lines starting with ':' are comments (keep-alives, provider notices)
+    if (!line || line.startsWith(':')) continue;
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    const value = colon === -1 ? '' : line.slice(colon + 1).replace(/^ /, '');
+    if (field === 'event') event = value;
+    else if (field === 'data') data.push(value);
+  }
+  return data.length ? { event, data: data.join('\n') } : null;
+}
+
+// Reads an SSE body (ours or an upstream provider's) message by message.
+export async function* readSSE(body: ReadableStream<Uint8Array>): AsyncGenerator<SSEMessage> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let finished = false;
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) {
+        finished = true;
+        break;
+      }
+      buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, '\n');
+      let boundary = buffer.indexOf('\n\n');
+      while (boundary !== -1) {
+        const message = parseBlock(buffer.slice(0, boundary));
+        buffer = buffer.slice(boundary + 2);
+        if (message) yield message;
+        boundary = buffer.indexOf('\n\n');
+      }
+    }
+    const tail = parseBlock(buffer.trim());
+    if (tail) yield tail;
+  } finally {
+    // The consumer stopped early: let the producer know we are gone
+    if (!finished) await reader.cancel().catch(() => undefined);
+    reader.releaseLock();
+  }
+}
@@ -0,0 +1,21 @@
+export type StorageErrorCode = 'configuration' | 'invalid_request' | 'unsupported_type' | 'too_large' | 'unavailable';
+
+const STATUS_BY_CODE: Record<StorageErrorCode, number> = {
+  configuration: 500,
+  invalid_request: 400,
+  unsupported_type: 415,
+  too_large: 413,
+  unavailable: 502,
+};
+
+export class StorageError extends Error {
+  readonly code: StorageErrorCode;
+  readonly status: number;
+
+  constructor(code: StorageErrorCode, message: string) {
+    super(message);
+    this.name = 'StorageError';
+    this.code = code;
+    this.status = STATUS_BY_CODE[code];
+  }
+}
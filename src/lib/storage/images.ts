@@ -0,0 +1,189 @@
+import { StorageError } from './errors';
+
+// Image formats accepted for upload, by MIME type, with the extension used
+// in storage keys. The type is sniffed from the file's first bytes; the
+// browser-supplied Content-Type is not trusted.
+export const IMAGE_TYPES = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+} as const;
+
+export type ImageType = keyof typeof IMAGE_TYPES;
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+function ascii(bytes: Uint8Array, start: number, length: number): string {
+  return String.fromCharCode(...bytes.subarray(start, start + length));
+}
+
+export function sniffImageType(bytes: Uint8Array): ImageType | undefined {
+  if (bytes.length >= 3 && bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return 'image/jpeg';
+  if (bytes.length >= 8 && PNG_SIGNATURE.every((b, i) => bytes[i] === b)) return 'image/png';
+  if (bytes.length >= 12 && ascii(bytes, 0, 4) === 'RIFF' && ascii(bytes, 8, 4) === 'WEBP') return 'image/webp';
+  return undefined;
+}
+
+export function contentTypeForKey(key: string): string {
+  const ext = key.slice(key.lastIndexOf('.') + 1);
+  // Cached 3D models (src/lib/models)
+  if (ext === 'glb') return 'model/gltf-binary';
+  const match = Object.entries(IMAGE_TYPES).find(([, e]) => e === ext);
+  return match ? match[0] : 'application/octet-stream';
+}
+
+function damaged(): StorageError {
+  return new StorageError('invalid_request', 'The image file is damaged or incomplete');
+}
+
+// --- JPEG -------------------------------------------------------------------
+
+const JPEG_APP0 = 0xe0;
+const JPEG_APP1 = 0xe1;
+const JPEG_APP2 = 0xe2;
+const JPEG_APP14 = 0xee;
+const JPEG_SOS = 0xda;
+const JPEG_EOI = 0xd9;
+
+// Orientation (EXIF tag 0x0112) from an APP1 payload, if it has one
+function exifOrientation(data: Uint8Array): number | undefined {
+  if (data.length < 14 || ascii(data, 0, 6) !== 'Exif\0\0') return undefined;
+  const tiff = new DataView(data.buffer, data.byteOffset + 6, data.length - 6);
+  const little = ascii(data, 6, 2) === 'II';
+  if (tiff.getUint16(2, little) !== 42) return undefined;
+  const ifd = tiff.getUint32(4, little);
+  if (ifd + 2 > tiff.byteLength) return undefined;
+  const count = tiff.getUint16(ifd, little);
+  for (let i = 0; i < count; i++) {
+    const entry = ifd + 2 + i * 12;
+    if (entry + 12 > tiff.byteLength) return undefined;
+    if (tiff.getUint16(entry, little) === 0x0112) {
+      const value = tiff.getUint16(entry + 8, little);
+      return value >= 1 && value <= 8 ? value : undefined;
+    }
+  }
+  return undefined;
+}
+
+// An APP1 segment holding nothing but the orientation, so phone photos
+// still display upright once the rest of the EXIF block is gone
+function orientationSegment(orientation: number): Uint8Array {
+  const segment = Buffer.alloc(36);
+  segment.writeUInt16BE(0xff00 | JPEG_APP1, 0);
+  segment.writeUInt16BE(34, 2);
+  segment.write('Exif\0\0MM', 4, 'latin1');
+  segment.writeUInt16BE(42, 12);
+  segment.writeUInt32BE(8, 14); // IFD0 offset
+  segment.writeUInt16BE(1, 18); // one entry
+  segment.writeUInt16BE(0x0112, 20); // Orientation
+  segment.writeUInt16BE(3, 22); // SHORT
+  segment.writeUInt32BE(1, 24);
+  segment.writeUInt16BE(orientation, 28);
+  return segment; // next-IFD offset stays 0
+}
+
+// Keeps JFIF (APP0), ICC profiles (APP2) and Adobe colour info (APP14);
+// drops EXIF/XMP (APP1), IPTC (APP13), comments, other vendor segments and
+// anything after the end of the image, such as embedded thumbnails.
+function stripJpeg(bytes: Uint8Array): Uint8Array {
+  const parts: Uint8Array[] = [bytes.subarray(0, 2)];
+  let orientation: number | undefined;
+  let offset = 2;
+  while (offset + 4 <= bytes.length) {
+    if (bytes[offset] !== 0xff) throw damaged();
+    const marker = bytes[offset + 1];
+    if (marker === 0xff) {
+      offset++;
+      continue;
+    }
+    if (marker === JPEG_SOS) {
+      // Entropy-coded data never contains a bare 0xFFD9, so the first one is the real end
+      let end = offset + 2;
+      while (end + 1 < bytes.length && !(bytes[end] === 0xff && bytes[end + 1] === JPEG_EOI)) end++;
+      if (orientation && orientation !== 1) parts.splice(parts.length > 1 && isApp0(parts[1]) ? 2 : 1, 0, orientationSegment(orientation));
+      parts.push(bytes.subarray(offset, Math.min(end + 2, bytes.length)));
+      return Buffer.concat(parts);
+    }
+    const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+    const end = offset + 2 + length;
+    if (length < 2 || end > bytes.length) throw damaged();
+    const segment = bytes.subarray(offset, end);
+    const isApp = marker >= JPEG_APP0 && marker <= 0xef;
+    if (marker === JPEG_APP1) orientation ??= exifOrientation(segment.subarray(4));
+    const keep = (!isApp && marker !== 0xfe)
+      || marker === JPEG_APP0
+      || marker === JPEG_APP14
+      || (marker === JPEG_APP2 && ascii(segment, 4, 12) === 'ICC_PROFILE\0');
+    if (keep) parts.push(segment);
+    offset = end;
+  }
+  throw damaged();
+}
+
+function isApp0(segment: Uint8Array): boolean {
+  return segment[0] === 0xff && segment[1] === JPEG_APP0;
+}
+
+// --- PNG --------------------------------------------------------------------
+
+const PNG_METADATA_CHUNKS = new Set(['eXIf', 'tEXt', 'zTXt', 'iTXt', 'tIME']);
+
+function stripPng(bytes: Uint8Array): Uint8Array {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.length);
+  const parts: Uint8Array[] = [bytes.subarray(0, 8)];
+  let offset = 8;
+  while (offset + 12 <= bytes.length) {
+    const end = offset + 12 + view.getUint32(offset);
+    if (end > bytes.length) throw damaged();
+    const type = ascii(bytes, offset + 4, 4);
+    if (!PNG_METADATA_CHUNKS.has(type)) parts.push(bytes.subarray(offset, end));
+    if (type === 'IEND') return Buffer.concat(parts);
+    offset = end;
+  }
+  throw damaged();
+}
+
+// --- WebP -------------------------------------------------------------------
+
+const VP8X_EXIF_FLAG = 0x08;
+const VP8X_XMP_FLAG = 0x04;
+
+function stripWebp(bytes: Uint8Array): Uint8Array {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.length);
+  const riffEnd = Math.min(bytes.length, 8 + view.getUint32(4, true));
+  const parts: Uint8Array[] = [];
+  let offset = 12;
+  while (offset + 8 <= riffEnd) {
+    const size = view.getUint32(offset + 4, true);
+    const end = offset + 8 + size + (size % 2);
+    if (offset + 8 + size > riffEnd) throw damaged();
+    const type = ascii(bytes, offset, 4);
+    if (type === 'VP8X') {
+      const chunk = Buffer.from(bytes.subarray(offset, Math.min(end, riffEnd)));
+      chunk[8] &= ~(VP8X_EXIF_FLAG | VP8X_XMP_FLAG);
+      parts.push(chunk);
+    } else if (type !== 'EXIF' && type !== 'XMP ') {
+      parts.push(bytes.subarray(offset, Math.min(end, riffEnd)));
+    }
+    offset = end;
+  }
+  if (!parts.length) throw damaged();
+  const header = Buffer.alloc(12);
+  header.write('RIFF', 0, 'latin1');
+  header.writeUInt32LE(4 + parts.reduce((total, part) => total + part.length, 0), 4);
+  header.write('WEBP', 8, 'latin1');
+  return Buffer.concat([header, ...parts]);
+}
+
+// Removes EXIF (including GPS), XMP, IPTC and text metadata without
+// re-encoding the image. Throws a StorageError for truncated files.
+export function stripImageMetadata(bytes: Uint8Array, type: ImageType): Uint8Array {
+  switch (type) {
+    case 'image/jpeg':
+      return stripJpeg(bytes);
+    case 'image/png':
+      return stripPng(bytes);
+    case 'image/webp':
+      return stripWebp(bytes);
+  }
+}
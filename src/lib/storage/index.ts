@@ -0,0 +1,96 @@
+import { createHash } from 'crypto';
+import path from 'path';
+import { StorageError } from './errors';
+import { IMAGE_TYPES, sniffImageType, stripImageMetadata } from './images';
+import { createLocalStorage } from './local';
+import { createS3Storage } from './s3';
+import { signFileUrl } from './signing';
+import type { StorageBackend, StorageBackendName, UploadedFile } from './types';
+
+export { StorageError } from './errors';
+export { IMAGE_TYPES, sniffImageType, stripImageMetadata } from './images';
+export { signFileUrl, verifyFileSignature } from './signing';
+export type * from './types';
+
+const BACKENDS: StorageBackendName[] = ['local', 's3'];
+
+export const DEFAULT_UPLOAD_MAX_BYTES = 10 * 1024 * 1024;
+
+// Keys are generated by storeUpload; anything else is refused before it
+// reaches a backend
+const KEY_PATTERN = /^uploads\/[0-9a-f]{64}\.[a-z]+$/;
+
+export function isStorageKey(key: string): boolean {
+  return KEY_PATTERN.test(key);
+}
+
+export function uploadMaxBytes(env: NodeJS.ProcessEnv = process.env): number {
+  const max = Number(env.UPLOAD_MAX_BYTES);
+  return Number.isInteger(max) && max > 0 ? max : DEFAULT_UPLOAD_MAX_BYTES;
+}
+
+export function assertUploadSize(size: number, env: NodeJS.ProcessEnv = process.env): void {
+  const max = uploadMaxBytes(env);
+  if (size > max) throw new StorageError('too_large', `Files can be at most ${Math.floor(max / 1024 / 1024)} MB`);
+}
+
+// STORAGE_BACKEND       local (default; files under STORAGE_DIR) | s3
+// STORAGE_DIR           local root, default DATA_DIR/files (.data/files)
+// S3_BUCKET             bucket for the s3 backend
+// S3_REGION             default us-east-1
+// S3_ENDPOINT           S3-compatible endpoint, e.g. http://localhost:9000 for MinIO
+// S3_FORCE_PATH_STYLE   "true" for MinIO; defaults to true when S3_ENDPOINT is set
+// S3_ACCESS_KEY_ID / S3_SECRET_ACCESS_KEY  optional; otherwise the AWS credential chain
+function createStorage(env: NodeJS.ProcessEnv): StorageBackend {
+  const name = (env.STORAGE_BACKEND || 'local') as StorageBackendName;
+  if (!BACKENDS.includes(name)) throw new StorageError('configuration', `Unknown STORAGE_BACKEND "${name}"`);
+  switch (name) {
+    case 'local':
+      return createLocalStorage({
+        root: env.STORAGE_DIR || path.join(env.DATA_DIR || path.join(process.cwd(), '.data'), 'files'),
+      });
+    case 's3':
+      if (!env.S3_BUCKET) throw new StorageError('configuration', 'S3_BUCKET is required for the s3 backend');
+      return createS3Storage({
+        bucket: env.S3_BUCKET,
+        region: env.S3_REGION || 'us-east-1',
+        endpoint: env.S3_ENDPOINT || undefined,
+        forcePathStyle: env.S3_FORCE_PATH_STYLE ? env.S3_FORCE_PATH_STYLE === 'true' : Boolean(env.S3_ENDPOINT),
+        credentials: env.S3_ACCESS_KEY_ID && env.S3_SECRET_ACCESS_KEY
+          ? { accessKeyId: env.S3_ACCESS_KEY_ID, secretAccessKey: env.S3_SECRET_ACCESS_KEY }
+          : undefined,
+      });
+  }
+}
+
+// One backend per process, so the S3 client and its connections are reused
+const globalForStorage = globalThis as typeof globalThis & { __virtuFitStorage?: StorageBackend };
+
+export function getStorage(env: NodeJS.ProcessEnv = process.env): StorageBackend {
+  if (env !== process.env) return createStorage(env);
+  return (globalForStorage.__virtuFitStorage ??= createStorage(env));
+}
+
+// Validates an uploaded image, strips its metadata and stores it under the
+// hash of the cleaned bytes, so re-uploading the same photo reuses one object.
+// When bytes were converted from what the shopper sent, uploadedSize is the
+// size of the original, which is what the limit applies to.
+export async function storeUpload(
+  bytes: Uint8Array,
+  env: NodeJS.ProcessEnv = process.env,
+  { uploadedSize = bytes.length }: { uploadedSize?: number } = {},
+): Promise<UploadedFile> {
+  assertUploadSize(uploadedSize, env);
+  if (!bytes.length) throw new StorageError('invalid_request', 'The file is empty');
+  const contentType = sniffImageType(bytes);
+  if (!contentType) {
+    throw new StorageError('unsupported_type', `Only ${Object.values(IMAGE_TYPES).join(', ').toUpperCase()} images are accepted`);
+  }
+
+  const cleaned = stripImageMetadata(bytes, contentType);
+  const sha256 = createHash('sha256').update(cleaned).digest('hex');
+  const key = `uploads/${sha256}.${IMAGE_TYPES[contentType]}`;
+  const storage = getStorage(env);
+  if (!(await storage.exists(key))) await storage.put(key, cleaned, contentType);
+  return { key, contentType, size: cleaned.length, sha256, ...signFileUrl(key, env) };
+}
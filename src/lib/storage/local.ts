@@ -0,0 +1,49 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { StorageError } from './errors';
+import { contentTypeForKey } from './images';
+import type { StorageBackend } from './types';
+
+export type LocalStorageConfig = {
+  root: string;
+};
+
+// Files on the server's disk under `root`, for development and single-node
+// deployments. Writes go through a temp file and rename, like the JSON store.
+export function createLocalStorage({ root }: LocalStorageConfig): StorageBackend {
+  const resolve = (key: string) => {
+    const file = path.resolve(root, key);
+    if (!file.startsWith(path.resolve(root) + path.sep)) throw new StorageError('invalid_request', `Invalid storage key "${key}"`);
+    return file;
+  };
+
+  return {
+    name: 'local',
+
+    async put(key, body) {
+      const file = resolve(key);
+      await fs.mkdir(path.dirname(file), { recursive: true });
+      const tmp = `${file}.${process.pid}.${Date.now()}.tmp`;
+      await fs.writeFile(tmp, body);
+      await fs.rename(tmp, file);
+    },
+
+    async get(key) {
+      try {
+        const body = await fs.readFile(resolve(key));
+        return { body, contentType: contentTypeForKey(key), size: body.length };
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return undefined;
+        throw error;
+      }
+    },
+
+    async exists(key) {
+      try {
+        return (await fs.stat(resolve(key))).isFile();
+      } catch {
+        return false;
+      }
+    },
+  };
+}
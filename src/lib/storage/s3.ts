@@ -0,0 +1,67 @@
+import { GetObjectCommand, HeadObjectCommand, PutObjectCommand, S3Client, S3ServiceException } from '@aws-sdk/client-s3';
+import { StorageError } from './errors';
+import { contentTypeForKey } from './images';
+import type { StorageBackend } from './types';
+
+export type S3StorageConfig = {
+  bucket: string;
+  region: string;
+  // Custom endpoint for S3-compatible services such as MinIO
+  endpoint?: string;
+  forcePathStyle: boolean;
+  // Falls back to the default AWS credential chain when omitted
+  credentials?: { accessKeyId: string; secretAccessKey: string };
+};
+
+function isNotFound(error: unknown): boolean {
+  return error instanceof S3ServiceException && (error.name === 'NoSuchKey' || error.name === 'NotFound' || error.$metadata.httpStatusCode === 404);
+}
+
+function unavailable(action: string, key: string, error: unknown): StorageError {
+  const reason = error instanceof Error ? error.message : String(error);
+  return new StorageError('unavailable', `S3 ${action} failed for "${key}": ${reason}`);
+}
+
+export function createS3Storage(config: S3StorageConfig): StorageBackend {
+  const client = new S3Client({
+    region: config.region,
+    endpoint: config.endpoint,
+    forcePathStyle: config.forcePathStyle,
+    credentials: config.credentials,
+  });
+  const Bucket = config.bucket;
+
+  return {
+    name: 's3',
+
+    async put(key, body, contentType) {
+      try {
+        await client.send(new PutObjectCommand({ Bucket, Key: key, Body: body, ContentType: contentType }));
+      } catch (error) {
+        throw unavailable('upload', key, error);
+      }
+    },
+
+    async get(key) {
+      try {
+        const object = await client.send(new GetObjectCommand({ Bucket, Key: key }));
+        if (!object.Body) return undefined;
+        const body = await object.Body.transformToByteArray();
+        return { body, contentType: object.ContentType || contentTypeForKey(key), size: body.length };
+      } catch (error) {
+        if (isNotFound(error)) return undefined;
+        throw unavailable('download', key, error);
+      }
+    },
+
+    async exists(key) {
+      try {
+        await client.send(new HeadObjectCommand({ Bucket, Key: key }));
+        return true;
+      } catch (error) {
+        if (isNotFound(error)) return false;
+        throw unavailable('lookup', key, error);
+      }
+    },
+  };
+}
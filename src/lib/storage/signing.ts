@@ -0,0 +1,50 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { StorageError } from './errors';
+
+// Signed links to /api/files/<key>: "?expires=<unix seconds>&signature=<hex
+// HMAC-SHA256 of `${key}:${expires}`>". Anyone holding the link can fetch
+// the file until it expires.
+
+export const DEFAULT_URL_TTL_SECONDS = 15 * 60;
+
+const globalForSigning = globalThis as typeof globalThis & { __virtuFitSigningSecret?: string };
+
+// STORAGE_SIGNING_SECRET is required in production. Development falls back to
+// a per-process secret, so links stop working after a restart.
+function signingSecret(env: NodeJS.ProcessEnv): string {
+  if (env.STORAGE_SIGNING_SECRET) return env.STORAGE_SIGNING_SECRET;
+  if (env.NODE_ENV === 'production') throw new StorageError('configuration', 'STORAGE_SIGNING_SECRET is required in production');
+  return (globalForSigning.__virtuFitSigningSecret ??= randomBytes(32).toString('hex'));
+}
+
+function hmac(key: string, expires: number, secret: string): string {
+  return createHmac('sha256', secret).update(`${key}:${expires}`, 'utf8').digest('hex');
+}
+
+export function urlTtlSeconds(env: NodeJS.ProcessEnv = process.env): number {
+  const ttl = Number(env.STORAGE_URL_TTL);
+  return Number.isInteger(ttl) && ttl > 0 ? ttl : DEFAULT_URL_TTL_SECONDS;
+}
+
+export function signFileUrl(key: string, env: NodeJS.ProcessEnv = process.env, now = Math.floor(Date.now() / 1000)) {
+  const expires = now + urlTtlSeconds(env);
+  const path = key.split('/').map(encodeURIComponent).join('/');
+  return {
+    url: `/api/files/${path}?expires=${expires}&signature=${hmac(key, expires, signingSecret(env))}`,
+    expiresAt: new Date(expires * 1000).toISOString(),
+  };
+}
+
+export function verifyFileSignature(
+  key: string,
+  expires: string | null,
+  signature: string | null,
+  env: NodeJS.ProcessEnv = process.env,
+  now = Math.floor(Date.now() / 1000),
+): boolean {
+  const expiresAt = Number(expires);
+  if (!signature || !Number.isInteger(expiresAt) || expiresAt < now) return false;
+  const expected = Buffer.from(hmac(key, expiresAt, signingSecret(env)), 'hex');
+  const given = Buffer.from(signature, 'hex');
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
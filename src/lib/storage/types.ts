@@ -0,0 +1,27 @@
+export type StorageBackendName = 'local' | 's3';
+
+export type StoredObject = {
+  body: Uint8Array;
+  contentType: string;
+  size: number;
+};
+
+// Where uploaded files live. Keys are "/"-separated paths such as
+// "uploads/<sha256>.jpg" or "models/<sha256>.glb"; writing an existing key
+// overwrites it.
+export type StorageBackend = {
+  name: StorageBackendName;
+  put(key: string, body: Uint8Array, contentType: string): Promise<void>;
+  get(key: string): Promise<StoredObject | undefined>;
+  exists(key: string): Promise<boolean>;
+};
+
+export type UploadedFile = {
+  key: string;
+  contentType: string;
+  size: number;
+  sha256: string;
+  // Short-lived signed link to /api/files/<key>
+  url: string;
+  expiresAt: string;
+};
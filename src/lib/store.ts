@@ -0,0 +1,110 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+// Small JSON-file backed key/value collections for server state that has to
+// survive restarts. Each collection lives in DATA_DIR/<name>.json (default
+// .data/ in the project root) and is cached in memory after the first read.
+// Writes go through a per-collection queue and an atomic rename.
+
+export type Collection<T> = {
+  get(id: string): Promise<T | undefined>;
+  list(): Promise<T[]>;
+  put(id: string, value: T): Promise<T>;
+  // Read-modify-write under the collection lock. Returning undefined deletes;
+  // throwing leaves the entry as it was.
+  update(id: string, fn: (current: T | undefined) => T | undefined): Promise<T | undefined>;
+  // Read-modify-write across entries under the collection lock. `fn` reads
+  // and changes `data` in place; the result is written back.
+  transact<R>(fn: (data: Record<string, T>) => R): Promise<R>;
+  delete(id: string): Promise<boolean>;
+};
+
+type CollectionState = {
+  data: Record<string, unknown> | null;
+  queue: Promise<unknown>;
+};
+
+// Kept on globalThis: Next.js may load this module once per route bundle,
+// and every copy has to share the same cache and write queue.
+const globalForStore = globalThis as typeof globalThis & { __virtuFitStore?: Map<string, CollectionState> };
+const states = (globalForStore.__virtuFitStore ??= new Map<string, CollectionState>());
+
+function dataDir(): string {
+  return process.env.DATA_DIR || path.join(process.cwd(), '.data');
+}
+
+function filePath(name: string): string {
+  return path.join(dataDir(), `${name}.json`);
+}
+
+async function load(name: string, state: CollectionState): Promise<Record<string, unknown>> {
+  if (state.data) return state.data;
+  try {
+    state.data = JSON.parse(await fs.readFile(filePath(name), 'utf8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    state.data = {};
+  }
+  return state.data!;
+}
+
+async function persist(name: string, data: Record<string, unknown>): Promise<void> {
+  const target = filePath(name);
+  const temp = `${target}.${process.pid}.tmp`;
+  await fs.mkdir(path.dirname(target), { recursive: true });
+  await fs.writeFile(temp, JSON.stringify(data, null, 2));
+  await fs.rename(temp, target);
+}
+
+// Serializes operations on one collection so concurrent requests in the same
+// process never interleave a read-modify-write.
+function exclusive<R>(state: CollectionState, task: () => Promise<R>): Promise<R> {
+  const run = state.queue.then(task, task);
+  state.queue = run.catch(() => undefined);
+  return run;
+}
+
+export function collection<T>(name: string): Collection<T> {
+  let state = states.get(name);
+  if (!state) {
+    state = { data: null, queue: Promise.resolve() };
+    states.set(name, state);
+  }
+  const s = state;
+
+  return {
+    get: (id) => exclusive(s, async () => (await load(name, s))[id] as T | undefined),
+    list: () => exclusive(s, async () => Object.values(await load(name, s)) as T[]),
+    put: (id, value) =>
+      exclusive(s, async () => {
+        const data = await load(name, s);
+        data[id] = value;
+        await persist(name, data);
+        return value;
+      }),
+    update: (id, fn) =>
+      exclusive(s, async () => {
+        const data = await load(name, s);
+        const next = fn(data[id] as T | undefined);
+        if (next === undefined) delete data[id];
+        else data[id] = next;
+        await persist(name, data);
+        return next;
+      }),
+    transact: (fn) =>
+      exclusive(s, async () => {
+        const data = await load(name, s);
+        const result = fn(data as Record<string, T>);
+        await persist(name, data);
+        return result;
+      }),
+    delete: (id) =>
+      exclusive(s, async () => {
+        const data = await load(name, s);
+        if (!(id in data)) return false;
+        delete data[id];
+        await persist(name, data);
+        return true;
+      }),
+  };
+}
@@ -0,0 +1,51 @@
+import type { Product } from '@/lib/catalog';
+import type { ChatMessage, LLMProvider, LLMToolCall } from '@/lib/llm';
+import { executeTool, STYLIST_TOOLS } from './tools';
+
+export type StylistEvent =
+  | { type: 'token'; content: string }
+  | { type: 'products'; products: Product[] };
+
+// Upper bound on model -> tool -> model round trips per user message
+const MAX_TOOL_ROUNDS = 3;
+
+// Streams the stylist's reply, running catalog and sizing tools the model asks
+// for in between. Product references are emitted once per tool round.
+export async function* runStylist(
+  provider: LLMProvider,
+  messages: ChatMessage[],
+  signal?: AbortSignal,
+): AsyncGenerator<StylistEvent> {
+  const conversation = [...messages];
+  const referenced = new Set<string>();
+
+  for (let round = 0; round <= MAX_TOOL_ROUNDS; round++) {
+    // On the last round, withhold the tools so the model has to answer
+    const tools = round < MAX_TOOL_ROUNDS ? STYLIST_TOOLS : undefined;
+    let text = '';
+    const calls: LLMToolCall[] = [];
+
+    for await (const chunk of provider.streamChat({ messages: conversation, tools, signal })) {
+      if (chunk.type === 'text') {
+        text += chunk.text;
+        yield { type: 'token', content: chunk.text };
+      } else {
+        calls.push(chunk.call);
+      }
+    }
+    if (!calls.length) return;
+
+    conversation.push({ role: 'assistant', content: text, toolCalls: calls });
+    const products: Product[] = [];
+    for (const call of calls) {
+      const result = await executeTool(call);
+      conversation.push({ role: 'tool', toolCallId: call.id, content: result.content });
+      for (const product of result.products) {
+        if (referenced.has(product.id)) continue;
+        referenced.add(product.id);
+        products.push(product);
+      }
+    }
+    if (products.length) yield { type: 'products', products };
+  }
+}
@@ -0,0 +1,124 @@
+import { formatMoney, getProduct, isInStock, searchProducts, type Product } from '@/lib/catalog';
+import type { LLMTool, LLMToolCall } from '@/lib/llm';
+import {
+  canonicalUnit,
+  FIT_PREFERENCES,
+  listSizeCharts,
+  MEASUREMENTS,
+  parseMeasurements,
+  recommendFromChart,
+  recommendSize,
+  SizingError,
+  type FitPreference,
+} from '@/lib/sizing';
+
+export type ToolResult = {
+  // JSON handed back to the model
+  content: string;
+  // Catalog items the reply can reference as product cards
+  products: Product[];
+};
+
+export const STYLIST_TOOLS: LLMTool[] = [
+  {
+    name: 'search_catalog',
+    description:
+      'Search the VirtuFit product catalog. Use it whenever you suggest a garment so you only recommend items we sell.',
+    parameters: {
+      type: 'object',
+      properties: {
+        query: { type: 'string', description: 'Garment type, color or style, e.g. "black pants"' },
+        limit: { type: 'integer', minimum: 1, maximum: 4, description: 'Maximum number of results' },
+      },
+      required: ['query'],
+    },
+  },
+  {
+    name: 'get_size_recommendation',
+    description:
+      'Recommend a size from the shopper\'s body measurements (centimeters, weight in kilograms). Pass product_id for a specific item; ' +
+      'without it you get a size for each garment type we stock.',
+    parameters: {
+      type: 'object',
+      properties: {
+        product_id: { type: 'string', description: 'Catalog product id the size is for' },
+        ...Object.fromEntries(
+          MEASUREMENTS.map(m => [
+            `${m}_${canonicalUnit(m)}`,
+            { type: 'number', description: `${m} in ${canonicalUnit(m) === 'kg' ? 'kilograms' : 'centimeters'}` },
+          ]),
+        ),
+        fit: { type: 'string', enum: [...FIT_PREFERENCES], description: 'Preferred fit, defaults to regular' },
+      },
+    },
+  },
+];
+
+function parseArguments(call: LLMToolCall): Record<string, unknown> {
+  try {
+    const parsed = JSON.parse(call.arguments || '{}');
+    return typeof parsed === 'object' && parsed !== null ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+// Runs a tool call from the model. Bad input is reported back to the model
+// as an error payload rather than thrown, so it can correct itself.
+export async function executeTool(call: LLMToolCall): Promise<ToolResult> {
+  const args = parseArguments(call);
+  switch (call.name) {
+    case 'search_catalog': {
+      if (typeof args.query !== 'string' || !args.query.trim()) {
+        return { content: JSON.stringify({ error: 'query is required' }), products: [] };
+      }
+      const limit = typeof args.limit === 'number' ? Math.min(Math.max(Math.round(args.limit), 1), 4) : 4;
+      const products = await searchProducts(args.query, limit);
+      return {
+        content: JSON.stringify({
+          results: products.map(product => ({
+            id: product.id,
+            title: product.title,
+            brand: product.brand,
+            category: product.category,
+            price: formatMoney(product.price),
+            colors: [...new Set(product.variants.map(v => v.color))],
+            sizesInStock: product.variants.filter(v => v.stock > 0).map(v => v.size),
+            inStock: isInStock(product),
+          })),
+          ...(products.length ? {} : { note: 'No matching products. Do not invent items.' }),
+        }),
+        products,
+      };
+    }
+    case 'get_size_recommendation': {
+      const measurements = parseMeasurements(
+        Object.fromEntries(MEASUREMENTS.map(m => [m, args[`${m}_${canonicalUnit(m)}`]])),
+      );
+      if (!measurements.ok) {
+        return { content: JSON.stringify({ error: measurements.errors.join('; ') }), products: [] };
+      }
+      const fit = FIT_PREFERENCES.includes(args.fit as FitPreference) ? (args.fit as FitPreference) : 'regular';
+      const product = typeof args.product_id === 'string' ? await getProduct(args.product_id) : undefined;
+      if (product) {
+        try {
+          const { size, confidence, breakdown } = await recommendSize(product.id, measurements.value, fit);
+          return {
+            content: JSON.stringify({ product: { id: product.id, title: product.title }, size, confidence, breakdown }),
+            products: [product],
+          };
+        } catch (error) {
+          if (!(error instanceof SizingError)) throw error;
+          return { content: JSON.stringify({ error: error.message }), products: [] };
+        }
+      }
+      const byChart = (await listSizeCharts()).flatMap(chart => {
+        const result = recommendFromChart(chart, measurements.value, fit);
+        return result ? [{ garments: chart.name, size: result.size, confidence: result.confidence }] : [];
+      });
+      return { content: JSON.stringify({ fit, recommendations: byChart }), products: [] };
+    }
+    default:
+      return { content: JSON.stringify({ error: `Unknown tool "${call.name}"` }), products: [] };
+  }
+}
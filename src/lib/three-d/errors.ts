@@ -0,0 +1,43 @@
+import type { ThreeDProviderName } from './types';
+
+export type ThreeDErrorCode = 'configuration' | 'invalid_request' | 'rate_limited' | 'insufficient_credits' | 'rejected' | 'not_found' | 'unavailable';
+
+const STATUS_BY_CODE: Record<ThreeDErrorCode, number> = {
+  configuration: 500,
+  invalid_request: 400,
+  rate_limited: 429,
+  insufficient_credits: 402,
+  rejected: 422,
+  not_found: 404,
+  unavailable: 502,
+};
+
+// Worth trying again later with the same input
+const RETRYABLE_CODES: ThreeDErrorCode[] = ['rate_limited', 'unavailable'];
+
+// A failed call to an image-to-3D provider
+export class ThreeDProviderError extends Error {
+  readonly code: ThreeDErrorCode;
+  readonly provider: ThreeDProviderName;
+  readonly status: number;
+  readonly retryable: boolean;
+  readonly suggestion?: string;
+  // The provider's own error code, for support requests
+  readonly providerCode?: number | string;
+
+  constructor(
+    code: ThreeDErrorCode,
+    message: string,
+    provider: ThreeDProviderName,
+    details: { suggestion?: string; providerCode?: number | string } = {},
+  ) {
+    super(message);
+    this.name = 'ThreeDProviderError';
+    this.code = code;
+    this.provider = provider;
+    this.status = STATUS_BY_CODE[code];
+    this.retryable = RETRYABLE_CODES.includes(code);
+    this.suggestion = details.suggestion;
+    this.providerCode = details.providerCode;
+  }
+}
@@ -0,0 +1,54 @@
+import { getTripoClient } from '@/lib/tripo';
+import { ThreeDProviderError } from './errors';
+import { createMeshyProvider } from './meshy';
+import { createMockThreeDProvider, MOCK_ANIMATED_MODEL_URL, MOCK_MODEL_URL, MOCK_THUMBNAIL_URL } from './mock';
+import { createTripoProvider } from './tripo';
+import type { AvatarClip, ThreeDProvider, ThreeDProviderName } from './types';
+
+export { ThreeDProviderError, type ThreeDErrorCode } from './errors';
+export type * from './types';
+
+const PROVIDERS: ThreeDProviderName[] = ['tripo', 'meshy', 'mock'];
+
+// What a rigged avatar can do, in the order its clips are requested
+export const AVATAR_CLIPS: readonly AvatarClip[] = ['Idle', 'Walk', 'Spin'];
+
+// THREE_D_PROVIDER  tripo | meshy | mock (bundled mannequin, no network). When
+//                   unset: tripo if TRIPO_API_KEY is set, otherwise mock.
+// TRIPO_API_KEY     key for tripo
+// TRIPO_API_BASE    API base, default https://api.tripo3d.ai/v2/openapi
+// MESHY_API_KEY     key for meshy
+// MESHY_API_BASE    API origin, default https://api.meshy.ai
+// MOCK_3D_DELAY_MS  how long mock tasks take, default 8000
+export function threeDProviderName(env: NodeJS.ProcessEnv = process.env): ThreeDProviderName {
+  const name = (env.THREE_D_PROVIDER || (env.TRIPO_API_KEY ? 'tripo' : 'mock')) as ThreeDProviderName;
+  if (!PROVIDERS.includes(name)) {
+    throw new ThreeDProviderError('configuration', `Unknown THREE_D_PROVIDER "${name}"`, name);
+  }
+  return name;
+}
+
+// `name` picks a specific provider, e.g. the one a running job started with
+export function getThreeDProvider(name = threeDProviderName(), env: NodeJS.ProcessEnv = process.env): ThreeDProvider {
+  switch (name) {
+    case 'tripo':
+      if (!env.TRIPO_API_KEY?.trim()) {
+        throw new ThreeDProviderError('configuration', 'Server configuration error: Missing Tripo API key', 'tripo');
+      }
+      return createTripoProvider(getTripoClient(env));
+    case 'meshy':
+      if (!env.MESHY_API_KEY) {
+        throw new ThreeDProviderError('configuration', 'Server configuration error: Missing Meshy API key', 'meshy');
+      }
+      return createMeshyProvider({ apiKey: env.MESHY_API_KEY, apiBase: env.MESHY_API_BASE || 'https://api.meshy.ai' });
+    case 'mock': {
+      const delayMs = Number(env.MOCK_3D_DELAY_MS);
+      return createMockThreeDProvider({
+        delayMs: Number.isFinite(delayMs) && delayMs >= 0 ? delayMs : 8000,
+        modelUrl: MOCK_MODEL_URL,
+        thumbnailUrl: MOCK_THUMBNAIL_URL,
+        animatedModelUrl: MOCK_ANIMATED_MODEL_URL,
+      });
+    }
+  }
+}
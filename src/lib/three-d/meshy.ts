@@ -0,0 +1,121 @@
+import { PHOTO_PROFILES } from '@/lib/photos';
+import { ThreeDProviderError, type ThreeDErrorCode } from './errors';
+import type { ThreeDImageInput, ThreeDProvider, ThreeDTaskStatus } from './types';
+
+export type MeshyConfig = {
+  apiKey: string;
+  // Default https://api.meshy.ai
+  apiBase: string;
+};
+
+type MeshyStatus = 'PENDING' | 'IN_PROGRESS' | 'SUCCEEDED' | 'FAILED' | 'CANCELED' | 'EXPIRED';
+
+type MeshyTask = {
+  id: string;
+  status: MeshyStatus;
+  progress?: number;
+  model_urls?: { glb?: string };
+  thumbnail_url?: string;
+  task_error?: { message?: string };
+};
+
+const STATUS_BY_MESHY_STATUS: Record<MeshyStatus, ThreeDTaskStatus> = {
+  PENDING: 'queued',
+  IN_PROGRESS: 'running',
+  SUCCEEDED: 'succeeded',
+  FAILED: 'failed',
+  CANCELED: 'cancelled',
+  EXPIRED: 'failed',
+};
+
+function codeForStatus(status: number): ThreeDErrorCode {
+  if (status === 401 || status === 403) return 'configuration';
+  if (status === 402) return 'insufficient_credits';
+  if (status === 404) return 'not_found';
+  if (status === 429) return 'rate_limited';
+  if (status >= 400 && status < 500) return 'invalid_request';
+  return 'unavailable';
+}
+
+// Multi-image tasks live under their own endpoint, so their ids carry this
+// prefix to send polls and cancels to the right place
+const MULTI_IMAGE_PREFIX = 'multi-image:';
+
+function dataUri(input: ThreeDImageInput): string {
+  return 'url' in input ? input.url : `data:${input.contentType};base64,${input.image.toString('base64')}`;
+}
+
+function endpointFor(taskId: string): { endpoint: string; id: string } {
+  return taskId.startsWith(MULTI_IMAGE_PREFIX)
+    ? { endpoint: 'multi-image-to-3d', id: taskId.slice(MULTI_IMAGE_PREFIX.length) }
+    : { endpoint: 'image-to-3d', id: taskId };
+}
+
+// Meshy image-to-3D (https://docs.meshy.ai/api/image-to-3d) and
+// multi-image-to-3D. Images are sent inline as data URIs, so no separate
+// upload step is needed.
+export function createMeshyProvider(config: MeshyConfig): ThreeDProvider {
+  async function request<T>(endpoint: string, path: string, init: RequestInit = {}): Promise<T> {
+    let res: Response;
+    try {
+      res = await fetch(`${config.apiBase}/openapi/v1/${endpoint}${path}`, {
+        ...init,
+        headers: { Authorization: `Bearer ${config.apiKey}`, 'Content-Type': 'application/json', ...init.headers },
+      });
+    } catch (error) {
+      throw new ThreeDProviderError('unavailable', `Could not reach Meshy: ${(error as Error).message}`, 'meshy');
+    }
+    const body = await res.json().catch(() => null);
+    if (!res.ok) {
+      const message = typeof body?.message === 'string' ? body.message : `Meshy responded with ${res.status}`;
+      throw new ThreeDProviderError(codeForStatus(res.status), message, 'meshy', { providerCode: res.status });
+    }
+    return body as T;
+  }
+
+  return {
+    name: 'meshy',
+    photoProfile: PHOTO_PROFILES.meshy,
+
+    async createImageToModel(input) {
+      const { result } = await request<{ result?: string }>('image-to-3d', '', {
+        method: 'POST',
+        body: JSON.stringify({ image_url: dataUri(input), should_texture: true, enable_pbr: true }),
+      });
+      if (!result) throw new ThreeDProviderError('unavailable', 'No task id returned from Meshy', 'meshy');
+      return { taskId: result };
+    },
+
+    async createMultiviewToModel(views) {
+      const images = [views.front, views.side, views.back].filter((view): view is ThreeDImageInput => !!view);
+      const { result } = await request<{ result?: string }>('multi-image-to-3d', '', {
+        method: 'POST',
+        body: JSON.stringify({ image_urls: images.map(dataUri), should_texture: true, enable_pbr: true }),
+      });
+      if (!result) throw new ThreeDProviderError('unavailable', 'No task id returned from Meshy', 'meshy');
+      return { taskId: `${MULTI_IMAGE_PREFIX}${result}` };
+    },
+
+    async poll(taskId) {
+      const { endpoint, id } = endpointFor(taskId);
+      const task = await request<MeshyTask>(endpoint, `/${encodeURIComponent(id)}`);
+      const status = STATUS_BY_MESHY_STATUS[task.status] ?? 'running';
+      const modelUrl = task.model_urls?.glb;
+      if (status === 'succeeded' && !modelUrl) {
+        throw new ThreeDProviderError('unavailable', 'Meshy task succeeded but no GLB model URL found', 'meshy');
+      }
+      return {
+        status,
+        progress: task.progress ?? 0,
+        ...(status === 'succeeded' ? { modelUrl } : {}),
+        ...(status === 'succeeded' && task.thumbnail_url ? { thumbnailUrl: task.thumbnail_url } : {}),
+        ...(status === 'failed' ? { error: task.task_error?.message || `Meshy task ${task.status.toLowerCase()}` } : {}),
+      };
+    },
+
+    async cancel(taskId) {
+      const { endpoint, id } = endpointFor(taskId);
+      await request(endpoint, `/${encodeURIComponent(id)}`, { method: 'DELETE' });
+    },
+  };
+}
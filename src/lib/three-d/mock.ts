@@ -0,0 +1,79 @@
+import { randomBytes } from 'crypto';
+import { PHOTO_PROFILES } from '@/lib/photos';
+import { ThreeDProviderError } from './errors';
+import type { ThreeDProvider } from './types';
+
+export type MockThreeDConfig = {
+  // How long each task takes to "generate"
+  delayMs: number;
+  // Same-origin GLB every task returns
+  modelUrl: string;
+  // and its rendered preview
+  thumbnailUrl: string;
+  // The mannequin with an Idle, Walk and Spin clip, for animate tasks
+  animatedModelUrl: string;
+};
+
+export const MOCK_MODEL_URL = '/models/mock-avatar.glb';
+export const MOCK_THUMBNAIL_URL = '/models/mock-avatar.png';
+export const MOCK_ANIMATED_MODEL_URL = '/models/mock-avatar-animated.glb';
+
+type MockTaskKind = 'model' | 'rig' | 'animate';
+
+// Cancelled task ids, shared by every route bundle
+const globalForMock = globalThis as typeof globalThis & { __virtuFitMock3dCancelled?: Set<string> };
+const cancelled = (globalForMock.__virtuFitMock3dCancelled ??= new Set<string>());
+
+// Offline stand-in: every task succeeds with the bundled mannequin once
+// `delayMs` has passed, reporting steady progress until then; animate tasks
+// give the animated one. The kind and start time are encoded in the task id,
+// so tasks outlive a server restart.
+export function createMockThreeDProvider(config: MockThreeDConfig): ThreeDProvider {
+  const parse = (taskId: string): { kind: MockTaskKind; startedAt: number } => {
+    const match = /^mock(?:-(rig|animate))?_([0-9a-z]+)_[0-9a-f]+$/.exec(taskId);
+    if (!match) throw new ThreeDProviderError('not_found', `Unknown mock task "${taskId}"`, 'mock');
+    return { kind: (match[1] as MockTaskKind | undefined) ?? 'model', startedAt: parseInt(match[2], 36) };
+  };
+
+  const newTaskId = (kind: MockTaskKind = 'model') =>
+    `mock${kind === 'model' ? '' : `-${kind}`}_${Date.now().toString(36)}_${randomBytes(4).toString('hex')}`;
+
+  return {
+    name: 'mock',
+    photoProfile: PHOTO_PROFILES.mock,
+
+    async createImageToModel() {
+      return { taskId: newTaskId() };
+    },
+
+    async createMultiviewToModel() {
+      return { taskId: newTaskId() };
+    },
+
+    async poll(taskId) {
+      const { kind, startedAt } = parse(taskId);
+      const elapsed = Date.now() - startedAt;
+      if (cancelled.has(taskId)) return { status: 'cancelled', progress: 0 };
+      if (elapsed < config.delayMs) return { status: 'running', progress: Math.floor((elapsed / config.delayMs) * 100) };
+      if (kind === 'animate') return { status: 'succeeded', progress: 100, modelUrl: config.animatedModelUrl };
+      return { status: 'succeeded', progress: 100, modelUrl: config.modelUrl, ...(kind === 'model' ? { thumbnailUrl: config.thumbnailUrl } : {}) };
+    },
+
+    async cancel(taskId) {
+      parse(taskId);
+      cancelled.add(taskId);
+    },
+
+    rigging: {
+      async rig(modelTaskId) {
+        parse(modelTaskId);
+        return { taskId: newTaskId('rig') };
+      },
+
+      async animate(rigTaskId) {
+        parse(rigTaskId);
+        return { taskId: newTaskId('animate') };
+      },
+    },
+  };
+}
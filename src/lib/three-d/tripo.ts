@@ -0,0 +1,108 @@
+import { PHOTO_PROFILES } from '@/lib/photos';
+import { TRIPO_FAILED_STATUSES, TripoError, type TripoClient, type TripoTaskStatus } from '@/lib/tripo';
+import { ThreeDProviderError, type ThreeDErrorCode } from './errors';
+import type { AvatarClip, ThreeDProvider, ThreeDTaskStatus } from './types';
+
+// Tripo error codes (see TRIPO_ERROR_MAP) by what they mean for us
+const CODE_BY_TRIPO_CODE: Record<number, ThreeDErrorCode> = {
+  1002: 'configuration',
+  2000: 'rate_limited',
+  2001: 'not_found',
+  2002: 'invalid_request',
+  2003: 'invalid_request',
+  2004: 'invalid_request',
+  2008: 'rejected',
+  2010: 'insufficient_credits',
+  2015: 'configuration',
+};
+
+// The trace id only goes to the log; Tripo support asks for it
+function toProviderError(error: unknown): unknown {
+  if (!(error instanceof TripoError)) return error;
+  console.error('Tripo: API error:', error.status ?? '-', error.code ?? '-', error.message, 'Trace ID:', error.traceId || '-');
+  const code = error.code === undefined ? 'unavailable' : CODE_BY_TRIPO_CODE[error.code] ?? 'unavailable';
+  return new ThreeDProviderError(code, error.message, 'tripo', { suggestion: error.suggestion, providerCode: error.code });
+}
+
+// Tripo has no spin preset; turning on the spot is the nearest
+const PRESET_BY_CLIP: Record<AvatarClip, string> = {
+  Idle: 'preset:idle',
+  Walk: 'preset:walk',
+  Spin: 'preset:turn',
+};
+
+function toStatus(status: TripoTaskStatus): ThreeDTaskStatus {
+  if (status === 'success') return 'succeeded';
+  if (status === 'cancelled') return 'cancelled';
+  if (TRIPO_FAILED_STATUSES.includes(status)) return 'failed';
+  return status === 'queued' ? 'queued' : 'running';
+}
+
+export function createTripoProvider(client: TripoClient): ThreeDProvider {
+  return {
+    name: 'tripo',
+    photoProfile: PHOTO_PROFILES.tripo,
+
+    async createImageToModel(input, options) {
+      try {
+        const { taskId } = await client.createImageToModelTask(input, { idempotencyKey: options?.idempotencyKey });
+        return { taskId };
+      } catch (error) {
+        throw toProviderError(error);
+      }
+    },
+
+    // Tripo has no "side" slot; a side photo is taken as the left one
+    async createMultiviewToModel(views, options) {
+      try {
+        const { taskId } = await client.createMultiviewToModelTask(
+          { front: views.front, left: views.side, back: views.back },
+          { idempotencyKey: options?.idempotencyKey },
+        );
+        return { taskId };
+      } catch (error) {
+        throw toProviderError(error);
+      }
+    },
+
+    async poll(taskId) {
+      try {
+        const task = await client.getTask(taskId);
+        const status = toStatus(task.status);
+        return {
+          status,
+          progress: task.progress,
+          ...(task.modelUrl ? { modelUrl: task.modelUrl } : {}),
+          ...(task.thumbnailUrl ? { thumbnailUrl: task.thumbnailUrl } : {}),
+          ...(status === 'failed' ? { error: `Tripo task ${task.status}` } : {}),
+        };
+      } catch (error) {
+        throw toProviderError(error);
+      }
+    },
+
+    // Tripo's API has no way to stop a task; it runs out and is ignored
+    async cancel() {},
+
+    rigging: {
+      async rig(modelTaskId, options) {
+        try {
+          const { taskId } = await client.createRigTask(modelTaskId, { idempotencyKey: options?.idempotencyKey });
+          return { taskId };
+        } catch (error) {
+          throw toProviderError(error);
+        }
+      },
+
+      async animate(rigTaskId, clips, options) {
+        try {
+          const presets = clips.map(clip => PRESET_BY_CLIP[clip]);
+          const { taskId } = await client.createRetargetTask(rigTaskId, presets, { idempotencyKey: options?.idempotencyKey });
+          return { taskId };
+        } catch (error) {
+          throw toProviderError(error);
+        }
+      },
+    },
+  };
+}
@@ -0,0 +1,62 @@
+import type { PhotoProfile } from '@/lib/photos';
+
+export type ThreeDProviderName = 'tripo' | 'meshy' | 'mock';
+
+// A public image URL the provider fetches itself, or the image bytes
+export type ThreeDImageInput =
+  | { url: string }
+  | { image: Buffer; contentType: string };
+
+// Photos of one person from several sides. Each extra side gives the model
+// more to go on than the front alone.
+export type ThreeDView = 'front' | 'side' | 'back';
+export type ThreeDViews = { front: ThreeDImageInput } & Partial<Record<Exclude<ThreeDView, 'front'>, ThreeDImageInput>>;
+
+export type CreateImageToModelOptions = {
+  // A repeat submission with the same key gets the task the first one started
+  // rather than a new (paid) one. Only Tripo honours it; Meshy has no
+  // equivalent and mock tasks are free.
+  idempotencyKey?: string;
+};
+
+export type ThreeDTaskStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+export type ThreeDTask = {
+  status: ThreeDTaskStatus;
+  // 0-100
+  progress: number;
+  // GLB, once succeeded
+  modelUrl?: string;
+  // Rendered preview image of the model, when the provider makes one
+  thumbnailUrl?: string;
+  // Why the task failed, when the provider says
+  error?: string;
+};
+
+// Animation clips every rigged avatar gets, by the name they carry in the GLB
+export type AvatarClip = 'Idle' | 'Walk' | 'Spin';
+
+// Turning a finished model into an animated one: a skeleton first, then
+// clips retargeted onto it. Both are tasks that poll like any other, and
+// their models are GLBs.
+export type ThreeDRigging = {
+  rig(modelTaskId: string, options?: CreateImageToModelOptions): Promise<{ taskId: string }>;
+  // The finished GLB has one clip per entry of `clips`, in that order
+  animate(rigTaskId: string, clips: readonly AvatarClip[], options?: CreateImageToModelOptions): Promise<{ taskId: string }>;
+};
+
+// An image-to-3D service. Tasks are asynchronous: create one, then poll it
+// until it succeeds or fails.
+export type ThreeDProvider = {
+  name: ThreeDProviderName;
+  // What photos should look like before they're sent
+  photoProfile: PhotoProfile;
+  createImageToModel(input: ThreeDImageInput, options?: CreateImageToModelOptions): Promise<{ taskId: string }>;
+  // One model from several photos; the task polls like any other
+  createMultiviewToModel(views: ThreeDViews, options?: CreateImageToModelOptions): Promise<{ taskId: string }>;
+  poll(taskId: string): Promise<ThreeDTask>;
+  // Best effort: stops the task if the provider supports it
+  cancel(taskId: string): Promise<void>;
+  // Only for providers that can rig their models
+  rigging?: ThreeDRigging;
+};
@@ -0,0 +1,35 @@
+// Browser-only helpers for small preview images
+
+function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new window.Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error(`Failed to load ${src}`));
+    img.src = src;
+  });
+}
+
+// Draws the shopper's photo with the garment on top, as in the try-on
+// preview, into a square JPEG data URL. Cross-origin garment images would
+// taint the canvas, so only same-site ones are drawn.
+export async function tryOnThumbnail(photoUrl: string, garmentUrl?: string, size = 96): Promise<string | undefined> {
+  try {
+    const canvas = document.createElement("canvas");
+    canvas.width = canvas.height = size;
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return undefined;
+
+    const photo = await loadImage(photoUrl);
+    const cover = Math.max(size / photo.width, size / photo.height);
+    ctx.drawImage(photo, (size - photo.width * cover) / 2, (size - photo.height * cover) / 2, photo.width * cover, photo.height * cover);
+
+    if (garmentUrl?.startsWith("/") && !garmentUrl.startsWith("//")) {
+      const garment = await loadImage(garmentUrl);
+      const contain = Math.min(size / garment.width, size / garment.height);
+      ctx.drawImage(garment, (size - garment.width * contain) / 2, (size - garment.height * contain) / 2, garment.width * contain, garment.height * contain);
+    }
+    return canvas.toDataURL("image/jpeg", 0.7);
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,296 @@
+import { collection } from '@/lib/store';
+import { TripoError } from './errors';
+import type {
+  CreateImageToModelRequest,
+  CreateMultiviewToModelRequest,
+  CreateRetargetRequest,
+  CreateRigRequest,
+  CreateTaskData,
+  StsTokenData,
+  TaskData,
+  TripoEnvelope,
+  TripoFile,
+  TripoImageInput,
+  TripoTask,
+  TripoTaskStatus,
+  TripoViews,
+  UploadData,
+} from './types';
+
+export type TripoClientConfig = {
+  apiKey: string;
+  // https://api.tripo3d.ai/v2/openapi, or a local stub
+  apiBase: string;
+  // Per attempt; image uploads get UPLOAD_TIMEOUT_MS
+  timeoutMs?: number;
+  // Extra attempts after a rate limit or server error
+  maxRetries?: number;
+};
+
+export type CreateImageToModelOptions = {
+  // Submissions with the same key within a day share one task (and one charge)
+  idempotencyKey?: string;
+  modelVersion?: string;
+};
+
+export type TripoClient = {
+  createImageToModelTask(input: TripoImageInput, options?: CreateImageToModelOptions): Promise<{ taskId: string; traceId: string }>;
+  createMultiviewToModelTask(views: TripoViews, options?: CreateImageToModelOptions): Promise<{ taskId: string; traceId: string }>;
+  createRigTask(modelTaskId: string, options?: CreateImageToModelOptions): Promise<{ taskId: string; traceId: string }>;
+  createRetargetTask(rigTaskId: string, animations: string[], options?: CreateImageToModelOptions): Promise<{ taskId: string; traceId: string }>;
+  getTask(taskId: string): Promise<TripoTask>;
+};
+
+export const TRIPO_FAILED_STATUSES: TripoTaskStatus[] = ['failed', 'cancelled', 'unknown', 'banned', 'expired'];
+
+// Tripo's "generation rate limit exceeded"
+const RATE_LIMITED_CODE = 2000;
+const TASK_NOT_FOUND_CODE = 2001;
+
+// Images above this go through an STS upload to Tripo's bucket instead of
+// the multipart upload endpoint
+const DIRECT_UPLOAD_MAX_BYTES = 100 * 1024;
+const UPLOAD_TIMEOUT_MS = 120_000;
+const SUBMISSION_TTL_MS = 24 * 60 * 60 * 1000;
+
+// Idempotency key -> the task it created. Tripo has no idempotency support of
+// its own, so this is what stops a retried or doubled submission from paying
+// for a second task.
+type TripoSubmission = { key: string; taskId: string; createdAt: string };
+
+const submissions = collection<TripoSubmission>('tripo-submissions');
+
+// Submissions in progress, so concurrent calls with one key share the request
+const globalForTripo = globalThis as typeof globalThis & {
+  __virtuFitTripoInFlight?: Map<string, Promise<{ taskId: string; traceId: string }>>;
+};
+const inFlight = (globalForTripo.__virtuFitTripoInFlight ??= new Map());
+
+type CallInit = {
+  method?: 'GET' | 'POST';
+  json?: unknown;
+  form?: FormData;
+  timeoutMs?: number;
+  // Whether the call can be sent again after a timeout, a dropped connection
+  // or a server error, when it may already have been carried out
+  repeatable: boolean;
+};
+
+// Roughly 1s, 2s, 4s, ... with jitter, or what Retry-After asks for
+function backoff(attempt: number, retryAfter: string | null): number {
+  const seconds = Number(retryAfter);
+  if (retryAfter && Number.isFinite(seconds) && seconds >= 0) return Math.min(seconds * 1000, 30_000);
+  const delay = Math.min(1000 * 2 ** attempt, 8000);
+  return delay / 2 + Math.random() * (delay / 2);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// Tripo's OpenAPI over fetch. Rate limits (code 2000, HTTP 429) are retried
+// with backoff for every call; timeouts, network and server errors only for
+// calls that are safe to repeat, so a task is never created twice by a retry.
+export function createTripoClient(config: TripoClientConfig): TripoClient {
+  const apiBase = config.apiBase.replace(/\/+$/, '');
+  const maxRetries = config.maxRetries ?? 3;
+
+  async function call<T>(path: string, init: CallInit): Promise<{ data: T; traceId: string }> {
+    for (let attempt = 0; ; attempt++) {
+      const canRetry = attempt < maxRetries;
+      let res: Response;
+      try {
+        res = await fetch(`${apiBase}${path}`, {
+          method: init.method ?? 'GET',
+          headers: {
+            Authorization: `Bearer ${config.apiKey}`,
+            ...(init.json !== undefined ? { 'Content-Type': 'application/json' } : {}),
+          },
+          body: init.json !== undefined ? JSON.stringify(init.json) : init.form,
+          signal: AbortSignal.timeout(init.timeoutMs ?? config.timeoutMs ?? 30_000),
+          cache: 'no-store',
+        });
+      } catch (error) {
+        const reason = error instanceof Error && error.name === 'TimeoutError'
+          ? 'timed out'
+          : `failed: ${error instanceof Error ? error.message : String(error)}`;
+        if (init.repeatable && canRetry) {
+          console.warn(`Tripo: ${path} ${reason}, retrying`);
+          await sleep(backoff(attempt, null));
+          continue;
+        }
+        throw new TripoError(`Tripo request ${reason}`, '');
+      }
+
+      const traceId = res.headers.get('X-Tripo-Trace-ID') || '';
+      const body = (await res.json().catch(() => null)) as TripoEnvelope<T> | null;
+      if (res.ok && body?.code === 0 && body.data !== undefined) return { data: body.data, traceId };
+
+      const rateLimited = res.status === 429 || body?.code === RATE_LIMITED_CODE;
+      if (canRetry && (rateLimited || (init.repeatable && res.status >= 500))) {
+        console.warn(`Tripo: ${path} answered ${res.status}${body?.code !== undefined ? ` code ${body.code}` : ''}, retrying. Trace ID: ${traceId}`);
+        await sleep(backoff(attempt, res.headers.get('Retry-After')));
+        continue;
+      }
+      throw TripoError.fromResponse(body, traceId, res.status);
+    }
+  }
+
+  // Large files: STS credentials for Tripo's bucket, then a direct S3 put
+  async function uploadViaSts(image: Buffer, contentType: string, ext: string): Promise<TripoFile> {
+    const { data } = await call<StsTokenData>('/upload/sts/token', { method: 'POST', json: { format: ext }, repeatable: true });
+    const { S3Client, PutObjectCommand } = await import('@aws-sdk/client-s3');
+    const s3 = new S3Client({
+      region: 'us-west-2',
+      credentials: {
+        accessKeyId: data.sts_ak,
+        secretAccessKey: data.sts_sk,
+        sessionToken: data.session_token,
+      },
+      endpoint: `https://${data.s3_host}`,
+      forcePathStyle: true,
+      requestHandler: { requestTimeout: UPLOAD_TIMEOUT_MS },
+    });
+    try {
+      await s3.send(new PutObjectCommand({
+        Bucket: data.resource_bucket,
+        Key: data.resource_uri,
+        Body: image,
+        ContentType: contentType,
+      }));
+    } catch (error) {
+      throw new TripoError(`Upload to Tripo storage failed: ${error instanceof Error ? error.message : String(error)}`, '');
+    }
+    return { type: ext, object: { bucket: data.resource_bucket, key: data.resource_uri } };
+  }
+
+  // Small files: multipart upload, referenced by file token
+  async function uploadDirect(image: Buffer, contentType: string, ext: string): Promise<TripoFile> {
+    const form = new FormData();
+    form.append('file', new Blob([image], { type: contentType }), `upload.${ext}`);
+    const { data, traceId } = await call<UploadData>('/upload', { method: 'POST', form, timeoutMs: UPLOAD_TIMEOUT_MS, repeatable: true });
+    if (!data.image_token) throw new TripoError('No image_token returned from Tripo upload', traceId);
+    return { type: ext, file_token: data.image_token };
+  }
+
+  async function createTask(request: CreateImageToModelRequest | CreateMultiviewToModelRequest | CreateRigRequest | CreateRetargetRequest) {
+    const { data, traceId } = await call<CreateTaskData>('/task', { method: 'POST', json: request, repeatable: false });
+    if (!data.task_id) throw new TripoError('No task_id returned from Tripo create task', traceId);
+    return { taskId: data.task_id, traceId };
+  }
+
+  async function getTask(taskId: string): Promise<TripoTask> {
+    const { data, traceId } = await call<TaskData>(`/task/${encodeURIComponent(taskId)}`, { repeatable: true });
+    const modelUrl = data.output?.pbr_model ?? data.output?.model;
+    const thumbnailUrl = data.output?.rendered_image;
+    if (data.status === 'success' && !modelUrl) {
+      console.error('Tripo: task succeeded but no model URL found. data.output:', JSON.stringify(data.output));
+      throw new TripoError('Tripo task succeeded but no model URL found', traceId);
+    }
+    return {
+      status: data.status,
+      progress: typeof data.progress === 'number' ? data.progress : 0,
+      ...(modelUrl ? { modelUrl } : {}),
+      ...(thumbnailUrl ? { thumbnailUrl } : {}),
+      traceId,
+    };
+  }
+
+  async function toFile(input: TripoImageInput): Promise<TripoFile> {
+    if ('url' in input) {
+      // Tripo fetches the image itself; it still wants to know the format
+      const ext = /\.(png|webp|jpe?g)(?:[?#]|$)/i.exec(input.url)?.[1].toLowerCase().replace('jpeg', 'jpg');
+      return { type: ext ?? 'jpg', url: input.url };
+    }
+    const ext = input.contentType.split('/')[1];
+    return input.image.length > DIRECT_UPLOAD_MAX_BYTES
+      ? uploadViaSts(input.image, input.contentType, ext)
+      : uploadDirect(input.image, input.contentType, ext);
+  }
+
+  type Submission =
+    | { type: 'image_to_model'; input: TripoImageInput }
+    | { type: 'multiview_to_model'; views: TripoViews }
+    | CreateRigRequest
+    | CreateRetargetRequest;
+
+  async function submit(submission: Submission, modelVersion?: string) {
+    // Rigging works on an existing task, so there is nothing to upload
+    if (submission.type === 'animate_rig' || submission.type === 'animate_retarget') return createTask(submission);
+    const version = modelVersion ? { model_version: modelVersion } : {};
+    if (submission.type === 'image_to_model') {
+      return createTask({ type: 'image_to_model', file: await toFile(submission.input), ...version });
+    }
+    // Uploaded one after another, to stay clear of the rate limit
+    const { front, left, back, right } = submission.views;
+    const slot = async (input?: TripoImageInput) => (input ? toFile(input) : {});
+    const files: CreateMultiviewToModelRequest['files'] = [await toFile(front), await slot(left), await slot(back), await slot(right)];
+    return createTask({ type: 'multiview_to_model', files, ...version });
+  }
+
+  // The task an earlier submission with this key started, unless it has
+  // since failed or been forgotten by Tripo
+  async function previousTask(key: string): Promise<{ taskId: string; traceId: string } | undefined> {
+    const previous = await submissions.get(key);
+    if (!previous || Date.parse(previous.createdAt) + SUBMISSION_TTL_MS < Date.now()) return undefined;
+    try {
+      const task = await getTask(previous.taskId);
+      if (TRIPO_FAILED_STATUSES.includes(task.status)) return undefined;
+      return { taskId: previous.taskId, traceId: task.traceId };
+    } catch (error) {
+      if (error instanceof TripoError && error.code === TASK_NOT_FOUND_CODE) return undefined;
+      throw error;
+    }
+  }
+
+  async function submitOnce(key: string, submission: Submission, modelVersion?: string) {
+    const reused = await previousTask(key);
+    if (reused) return reused;
+    const created = await submit(submission, modelVersion);
+    const now = Date.now();
+    for (const submission of await submissions.list()) {
+      if (Date.parse(submission.createdAt) + SUBMISSION_TTL_MS < now) await submissions.delete(submission.key);
+    }
+    await submissions.put(key, { key, taskId: created.taskId, createdAt: new Date(now).toISOString() });
+    return created;
+  }
+
+  function submitIdempotent(submission: Submission, options: CreateImageToModelOptions) {
+    const { idempotencyKey: key, modelVersion } = options;
+    if (!key) return submit(submission, modelVersion);
+    const pending = inFlight.get(key);
+    if (pending) return pending;
+    const run = submitOnce(key, submission, modelVersion).finally(() => inFlight.delete(key));
+    inFlight.set(key, run);
+    return run;
+  }
+
+  return {
+    // Starts an image_to_model task from a public URL or from image bytes
+    createImageToModelTask(input, options = {}) {
+      return submitIdempotent({ type: 'image_to_model', input }, options);
+    },
+
+    // Starts a multiview_to_model task from photos of the same person taken
+    // from the front and at least one other side
+    createMultiviewToModelTask(views, options = {}) {
+      return submitIdempotent({ type: 'multiview_to_model', views }, options);
+    },
+
+    // Starts an animate_rig task for the model a finished model task made
+    createRigTask(modelTaskId, options = {}) {
+      return submitIdempotent({ type: 'animate_rig', original_model_task_id: modelTaskId, out_format: 'glb' }, options);
+    },
+
+    // Starts an animate_retarget task putting preset animations on a rigged
+    // model, baked into one GLB
+    createRetargetTask(rigTaskId, animations, options = {}) {
+      return submitIdempotent(
+        { type: 'animate_retarget', original_model_task_id: rigTaskId, animations, out_format: 'glb', bake_animation: true },
+        options,
+      );
+    },
+
+    getTask,
+  };
+}
@@ -0,0 +1,71 @@
+// Tripo error code mapping for user-friendly messages
+export const TRIPO_ERROR_MAP: Record<number, { message: string; suggestion: string }> = {
+  1002: {
+    message: 'Authentication failed. Your API key is missing, invalid, or you have no API credits.',
+    suggestion: 'Check your API key and ensure you have sufficient API credits (not web credits).',
+  },
+  2000: {
+    message: 'You have exceeded the generation rate limit.',
+    suggestion: 'Please retry later. Consider implementing exponential backoff.',
+  },
+  2001: {
+    message: 'Task not found.',
+    suggestion: 'Check if you passed the correct task id.',
+  },
+  2002: {
+    message: 'The task type is unsupported.',
+    suggestion: 'Check if you passed the correct task type.',
+  },
+  2003: {
+    message: 'The input file is empty.',
+    suggestion: 'Check if you passed file, or it may be rejected by the firewall.',
+  },
+  2004: {
+    message: 'The file type is unsupported.',
+    suggestion: 'Check if the file you input is supported.',
+  },
+  2008: {
+    message: 'Input violates content policy.',
+    suggestion: 'Modify your input and retry.',
+  },
+  2010: {
+    message: 'You need more credits to start a new task.',
+    suggestion: 'Review your usage at Billing and purchase more API credits.',
+  },
+  2015: {
+    message: 'The version has been deprecated.',
+    suggestion: 'Try a higher model version.',
+  },
+};
+
+// Type for Tripo error responses
+export type TripoErrorBody = { code: number; message?: string; suggestion?: string };
+
+// A failed Tripo call. `code` is Tripo's error code when the API answered
+// with one, and `status` the HTTP status it answered with; network failures
+// have neither. Nothing is logged here, since callers handle some errors,
+// such as a task Tripo no longer knows.
+export class TripoError extends Error {
+  readonly code?: number;
+  readonly suggestion?: string;
+  readonly traceId: string;
+  readonly status?: number;
+
+  constructor(message: string, traceId: string, code?: number, suggestion?: string, status?: number) {
+    super(message);
+    this.name = 'TripoError';
+    this.code = code;
+    this.suggestion = suggestion;
+    this.traceId = traceId;
+    this.status = status;
+  }
+
+  static fromResponse(body: unknown, traceId: string, httpStatus?: number): TripoError {
+    if (typeof body !== 'object' || body === null || typeof (body as TripoErrorBody).code !== 'number') {
+      return new TripoError(httpStatus ? `Tripo returned HTTP ${httpStatus}` : 'Unknown Tripo API error', traceId, undefined, undefined, httpStatus);
+    }
+    const { code, message, suggestion } = body as TripoErrorBody;
+    const mapped = TRIPO_ERROR_MAP[code];
+    return new TripoError(mapped?.message || message || 'Tripo API error', traceId, code, mapped?.suggestion || suggestion, httpStatus);
+  }
+}
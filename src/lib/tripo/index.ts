@@ -0,0 +1,17 @@
+import { createTripoClient, type TripoClient } from './client';
+import { TripoError } from './errors';
+
+export { createTripoClient, TRIPO_FAILED_STATUSES, type CreateImageToModelOptions, type TripoClient, type TripoClientConfig } from './client';
+export { TRIPO_ERROR_MAP, TripoError, type TripoErrorBody } from './errors';
+export type * from './types';
+
+const DEFAULT_API_BASE = 'https://api.tripo3d.ai/v2/openapi';
+
+// TRIPO_API_KEY   API key (required)
+// TRIPO_API_BASE  default https://api.tripo3d.ai/v2/openapi; point it at a
+//                 local stub to test without spending credits
+export function getTripoClient(env: NodeJS.ProcessEnv = process.env): TripoClient {
+  const apiKey = env.TRIPO_API_KEY?.trim();
+  if (!apiKey) throw new TripoError('Server configuration error: Missing Tripo API key', '');
+  return createTripoClient({ apiKey, apiBase: env.TRIPO_API_BASE || DEFAULT_API_BASE });
+}
@@ -0,0 +1,95 @@
+// Request and response shapes for the parts of Tripo's OpenAPI
+// (https://platform.tripo3d.ai/docs) the client uses
+
+// Every response is wrapped like this; `code` is 0 on success
+export type TripoEnvelope<T> = { code: number; data?: T; message?: string; suggestion?: string };
+
+// One input image; `type` is its format ("jpg", "png", "webp")
+export type TripoFile = { type: string } & (
+  | { url: string }
+  // Token from POST /upload
+  | { file_token: string }
+  // Key in Tripo's bucket after an STS upload
+  | { object: { bucket: string; key: string } }
+);
+
+export type CreateImageToModelRequest = {
+  type: 'image_to_model';
+  file: TripoFile;
+  model_version?: string;
+};
+
+// Exactly four slots in the order front, left, back, right; only the front
+// is required, and empty slots are sent as {}
+export type CreateMultiviewToModelRequest = {
+  type: 'multiview_to_model';
+  files: [TripoFile, TripoFile | Record<string, never>, TripoFile | Record<string, never>, TripoFile | Record<string, never>];
+  model_version?: string;
+};
+
+// Fits a skeleton to the model a finished model task made
+export type CreateRigRequest = {
+  type: 'animate_rig';
+  original_model_task_id: string;
+  out_format: 'glb';
+};
+
+// Applies preset animations ("preset:idle", "preset:walk", ...) to a rigged
+// model, one clip each
+export type CreateRetargetRequest = {
+  type: 'animate_retarget';
+  original_model_task_id: string;
+  animations: string[];
+  out_format: 'glb';
+  bake_animation: boolean;
+};
+
+export type CreateTaskData = { task_id: string };
+
+export type TripoTaskStatus = 'queued' | 'running' | 'success' | 'failed' | 'cancelled' | 'unknown' | 'banned' | 'expired';
+
+export type TaskData = {
+  task_id: string;
+  type: string;
+  status: TripoTaskStatus;
+  // 0-100
+  progress: number;
+  // Model tasks report pbr_model; rig and retarget tasks only model
+  output?: { model?: string; pbr_model?: string; rendered_image?: string };
+  create_time?: number;
+};
+
+export type UploadData = { image_token: string };
+
+// Temporary credentials for putting one object into Tripo's bucket
+export type StsTokenData = {
+  s3_host: string;
+  resource_bucket: string;
+  resource_uri: string;
+  session_token: string;
+  sts_ak: string;
+  sts_sk: string;
+};
+
+// A public image URL Tripo fetches itself, or the image bytes
+export type TripoImageInput =
+  | { url: string }
+  | { image: Buffer; contentType: string };
+
+// Photos for a multiview task, as Tripo names the sides
+export type TripoViews = {
+  front: TripoImageInput;
+  left?: TripoImageInput;
+  back?: TripoImageInput;
+  right?: TripoImageInput;
+};
+
+export type TripoTask = {
+  status: TripoTaskStatus;
+  // 0-100 as reported by Tripo
+  progress: number;
+  modelUrl?: string;
+  // Preview render of the model
+  thumbnailUrl?: string;
+  traceId: string;
+};
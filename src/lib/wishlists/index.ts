@@ -0,0 +1,188 @@
+import { randomBytes } from 'crypto';
+import { getProduct } from '@/lib/catalog';
+import type { Product } from '@/lib/catalog/types';
+import { collection } from '@/lib/store';
+import type { ResolvedWishlist, SharedWishlist, Wishlist, WishlistMerge, WishlistSummary } from './types';
+
+export * from './types';
+
+export const FAVORITES_NAME = 'Favorites';
+export const MAX_WISHLISTS = 20;
+export const MAX_WISHLIST_ITEMS = 200;
+const MAX_NAME_LENGTH = 60;
+
+export class WishlistError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'WishlistError';
+    this.status = status;
+  }
+}
+
+const wishlists = collection<Wishlist>('wishlists');
+
+export function parseWishlistName(value: unknown): string | null {
+  if (typeof value !== 'string') return null;
+  const name = value.trim().replace(/\s+/g, ' ');
+  return name && name.length <= MAX_NAME_LENGTH ? name : null;
+}
+
+export function parseProductId(value: unknown): string | null {
+  return typeof value === 'string' && /^[\w-]{1,64}$/.test(value) ? value : null;
+}
+
+function newWishlist(ownerKey: string, name: string, isDefault: boolean): Wishlist {
+  const now = new Date().toISOString();
+  return { id: `wl_${randomBytes(8).toString('hex')}`, ownerKey, name, isDefault, productIds: [], createdAt: now, updatedAt: now };
+}
+
+// Favorites first, then the rest oldest first
+export async function listWishlists(ownerKey: string | undefined): Promise<Wishlist[]> {
+  if (!ownerKey) return [];
+  return (await wishlists.list())
+    .filter(list => list.ownerKey === ownerKey)
+    .sort((a, b) => Number(b.isDefault) - Number(a.isDefault) || a.createdAt.localeCompare(b.createdAt));
+}
+
+// Every shopper's favorites, for the price and stock watcher
+export async function listAllFavorites(): Promise<Wishlist[]> {
+  return (await wishlists.list()).filter(list => list.isDefault);
+}
+
+// Lists belong to the shopper that made them; anyone else gets a 404
+export async function getWishlist(ownerKey: string | undefined, id: string): Promise<Wishlist> {
+  const list = await wishlists.get(id);
+  if (!list || !ownerKey || list.ownerKey !== ownerKey) throw new WishlistError(`Unknown wishlist ${id}`, 404);
+  return list;
+}
+
+// The favorites list is created the first time it is needed. Creation checks
+// again under the collection lock, so concurrent first requests share one list.
+export async function getFavorites(ownerKey: string | undefined): Promise<Wishlist> {
+  if (!ownerKey) return newWishlist('', FAVORITES_NAME, true);
+  const existing = (await listWishlists(ownerKey)).find(list => list.isDefault);
+  if (existing) return existing;
+  return wishlists.transact(data => {
+    const current = Object.values(data).find(list => list.ownerKey === ownerKey && list.isDefault);
+    if (current) return current;
+    const created = newWishlist(ownerKey, FAVORITES_NAME, true);
+    data[created.id] = created;
+    return created;
+  });
+}
+
+export async function createWishlist(ownerKey: string, name: string): Promise<Wishlist> {
+  const existing = await listWishlists(ownerKey);
+  if (existing.length >= MAX_WISHLISTS) throw new WishlistError(`At most ${MAX_WISHLISTS} wishlists`, 422);
+  if (name.toLowerCase() === FAVORITES_NAME.toLowerCase() || existing.some(list => list.name.toLowerCase() === name.toLowerCase())) {
+    throw new WishlistError(`You already have a wishlist called "${name}"`, 409);
+  }
+  const created = newWishlist(ownerKey, name, false);
+  return wishlists.put(created.id, created);
+}
+
+async function modify(ownerKey: string, id: string, fn: (list: Wishlist) => Wishlist): Promise<Wishlist> {
+  await getWishlist(ownerKey, id);
+  const updated = await wishlists.update(id, list => (list ? { ...fn(list), updatedAt: new Date().toISOString() } : list));
+  if (!updated) throw new WishlistError(`Unknown wishlist ${id}`, 404);
+  return updated;
+}
+
+export async function renameWishlist(ownerKey: string, id: string, name: string): Promise<Wishlist> {
+  const list = await getWishlist(ownerKey, id);
+  if (list.isDefault) throw new WishlistError('Favorites cannot be renamed', 422);
+  const taken = (await listWishlists(ownerKey)).some(other => other.id !== id && other.name.toLowerCase() === name.toLowerCase());
+  if (taken || name.toLowerCase() === FAVORITES_NAME.toLowerCase()) {
+    throw new WishlistError(`You already have a wishlist called "${name}"`, 409);
+  }
+  return modify(ownerKey, id, current => ({ ...current, name }));
+}
+
+export async function deleteWishlist(ownerKey: string, id: string): Promise<void> {
+  const list = await getWishlist(ownerKey, id);
+  if (list.isDefault) throw new WishlistError('Favorites cannot be deleted', 422);
+  await wishlists.delete(id);
+}
+
+// Adding a product that is already on the list is a no-op
+export async function addToWishlist(ownerKey: string, id: string, productIds: string[]): Promise<Wishlist> {
+  for (const productId of productIds) {
+    if (!(await getProduct(productId))) throw new WishlistError(`Unknown product ${productId}`, 404);
+  }
+  const list = await getWishlist(ownerKey, id);
+  const merged = [...new Set([...list.productIds, ...productIds])];
+  if (merged.length > MAX_WISHLIST_ITEMS) throw new WishlistError(`At most ${MAX_WISHLIST_ITEMS} items per wishlist`, 422);
+  return modify(ownerKey, id, current => ({ ...current, productIds: [...new Set([...current.productIds, ...productIds])] }));
+}
+
+export function removeFromWishlist(ownerKey: string, id: string, productId: string): Promise<Wishlist> {
+  return modify(ownerKey, id, current => ({ ...current, productIds: current.productIds.filter(p => p !== productId) }));
+}
+
+// Starts sharing (keeping an existing link) or stops it; a list shared
+// again after being unshared gets a new link
+export function setWishlistShared(ownerKey: string, id: string, shared: boolean): Promise<Wishlist> {
+  return modify(ownerKey, id, current => {
+    const next = { ...current };
+    if (!shared) delete next.shareToken;
+    else next.shareToken ??= randomBytes(16).toString('base64url');
+    return next;
+  });
+}
+
+// Moves an anonymous shopper's lists to their account on sign-in. Favorites
+// and lists with the same name are combined; the rest change owner. Returns
+// the combined lists, whose ids are gone.
+export async function claimWishlists(fromKey: string, toKey: string): Promise<WishlistMerge[]> {
+  if (fromKey === toKey) return [];
+  const incoming = await listWishlists(fromKey);
+  if (!incoming.length) return [];
+  const existing = await listWishlists(toKey);
+  const merges: WishlistMerge[] = [];
+  for (const list of incoming) {
+    const target = list.isDefault
+      ? existing.find(other => other.isDefault)
+      : existing.find(other => !other.isDefault && other.name.toLowerCase() === list.name.toLowerCase());
+    if (target) {
+      await wishlists.update(target.id, current => current && {
+        ...current,
+        productIds: [...new Set([...current.productIds, ...list.productIds])].slice(0, MAX_WISHLIST_ITEMS),
+        updatedAt: new Date().toISOString(),
+      });
+      await wishlists.delete(list.id);
+      merges.push({ fromId: list.id, toId: target.id });
+    } else {
+      await wishlists.update(list.id, current => current && { ...current, ownerKey: toKey });
+    }
+  }
+  return merges;
+}
+
+async function resolveProducts(productIds: string[]): Promise<{ products: Product[]; unavailableCount: number }> {
+  const found = await Promise.all(productIds.map(id => getProduct(id)));
+  const products = found.filter((product): product is Product => !!product);
+  return { products, unavailableCount: productIds.length - products.length };
+}
+
+// Joins a list with the live catalog, so prices and stock are always current
+export async function resolveWishlist(list: Wishlist): Promise<ResolvedWishlist> {
+  const resolved: Partial<Wishlist> & Omit<ResolvedWishlist, 'ownerKey'> = { ...list, ...(await resolveProducts(list.productIds)) };
+  delete resolved.ownerKey;
+  return resolved;
+}
+
+export function toWishlistSummary(list: Wishlist): WishlistSummary {
+  const summary: Partial<Wishlist> & Omit<WishlistSummary, 'ownerKey'> = { ...list, itemCount: list.productIds.length };
+  delete summary.ownerKey;
+  delete summary.productIds;
+  return summary;
+}
+
+export async function getSharedWishlist(token: string): Promise<SharedWishlist | undefined> {
+  const list = (await wishlists.list()).find(l => l.shareToken && l.shareToken === token);
+  if (!list) return undefined;
+  const { products } = await resolveProducts(list.productIds);
+  return { name: list.name, products, updatedAt: list.updatedAt };
+}
@@ -0,0 +1,35 @@
+import type { Product } from '@/lib/catalog/types';
+
+export type Wishlist = {
+  id: string;
+  // shopperKey() of the owner: an anonymous session or "user:<id>"
+  ownerKey: string;
+  name: string;
+  // The shopper's favorites; every owner has exactly one
+  isDefault: boolean;
+  // Product ids, most recently added last
+  productIds: string[];
+  // Present while the list is shared read-only via /wishlists/shared/<token>
+  shareToken?: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+// A wishlist joined with the live catalog
+export type ResolvedWishlist = Omit<Wishlist, 'ownerKey'> & {
+  products: Product[];
+  // Saved ids that are no longer in the catalog
+  unavailableCount: number;
+};
+
+export type WishlistSummary = Omit<Wishlist, 'ownerKey' | 'productIds'> & { itemCount: number };
+
+// A list folded into another when an anonymous shopper signs in
+export type WishlistMerge = { fromId: string; toId: string };
+
+// What anyone with the share link sees: no owner, no ids of other lists
+export type SharedWishlist = {
+  name: string;
+  products: Product[];
+  updatedAt: string;
+};